@@ -0,0 +1,529 @@
+import type { RiskCheckResult } from '@trenchable/shared';
+import { registerCheck, recordSource } from './registry.js';
+import { checkMintAuthority } from '../services/mint-authority.service.js';
+import { checkFreezeAuthority } from '../services/freeze-authority.service.js';
+import { getAuthorityHistoryCached, applyAuthorityHistory } from '../services/authority-history.service.js';
+import { checkLPStatus } from '../services/lp-status.service.js';
+import { checkHolderConcentration } from '../services/holder-analysis.service.js';
+import { checkHoneypot } from '../services/honeypot.service.js';
+import { checkDevWallet } from '../services/dev-wallet.service.js';
+import { checkBundleDetection } from '../services/bundle-detect.service.js';
+import { checkWalletClusters } from '../services/wallet-cluster.service.js';
+import { checkSocialSentiment } from '../services/social-sentiment.service.js';
+import { checkRugPattern } from '../services/rug-pattern.service.js';
+import { checkTokenTax } from '../services/token-tax.service.js';
+import { checkTokenExtensions } from '../services/token-extensions.service.js';
+import { checkMetadataIntegrity } from '../services/metadata-integrity.service.js';
+import { measureRoundTrip, applyRoundTrip } from '../services/round-trip.service.js';
+import { checkSniperBots } from '../services/sniper-bot.service.js';
+import type { HeliusAsset } from '../services/external/helius.js';
+import { extractGoPlusRiskFlags, type GoPlusResult } from '../services/external/goplus.js';
+import type { DexScreenerData } from '../services/external/dexscreener.js';
+import { extractRugcheckRisks, extractLpLockData, type RugcheckReport } from '../services/external/rugcheck.js';
+
+// ─── Built-in deep scan checks (on-chain, enhanced with external API data) ───
+// Registration order is the order checks appear in the ScanResponse.
+
+registerCheck({
+  id: 'MINT_AUTHORITY',
+  modes: ['deep'],
+  weight: 0.14,
+  requires: ['mintInfo', 'rpc', 'goplus', 'helius'],
+  // The SetAuthority history walk, shared with FREEZE_AUTHORITY, pages through the mint's signatures
+  heavy: true,
+  run: async (ctx) => {
+    const [result, history] = await Promise.all([checkMintAuthority(ctx), getAuthorityHistoryCached(ctx)]);
+    return enhanceMintAuthCheck(applyAuthorityHistory(result, history, 'mint'), ctx.external.goPlus, ctx.external.helius);
+  },
+});
+
+registerCheck({
+  id: 'FREEZE_AUTHORITY',
+  modes: ['deep'],
+  weight: 0.10,
+  requires: ['mintInfo', 'rpc', 'goplus', 'helius'],
+  heavy: true,
+  run: async (ctx) => {
+    const [result, history] = await Promise.all([checkFreezeAuthority(ctx), getAuthorityHistoryCached(ctx)]);
+    return enhanceFreezeAuthCheck(applyAuthorityHistory(result, history, 'freeze'), ctx.external.goPlus, ctx.external.helius);
+  },
+});
+
+registerCheck({
+  id: 'LP_STATUS',
+  modes: ['deep'],
+  weight: 0.15,
+  requires: ['rpc', 'rugcheck', 'dexscreener'],
+  run: async (ctx) => {
+    const rugcheckLp = ctx.external.rugcheck ? extractLpLockData(ctx.external.rugcheck) : null;
+    return enhanceLPCheck(await checkLPStatus(ctx, ctx.external.dexData), rugcheckLp, ctx.external.dexData);
+  },
+});
+
+registerCheck({
+  id: 'TOP_HOLDERS',
+  modes: ['deep'],
+  weight: 0.12,
+  requires: ['mintInfo', 'rpc', 'goplus'],
+  heavy: true,
+  run: async (ctx) => enhanceHolderCheck(await checkHolderConcentration(ctx), ctx.external.goPlus),
+});
+
+registerCheck({
+  id: 'HONEYPOT',
+  modes: ['deep'],
+  weight: 0.08,
+  requires: ['goplus'],
+  run: async (ctx) => {
+    const result = await checkHoneypot(ctx);
+    // The Jupiter quote is the only source of this check; 'unknown' means it failed
+    recordSource(ctx, 'jupiter', result.status !== 'unknown');
+    return enhanceHoneypotCheck(result, ctx.external.goPlus);
+  },
+});
+
+registerCheck({
+  id: 'DEV_WALLET',
+  modes: ['deep'],
+  weight: 0.08,
+  requires: ['mintInfo', 'rpc', 'goplus'],
+  heavy: true,
+  run: async (ctx) => enhanceDevWalletCheck(await checkDevWallet(ctx), ctx.external.goPlus),
+});
+
+registerCheck({
+  id: 'BUNDLE_DETECTION',
+  modes: ['deep'],
+  weight: 0.10,
+  requires: ['mintInfo', 'rpc'],
+  heavy: true,
+  run: (ctx) => checkBundleDetection(ctx),
+});
+
+registerCheck({
+  id: 'WALLET_CLUSTER',
+  modes: ['deep'],
+  weight: 0.07,
+  requires: ['mintInfo', 'rpc'],
+  heavy: true,
+  run: (ctx) => checkWalletClusters(ctx),
+});
+
+registerCheck({
+  id: 'SOCIAL_SENTIMENT',
+  modes: ['deep'],
+  weight: 0.04,
+  requires: ['rpc', 'dexscreener', 'rugcheck'],
+  run: async (ctx) => enhanceSocialCheck(
+    await checkSocialSentiment(ctx, ctx.external.dexData),
+    ctx.external.dexData,
+    ctx.external.rugcheck
+  ),
+});
+
+registerCheck({
+  id: 'RUG_PATTERN',
+  modes: ['deep'],
+  weight: 0.05,
+  requires: ['mintInfo', 'rpc', 'goplus', 'rugcheck'],
+  heavy: true,
+  run: async (ctx) => {
+    const { goPlus, rugcheck } = ctx.external;
+    const goPlusFlags = goPlus ? extractGoPlusRiskFlags(goPlus) : [];
+    const rugcheckFlags = rugcheck ? extractRugcheckRisks(rugcheck) : [];
+    return enhanceRugPatternCheck(await checkRugPattern(ctx), goPlusFlags, rugcheckFlags, rugcheck);
+  },
+});
+
+registerCheck({
+  id: 'TOKEN_TAX',
+  modes: ['deep'],
+  weight: 0.04,
+  requires: ['rpc', 'jupiter', 'dexscreener'],
+  run: async (ctx) => {
+    const [result, roundTrip] = await Promise.all([
+      checkTokenTax(ctx),
+      measureRoundTrip(ctx.tokenMint.toBase58(), ctx.mintInfo?.decimals ?? 6, ctx.external.dexData).catch(() => null),
+    ]);
+    recordSource(ctx, 'jupiter', roundTrip !== null);
+    return applyRoundTrip(result, roundTrip);
+  },
+});
+
+registerCheck({
+  id: 'TOKEN_EXTENSIONS',
+  modes: ['deep'],
+  weight: 0.06,
+  requires: ['mintInfo', 'rpc'],
+  run: (ctx) => checkTokenExtensions(ctx),
+});
+
+registerCheck({
+  id: 'METADATA_INTEGRITY',
+  modes: ['deep'],
+  weight: 0.04,
+  requires: ['mintInfo', 'rpc', 'helius', 'goplus', 'rugcheck', 'offChainMeta'],
+  run: (ctx) => checkMetadataIntegrity(ctx),
+});
+
+registerCheck({
+  id: 'SNIPER_BOTS',
+  modes: ['deep'],
+  weight: 0.03,
+  requires: ['mintInfo', 'rpc'],
+  heavy: true,
+  run: (ctx) => checkSniperBots(ctx),
+});
+
+// --- Enhancement functions that merge external API data into individual checks ---
+
+function enhanceMintAuthCheck(
+  original: RiskCheckResult,
+  goPlusData: GoPlusResult | null,
+  heliusAsset: HeliusAsset | null
+): RiskCheckResult {
+  // If the RPC check succeeded, keep it
+  if (original.status !== 'unknown') return original;
+
+  // Fallback: use GoPlus mintable status
+  if (goPlusData?.mintable) {
+    const isMintable = goPlusData.mintable.status === '1';
+    const authority = goPlusData.mintable.authority?.[0]?.address || null;
+    return {
+      ...original,
+      status: isMintable ? 'danger' : 'safe',
+      score: isMintable ? 100 : 0,
+      details: { mintAuthority: authority, isRevoked: !isMintable, source: 'GoPlus' },
+      message: isMintable
+        ? `Mint authority is active (${authority || 'unknown'}) — more tokens can be minted`
+        : 'Mint authority is revoked — no new tokens can be minted (via GoPlus)',
+    };
+  }
+
+  // Fallback: use Helius DAS mint_authority
+  if (heliusAsset?.token_info) {
+    const authority = heliusAsset.token_info.mint_authority;
+    const isRevoked = !authority;
+    return {
+      ...original,
+      status: isRevoked ? 'safe' : 'danger',
+      score: isRevoked ? 0 : 100,
+      details: { mintAuthority: authority || null, isRevoked, source: 'Helius' },
+      message: isRevoked
+        ? 'Mint authority is revoked — no new tokens can be minted (via Helius)'
+        : `Mint authority is active (${authority}) — more tokens can be minted`,
+    };
+  }
+
+  return original;
+}
+
+function enhanceFreezeAuthCheck(
+  original: RiskCheckResult,
+  goPlusData: GoPlusResult | null,
+  heliusAsset: HeliusAsset | null
+): RiskCheckResult {
+  if (original.status !== 'unknown') return original;
+
+  // Fallback: use GoPlus freezable status
+  if (goPlusData?.freezable) {
+    const isFreezable = goPlusData.freezable.status === '1';
+    const authority = goPlusData.freezable.authority?.[0]?.address || null;
+    return {
+      ...original,
+      status: isFreezable ? 'danger' : 'safe',
+      score: isFreezable ? 80 : 0,
+      details: { freezeAuthority: authority, isRevoked: !isFreezable, source: 'GoPlus' },
+      message: isFreezable
+        ? `Freeze authority is active (${authority || 'unknown'}) — holder wallets can be frozen`
+        : 'Freeze authority is revoked — wallets cannot be frozen (via GoPlus)',
+    };
+  }
+
+  // Fallback: use Helius DAS freeze_authority
+  if (heliusAsset?.token_info) {
+    const authority = heliusAsset.token_info.freeze_authority;
+    const isRevoked = !authority;
+    return {
+      ...original,
+      status: isRevoked ? 'safe' : 'danger',
+      score: isRevoked ? 0 : 80,
+      details: { freezeAuthority: authority || null, isRevoked, source: 'Helius' },
+      message: isRevoked
+        ? 'Freeze authority is revoked — wallets cannot be frozen (via Helius)'
+        : `Freeze authority is active (${authority}) — holder wallets can be frozen`,
+    };
+  }
+
+  return original;
+}
+
+function enhanceHolderCheck(
+  original: RiskCheckResult,
+  goPlusData: GoPlusResult | null
+): RiskCheckResult {
+  if (original.status !== 'unknown' || !goPlusData?.holders?.length) return original;
+
+  // Use GoPlus holder data as fallback
+  const holders = goPlusData.holders;
+  const topPct = parseFloat(holders[0]?.percent || '0') * 100;
+  const top10Pct = holders.slice(0, 10).reduce((sum, h) => sum + parseFloat(h.percent || '0'), 0) * 100;
+
+  let score: number;
+  let status: 'safe' | 'warning' | 'danger';
+  let message: string;
+
+  if (topPct > 15) {
+    score = 95;
+    status = 'danger';
+    message = `Top holder owns ${topPct.toFixed(1)}% of supply — extreme concentration risk (via GoPlus)`;
+  } else if (top10Pct > 75) {
+    score = 90;
+    status = 'danger';
+    message = `Top 10 holders own ${top10Pct.toFixed(1)}% — very high concentration (via GoPlus)`;
+  } else if (top10Pct > 50) {
+    score = 50;
+    status = 'warning';
+    message = `Top 10 holders own ${top10Pct.toFixed(1)}% — moderate concentration (via GoPlus)`;
+  } else if (top10Pct > 30) {
+    score = 25;
+    status = 'warning';
+    message = `Top 10 holders own ${top10Pct.toFixed(1)}% — slight concentration (via GoPlus)`;
+  } else {
+    score = 0;
+    status = 'safe';
+    message = `Top 10 holders own ${top10Pct.toFixed(1)}% — well distributed (via GoPlus)`;
+  }
+
+  return {
+    ...original,
+    score,
+    status,
+    message,
+    details: {
+      source: 'GoPlus',
+      holderCount: goPlusData.holder_count,
+      top1Pct: topPct,
+      top10Pct,
+      holders: holders.slice(0, 5).map(h => ({
+        address: h.address,
+        percentage: (parseFloat(h.percent || '0') * 100).toFixed(2),
+        locked: h.is_locked === 1,
+      })),
+    },
+  };
+}
+
+function enhanceDevWalletCheck(
+  original: RiskCheckResult,
+  goPlusData: GoPlusResult | null
+): RiskCheckResult {
+  if (original.status !== 'unknown' || !goPlusData) return original;
+
+  const creatorPct = parseFloat(goPlusData.creator_percent || '0') * 100;
+  const creatorAddr = goPlusData.creator_address;
+  const ownerPct = parseFloat(goPlusData.owner_percent || '0') * 100;
+
+  if (!creatorAddr) return original;
+
+  let score: number;
+  let status: 'safe' | 'warning' | 'danger';
+  let message: string;
+
+  if (creatorPct > 5 || ownerPct > 5) {
+    score = 80;
+    status = 'danger';
+    message = `Creator holds ${creatorPct.toFixed(1)}% of supply — high risk (via GoPlus)`;
+  } else if (creatorPct > 1 || ownerPct > 1) {
+    score = 40;
+    status = 'warning';
+    message = `Creator holds ${creatorPct.toFixed(1)}% of supply (via GoPlus)`;
+  } else {
+    score = 0;
+    status = 'safe';
+    message = `Creator holds ${creatorPct.toFixed(2)}% of supply — minimal risk (via GoPlus)`;
+  }
+
+  return {
+    ...original,
+    score,
+    status,
+    message,
+    details: {
+      source: 'GoPlus',
+      creator: creatorAddr,
+      creatorPercent: creatorPct,
+      ownerPercent: ownerPct,
+      creatorBalance: goPlusData.creator_balance,
+    },
+  };
+}
+
+function enhanceLPCheck(
+  original: RiskCheckResult,
+  rugcheckLp: ReturnType<typeof extractLpLockData>,
+  dexData: DexScreenerData | null
+): RiskCheckResult {
+  if (!rugcheckLp && !dexData) return original;
+
+  const details = { ...original.details };
+  let { score, status, message } = original;
+
+  if (rugcheckLp) {
+    details.rugcheckLpLockedPct = rugcheckLp.lpLockedPct;
+    details.rugcheckLpBurnedPct = rugcheckLp.lpBurnedPct;
+    details.rugcheckTotalLiquidity = rugcheckLp.totalLiquidity;
+    details.rugcheckRemovableLiquidityPct = rugcheckLp.removableLiquidityPct;
+  }
+
+  // Rugcheck's liquidity-weighted figures only stand in when no pool was analyzed on-chain
+  if (rugcheckLp && !details.pools) {
+    const totalSecured = rugcheckLp.lpLockedPct + rugcheckLp.lpBurnedPct;
+
+    if (totalSecured > 95 && score > 10) {
+      score = 5;
+      status = 'safe';
+      message = `LP is ${totalSecured.toFixed(0)}% secured (${rugcheckLp.lpBurnedPct.toFixed(0)}% burned, ${rugcheckLp.lpLockedPct.toFixed(0)}% locked)`;
+    } else if (totalSecured > 50 && score > 40) {
+      score = 30;
+      status = 'warning';
+      message = `LP is ${totalSecured.toFixed(0)}% secured — partially locked/burned`;
+    }
+  }
+
+  if (dexData?.liquidity) {
+    details.liquidityUsd = dexData.liquidity;
+  }
+
+  return { ...original, score, status, message, details };
+}
+
+function enhanceHoneypotCheck(
+  original: RiskCheckResult,
+  goPlusData: GoPlusResult | null
+): RiskCheckResult {
+  if (!goPlusData) return original;
+
+  const details = { ...original.details };
+  const isGoPlusHoneypot = goPlusData.is_honeypot === '1';
+  const cannotSellAll = goPlusData.cannot_sell_all === '1';
+  const buyTax = parseFloat(goPlusData.buy_tax || '0');
+  const sellTax = parseFloat(goPlusData.sell_tax || '0');
+
+  details.goPlusHoneypot = isGoPlusHoneypot;
+  details.goPlusBuyTax = buyTax;
+  details.goPlusSellTax = sellTax;
+  details.goPlusCannotSellAll = cannotSellAll;
+
+  let { score, status, message } = original;
+
+  if (isGoPlusHoneypot && score < 80) {
+    score = 90;
+    status = 'danger';
+    message = 'GoPlus confirms: Token is a honeypot — CANNOT be sold';
+  } else if (cannotSellAll && score < 60) {
+    score = 70;
+    status = 'danger';
+    message = 'GoPlus: Selling restrictions detected — may not be able to sell all tokens';
+  } else if (sellTax > 0.10 && score < 50) {
+    score = Math.max(score, 50);
+    status = 'warning';
+    message = `GoPlus: High sell tax detected (${(sellTax * 100).toFixed(1)}%)`;
+  }
+
+  if (!isGoPlusHoneypot && !cannotSellAll && sellTax < 0.05 && original.status === 'unknown') {
+    score = 10;
+    status = 'safe';
+    message = 'GoPlus confirms: Token is sellable with normal tax rates';
+  }
+
+  return { ...original, score, status, message, details };
+}
+
+function enhanceSocialCheck(
+  original: RiskCheckResult,
+  dexData: DexScreenerData | null,
+  rugcheckReport: RugcheckReport | null
+): RiskCheckResult {
+  if (!dexData && !rugcheckReport) return original;
+
+  const details = { ...original.details };
+  let { score, status, message } = original;
+
+  const twitterSocial = dexData?.socials?.find(s => s.type === 'twitter');
+  const telegramSocial = dexData?.socials?.find(s => s.type === 'telegram');
+
+  if (dexData?.websites && dexData.websites.length > 0) details.hasWebsite = true;
+  if (twitterSocial) details.hasTwitter = true;
+  if (telegramSocial) details.hasTelegram = true;
+  if (dexData?.socials) details.dexScreenerSocials = dexData.socials;
+  if (dexData?.websites) details.dexScreenerWebsites = dexData.websites;
+
+  const isVerified = rugcheckReport?.verification?.jup_verified === true;
+  if (isVerified) details.jupiterVerified = true;
+
+  const socialCount = [details.hasWebsite, details.hasTwitter, details.hasTelegram].filter(Boolean).length;
+
+  if (socialCount >= 3 || isVerified) {
+    score = 0;
+    status = 'safe';
+    message = isVerified
+      ? 'Jupiter verified token with full social presence'
+      : 'Token has website, Twitter, and Telegram — good social presence';
+  } else if (socialCount >= 2) {
+    score = 15;
+    status = 'safe';
+    message = `Token has ${socialCount}/3 social links — decent presence`;
+  } else if (socialCount === 1) {
+    score = 45;
+    status = 'warning';
+    message = 'Minimal social presence — only 1 link found';
+  }
+
+  // Copied or rugged socials and a fresh or dead website outweigh presence and Jupiter verification
+  if (((details.verificationScore as number | undefined) ?? 0) > score) {
+    ({ score, status, message } = original);
+  }
+
+  return { ...original, score, status, message, details };
+}
+
+function enhanceRugPatternCheck(
+  original: RiskCheckResult,
+  goPlusFlags: string[],
+  rugcheckFlags: string[],
+  rugcheckReport: RugcheckReport | null
+): RiskCheckResult {
+  const details = { ...original.details };
+  let { score, status, message } = original;
+
+  const allExternalFlags = [...goPlusFlags, ...rugcheckFlags];
+  details.externalFlags = allExternalFlags;
+
+  if (rugcheckReport?.rugged) {
+    score = 100;
+    status = 'danger';
+    message = 'Rugcheck confirms: This token has been RUGGED';
+    details.flags = [...(details.flags as string[] || []), 'CONFIRMED RUG by Rugcheck'];
+  }
+
+  if (rugcheckReport?.graphInsidersDetected && rugcheckReport.graphInsidersDetected > 0) {
+    details.insidersDetected = rugcheckReport.graphInsidersDetected;
+  }
+
+  const criticalFlags = allExternalFlags.filter(f =>
+    /honeypot|cannot|rugged|scam|fake/i.test(f)
+  );
+
+  if (criticalFlags.length > 0 && score < 80) {
+    score = Math.max(score, 80);
+    status = 'danger';
+    message = `${criticalFlags.length} critical risk(s) flagged by external security APIs`;
+  } else if (allExternalFlags.length > 3 && score < 50) {
+    score = Math.max(score, 50);
+    status = 'warning';
+    message = `${allExternalFlags.length} risk flags from GoPlus/Rugcheck`;
+  }
+
+  return { ...original, score, status, message, details };
+}
@@ -0,0 +1,6 @@
+// Built-in checks register themselves on import; in-house checks can be
+// registered the same way from their own modules.
+import './deep-checks.js';
+import './instant-checks.js';
+
+export * from './registry.js';
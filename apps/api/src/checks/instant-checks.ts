@@ -0,0 +1,755 @@
+import { PublicKey } from '@solana/web3.js';
+import type { Mint } from '@solana/spl-token';
+import type { CreatorReport, RiskCheckResult, RiskCheckType, RiskStatus } from '@trenchable/shared';
+import { registerCheck, recordSource, INSTANT_RISK_WEIGHTS, type CheckContext } from './registry.js';
+import type { HeliusAsset } from '../services/external/helius.js';
+import type { GoPlusResult } from '../services/external/goplus.js';
+import type { DexScreenerData } from '../services/external/dexscreener.js';
+import { extractLpLockData, type RugcheckReport } from '../services/external/rugcheck.js';
+import { loadMeteoraPools, analyzePool } from '../services/pools/index.js';
+import { assessPoolLiquidity, MIN_EXIT_SHARE_PCT } from '../services/lp-status.service.js';
+import { roundTripTax, applyRoundTrip } from '../services/round-trip.service.js';
+import { checkMetadataIntegrity } from '../services/metadata-integrity.service.js';
+import { analyzeMintExtensions, buildExtensionsResult } from '../services/token-extensions.service.js';
+import { getCachedCreatorReport, summarizeLaunches } from '../services/creator-reputation.service.js';
+
+// ─── Built-in instant scan checks (mostly external API data) ───
+// Rebalanced for external-API fidelity. RUG_PATTERN absorbs the
+// cluster + sniper + bundle signals the deep scan measures on-chain.
+// A few checks read the chain anyway: LP_STATUS reads Meteora pools, since
+// Rugcheck's LP figures don't describe DLMM position liquidity, and
+// METADATA_INTEGRITY reads the metadata account for its mutability flag.
+// TOKEN_TAX scores a Jupiter round trip the scanner quotes alongside the
+// feeds rather than trusting reported taxes. RUG_PATTERN also uses the
+// creator's launch history when a deep scan has already built it.
+
+registerCheck({
+  id: 'MINT_AUTHORITY',
+  modes: ['instant'],
+  weight: 0.15,
+  requires: ['mintInfo', 'goplus', 'helius'],
+  run: (ctx) => deriveMintAuth(ctx.external.goPlus, ctx.external.helius, ctx.mintInfo),
+});
+
+registerCheck({
+  id: 'FREEZE_AUTHORITY',
+  modes: ['instant'],
+  weight: 0.10,
+  requires: ['mintInfo', 'goplus', 'helius'],
+  run: (ctx) => deriveFreezeAuth(ctx.external.goPlus, ctx.external.helius, ctx.mintInfo),
+});
+
+registerCheck({
+  id: 'LP_STATUS',
+  modes: ['instant'],
+  weight: 0.18,
+  requires: ['rugcheck', 'dexscreener', 'rpc'],
+  run: async (ctx) => deriveLPStatus(ctx.external.rugcheck, ctx.external.dexData, await checkMeteoraLiquidity(ctx)),
+});
+
+registerCheck({
+  id: 'TOP_HOLDERS',
+  modes: ['instant'],
+  weight: 0.14,
+  requires: ['goplus', 'rugcheck'],
+  run: (ctx) => deriveHolderConcentration(ctx.external.goPlus, ctx.external.rugcheck),
+});
+
+registerCheck({
+  id: 'HONEYPOT',
+  modes: ['instant'],
+  weight: 0.12,
+  requires: ['goplus'],
+  run: (ctx) => deriveHoneypot(ctx.external.goPlus),
+});
+
+registerCheck({
+  id: 'TOKEN_TAX',
+  modes: ['instant'],
+  weight: 0.06,
+  requires: ['rugcheck', 'goplus', 'jupiter'],
+  run: (ctx) => {
+    const quotes = ctx.external.roundTripQuotes;
+    const roundTrip = quotes
+      ? roundTripTax(quotes, ctx.tokenMint.toBase58(), ctx.mintInfo?.decimals ?? 6, ctx.external.dexData)
+      : null;
+    recordSource(ctx, 'jupiter', roundTrip !== null);
+    return applyRoundTrip(deriveTokenTax(ctx.external.rugcheck, ctx.external.goPlus), roundTrip);
+  },
+});
+
+registerCheck({
+  id: 'TOKEN_EXTENSIONS',
+  modes: ['instant'],
+  weight: 0.06,
+  requires: ['mintInfo'],
+  run: (ctx) => deriveTokenExtensions(ctx.mintInfo),
+});
+
+registerCheck({
+  id: 'METADATA_INTEGRITY',
+  modes: ['instant'],
+  weight: 0.04,
+  requires: ['mintInfo', 'rpc', 'helius', 'goplus', 'rugcheck', 'offChainMeta'],
+  run: async (ctx) => {
+    const result = await checkMetadataIntegrity(ctx);
+    return makeCheck(result.check, result.status, result.score, result.weight, result.message, result.details);
+  },
+});
+
+registerCheck({
+  id: 'DEV_WALLET',
+  modes: ['instant'],
+  weight: 0.07,
+  requires: ['goplus'],
+  run: (ctx) => deriveDevWallet(ctx.external.goPlus),
+});
+
+registerCheck({
+  id: 'SOCIAL_SENTIMENT',
+  modes: ['instant'],
+  weight: 0.05,
+  requires: ['dexscreener', 'rugcheck', 'offChainMeta'],
+  run: (ctx) => deriveSocialSentiment(ctx.external.dexData, ctx.external.rugcheck, ctx.external.offChainMeta),
+});
+
+registerCheck({
+  id: 'RUG_PATTERN',
+  modes: ['instant'],
+  weight: 0.13,
+  requires: ['rugcheck', 'goplus', 'helius', 'dexscreener'],
+  run: (ctx) => {
+    const creator = ctx.external.rugcheck?.creator;
+    return deriveRugPattern(ctx.external.rugcheck, ctx.external.goPlus, ctx.external.helius, ctx.external.dexData,
+      creator ? getCachedCreatorReport(creator) : null, ctx.tokenMint.toBase58());
+  },
+});
+
+// ─── Risk check derivation functions (all from external API data only) ───
+
+function makeCheck(
+  check: RiskCheckType,
+  status: RiskStatus,
+  score: number,
+  weight: number,
+  message: string,
+  details: Record<string, unknown> = {}
+): RiskCheckResult {
+  return { check, status, score, weight, message, details: { ...details, source: 'instant' } };
+}
+
+function deriveMintAuth(
+  goplus: GoPlusResult | null,
+  helius: HeliusAsset | null,
+  mintInfo?: { mintAuthority: { toBase58(): string } | null }
+): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.MINT_AUTHORITY;
+
+  // Prefer on-chain getMint (it's in Phase 1 anyway)
+  if (mintInfo) {
+    const authority = mintInfo.mintAuthority?.toBase58() || null;
+    const isRevoked = !authority;
+    return makeCheck(
+      'MINT_AUTHORITY',
+      isRevoked ? 'safe' : 'danger',
+      isRevoked ? 0 : 100,
+      w,
+      isRevoked
+        ? 'Mint authority is revoked — no new tokens can be minted'
+        : `Mint authority active (${authority}) — supply inflation risk`,
+      { mintAuthority: authority, isRevoked }
+    );
+  }
+
+  // GoPlus fallback
+  if (goplus?.mintable) {
+    const isMintable = goplus.mintable.status === '1';
+    const authority = goplus.mintable.authority?.[0]?.address || null;
+    return makeCheck(
+      'MINT_AUTHORITY',
+      isMintable ? 'danger' : 'safe',
+      isMintable ? 100 : 0,
+      w,
+      isMintable
+        ? `Mint authority active (${authority || 'unknown'}) — supply inflation risk`
+        : 'Mint authority revoked (via GoPlus)',
+      { mintAuthority: authority, isRevoked: !isMintable }
+    );
+  }
+
+  // Helius fallback
+  if (helius?.token_info) {
+    const authority = helius.token_info.mint_authority;
+    const isRevoked = !authority;
+    return makeCheck(
+      'MINT_AUTHORITY',
+      isRevoked ? 'safe' : 'danger',
+      isRevoked ? 0 : 100,
+      w,
+      isRevoked
+        ? 'Mint authority revoked (via Helius)'
+        : `Mint authority active (${authority}) — supply inflation risk`,
+      { mintAuthority: authority || null, isRevoked }
+    );
+  }
+
+  return makeCheck('MINT_AUTHORITY', 'unknown', 50, w, 'Could not determine mint authority status');
+}
+
+function deriveFreezeAuth(
+  goplus: GoPlusResult | null,
+  helius: HeliusAsset | null,
+  mintInfo?: { freezeAuthority: { toBase58(): string } | null }
+): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.FREEZE_AUTHORITY;
+
+  if (mintInfo) {
+    const authority = mintInfo.freezeAuthority?.toBase58() || null;
+    const isRevoked = !authority;
+    return makeCheck(
+      'FREEZE_AUTHORITY',
+      isRevoked ? 'safe' : 'danger',
+      isRevoked ? 0 : 80,
+      w,
+      isRevoked
+        ? 'Freeze authority revoked — wallets cannot be frozen'
+        : `Freeze authority active (${authority}) — wallets can be frozen`,
+      { freezeAuthority: authority, isRevoked }
+    );
+  }
+
+  if (goplus?.freezable) {
+    const isFreezable = goplus.freezable.status === '1';
+    const authority = goplus.freezable.authority?.[0]?.address || null;
+    return makeCheck(
+      'FREEZE_AUTHORITY',
+      isFreezable ? 'danger' : 'safe',
+      isFreezable ? 80 : 0,
+      w,
+      isFreezable
+        ? `Freeze authority active (${authority || 'unknown'}) — wallets can be frozen`
+        : 'Freeze authority revoked (via GoPlus)',
+      { freezeAuthority: authority, isRevoked: !isFreezable }
+    );
+  }
+
+  if (helius?.token_info) {
+    const authority = helius.token_info.freeze_authority;
+    const isRevoked = !authority;
+    return makeCheck(
+      'FREEZE_AUTHORITY',
+      isRevoked ? 'safe' : 'danger',
+      isRevoked ? 0 : 80,
+      w,
+      isRevoked
+        ? 'Freeze authority revoked (via Helius)'
+        : `Freeze authority active (${authority}) — wallets can be frozen`,
+      { freezeAuthority: authority || null, isRevoked }
+    );
+  }
+
+  return makeCheck('FREEZE_AUTHORITY', 'unknown', 50, w, 'Could not determine freeze authority status');
+}
+
+// When the main pair is on Meteora, analyze its pool on-chain (one account
+// fetch, plus a position lookup for DLMM). Null when not Meteora or on failure.
+async function checkMeteoraLiquidity(ctx: CheckContext): Promise<RiskCheckResult | null> {
+  const pairs = [...(ctx.external.dexData?.pairs ?? [])]
+    .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0));
+  if (pairs[0]?.dexId !== 'meteora') return null;
+
+  try {
+    const addresses = pairs.filter(p => p.dexId === 'meteora').map(p => new PublicKey(p.pairAddress));
+    const pools = await loadMeteoraPools(ctx.connection, addresses);
+    if (pools.length === 0) return null;
+    const lp = await analyzePool(ctx.connection, pools[0]);
+    return assessPoolLiquidity(pools[0], lp, INSTANT_RISK_WEIGHTS.LP_STATUS, pools.length);
+  } catch {
+    return null;
+  }
+}
+
+function deriveLPStatus(
+  rugcheck: RugcheckReport | null,
+  dexData: DexScreenerData | null,
+  meteora: RiskCheckResult | null
+): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.LP_STATUS;
+
+  const rugcheckLp = rugcheck ? extractLpLockData(rugcheck) : null;
+  const liquidityUsd = dexData?.liquidity || rugcheckLp?.totalLiquidity || null;
+
+  if (meteora) {
+    return makeCheck('LP_STATUS', meteora.status, meteora.score, w, meteora.message,
+      { ...meteora.details, liquidityUsd }
+    );
+  }
+
+  // pump.fun bonding curve tokens have no LP pool — liquidity is managed by the bonding curve program
+  // This is safe by design; flag as warning (not danger) with informative message
+  if (rugcheck?.tokenType === 'pump.fun' && !rugcheckLp) {
+    const liqStr = liquidityUsd ? ` ($${liquidityUsd.toLocaleString()} in curve)` : '';
+    return makeCheck('LP_STATUS', 'warning', 30, w,
+      `Bonding curve token — no LP pool yet${liqStr}. LP created at graduation (~85 SOL)`,
+      { liquidityUsd, bondingCurve: true }
+    );
+  }
+
+  if (rugcheckLp) {
+    // Score on the worst market a holder could realistically be exited through
+    const sizeable = rugcheckLp.markets.filter(m => m.liquiditySharePct === null || m.liquiditySharePct >= MIN_EXIT_SHARE_PCT);
+    const exits = sizeable.length > 0 ? sizeable : rugcheckLp.markets;
+    const worst = exits.reduce((a, b) => (b.removablePct > a.removablePct ? b : a));
+    const totalSecured = worst.lpLockedPct + worst.lpBurnedPct;
+    const poolNote = rugcheckLp.markets.length > 1
+      ? ` (worst of ${rugcheckLp.markets.length} pools, ${rugcheckLp.removableLiquidityPct?.toFixed(0) ?? '?'}% of liquidity removable)`
+      : '';
+
+    let score: number;
+    let status: RiskStatus;
+    let message: string;
+
+    if (totalSecured > 95) {
+      score = 5;
+      status = 'safe';
+      message = `LP ${totalSecured.toFixed(0)}% secured (${worst.lpBurnedPct.toFixed(0)}% burned, ${worst.lpLockedPct.toFixed(0)}% locked)`;
+    } else if (totalSecured > 75) {
+      score = 15;
+      status = 'safe';
+      message = `LP ${totalSecured.toFixed(0)}% secured — mostly locked/burned`;
+    } else if (totalSecured > 50) {
+      score = 30;
+      status = 'warning';
+      message = `LP ${totalSecured.toFixed(0)}% secured — partially locked/burned`;
+    } else if (totalSecured > 10) {
+      score = 60;
+      status = 'warning';
+      message = `LP only ${totalSecured.toFixed(0)}% secured — majority unlocked`;
+    } else {
+      score = 90;
+      status = 'danger';
+      message = 'LP is NOT locked or burned — high rug pull risk';
+    }
+
+    return makeCheck('LP_STATUS', status, score, w, message + poolNote, {
+      lpLockedPct: worst.lpLockedPct,
+      lpBurnedPct: worst.lpBurnedPct,
+      totalSecuredPct: totalSecured,
+      removableLiquidityPct: rugcheckLp.removableLiquidityPct,
+      worstPoolAddress: worst.address,
+      pools: rugcheckLp.markets,
+      liquidityUsd,
+    });
+  }
+
+  // No rugcheck LP data — check if there's at least liquidity
+  if (liquidityUsd && liquidityUsd > 1000) {
+    return makeCheck('LP_STATUS', 'warning', 50, w,
+      `Liquidity: $${liquidityUsd.toLocaleString()} — LP lock status unknown`,
+      { liquidityUsd }
+    );
+  }
+
+  return makeCheck('LP_STATUS', 'danger', 80, w, 'No LP data available — cannot verify liquidity');
+}
+
+function deriveHolderConcentration(
+  goplus: GoPlusResult | null,
+  rugcheck: RugcheckReport | null
+): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.TOP_HOLDERS;
+
+  // Prefer Rugcheck — has insider flags
+  if (rugcheck?.topHolders && rugcheck.topHolders.length > 0) {
+    const holders = rugcheck.topHolders;
+    const topPct = holders[0]?.pct || 0;
+    const top10Pct = holders.slice(0, 10).reduce((sum, h) => sum + (h.pct || 0), 0);
+    const insiderCount = holders.filter(h => h.insider).length;
+
+    let score: number;
+    let status: RiskStatus;
+    let message: string;
+
+    if (topPct > 15) {
+      score = 95;
+      status = 'danger';
+      message = `Top holder owns ${topPct.toFixed(1)}% — extreme concentration`;
+    } else if (top10Pct > 75) {
+      score = 90;
+      status = 'danger';
+      message = `Top 10 holders own ${top10Pct.toFixed(1)}% — very high concentration`;
+    } else if (top10Pct > 50) {
+      score = 50;
+      status = 'warning';
+      message = `Top 10 own ${top10Pct.toFixed(1)}%${insiderCount > 0 ? ` (${insiderCount} insiders)` : ''}`;
+    } else if (top10Pct > 30) {
+      score = 25;
+      status = 'warning';
+      message = `Top 10 own ${top10Pct.toFixed(1)}% — slight concentration`;
+    } else {
+      score = 0;
+      status = 'safe';
+      message = `Top 10 own ${top10Pct.toFixed(1)}% — well distributed`;
+    }
+
+    return makeCheck('TOP_HOLDERS', status, score, w, message, {
+      top1Pct: topPct,
+      top10Pct,
+      insiderCount,
+      holders: holders.slice(0, 5).map(h => ({
+        address: h.address,
+        percentage: h.pct.toFixed(2),
+        insider: h.insider,
+      })),
+    });
+  }
+
+  // GoPlus fallback
+  if (goplus?.holders && goplus.holders.length > 0) {
+    const holders = goplus.holders;
+    const topPct = parseFloat(holders[0]?.percent || '0') * 100;
+    const top10Pct = holders.slice(0, 10).reduce((sum, h) => sum + parseFloat(h.percent || '0'), 0) * 100;
+
+    let score: number;
+    let status: RiskStatus;
+    let message: string;
+
+    if (topPct > 15) {
+      score = 95; status = 'danger';
+      message = `Top holder owns ${topPct.toFixed(1)}% — extreme concentration (GoPlus)`;
+    } else if (top10Pct > 75) {
+      score = 90; status = 'danger';
+      message = `Top 10 own ${top10Pct.toFixed(1)}% — very high concentration (GoPlus)`;
+    } else if (top10Pct > 50) {
+      score = 50; status = 'warning';
+      message = `Top 10 own ${top10Pct.toFixed(1)}% (GoPlus)`;
+    } else if (top10Pct > 30) {
+      score = 25; status = 'warning';
+      message = `Top 10 own ${top10Pct.toFixed(1)}% — slight concentration (GoPlus)`;
+    } else {
+      score = 0; status = 'safe';
+      message = `Top 10 own ${top10Pct.toFixed(1)}% — well distributed (GoPlus)`;
+    }
+
+    return makeCheck('TOP_HOLDERS', status, score, w, message, {
+      top1Pct: topPct,
+      top10Pct,
+      holderCount: goplus.holder_count,
+    });
+  }
+
+  return makeCheck('TOP_HOLDERS', 'unknown', 50, w, 'No holder data available');
+}
+
+function deriveHoneypot(goplus: GoPlusResult | null): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.HONEYPOT;
+
+  if (!goplus) {
+    return makeCheck('HONEYPOT', 'unknown', 50, w, 'Could not check honeypot status');
+  }
+
+  const isHoneypot = goplus.is_honeypot === '1';
+  const cannotSellAll = goplus.cannot_sell_all === '1';
+  const cannotBuy = goplus.cannot_buy === '1';
+  const buyTax = parseFloat(goplus.buy_tax || '0');
+  const sellTax = parseFloat(goplus.sell_tax || '0');
+
+  if (isHoneypot) {
+    return makeCheck('HONEYPOT', 'danger', 100, w,
+      'HONEYPOT CONFIRMED — token CANNOT be sold',
+      { isHoneypot, cannotSellAll, buyTax, sellTax }
+    );
+  }
+
+  if (cannotSellAll || cannotBuy) {
+    return makeCheck('HONEYPOT', 'danger', 80, w,
+      `Selling restrictions detected${cannotBuy ? ' — cannot buy' : ' — cannot sell all'}`,
+      { isHoneypot, cannotSellAll, cannotBuy, buyTax, sellTax }
+    );
+  }
+
+  if (sellTax > 0.10) {
+    return makeCheck('HONEYPOT', 'warning', 60, w,
+      `High sell tax: ${(sellTax * 100).toFixed(1)}%`,
+      { isHoneypot, buyTax, sellTax }
+    );
+  }
+
+  if (sellTax > 0.05) {
+    return makeCheck('HONEYPOT', 'warning', 35, w,
+      `Moderate sell tax: ${(sellTax * 100).toFixed(1)}%`,
+      { isHoneypot, buyTax, sellTax }
+    );
+  }
+
+  return makeCheck('HONEYPOT', 'safe', 0, w,
+    'Token is sellable with normal tax rates',
+    { isHoneypot: false, buyTax, sellTax }
+  );
+}
+
+function deriveTokenTax(
+  rugcheck: RugcheckReport | null,
+  goplus: GoPlusResult | null
+): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.TOKEN_TAX;
+
+  // Rugcheck transfer fee (Token-2022 extension)
+  if (rugcheck?.transferFee && rugcheck.transferFee.pct > 0) {
+    const feePct = rugcheck.transferFee.pct;
+    const feeBps = feePct * 100;
+
+    if (feeBps >= 2000) {
+      return makeCheck('TOKEN_TAX', 'danger', 100, w,
+        `Transfer fee: ${feePct.toFixed(1)}% — extremely high`,
+        { transferFeePct: feePct, feeType: 'Token-2022' }
+      );
+    }
+    if (feeBps >= 500) {
+      return makeCheck('TOKEN_TAX', 'danger', 75, w,
+        `Transfer fee: ${feePct.toFixed(1)}% — suspicious`,
+        { transferFeePct: feePct, feeType: 'Token-2022' }
+      );
+    }
+    return makeCheck('TOKEN_TAX', 'warning', 30, w,
+      `Transfer fee: ${feePct.toFixed(2)}%`,
+      { transferFeePct: feePct, feeType: 'Token-2022' }
+    );
+  }
+
+  // GoPlus tax data
+  if (goplus) {
+    const buyTax = parseFloat(goplus.buy_tax || '0');
+    const sellTax = parseFloat(goplus.sell_tax || '0');
+    const maxTax = Math.max(buyTax, sellTax);
+
+    if (maxTax > 0.20) {
+      return makeCheck('TOKEN_TAX', 'danger', 90, w,
+        `Extreme tax: buy ${(buyTax * 100).toFixed(1)}% / sell ${(sellTax * 100).toFixed(1)}%`,
+        { buyTax, sellTax }
+      );
+    }
+    if (maxTax > 0.05) {
+      return makeCheck('TOKEN_TAX', 'warning', 40, w,
+        `Tax: buy ${(buyTax * 100).toFixed(1)}% / sell ${(sellTax * 100).toFixed(1)}%`,
+        { buyTax, sellTax }
+      );
+    }
+    return makeCheck('TOKEN_TAX', 'safe', 0, w,
+      'No significant transfer taxes',
+      { buyTax, sellTax }
+    );
+  }
+
+  return makeCheck('TOKEN_TAX', 'safe', 0, w, 'Standard SPL token — no transfer fee');
+}
+
+// Decoded from the mint fetched in phase 1; the hook program is only resolved in deep scans
+function deriveTokenExtensions(mintInfo?: Mint): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.TOKEN_EXTENSIONS;
+  if (!mintInfo) {
+    return makeCheck('TOKEN_EXTENSIONS', 'unknown', 50, w, 'Could not fetch the mint to decode Token-2022 extensions');
+  }
+  const result = buildExtensionsResult(analyzeMintExtensions(mintInfo), w);
+  return makeCheck('TOKEN_EXTENSIONS', result.status, result.score, w, result.message, result.details);
+}
+
+function deriveDevWallet(goplus: GoPlusResult | null): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.DEV_WALLET;
+
+  if (!goplus?.creator_address) {
+    return makeCheck('DEV_WALLET', 'unknown', 50, w, 'Could not determine dev wallet');
+  }
+
+  const creatorPct = parseFloat(goplus.creator_percent || '0') * 100;
+  const ownerPct = parseFloat(goplus.owner_percent || '0') * 100;
+  const maxPct = Math.max(creatorPct, ownerPct);
+
+  if (maxPct > 10) {
+    return makeCheck('DEV_WALLET', 'danger', 90, w,
+      `Creator holds ${creatorPct.toFixed(1)}% — very high dump risk`,
+      { creator: goplus.creator_address, creatorPercent: creatorPct, ownerPercent: ownerPct }
+    );
+  }
+  if (maxPct > 5) {
+    return makeCheck('DEV_WALLET', 'danger', 70, w,
+      `Creator holds ${creatorPct.toFixed(1)}% — significant dump risk`,
+      { creator: goplus.creator_address, creatorPercent: creatorPct, ownerPercent: ownerPct }
+    );
+  }
+  if (maxPct > 1) {
+    return makeCheck('DEV_WALLET', 'warning', 40, w,
+      `Creator holds ${creatorPct.toFixed(1)}%`,
+      { creator: goplus.creator_address, creatorPercent: creatorPct, ownerPercent: ownerPct }
+    );
+  }
+  return makeCheck('DEV_WALLET', 'safe', 5, w,
+    `Creator holds ${creatorPct.toFixed(2)}% — minimal risk`,
+    { creator: goplus.creator_address, creatorPercent: creatorPct, ownerPercent: ownerPct }
+  );
+}
+
+function deriveSocialSentiment(
+  dexData: DexScreenerData | null,
+  rugcheck: RugcheckReport | null,
+  offChainMeta?: { twitter?: string; telegram?: string; website?: string } | null
+): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.SOCIAL_SENTIMENT;
+
+  const hasTwitter = dexData?.socials?.some(s => s.type === 'twitter') || !!offChainMeta?.twitter || false;
+  const hasTelegram = dexData?.socials?.some(s => s.type === 'telegram') || !!offChainMeta?.telegram || false;
+  const hasWebsite = (dexData?.websites?.length || 0) > 0 || !!offChainMeta?.website || false;
+  const isVerified = rugcheck?.verification?.jup_verified === true;
+
+  const socialCount = [hasWebsite, hasTwitter, hasTelegram].filter(Boolean).length;
+
+  if (isVerified || socialCount >= 3) {
+    return makeCheck('SOCIAL_SENTIMENT', 'safe', 0, w,
+      isVerified ? 'Jupiter verified with full social presence' : 'Website, Twitter, and Telegram present',
+      { hasWebsite, hasTwitter, hasTelegram, jupVerified: isVerified, socialCount }
+    );
+  }
+  if (socialCount >= 2) {
+    return makeCheck('SOCIAL_SENTIMENT', 'safe', 15, w,
+      `${socialCount}/3 social links — decent presence`,
+      { hasWebsite, hasTwitter, hasTelegram, socialCount }
+    );
+  }
+  if (socialCount === 1) {
+    return makeCheck('SOCIAL_SENTIMENT', 'warning', 45, w,
+      'Minimal social presence — only 1 link found',
+      { hasWebsite, hasTwitter, hasTelegram, socialCount }
+    );
+  }
+  return makeCheck('SOCIAL_SENTIMENT', 'warning', 70, w,
+    'No social links found — anonymous token',
+    { hasWebsite: false, hasTwitter: false, hasTelegram: false, socialCount: 0 }
+  );
+}
+
+function deriveRugPattern(
+  rugcheck: RugcheckReport | null,
+  goplus: GoPlusResult | null,
+  helius: HeliusAsset | null,
+  dexData: DexScreenerData | null,
+  creatorReport: CreatorReport | null,
+  tokenMint: string
+): RiskCheckResult {
+  const w = INSTANT_RISK_WEIGHTS.RUG_PATTERN;
+
+  // This absorbs WALLET_CLUSTER, SNIPER_BOTS, and BUNDLE_DETECTION signals
+  let score = 0;
+  let flags: string[] = [];
+  const details: Record<string, unknown> = {};
+
+  // 1. Rugcheck confirmed rug — instant max score
+  if (rugcheck?.rugged) {
+    return makeCheck('RUG_PATTERN', 'danger', 100, w,
+      'CONFIRMED RUG — Rugcheck has flagged this token',
+      { rugged: true, flags: ['CONFIRMED RUG'] }
+    );
+  }
+
+  // 2. Rugcheck risk flags
+  if (rugcheck?.risks) {
+    for (const risk of rugcheck.risks) {
+      if (risk.level === 'danger' || risk.level === 'error' || risk.score >= 5000) {
+        flags.push(`${risk.name}: ${risk.description}`);
+        score += 15;
+      } else if (risk.level === 'warn') {
+        flags.push(`${risk.name}: ${risk.description}`);
+        score += 5;
+      }
+    }
+  }
+
+  // 3. Insider detection (replaces WALLET_CLUSTER + BUNDLE_DETECTION)
+  const insiders = rugcheck?.graphInsidersDetected || 0;
+  if (insiders > 5) {
+    score += 30;
+    flags.push(`${insiders} insider wallets detected (bundled/coordinated)`);
+    details.insidersDetected = insiders;
+  } else if (insiders > 2) {
+    score += 15;
+    flags.push(`${insiders} insider wallets detected`);
+    details.insidersDetected = insiders;
+  } else if (insiders > 0) {
+    score += 5;
+    details.insidersDetected = insiders;
+  }
+
+  // 4. GoPlus flags (replace SNIPER_BOTS + additional pattern signals)
+  if (goplus) {
+    if (goplus.honeypot_with_same_creator && parseInt(goplus.honeypot_with_same_creator) > 0) {
+      score += 25;
+      flags.push(`Creator has ${goplus.honeypot_with_same_creator} other honeypot(s)`);
+    }
+    if (goplus.is_airdrop_scam === '1') {
+      score += 20;
+      flags.push('Airdrop scam detected');
+    }
+    if (goplus.fake_token && goplus.fake_token.value > 0) {
+      score += 20;
+      flags.push('Fake/counterfeit token');
+    }
+    if (goplus.hidden_owner === '1') {
+      score += 10;
+      flags.push('Hidden owner detected');
+    }
+    if (goplus.owner_change_balance === '1') {
+      score += 15;
+      flags.push('Owner can change balances');
+    }
+    if (goplus.external_call === '1') {
+      score += 10;
+      flags.push('External contract calls detected');
+    }
+  }
+
+  // 5. Suspicious name patterns (use Helius or GoPlus metadata)
+  const tokenName = helius?.content?.metadata?.name || goplus?.token_name || dexData?.pairs?.[0]?.baseToken?.name || '';
+  if (tokenName) {
+    const suspiciousPatterns = [/test/i, /rug/i, /scam/i, /fake/i, /honeypot/i, /airdrop/i, /free.*money/i];
+    for (const pattern of suspiciousPatterns) {
+      if (pattern.test(tokenName)) {
+        score += 10;
+        flags.push(`Suspicious name pattern: "${tokenName}"`);
+        break;
+      }
+    }
+  }
+
+  // 6. Creator's earlier launches (cached from a deep scan or /api/creator)
+  if (creatorReport) {
+    const prior = summarizeLaunches(creatorReport.launches.filter(l => l.mint !== tokenMint));
+    if (prior.ruggedCount >= 2 && (prior.rugRate ?? 0) >= 0.5) {
+      score += 40;
+      flags.push(`Creator rugged ${prior.ruggedCount} of ${prior.resolvedCount} earlier launches`);
+    } else if (prior.ruggedCount >= 1) {
+      score += 15;
+      flags.push(`Creator has ${prior.ruggedCount} rugged earlier launch(es)`);
+    }
+    details.creatorReport = { creator: creatorReport.creator, ...prior };
+  }
+
+  // Cap at 100
+  score = Math.min(score, 100);
+
+  let status: RiskStatus;
+  let message: string;
+  if (score >= 70) {
+    status = 'danger';
+    message = flags.length > 0 ? flags[0] : 'Multiple risk patterns detected';
+  } else if (score >= 30) {
+    status = 'warning';
+    message = flags.length > 0 ? `${flags.length} risk signal(s): ${flags[0]}` : 'Some risk patterns detected';
+  } else {
+    status = 'safe';
+    message = 'No significant rug patterns detected';
+  }
+
+  details.flags = flags;
+  details.rugcheckScore = rugcheck?.score_normalised ?? null;
+
+  return makeCheck('RUG_PATTERN', status, score, w, message, details);
+}
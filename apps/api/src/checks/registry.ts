@@ -0,0 +1,168 @@
+import type { DataSource, RiskCheckResult, RiskCheckType, ScanMode, SourceStatus } from '@trenchable/shared';
+import type { ScanContext } from '../types/risk.types.js';
+import type { HeliusAsset, TokenMetadataJson } from '../services/external/helius.js';
+import type { GoPlusResult } from '../services/external/goplus.js';
+import type { DexScreenerData } from '../services/external/dexscreener.js';
+import type { RugcheckReport } from '../services/external/rugcheck.js';
+import type { RoundTripQuotes } from '../services/round-trip.service.js';
+
+/**
+ * Check registry
+ *
+ * Every risk check — built-in or in-house — is described by a CheckDefinition
+ * and registered here. The deep and instant scanners ask the registry which
+ * checks to run for their mode instead of hand-wiring them, and the per-mode
+ * weight tables (RISK_WEIGHTS / INSTANT_RISK_WEIGHTS) are derived from it.
+ */
+
+// Inputs a check may read. 'rpc' means the check makes its own RPC calls.
+export type CheckInput =
+  | 'mintInfo'
+  | 'rpc'
+  | 'helius'
+  | 'goplus'
+  | 'dexscreener'
+  | 'rugcheck'
+  | 'jupiter'
+  | 'offChainMeta';
+
+// External feed data gathered by the scanner before checks run
+export interface ExternalFeeds {
+  helius: HeliusAsset | null;
+  goPlus: GoPlusResult | null;
+  dexData: DexScreenerData | null;
+  rugcheck: RugcheckReport | null;
+  offChainMeta: TokenMetadataJson | null;
+  // Jupiter round-trip quotes fetched alongside the feeds (instant scans only)
+  roundTripQuotes?: RoundTripQuotes | null;
+}
+
+export interface CheckContext extends ScanContext {
+  mode: ScanMode;
+  external: ExternalFeeds;
+  // Which sources answered; checks that query a source themselves record it here
+  sources: Record<DataSource, SourceStatus>;
+}
+
+export function feedStatus(data: unknown): SourceStatus {
+  return data ? 'ok' : 'no_data';
+}
+
+// For sources several checks query: one answer is enough to count as 'ok'
+export function recordSource(ctx: CheckContext, source: DataSource, responded: boolean): void {
+  if (responded) ctx.sources[source] = 'ok';
+  else if (ctx.sources[source] === 'not_queried') ctx.sources[source] = 'no_data';
+}
+
+export interface CheckDefinition {
+  id: RiskCheckType;
+  // Scan modes this check runs in
+  modes: ScanMode[];
+  // Default weight — a single number, or one per mode
+  weight: number | Partial<Record<ScanMode, number>>;
+  requires: CheckInput[];
+  // Heavy checks run after the light ones to spread RPC load (deep mode only)
+  heavy?: boolean;
+  run(ctx: CheckContext): Promise<RiskCheckResult> | RiskCheckResult;
+}
+
+const definitions: CheckDefinition[] = [];
+
+// Live weight tables, kept in sync with the registry
+export const RISK_WEIGHTS: Record<string, number> = {};
+export const INSTANT_RISK_WEIGHTS: Record<string, number> = {};
+
+const weightTables: Record<ScanMode, Record<string, number>> = {
+  deep: RISK_WEIGHTS,
+  instant: INSTANT_RISK_WEIGHTS,
+};
+
+export function getDefaultWeight(def: CheckDefinition, mode: ScanMode): number {
+  if (typeof def.weight === 'number') return def.weight;
+  return def.weight[mode] ?? 0;
+}
+
+export function registerCheck(def: CheckDefinition): void {
+  for (const mode of def.modes) {
+    const existing = definitions.find(d => d.id === def.id && d.modes.includes(mode));
+    if (existing) {
+      throw new Error(`Check ${def.id} is already registered for ${mode} scans`);
+    }
+  }
+
+  definitions.push(def);
+  for (const mode of def.modes) {
+    weightTables[mode][def.id] = getDefaultWeight(def, mode);
+  }
+}
+
+export function unregisterCheck(id: RiskCheckType, mode?: ScanMode): void {
+  for (let i = definitions.length - 1; i >= 0; i--) {
+    const def = definitions[i];
+    if (def.id !== id) continue;
+    if (mode && !def.modes.includes(mode)) continue;
+
+    const removedModes = mode ? [mode] : def.modes;
+    for (const m of removedModes) delete weightTables[m][id];
+
+    if (mode && def.modes.length > 1) {
+      definitions[i] = { ...def, modes: def.modes.filter(m => m !== mode) };
+    } else {
+      definitions.splice(i, 1);
+    }
+  }
+}
+
+export function getChecksForMode(mode: ScanMode): CheckDefinition[] {
+  return definitions.filter(d => d.modes.includes(mode));
+}
+
+export function getCheckWeights(mode: ScanMode): Record<string, number> {
+  return { ...weightTables[mode] };
+}
+
+// Union of inputs required by the checks registered for a mode
+export function getRequiredInputs(mode: ScanMode): Set<CheckInput> {
+  const inputs = new Set<CheckInput>();
+  for (const def of getChecksForMode(mode)) {
+    for (const input of def.requires) inputs.add(input);
+  }
+  return inputs;
+}
+
+async function runOne(def: CheckDefinition, ctx: CheckContext): Promise<RiskCheckResult> {
+  const weight = getDefaultWeight(def, ctx.mode);
+  try {
+    const result = await def.run(ctx);
+    return { ...result, check: def.id, weight };
+  } catch (error) {
+    return {
+      check: def.id,
+      status: 'unknown',
+      score: 50,
+      weight,
+      details: { error: String(error) },
+      message: `Check ${def.id} failed to run`,
+    };
+  }
+}
+
+/**
+ * Run every check registered for ctx.mode and return results in registration order.
+ * Light checks run in parallel first, then heavy ones.
+ */
+export async function runChecks(ctx: CheckContext): Promise<RiskCheckResult[]> {
+  const defs = getChecksForMode(ctx.mode);
+  const light = defs.filter(d => !d.heavy);
+  const heavy = defs.filter(d => d.heavy);
+
+  const results = new Map<CheckDefinition, RiskCheckResult>();
+
+  const lightResults = await Promise.all(light.map(d => runOne(d, ctx)));
+  light.forEach((d, i) => results.set(d, lightResults[i]));
+
+  const heavyResults = await Promise.all(heavy.map(d => runOne(d, ctx)));
+  heavy.forEach((d, i) => results.set(d, heavyResults[i]));
+
+  return defs.map(d => results.get(d)!);
+}
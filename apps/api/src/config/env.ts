@@ -14,13 +14,57 @@ export const config = {
   cache: {
     scanTtlMs: parseInt(process.env.SCAN_CACHE_TTL_MS || '60000', 10),
     instantTtlMs: parseInt(process.env.INSTANT_CACHE_TTL_MS || '30000', 10),
+    // A holder snapshot younger than this is reused instead of re-indexing every token account
+    holderSnapshotTtlMs: parseInt(process.env.HOLDER_SNAPSHOT_TTL_MS || '600000', 10),
   },
   jupiter: {
     apiUrl: process.env.JUPITER_API_URL || 'https://quote-api.jup.ag/v6',
   },
+  honeypot: {
+    // 'simulate' runs a real sell through simulateTransaction; 'quote' only asks Jupiter for a route
+    mode: (process.env.HONEYPOT_MODE === 'quote' ? 'quote' : 'simulate') as 'quote' | 'simulate',
+    // Simulate against another RPC, e.g. a local validator with a fixture pool
+    // (setSellTxBuilder in honeypot.service swaps Jupiter's routing for one that sells into it).
+    // A Surfpool fork lets the sell run as a synthetic holder of the exact test amount
+    simulationRpcUrl: process.env.HONEYPOT_SIMULATION_RPC || null,
+  },
+  fundingGraph: {
+    // Hops traced back from each wallet; GET /api/wallet-graph can ask for up to maxDepth
+    depth: Math.min(4, Math.max(1, parseInt(process.env.FUNDING_GRAPH_DEPTH || '2', 10) || 2)),
+    maxDepth: 4,
+  },
+  watchlist: {
+    // How often the holders of every watchlisted token are snapshotted for drift alerts
+    holderSnapshotIntervalMs: parseInt(process.env.HOLDER_SNAPSHOT_INTERVAL_MS || '900000', 10),
+  },
+  pairMonitor: {
+    // Where new pairs come from: 'rpc' (log subscriptions), 'grpc' (Yellowstone Geyser stream) or 'replay' (JSONL file)
+    source: (['grpc', 'replay'].includes(process.env.PAIR_SOURCE || '') ? process.env.PAIR_SOURCE : 'rpc') as 'rpc' | 'grpc' | 'replay',
+    grpcUrl: process.env.GEYSER_GRPC_URL || null,
+    grpcToken: process.env.GEYSER_GRPC_TOKEN || null,
+    replayFile: process.env.PAIR_REPLAY_FILE || null,
+    // 1 replays at recorded pace, 10 ten times faster, 0 as fast as possible
+    replaySpeed: Math.max(0, parseFloat(process.env.PAIR_REPLAY_SPEED || '1') || 0),
+    // Append every emitted pair to this JSONL file, for replay later
+    recordFile: process.env.PAIR_RECORD_FILE || null,
+  },
+  socials: {
+    // RDAP service queried for website domain registration dates
+    rdapUrl: (process.env.SOCIALS_RDAP_URL || 'https://rdap.org').replace(/\/$/, ''),
+  },
   auth: {
     apiKeys: process.env.API_KEYS ? process.env.API_KEYS.split(',').map(k => k.trim()) : [],
   },
+  scoring: {
+    defaultProfile: process.env.DEFAULT_SCORING_PROFILE || 'default',
+    // "key:profile" pairs, comma-separated
+    apiKeyProfiles: Object.fromEntries(
+      (process.env.API_KEY_PROFILES || '')
+        .split(',')
+        .map(pair => pair.split(':').map(s => s.trim()))
+        .filter(([key, profile]) => key && profile)
+    ) as Record<string, string>,
+  },
   rateLimit: {
     enabled: process.env.RATE_LIMIT_ENABLED === 'true',
     instantPerHour: parseInt(process.env.RATE_LIMIT_INSTANT_PER_HOUR || '50', 10),
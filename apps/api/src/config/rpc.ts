@@ -5,17 +5,20 @@ let connection: Connection | null = null;
 
 export function getConnection(): Connection {
   if (connection) return connection;
+  connection = createConnection();
+  return connection;
+}
 
+// A connection of its own, with its own WebSocket — for subscriptions that reconnect
+export function createConnection(): Connection {
   const endpoint = config.rpc.primary || config.rpc.fallback;
   const wsEndpoint = config.rpc.ws || undefined;
 
-  connection = new Connection(endpoint, {
+  return new Connection(endpoint, {
     commitment: 'confirmed',
     wsEndpoint,
     confirmTransactionInitialTimeout: 60_000,
   });
-
-  return connection;
 }
 
 export function updateConnection(rpcUrl: string): Connection {
@@ -0,0 +1,80 @@
+import { getDb } from './database.js';
+import type { AddressLabel, AddressLabelCategory, AddressLabelSource } from '@trenchable/shared';
+
+interface AddressLabelRow {
+  address: string;
+  category: string;
+  name: string;
+  notes: string | null;
+  source: string;
+  version: number;
+  created_at: number;
+  updated_at: number;
+}
+
+function rowToLabel(row: AddressLabelRow): AddressLabel {
+  return {
+    address: row.address,
+    category: row.category as AddressLabelCategory,
+    name: row.name,
+    notes: row.notes,
+    source: row.source as AddressLabelSource,
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getAddressLabels(category?: AddressLabelCategory): AddressLabel[] {
+  const db = getDb();
+  const rows = category
+    ? db.prepare('SELECT * FROM address_labels WHERE category = ? ORDER BY name ASC').all(category)
+    : db.prepare('SELECT * FROM address_labels ORDER BY category ASC, name ASC').all();
+  return (rows as AddressLabelRow[]).map(rowToLabel);
+}
+
+export function getAddressLabel(address: string): AddressLabel | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM address_labels WHERE address = ?').get(address) as AddressLabelRow | undefined;
+  return row ? rowToLabel(row) : null;
+}
+
+// Insert a label, or update it and bump its version. An existing label keeps its source.
+export function saveAddressLabel(
+  label: Pick<AddressLabel, 'address' | 'category' | 'name' | 'notes'>,
+  source: AddressLabelSource,
+  version?: number
+): AddressLabel {
+  const db = getDb();
+  const now = Date.now();
+  db.prepare(`
+    INSERT INTO address_labels (address, category, name, notes, source, version, created_at, updated_at)
+    VALUES (@address, @category, @name, @notes, @source, @version, @now, @now)
+    ON CONFLICT(address) DO UPDATE SET
+      category = excluded.category,
+      name = excluded.name,
+      notes = excluded.notes,
+      version = MAX(address_labels.version + 1, excluded.version),
+      updated_at = excluded.updated_at
+  `).run({ ...label, source, version: version ?? 1, now });
+  return getAddressLabel(label.address)!;
+}
+
+// Seed built-in labels without touching ones that were already edited
+export function seedAddressLabels(labels: Pick<AddressLabel, 'address' | 'category' | 'name' | 'notes'>[]): void {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO address_labels (address, category, name, notes, source, version, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 'builtin', 1, ?, ?)
+  `);
+  const now = Date.now();
+  db.transaction(() => {
+    for (const l of labels) insert.run(l.address, l.category, l.name, l.notes, now, now);
+  })();
+}
+
+export function deleteAddressLabel(address: string): boolean {
+  const db = getDb();
+  const result = db.prepare("DELETE FROM address_labels WHERE address = ? AND source != 'builtin'").run(address);
+  return result.changes > 0;
+}
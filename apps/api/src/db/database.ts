@@ -4,7 +4,8 @@ import fs from 'fs';
 import { fileURLToPath } from 'url';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const DB_PATH = path.join(__dirname, '..', '..', 'data', 'trenchable.db');
+// Tests point this at ":memory:"
+const DB_PATH = process.env.DATABASE_PATH || path.join(__dirname, '..', '..', 'data', 'trenchable.db');
 
 let db: Database.Database | null = null;
 
@@ -12,7 +13,7 @@ export function getDb(): Database.Database {
   if (db) return db;
 
   const dir = path.dirname(DB_PATH);
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  if (DB_PATH !== ':memory:' && !fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
 
   db = new Database(DB_PATH);
   db.pragma('journal_mode = WAL');
@@ -55,6 +56,19 @@ function initTables(db: Database.Database) {
 
     CREATE INDEX IF NOT EXISTS idx_watchlist_mint ON watchlist(token_mint);
 
+    CREATE TABLE IF NOT EXISTS watchlist_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token_mint TEXT NOT NULL REFERENCES watchlist(token_mint) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      severity TEXT NOT NULL,
+      message TEXT NOT NULL,
+      details_json TEXT NOT NULL DEFAULT '{}',
+      created_at INTEGER NOT NULL,
+      acknowledged INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_watchlist_alerts_mint ON watchlist_alerts(token_mint, created_at DESC);
+
     -- ─── MC Prediction Training Data ───────────────────────────────────
 
     -- Signals captured at launch time for each token we auto-monitor
@@ -99,5 +113,120 @@ function initTables(db: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_launch_signals_platform ON token_launch_signals(platform);
     CREATE INDEX IF NOT EXISTS idx_launch_signals_scanned ON token_launch_signals(scanned_at DESC);
     CREATE INDEX IF NOT EXISTS idx_launch_signals_outcome ON token_launch_signals(outcome_checked_at);
+
+    -- ─── Scoring Profiles ──────────────────────────────────────────────
+
+    CREATE TABLE IF NOT EXISTS scoring_profiles (
+      name TEXT PRIMARY KEY,
+      description TEXT,
+      weights_json TEXT NOT NULL DEFAULT '{}',
+      overrides_json TEXT NOT NULL DEFAULT '[]',
+      thresholds_json TEXT NOT NULL,
+      builtin INTEGER NOT NULL DEFAULT 0,
+      -- Set once a built-in profile is edited, so later releases stop updating it
+      customized INTEGER NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL
+    );
+
+    -- ─── Address Labels ────────────────────────────────────────────────
+
+    CREATE TABLE IF NOT EXISTS address_labels (
+      address TEXT PRIMARY KEY,
+      category TEXT NOT NULL,
+      name TEXT NOT NULL,
+      notes TEXT,
+      source TEXT NOT NULL,
+      version INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_address_labels_category ON address_labels(category);
+
+    -- ─── Holder Snapshots ──────────────────────────────────────────────
+
+    CREATE TABLE IF NOT EXISTS holder_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token_mint TEXT NOT NULL,
+      taken_at INTEGER NOT NULL,
+      holder_count INTEGER NOT NULL,
+      token_accounts INTEGER NOT NULL,
+      excluded_pct REAL NOT NULL,
+      gini REAL NOT NULL,
+      nakamoto INTEGER NOT NULL,
+      top10_pct REAL NOT NULL,
+      fresh_wallet_pct REAL NOT NULL,
+      fresh_wallets_checked INTEGER NOT NULL,
+      top_holders_json TEXT NOT NULL DEFAULT '[]',
+      tracked_json TEXT NOT NULL DEFAULT '[]',
+      -- 'scan' for holder checks, 'tracker' for the watchlist tracker that follows dev/insider wallets
+      source TEXT NOT NULL DEFAULT 'scan'
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_holder_snapshots_mint ON holder_snapshots(token_mint, taken_at DESC);
+
+    -- ─── Sniper Classifier ─────────────────────────────────────────────
+
+    -- Feature vectors of the launch buyers the classifier scored
+    CREATE TABLE IF NOT EXISTS sniper_observations (
+      wallet TEXT NOT NULL,
+      token_mint TEXT NOT NULL,
+      features_json TEXT NOT NULL,
+      probability REAL NOT NULL,
+      observed_at INTEGER NOT NULL,
+      PRIMARY KEY (wallet, token_mint)
+    );
+
+    -- Training labels: whether a wallet is a bot, set by hand
+    CREATE TABLE IF NOT EXISTS sniper_labels (
+      wallet TEXT PRIMARY KEY,
+      is_bot INTEGER NOT NULL,
+      labeled_at INTEGER NOT NULL
+    );
+
+    -- Fitted weights; the highest version is the one in use
+    CREATE TABLE IF NOT EXISTS sniper_models (
+      version INTEGER PRIMARY KEY AUTOINCREMENT,
+      weights_json TEXT NOT NULL,
+      bias REAL NOT NULL,
+      samples INTEGER NOT NULL,
+      positives INTEGER NOT NULL,
+      -- On the training set; null when there was nothing to measure it on
+      accuracy REAL,
+      fitted_at INTEGER NOT NULL
+    );
+
+    -- ─── Token Socials ─────────────────────────────────────────────────
+
+    -- Normalised social handles each scanned token links to, to spot reuse across mints
+    CREATE TABLE IF NOT EXISTS token_socials (
+      token_mint TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      handle TEXT NOT NULL,
+      first_seen_at INTEGER NOT NULL,
+      PRIMARY KEY (token_mint, kind, handle)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_token_socials_handle ON token_socials(kind, handle);
+
+    -- ─── Pair Monitor ──────────────────────────────────────────────────
+
+    -- Last slot the monitor saw each launch program at, where backfill resumes after a gap
+    CREATE TABLE IF NOT EXISTS pair_monitor_cursors (
+      program TEXT PRIMARY KEY,
+      last_slot INTEGER NOT NULL,
+      last_signature TEXT,
+      updated_at INTEGER NOT NULL
+    );
   `);
+
+  // Columns added after their table first shipped, which CREATE TABLE IF NOT EXISTS leaves out
+  addColumn(db, 'scoring_profiles', 'customized', 'INTEGER NOT NULL DEFAULT 0');
+  addColumn(db, 'holder_snapshots', 'source', "TEXT NOT NULL DEFAULT 'scan'");
+  db.exec('CREATE INDEX IF NOT EXISTS idx_holder_snapshots_source ON holder_snapshots(token_mint, source, taken_at DESC)');
+}
+
+function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
 }
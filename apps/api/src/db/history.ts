@@ -38,6 +38,26 @@ export function getHistoryForToken(tokenMint: string, limit = 20): ScanHistoryEn
   `).all(tokenMint, limit) as ScanHistoryEntry[];
 }
 
+/**
+ * Oldest scan of a token. With `check`, the oldest scan whose checks_json
+ * contains that check — rows saved before the check existed are skipped — and
+ * with `detail` too, the oldest where that check recorded the detail.
+ */
+export function getFirstScanForToken(tokenMint: string, check?: string, detail?: string): ScanHistoryEntry | undefined {
+  const db = getDb();
+  const withDetail = detail ? `AND json_type(value, '$.details.' || @detail) IS NOT NULL` : '';
+  const withCheck = check
+    ? `AND EXISTS (SELECT 1 FROM json_each(checks_json) WHERE json_extract(value, '$.check') = @check ${withDetail})`
+    : '';
+  return db.prepare(`
+    SELECT id, token_mint as tokenMint, token_name as tokenName, token_symbol as tokenSymbol,
+           overall_score as overallScore, risk_level as riskLevel, platform,
+           scan_timestamp as scanTimestamp, checks_json as checksJson
+    FROM scan_history WHERE token_mint = @tokenMint ${withCheck}
+    ORDER BY scan_timestamp ASC LIMIT 1
+  `).get({ tokenMint, ...(check && { check }), ...(detail && { detail }) }) as ScanHistoryEntry | undefined;
+}
+
 export function clearHistory(): void {
   const db = getDb();
   db.prepare('DELETE FROM scan_history').run();
@@ -0,0 +1,88 @@
+import { getDb } from './database.js';
+import type { HolderSnapshot } from '@trenchable/shared';
+
+// Scans snapshot without tracked wallets; only the watchlist tracker follows them
+export type HolderSnapshotSource = 'scan' | 'tracker';
+
+interface HolderSnapshotRow {
+  id: number;
+  token_mint: string;
+  taken_at: number;
+  holder_count: number;
+  token_accounts: number;
+  excluded_pct: number;
+  gini: number;
+  nakamoto: number;
+  top10_pct: number;
+  fresh_wallet_pct: number;
+  fresh_wallets_checked: number;
+  top_holders_json: string;
+  tracked_json: string;
+  source: HolderSnapshotSource;
+}
+
+function rowToSnapshot(row: HolderSnapshotRow): HolderSnapshot {
+  return {
+    tokenMint: row.token_mint,
+    takenAt: row.taken_at,
+    holderCount: row.holder_count,
+    tokenAccounts: row.token_accounts,
+    excludedPct: row.excluded_pct,
+    gini: row.gini,
+    nakamoto: row.nakamoto,
+    top10Pct: row.top10_pct,
+    freshWalletPct: row.fresh_wallet_pct,
+    freshWalletsChecked: row.fresh_wallets_checked,
+    topHolders: JSON.parse(row.top_holders_json),
+    tracked: JSON.parse(row.tracked_json),
+  };
+}
+
+export function saveHolderSnapshot(snapshot: HolderSnapshot, source: HolderSnapshotSource = 'scan'): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO holder_snapshots (
+      token_mint, taken_at, holder_count, token_accounts, excluded_pct, gini, nakamoto,
+      top10_pct, fresh_wallet_pct, fresh_wallets_checked, top_holders_json, tracked_json, source
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    snapshot.tokenMint,
+    snapshot.takenAt,
+    snapshot.holderCount,
+    snapshot.tokenAccounts,
+    snapshot.excludedPct,
+    snapshot.gini,
+    snapshot.nakamoto,
+    snapshot.top10Pct,
+    snapshot.freshWalletPct,
+    snapshot.freshWalletsChecked,
+    JSON.stringify(snapshot.topHolders),
+    JSON.stringify(snapshot.tracked),
+    source
+  );
+}
+
+export function getLatestHolderSnapshot(tokenMint: string): HolderSnapshot | null {
+  const db = getDb();
+  const row = db.prepare(
+    'SELECT * FROM holder_snapshots WHERE token_mint = ? ORDER BY taken_at DESC LIMIT 1'
+  ).get(tokenMint) as HolderSnapshotRow | undefined;
+  return row ? rowToSnapshot(row) : null;
+}
+
+// Oldest first, for time series
+export function getHolderSnapshots(
+  tokenMint: string,
+  source: HolderSnapshotSource,
+  since = 0,
+  limit = 500
+): HolderSnapshot[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT * FROM (
+      SELECT * FROM holder_snapshots WHERE token_mint = ? AND source = ? AND taken_at >= ?
+      ORDER BY taken_at DESC LIMIT ?
+    ) ORDER BY taken_at ASC
+  `).all(tokenMint, source, since, limit) as HolderSnapshotRow[];
+  return rows.map(rowToSnapshot);
+}
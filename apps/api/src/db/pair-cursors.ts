@@ -0,0 +1,35 @@
+import { getDb } from './database.js';
+
+export interface PairCursor {
+  slot: number;
+  signature: string | null;
+  updatedAt: number;
+}
+
+export function getPairCursors(): Map<string, PairCursor> {
+  const db = getDb();
+  const rows = db.prepare('SELECT * FROM pair_monitor_cursors').all() as {
+    program: string;
+    last_slot: number;
+    last_signature: string | null;
+    updated_at: number;
+  }[];
+  return new Map(rows.map(row => [row.program, { slot: row.last_slot, signature: row.last_signature, updatedAt: row.updated_at }]));
+}
+
+// Cursors only move forward: an older slot than the stored one is ignored
+export function savePairCursors(cursors: Map<string, { slot: number; signature: string | null }>): void {
+  const db = getDb();
+  const upsert = db.prepare(`
+    INSERT INTO pair_monitor_cursors (program, last_slot, last_signature, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(program) DO UPDATE SET
+      last_slot = excluded.last_slot,
+      last_signature = excluded.last_signature,
+      updated_at = excluded.updated_at
+    WHERE excluded.last_slot > pair_monitor_cursors.last_slot
+  `);
+  const now = Date.now();
+  db.transaction(() => {
+    for (const [program, { slot, signature }] of cursors) upsert.run(program, slot, signature, now);
+  })();
+}
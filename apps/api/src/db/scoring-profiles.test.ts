@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoringProfile } from '@trenchable/shared';
+import { getScoringProfile, saveScoringProfile, seedScoringProfiles } from './scoring-profiles.js';
+
+function builtin(name: string, floor: number): ScoringProfile {
+  return {
+    name,
+    description: `Built-in ${name}`,
+    weights: {},
+    overrides: [{ check: 'HONEYPOT', minCheckScore: 70, floor }],
+    thresholds: { low: 10, moderate: 25, high: 50 },
+    builtin: true,
+  };
+}
+
+describe('seedScoringProfiles', () => {
+  it('brings untouched built-in profiles up to date on a seeded database', () => {
+    seedScoringProfiles([builtin('release', 80)]);
+    seedScoringProfiles([builtin('release', 90)]);
+
+    expect(getScoringProfile('release')).toMatchObject({ builtin: true, overrides: [{ floor: 90 }] });
+  });
+
+  it('leaves customised built-ins and same-named user profiles alone', () => {
+    seedScoringProfiles([builtin('edited', 80)]);
+    saveScoringProfile({ ...builtin('edited', 50), builtin: false });
+    saveScoringProfile({ ...builtin('mine', 40), builtin: false });
+
+    seedScoringProfiles([builtin('edited', 90), builtin('mine', 90)]);
+
+    expect(getScoringProfile('edited')).toMatchObject({ builtin: true, overrides: [{ floor: 50 }] });
+    expect(getScoringProfile('mine')).toMatchObject({ builtin: false, overrides: [{ floor: 40 }] });
+  });
+});
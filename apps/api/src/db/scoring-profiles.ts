@@ -0,0 +1,95 @@
+import { getDb } from './database.js';
+import type { ScoringProfile } from '@trenchable/shared';
+
+interface ScoringProfileRow {
+  name: string;
+  description: string | null;
+  weights_json: string;
+  overrides_json: string;
+  thresholds_json: string;
+  builtin: number;
+}
+
+function rowToProfile(row: ScoringProfileRow): ScoringProfile {
+  return {
+    name: row.name,
+    description: row.description,
+    weights: JSON.parse(row.weights_json),
+    overrides: JSON.parse(row.overrides_json),
+    thresholds: JSON.parse(row.thresholds_json),
+    builtin: row.builtin === 1,
+  };
+}
+
+export function getScoringProfiles(): ScoringProfile[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT name, description, weights_json, overrides_json, thresholds_json, builtin
+    FROM scoring_profiles ORDER BY builtin DESC, name ASC
+  `).all() as ScoringProfileRow[];
+  return rows.map(rowToProfile);
+}
+
+export function getScoringProfile(name: string): ScoringProfile | null {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT name, description, weights_json, overrides_json, thresholds_json, builtin
+    FROM scoring_profiles WHERE name = ?
+  `).get(name) as ScoringProfileRow | undefined;
+  return row ? rowToProfile(row) : null;
+}
+
+// Insert or replace a profile. The builtin flag of an existing row is preserved,
+// and an edited built-in is marked customized.
+export function saveScoringProfile(profile: ScoringProfile): ScoringProfile {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO scoring_profiles (name, description, weights_json, overrides_json, thresholds_json, builtin, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      description = excluded.description,
+      weights_json = excluded.weights_json,
+      overrides_json = excluded.overrides_json,
+      thresholds_json = excluded.thresholds_json,
+      customized = scoring_profiles.builtin,
+      updated_at = excluded.updated_at
+  `).run(
+    profile.name,
+    profile.description,
+    JSON.stringify(profile.weights),
+    JSON.stringify(profile.overrides),
+    JSON.stringify(profile.thresholds),
+    profile.builtin ? 1 : 0,
+    Date.now()
+  );
+  return getScoringProfile(profile.name)!;
+}
+
+// Seed built-in profiles, bringing stored ones up to date unless they were customised
+// or a user profile already has the name
+export function seedScoringProfiles(profiles: ScoringProfile[]): void {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO scoring_profiles (name, description, weights_json, overrides_json, thresholds_json, builtin, updated_at)
+    VALUES (?, ?, ?, ?, ?, 1, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      description = excluded.description,
+      weights_json = excluded.weights_json,
+      overrides_json = excluded.overrides_json,
+      thresholds_json = excluded.thresholds_json,
+      updated_at = excluded.updated_at
+    WHERE scoring_profiles.builtin = 1 AND scoring_profiles.customized = 0
+  `);
+  const now = Date.now();
+  db.transaction(() => {
+    for (const p of profiles) {
+      insert.run(p.name, p.description, JSON.stringify(p.weights), JSON.stringify(p.overrides), JSON.stringify(p.thresholds), now);
+    }
+  })();
+}
+
+export function deleteScoringProfile(name: string): boolean {
+  const db = getDb();
+  const result = db.prepare('DELETE FROM scoring_profiles WHERE name = ? AND builtin = 0').run(name);
+  return result.changes > 0;
+}
@@ -0,0 +1,83 @@
+import { getDb } from './database.js';
+import type { SniperFeatureVector, SniperModel } from '@trenchable/shared';
+
+interface SniperModelRow {
+  version: number;
+  weights_json: string;
+  bias: number;
+  samples: number;
+  positives: number;
+  accuracy: number | null;
+  fitted_at: number;
+}
+
+function rowToModel(row: SniperModelRow): SniperModel {
+  return {
+    version: row.version,
+    weights: JSON.parse(row.weights_json),
+    bias: row.bias,
+    samples: row.samples,
+    positives: row.positives,
+    accuracy: row.accuracy,
+    fittedAt: row.fitted_at,
+  };
+}
+
+// ─── Models ───
+
+export function getLatestSniperModel(): SniperModel | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM sniper_models ORDER BY version DESC LIMIT 1').get() as SniperModelRow | undefined;
+  return row ? rowToModel(row) : null;
+}
+
+export function saveSniperModel(model: Omit<SniperModel, 'version' | 'fittedAt'>): SniperModel {
+  const db = getDb();
+  const fittedAt = Date.now();
+  const result = db.prepare(`
+    INSERT INTO sniper_models (weights_json, bias, samples, positives, accuracy, fitted_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(JSON.stringify(model.weights), model.bias, model.samples, model.positives, model.accuracy, fittedAt);
+  return { ...model, version: Number(result.lastInsertRowid), fittedAt };
+}
+
+// ─── Observations and labels ───
+
+export function saveSniperObservation(wallet: string, tokenMint: string, features: SniperFeatureVector, probability: number): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO sniper_observations (wallet, token_mint, features_json, probability, observed_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(wallet, token_mint) DO UPDATE SET
+      features_json = excluded.features_json,
+      probability = excluded.probability,
+      observed_at = excluded.observed_at
+  `).run(wallet, tokenMint, JSON.stringify(features), probability, Date.now());
+}
+
+export function setSniperLabel(wallet: string, isBot: boolean): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO sniper_labels (wallet, is_bot, labeled_at) VALUES (?, ?, ?)
+    ON CONFLICT(wallet) DO UPDATE SET is_bot = excluded.is_bot, labeled_at = excluded.labeled_at
+  `).run(wallet, isBot ? 1 : 0, Date.now());
+}
+
+export function removeSniperLabel(wallet: string): boolean {
+  const db = getDb();
+  return db.prepare('DELETE FROM sniper_labels WHERE wallet = ?').run(wallet).changes > 0;
+}
+
+// Every observation, with its wallet's label when it has one
+export function getSniperObservations(): { wallet: string; features: SniperFeatureVector; isBot: boolean | null }[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT o.wallet, o.features_json, l.is_bot
+    FROM sniper_observations o LEFT JOIN sniper_labels l ON l.wallet = o.wallet
+  `).all() as { wallet: string; features_json: string; is_bot: number | null }[];
+  return rows.map(row => ({
+    wallet: row.wallet,
+    features: JSON.parse(row.features_json),
+    isBot: row.is_bot === null ? null : row.is_bot === 1,
+  }));
+}
@@ -0,0 +1,36 @@
+import { getDb } from './database.js';
+import type { SharedSocial, SocialHandle, SocialKind } from '@trenchable/shared';
+
+export function recordTokenSocials(tokenMint: string, handles: SocialHandle[]): void {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO token_socials (token_mint, kind, handle, first_seen_at) VALUES (?, ?, ?, ?)
+  `);
+  const now = Date.now();
+  db.transaction(() => {
+    for (const { kind, handle } of handles) insert.run(tokenMint, kind, handle, now);
+  })();
+}
+
+// Other mints that linked to any of `handles`, grouped by handle
+export function findTokensSharingSocials(tokenMint: string, handles: SocialHandle[]): SharedSocial[] {
+  if (handles.length === 0) return [];
+
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT s.kind, s.handle, s.token_mint
+    FROM token_socials s
+    JOIN json_each(?) h ON s.kind = json_extract(h.value, '$.kind') AND s.handle = json_extract(h.value, '$.handle')
+    WHERE s.token_mint != ?
+    ORDER BY s.first_seen_at
+  `).all(JSON.stringify(handles), tokenMint) as { kind: SocialKind; handle: string; token_mint: string }[];
+
+  const shared = new Map<string, SharedSocial>();
+  for (const row of rows) {
+    const key = `${row.kind}:${row.handle}`;
+    const entry = shared.get(key) ?? { kind: row.kind, handle: row.handle, mints: [] };
+    entry.mints.push(row.token_mint);
+    shared.set(key, entry);
+  }
+  return [...shared.values()];
+}
@@ -1,5 +1,5 @@
 import { getDb } from './database.js';
-import type { WatchlistEntry } from '@trenchable/shared';
+import type { WatchlistAlert, WatchlistAlertKind, WatchlistEntry } from '@trenchable/shared';
 
 export function getWatchlist(): WatchlistEntry[] {
   const db = getDb();
@@ -70,3 +70,65 @@ export function toggleAutoRescan(tokenMint: string, enabled: boolean): void {
   const db = getDb();
   db.prepare('UPDATE watchlist SET auto_rescan = ? WHERE token_mint = ?').run(enabled ? 1 : 0, tokenMint);
 }
+
+// ─── Alerts ───
+
+interface WatchlistAlertRow {
+  id: number;
+  token_mint: string;
+  kind: string;
+  severity: string;
+  message: string;
+  details_json: string;
+  created_at: number;
+  acknowledged: number;
+}
+
+function rowToAlert(row: WatchlistAlertRow): WatchlistAlert {
+  return {
+    id: row.id,
+    tokenMint: row.token_mint,
+    kind: row.kind as WatchlistAlertKind,
+    severity: row.severity as WatchlistAlert['severity'],
+    message: row.message,
+    details: JSON.parse(row.details_json),
+    createdAt: row.created_at,
+    acknowledged: row.acknowledged === 1,
+  };
+}
+
+export function addWatchlistAlert(alert: Omit<WatchlistAlert, 'id' | 'createdAt' | 'acknowledged'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO watchlist_alerts (token_mint, kind, severity, message, details_json, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(alert.tokenMint, alert.kind, alert.severity, alert.message, JSON.stringify(alert.details), Date.now());
+}
+
+export function getWatchlistAlerts(tokenMint?: string, unacknowledgedOnly = false, limit = 100): WatchlistAlert[] {
+  const db = getDb();
+  const where = [
+    ...(tokenMint ? ['token_mint = @tokenMint'] : []),
+    ...(unacknowledgedOnly ? ['acknowledged = 0'] : []),
+  ];
+  const rows = db.prepare(`
+    SELECT * FROM watchlist_alerts
+    ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY created_at DESC LIMIT @limit
+  `).all(tokenMint ? { tokenMint, limit } : { limit }) as WatchlistAlertRow[];
+  return rows.map(rowToAlert);
+}
+
+export function getLatestWatchlistAlert(tokenMint: string, kind: WatchlistAlertKind): WatchlistAlert | null {
+  const db = getDb();
+  const row = db.prepare(
+    'SELECT * FROM watchlist_alerts WHERE token_mint = ? AND kind = ? ORDER BY created_at DESC LIMIT 1'
+  ).get(tokenMint, kind) as WatchlistAlertRow | undefined;
+  return row ? rowToAlert(row) : null;
+}
+
+export function acknowledgeWatchlistAlert(id: number): boolean {
+  const db = getDb();
+  const result = db.prepare('UPDATE watchlist_alerts SET acknowledged = 1 WHERE id = ?').run(id);
+  return result.changes > 0;
+}
@@ -11,10 +11,16 @@ import { historyRoutes } from './routes/history.routes.js';
 import { watchlistRoutes, startAutoRescan } from './routes/watchlist.routes.js';
 import { compareRoutes } from './routes/compare.routes.js';
 import { predictionRoutes } from './routes/prediction.routes.js';
+import { scoringRoutes } from './routes/scoring.routes.js';
+import { walletGraphRoutes } from './routes/wallet-graph.routes.js';
+import { labelRoutes } from './routes/labels.routes.js';
+import { creatorRoutes } from './routes/creator.routes.js';
+import { sniperRoutes } from './routes/snipers.routes.js';
 import { getDb } from './db/database.js';
 import { authMiddleware } from './middleware/auth.js';
 import { rateLimitMiddleware } from './middleware/rate-limit.js';
 import { startTokenTracker } from './services/token-tracker.service.js';
+import { startHolderTracker } from './services/holder-tracker.service.js';
 import { startLaunchMonitor, getLaunchMonitorStats } from './services/launch-monitor.service.js';
 import { getDatasetStats } from './services/token-tracker.service.js';
 
@@ -51,6 +57,11 @@ async function main() {
   await app.register(watchlistRoutes);
   await app.register(compareRoutes);
   await app.register(predictionRoutes);
+  await app.register(scoringRoutes);
+  await app.register(walletGraphRoutes);
+  await app.register(labelRoutes);
+  await app.register(creatorRoutes);
+  await app.register(sniperRoutes);
 
   // Start
   try {
@@ -61,6 +72,7 @@ async function main() {
 
     // Start watchlist auto-rescan
     startAutoRescan();
+    startHolderTracker();
 
     // Start MC prediction data collection pipeline
     startTokenTracker();
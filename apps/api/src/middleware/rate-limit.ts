@@ -53,8 +53,10 @@ export async function rateLimitMiddleware(request: FastifyRequest, reply: Fastif
   const entry = getOrCreateEntry(key);
 
   const isInstant = request.url.includes('/scan/instant/');
-  const isDeep = request.url.includes('/scan/deep/') || request.url.includes('/scan/stream/');
-  const isScan = request.url.startsWith('/api/scan');
+  // Funding graph traces and creator reports cost as much RPC as a deep scan and share its budget
+  const isTrace = request.url.startsWith('/api/wallet-graph/') || request.url.startsWith('/api/creator/');
+  const isDeep = request.url.includes('/scan/deep/') || request.url.includes('/scan/stream/') || isTrace;
+  const isScan = request.url.startsWith('/api/scan') || isTrace;
 
   if (!isScan) return; // Only rate limit scan endpoints
 
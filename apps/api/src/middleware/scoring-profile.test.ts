@@ -0,0 +1,45 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { compareRoutes } from '../routes/compare.routes.js';
+import { scanRoutes } from '../routes/scan.routes.js';
+import { runScan } from '../services/scanner.service.js';
+
+vi.mock('../services/scanner.service.js', () => ({
+  runScan: vi.fn(async (tokenMint: string) => ({ tokenMint })),
+}));
+
+const MINT = 'So11111111111111111111111111111111111111112';
+
+describe('requestScoringProfile', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.mocked(runScan).mockClear();
+    app = Fastify();
+    await app.register(scanRoutes);
+    await app.register(compareRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('scans with the requested profile, or the default without one', async () => {
+    await app.inject({ method: 'GET', url: `/api/scan/${MINT}?profile=degen` });
+    await app.inject({ method: 'POST', url: '/api/scan', payload: { tokenMint: MINT } });
+
+    expect(vi.mocked(runScan).mock.calls.map(([, profile]) => profile?.name)).toEqual(['degen', 'default']);
+  });
+
+  it('rejects an unknown profile before scanning', async () => {
+    const scan = await app.inject({ method: 'GET', url: `/api/scan/${MINT}?profile=yolo` });
+    const compare = await app.inject({ method: 'POST', url: '/api/compare?profile=yolo', payload: { tokenMints: [MINT, MINT] } });
+
+    for (const res of [scan, compare]) {
+      expect(res.statusCode).toBe(400);
+      expect(res.json()).toEqual({ error: 'Unknown scoring profile', message: 'No scoring profile named "yolo"' });
+    }
+    expect(runScan).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,22 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { ScoringProfile } from '@trenchable/shared';
+import { resolveScoringProfile } from '../scoring/profiles.js';
+
+/**
+ * Scoring profile for a scan request: ?profile=, else the caller's API key
+ * mapping, else the default. Replies 400 and returns null when ?profile=
+ * names a profile that doesn't exist; the route then returns the reply.
+ */
+export function requestScoringProfile(
+  request: { query: { profile?: string }; headers: FastifyRequest['headers'] },
+  reply: FastifyReply
+): ScoringProfile | null {
+  const profile = resolveScoringProfile(request.query.profile, request.headers['x-api-key'] as string | undefined);
+  if (!profile) {
+    reply.status(400).send({
+      error: 'Unknown scoring profile',
+      message: `No scoring profile named "${request.query.profile}"`,
+    });
+  }
+  return profile;
+}
@@ -1,10 +1,11 @@
 import type { FastifyInstance } from 'fastify';
 import { runScan } from '../services/scanner.service.js';
+import { requestScoringProfile } from '../middleware/scoring-profile.js';
 import type { ScanResponse } from '@trenchable/shared';
 
 export async function compareRoutes(app: FastifyInstance) {
   // Compare multiple tokens
-  app.post<{ Body: { tokenMints: string[] } }>('/api/compare', async (request, reply) => {
+  app.post<{ Body: { tokenMints: string[] }; Querystring: { profile?: string } }>('/api/compare', async (request, reply) => {
     const { tokenMints } = request.body || {};
 
     if (!tokenMints || !Array.isArray(tokenMints) || tokenMints.length < 2) {
@@ -15,8 +16,11 @@ export async function compareRoutes(app: FastifyInstance) {
       return reply.status(400).send({ error: 'Maximum 5 tokens can be compared at once' });
     }
 
+    const profile = requestScoringProfile(request, reply);
+    if (!profile) return reply;
+
     const results = await Promise.allSettled(
-      tokenMints.map(mint => runScan(mint))
+      tokenMints.map(mint => runScan(mint, profile))
     );
 
     const scans: ScanResponse[] = [];
@@ -0,0 +1,35 @@
+import type { FastifyInstance } from 'fastify';
+import { PublicKey } from '@solana/web3.js';
+import { getConnection } from '../config/rpc.js';
+import { getCreatorReport } from '../services/creator-reputation.service.js';
+
+function isValidSolanaAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return address.length >= 32 && address.length <= 44;
+  } catch {
+    return false;
+  }
+}
+
+export async function creatorRoutes(app: FastifyInstance) {
+  // Launch history of a creator wallet and the wallets that funded it
+  app.get<{ Params: { address: string }; Querystring: { refresh?: string } }>('/api/creator/:address', async (request, reply) => {
+    const { address } = request.params;
+
+    if (!isValidSolanaAddress(address)) {
+      return reply.status(400).send({
+        error: 'Invalid creator address',
+      });
+    }
+
+    try {
+      return await getCreatorReport(getConnection(), address, null, request.query.refresh === 'true');
+    } catch (error) {
+      return reply.status(500).send({
+        error: 'Creator report failed',
+        message: String(error),
+      });
+    }
+  });
+}
@@ -2,6 +2,7 @@ import type { FastifyInstance } from 'fastify';
 import { PublicKey } from '@solana/web3.js';
 import { runInstantScan } from '../services/instant-scanner.service.js';
 import { runScan } from '../services/scanner.service.js';
+import { requestScoringProfile } from '../middleware/scoring-profile.js';
 
 function isValidSolanaAddress(address: string): boolean {
   try {
@@ -13,8 +14,8 @@ function isValidSolanaAddress(address: string): boolean {
 }
 
 export async function instantScanRoutes(app: FastifyInstance) {
-  // Instant scan — external API data only, <2s target
-  app.get<{ Params: { tokenMint: string } }>('/api/scan/instant/:tokenMint', async (request, reply) => {
+  // Instant scan — mostly external API data, <2s target
+  app.get<{ Params: { tokenMint: string }; Querystring: { profile?: string } }>('/api/scan/instant/:tokenMint', async (request, reply) => {
     const { tokenMint } = request.params;
 
     if (!isValidSolanaAddress(tokenMint)) {
@@ -23,8 +24,11 @@ export async function instantScanRoutes(app: FastifyInstance) {
       });
     }
 
+    const profile = requestScoringProfile(request, reply);
+    if (!profile) return reply;
+
     try {
-      const result = await runInstantScan(tokenMint);
+      const result = await runInstantScan(tokenMint, profile);
       return result;
     } catch (error) {
       return reply.status(500).send({
@@ -35,7 +39,7 @@ export async function instantScanRoutes(app: FastifyInstance) {
   });
 
   // Deep scan — full 12-check pipeline
-  app.get<{ Params: { tokenMint: string } }>('/api/scan/deep/:tokenMint', async (request, reply) => {
+  app.get<{ Params: { tokenMint: string }; Querystring: { profile?: string } }>('/api/scan/deep/:tokenMint', async (request, reply) => {
     const { tokenMint } = request.params;
 
     if (!isValidSolanaAddress(tokenMint)) {
@@ -44,8 +48,11 @@ export async function instantScanRoutes(app: FastifyInstance) {
       });
     }
 
+    const profile = requestScoringProfile(request, reply);
+    if (!profile) return reply;
+
     try {
-      const result = await runScan(tokenMint);
+      const result = await runScan(tokenMint, profile);
       // Wrap in extended format
       return {
         ...result,
@@ -61,7 +68,7 @@ export async function instantScanRoutes(app: FastifyInstance) {
   });
 
   // SSE streaming scan — sends instant first, then deep results
-  app.get<{ Params: { tokenMint: string } }>('/api/scan/stream/:tokenMint', async (request, reply) => {
+  app.get<{ Params: { tokenMint: string }; Querystring: { profile?: string } }>('/api/scan/stream/:tokenMint', async (request, reply) => {
     const { tokenMint } = request.params;
 
     if (!isValidSolanaAddress(tokenMint)) {
@@ -70,6 +77,9 @@ export async function instantScanRoutes(app: FastifyInstance) {
       });
     }
 
+    const profile = requestScoringProfile(request, reply);
+    if (!profile) return reply;
+
     // Set up SSE headers
     reply.raw.writeHead(200, {
       'Content-Type': 'text/event-stream',
@@ -86,13 +96,13 @@ export async function instantScanRoutes(app: FastifyInstance) {
       // Phase 1: Send instant scan result immediately
       sendEvent('instant', { status: 'scanning' });
 
-      const instantResult = await runInstantScan(tokenMint);
+      const instantResult = await runInstantScan(tokenMint, profile);
       sendEvent('instant', { status: 'complete', data: instantResult });
 
       // Phase 2: Start deep scan
       sendEvent('deep', { status: 'scanning' });
 
-      const deepResult = await runScan(tokenMint);
+      const deepResult = await runScan(tokenMint, profile);
       sendEvent('deep', {
         status: 'complete',
         data: {
@@ -0,0 +1,74 @@
+import type { FastifyInstance } from 'fastify';
+import { ADDRESS_LABEL_CATEGORIES, type AddressLabel, type AddressLabelCategory, type AddressLabelExport } from '@trenchable/shared';
+import {
+  listLabels,
+  findLabel,
+  setLabel,
+  removeLabel,
+  validateLabel,
+  exportLabels,
+  importLabels,
+} from '../services/address-labels.service.js';
+
+export async function labelRoutes(app: FastifyInstance) {
+  app.get<{ Querystring: { category?: string } }>('/api/labels', async (request, reply) => {
+    const { category } = request.query;
+    if (category && !(ADDRESS_LABEL_CATEGORIES as readonly string[]).includes(category)) {
+      return reply.status(400).send({
+        error: 'Unknown category',
+        message: `category must be one of ${ADDRESS_LABEL_CATEGORIES.join(', ')}`,
+      });
+    }
+    return listLabels(category as AddressLabelCategory | undefined);
+  });
+
+  // JSON export of every label, for backup or loading into another server
+  app.get('/api/labels/export', async (_request, reply) => {
+    reply.header('Content-Disposition', 'attachment; filename="address-labels.json"');
+    return exportLabels();
+  });
+
+  app.post<{ Body: Partial<AddressLabelExport>; Querystring: { overwrite?: string } }>('/api/labels/import', async (request, reply) => {
+    const result = importLabels(request.body || {}, request.query.overwrite === 'true');
+    if (result.errors.length > 0 && result.created + result.updated + result.skipped === 0) {
+      return reply.status(400).send({ error: 'Invalid label import', message: result.errors[0], ...result });
+    }
+    return result;
+  });
+
+  app.get<{ Params: { address: string } }>('/api/labels/:address', async (request, reply) => {
+    const label = findLabel(request.params.address);
+    if (!label) {
+      return reply.status(404).send({ error: 'Label not found' });
+    }
+    return label;
+  });
+
+  // Create or replace a label
+  app.put<{ Params: { address: string }; Body: Partial<AddressLabel> }>('/api/labels/:address', async (request, reply) => {
+    const body = { ...request.body, address: request.params.address };
+    const error = validateLabel(body);
+    if (error) {
+      return reply.status(400).send({ error: 'Invalid address label', message: error });
+    }
+
+    return setLabel({
+      address: body.address,
+      category: body.category!,
+      name: body.name!,
+      notes: body.notes ?? null,
+    });
+  });
+
+  app.delete<{ Params: { address: string } }>('/api/labels/:address', async (request, reply) => {
+    const label = findLabel(request.params.address);
+    if (!label) {
+      return reply.status(404).send({ error: 'Label not found' });
+    }
+    if (label.source === 'builtin') {
+      return reply.status(400).send({ error: 'Built-in labels cannot be deleted' });
+    }
+    removeLabel(label.address);
+    return { success: true };
+  });
+}
@@ -0,0 +1,132 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import websocket from '@fastify/websocket';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MonitorFeedMessage, NewPairEvent, Platform, ScoredPairEvent } from '@trenchable/shared';
+import type { PairEmitter } from '../services/pair-sources/index.js';
+import { setPairEventSource } from '../services/pair-monitor.service.js';
+import { requestDeepScan } from '../services/launch-monitor.service.js';
+import { monitorRoutes } from './monitor.routes.js';
+
+// Scores are published straight to the feed's listeners instead of from scans
+const scoreListeners = new Set<(event: ScoredPairEvent) => void>();
+vi.mock('../services/launch-monitor.service.js', () => ({
+  addLaunchScoreListener: (listener: (event: ScoredPairEvent) => void) => {
+    scoreListeners.add(listener);
+    return () => scoreListeners.delete(listener);
+  },
+  requestDeepScan: vi.fn(),
+}));
+
+let emit: PairEmitter;
+setPairEventSource({ name: 'test', start(e) { emit = e; }, stop() {} });
+
+function pair(tokenMint: string, platform: Platform, initialLiquidity: number | null, tokenName: string, creator = 'Creator1'): NewPairEvent {
+  return {
+    type: 'new_pair', platform, tokenMint, tokenName, tokenSymbol: tokenName.toUpperCase(),
+    creator, initialLiquidity, signature: 'sig', timestamp: Date.now(),
+  };
+}
+
+describe('/api/ws/monitor', () => {
+  let app: FastifyInstance;
+  let messages: MonitorFeedMessage[];
+  let socket: Awaited<ReturnType<FastifyInstance['injectWS']>>;
+
+  const settle = () => new Promise(r => setTimeout(r, 20));
+  const send = async (message: unknown) => {
+    socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+    await settle();
+  };
+  const mintsReceived = () => messages.flatMap(m => ('tokenMint' in m ? [m.tokenMint] : []));
+
+  beforeEach(async () => {
+    app = Fastify();
+    await app.register(websocket);
+    await app.register(monitorRoutes);
+    await app.ready();
+    messages = [];
+    socket = await app.injectWS('/api/ws/monitor');
+    socket.on('message', data => messages.push(JSON.parse(data.toString())));
+  });
+
+  afterEach(async () => {
+    socket.terminate();
+    await app.close();
+  });
+
+  it('sends every pair until the client subscribes', async () => {
+    emit(pair('M1', 'pump.fun', null, 'anything'));
+    await settle();
+    expect(mintsReceived()).toEqual(['M1']);
+  });
+
+  it('applies platform, liquidity, name and creator filters', async () => {
+    await send({
+      type: 'subscribe',
+      filters: { platforms: ['raydium'], minLiquidity: 5, namePattern: '^pep', creatorBlacklist: ['Rugger'] },
+    });
+    expect(messages[0]).toMatchObject({ type: 'subscribed' });
+
+    emit(pair('wrong-platform', 'pump.fun', 10, 'pepe'));
+    emit(pair('thin', 'raydium', 1, 'pepe'));
+    emit(pair('wrong-name', 'raydium', 10, 'doge'));
+    emit(pair('blacklisted', 'raydium', 10, 'pepe', 'Rugger'));
+    emit(pair('match', 'raydium', 10, 'PepeCoin'));
+    await settle();
+    expect(mintsReceived()).toEqual(['match']);
+  });
+
+  it('matches a regex anywhere in the name or symbol', async () => {
+    await send({ type: 'subscribe', filters: { namePattern: 'c[ao]t|^dog$' } });
+    emit(pair('M1', 'pump.fun', null, 'moon cat'));
+    emit(pair('M2', 'pump.fun', null, 'dog'));
+    emit(pair('M3', 'pump.fun', null, 'hotdog'));
+    await settle();
+    expect(mintsReceived()).toEqual(['M1', 'M2']);
+  });
+
+  it('matches a hostile pattern against a hostile name in linear time', async () => {
+    // Catastrophic for a backtracking regex engine
+    await send({ type: 'subscribe', filters: { namePattern: '^(a|a?)+(a*)*$b' } });
+    const started = performance.now();
+    emit(pair('M1', 'pump.fun', null, 'a'.repeat(32)));
+    expect(performance.now() - started).toBeLessThan(50);
+    await settle();
+    expect(mintsReceived()).toEqual([]);
+  });
+
+  it('holds pairs back for a risk limit and rejects invalid messages', async () => {
+    await send('not json');
+    await send({ type: 'unsubscribe' });
+    await send({ type: 'subscribe', filters: { namePattern: 'x'.repeat(65) } });
+    await send({ type: 'subscribe', filters: { namePattern: '(a)\\1' } });
+    await send({ type: 'subscribe', filters: { maxRiskScore: 40 } });
+    emit(pair('M1', 'pump.fun', null, 'held'));
+    await settle();
+
+    expect(messages.map(m => m.type)).toEqual(['error', 'error', 'error', 'error', 'subscribed']);
+    expect(messages[3]).toMatchObject({ message: 'namePattern is not a supported regex: backreferences are not supported' });
+    expect(mintsReceived()).toEqual([]);
+  });
+
+  it('sends risk-filtered clients the launches that could not be scored, flagged unscored', async () => {
+    await send({ type: 'subscribe', filters: { maxRiskScore: 40 } });
+    const score = (tokenMint: string, overallScore: number | null): ScoredPairEvent => ({
+      ...pair(tokenMint, 'pump.fun', null, tokenMint),
+      type: 'scored',
+      unscored: overallScore === null,
+      overallScore,
+      riskLevel: overallScore === null ? null : 'moderate',
+      scoredAt: Date.now(),
+    });
+    for (const event of [score('safe', 30), score('risky', 80), score('failed', null)]) {
+      for (const listener of scoreListeners) listener(event);
+    }
+    await settle();
+
+    expect(mintsReceived()).toEqual(['safe', 'failed']);
+    expect(messages.at(-1)).toMatchObject({ tokenMint: 'failed', unscored: true, overallScore: null });
+    // Someone is watching it, so the deep scan may still score it
+    expect(vi.mocked(requestDeepScan).mock.calls.map(([e]) => e.tokenMint)).toEqual(['safe', 'failed']);
+  });
+});
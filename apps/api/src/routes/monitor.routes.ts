@@ -1,25 +1,165 @@
 import type { FastifyInstance } from 'fastify';
+import type { MonitorFeedMessage, MonitorFilters, NewPairEvent, Platform, ScoredPairEvent } from '@trenchable/shared';
 import { addPairListener } from '../services/pair-monitor.service.js';
+import { addLaunchScoreListener, requestDeepScan } from '../services/launch-monitor.service.js';
+import { compileNamePattern, type NamePattern } from '../services/name-pattern.js';
+
+const PLATFORMS = new Set<Platform>(['pump.fun', 'pumpswap', 'raydium', 'raydium-cpmm', 'meteora', 'unknown']);
+// Patterns run on every launch for every client, so keep them short
+const MAX_PATTERN_LENGTH = 64;
+const MAX_BLACKLIST_SIZE = 1000;
+// Mints a client has been shown, so their rescores reach it even when filtered out now
+const MAX_DELIVERED = 500;
+
+interface Subscription {
+  filters: MonitorFilters;
+  pattern: NamePattern | null;
+  blacklist: Set<string>;
+}
+
+const EVERYTHING: Subscription = { filters: {}, pattern: null, blacklist: new Set() };
+
+// A subscription from a client's filters, or the reason they're invalid
+function parseFilters(raw: unknown): Subscription | string {
+  if (raw === undefined || raw === null) return EVERYTHING;
+  if (typeof raw !== 'object' || Array.isArray(raw)) return 'filters must be an object';
+  const { platforms, minLiquidity, maxRiskScore, namePattern, creatorBlacklist } = raw as Record<string, unknown>;
+  const filters: MonitorFilters = {};
+
+  if (platforms !== undefined) {
+    if (!Array.isArray(platforms) || !platforms.every(p => PLATFORMS.has(p))) {
+      return `platforms must be a list of: ${[...PLATFORMS].join(', ')}`;
+    }
+    filters.platforms = platforms;
+  }
+  if (minLiquidity !== undefined) {
+    if (typeof minLiquidity !== 'number' || !Number.isFinite(minLiquidity) || minLiquidity < 0) {
+      return 'minLiquidity must be a non-negative number of SOL';
+    }
+    filters.minLiquidity = minLiquidity;
+  }
+  if (maxRiskScore !== undefined) {
+    if (typeof maxRiskScore !== 'number' || maxRiskScore < 0 || maxRiskScore > 100) {
+      return 'maxRiskScore must be between 0 and 100';
+    }
+    filters.maxRiskScore = maxRiskScore;
+  }
+
+  let pattern: NamePattern | null = null;
+  if (namePattern !== undefined && namePattern !== '') {
+    if (typeof namePattern !== 'string' || namePattern.length > MAX_PATTERN_LENGTH) {
+      return `namePattern must be a regex of at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      pattern = compileNamePattern(namePattern);
+    } catch (err) {
+      return `namePattern is not a supported regex: ${(err as Error).message}`;
+    }
+    filters.namePattern = namePattern;
+  }
+
+  if (creatorBlacklist !== undefined) {
+    if (!Array.isArray(creatorBlacklist) || !creatorBlacklist.every(c => typeof c === 'string')
+      || creatorBlacklist.length > MAX_BLACKLIST_SIZE) {
+      return `creatorBlacklist must be a list of at most ${MAX_BLACKLIST_SIZE} addresses`;
+    }
+    filters.creatorBlacklist = creatorBlacklist;
+  }
+
+  return { filters, pattern, blacklist: new Set(filters.creatorBlacklist) };
+}
+
+// Everything but the risk score, which new pairs don't have yet
+function matchesLaunch(pair: NewPairEvent | ScoredPairEvent, { filters, pattern, blacklist }: Subscription): boolean {
+  if (filters.platforms && !filters.platforms.includes(pair.platform)) return false;
+  if (filters.minLiquidity !== undefined && (pair.initialLiquidity ?? 0) < filters.minLiquidity) return false;
+  if (blacklist.has(pair.creator)) return false;
+  if (pattern && ![pair.tokenName, pair.tokenSymbol].some(name => name !== null && pattern.test(name))) {
+    return false;
+  }
+  return true;
+}
 
 export async function monitorRoutes(app: FastifyInstance) {
+  /**
+   * Live launch feed. Clients receive every new pair until they send a
+   * MonitorSubscribeMessage; after that only the pairs its filters pass.
+   * Pairs the launch monitor scores follow up as 'scored' events, then as
+   * 'rescored' once their deep scan finishes. With maxRiskScore set, pairs
+   * are held back until scored and arrive as the 'scored' event; those the
+   * instant scan fails on arrive flagged unscored rather than not at all.
+   * Deep scans are capped per hour (see requestDeepScan), so past the cap a
+   * pair keeps its instant score.
+   */
   app.get('/api/ws/monitor', { websocket: true }, (socket) => {
     console.log('[WS] Client connected to pair monitor');
+    let subscription = EVERYTHING;
+    const delivered = new Set<string>();
 
-    const removeListener = addPairListener((event) => {
+    const send = (message: MonitorFeedMessage) => {
       try {
-        socket.send(JSON.stringify(event));
+        socket.send(JSON.stringify(message));
       } catch {
         // Client disconnected
       }
+    };
+
+    const deliver = (event: NewPairEvent | ScoredPairEvent) => {
+      delivered.delete(event.tokenMint);
+      delivered.add(event.tokenMint);
+      if (delivered.size > MAX_DELIVERED) delivered.delete(delivered.values().next().value!);
+      send(event);
+    };
+
+    const removePairListener = addPairListener((event) => {
+      if (subscription.filters.maxRiskScore !== undefined) return;
+      if (matchesLaunch(event, subscription)) deliver(event);
+    });
+
+    const removeScoreListener = addLaunchScoreListener((event) => {
+      const { maxRiskScore } = subscription.filters;
+      const passes = matchesLaunch(event, subscription)
+        && (maxRiskScore === undefined || event.overallScore === null || event.overallScore <= maxRiskScore);
+      if (!passes && !delivered.has(event.tokenMint)) return;
+      deliver(event);
+      // Someone is watching this launch: worth the deep scan
+      if (event.type === 'scored') requestDeepScan(event);
+    });
+
+    socket.on('message', (data: Buffer) => {
+      let message: { type?: unknown; filters?: unknown };
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        send({ type: 'error', error: 'Invalid message', message: 'Messages must be JSON' });
+        return;
+      }
+      if (message?.type !== 'subscribe') {
+        send({ type: 'error', error: 'Unknown message type', message: 'Expected { "type": "subscribe", "filters": {...} }' });
+        return;
+      }
+
+      const parsed = parseFilters(message.filters);
+      if (typeof parsed === 'string') {
+        send({ type: 'error', error: 'Invalid filters', message: parsed });
+        return;
+      }
+      subscription = parsed;
+      send({ type: 'subscribed', filters: parsed.filters });
     });
 
+    const cleanup = () => {
+      removePairListener();
+      removeScoreListener();
+    };
+
     socket.on('close', () => {
       console.log('[WS] Client disconnected from pair monitor');
-      removeListener();
+      cleanup();
     });
 
     socket.on('error', () => {
-      removeListener();
+      cleanup();
     });
   });
 }
@@ -1,6 +1,7 @@
 import type { FastifyInstance } from 'fastify';
 import { PublicKey } from '@solana/web3.js';
 import { runScan } from '../services/scanner.service.js';
+import { requestScoringProfile } from '../middleware/scoring-profile.js';
 
 function isValidSolanaAddress(address: string): boolean {
   try {
@@ -13,7 +14,7 @@ function isValidSolanaAddress(address: string): boolean {
 
 export async function scanRoutes(app: FastifyInstance) {
   // Scan by POST
-  app.post<{ Body: { tokenMint: string } }>('/api/scan', async (request, reply) => {
+  app.post<{ Body: { tokenMint: string }; Querystring: { profile?: string } }>('/api/scan', async (request, reply) => {
     const { tokenMint } = request.body || {};
 
     if (!tokenMint || !isValidSolanaAddress(tokenMint)) {
@@ -23,8 +24,11 @@ export async function scanRoutes(app: FastifyInstance) {
       });
     }
 
+    const profile = requestScoringProfile(request, reply);
+    if (!profile) return reply;
+
     try {
-      const result = await runScan(tokenMint);
+      const result = await runScan(tokenMint, profile);
       return result;
     } catch (error) {
       return reply.status(500).send({
@@ -35,7 +39,7 @@ export async function scanRoutes(app: FastifyInstance) {
   });
 
   // Scan by GET (convenience endpoint)
-  app.get<{ Params: { tokenMint: string } }>('/api/scan/:tokenMint', async (request, reply) => {
+  app.get<{ Params: { tokenMint: string }; Querystring: { profile?: string } }>('/api/scan/:tokenMint', async (request, reply) => {
     const { tokenMint } = request.params;
 
     if (!isValidSolanaAddress(tokenMint)) {
@@ -44,8 +48,11 @@ export async function scanRoutes(app: FastifyInstance) {
       });
     }
 
+    const profile = requestScoringProfile(request, reply);
+    if (!profile) return reply;
+
     try {
-      const result = await runScan(tokenMint);
+      const result = await runScan(tokenMint, profile);
       return result;
     } catch (error) {
       return reply.status(500).send({
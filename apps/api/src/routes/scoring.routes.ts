@@ -0,0 +1,61 @@
+import type { FastifyInstance } from 'fastify';
+import type { ScoringProfile } from '@trenchable/shared';
+import { getScoringProfiles, saveScoringProfile, deleteScoringProfile } from '../db/scoring-profiles.js';
+import { findScoringProfile, getDefaultScoringProfile, validateScoringProfile } from '../scoring/profiles.js';
+import { getCheckWeights } from '../checks/index.js';
+
+export async function scoringRoutes(app: FastifyInstance) {
+  // List profiles plus the registry default weights they override
+  app.get('/api/scoring/profiles', async () => {
+    const defaultProfile = getDefaultScoringProfile();
+    return {
+      profiles: getScoringProfiles(),
+      defaultProfile: defaultProfile.name,
+      defaultWeights: {
+        deep: getCheckWeights('deep'),
+        instant: getCheckWeights('instant'),
+      },
+    };
+  });
+
+  app.get<{ Params: { name: string } }>('/api/scoring/profiles/:name', async (request, reply) => {
+    const profile = findScoringProfile(request.params.name);
+    if (!profile) {
+      return reply.status(404).send({ error: 'Scoring profile not found' });
+    }
+    return profile;
+  });
+
+  // Create or replace a profile
+  app.put<{ Params: { name: string }; Body: Partial<ScoringProfile> }>(
+    '/api/scoring/profiles/:name',
+    async (request, reply) => {
+      const body = { ...request.body, name: request.params.name };
+      const error = validateScoringProfile(body);
+      if (error) {
+        return reply.status(400).send({ error: 'Invalid scoring profile', message: error });
+      }
+
+      return saveScoringProfile({
+        name: body.name,
+        description: body.description ?? null,
+        weights: body.weights ?? {},
+        overrides: body.overrides ?? [],
+        thresholds: body.thresholds!,
+        builtin: false,
+      });
+    }
+  );
+
+  app.delete<{ Params: { name: string } }>('/api/scoring/profiles/:name', async (request, reply) => {
+    const profile = findScoringProfile(request.params.name);
+    if (!profile) {
+      return reply.status(404).send({ error: 'Scoring profile not found' });
+    }
+    if (profile.builtin) {
+      return reply.status(400).send({ error: 'Built-in profiles cannot be deleted' });
+    }
+    deleteScoringProfile(profile.name);
+    return { success: true };
+  });
+}
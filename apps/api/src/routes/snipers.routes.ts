@@ -0,0 +1,53 @@
+import type { FastifyInstance } from 'fastify';
+import { PublicKey } from '@solana/web3.js';
+import { setSniperLabel, removeSniperLabel } from '../db/sniper-model.js';
+import { getSniperModel, refitSniperModel } from '../services/snipers/index.js';
+
+function isValidSolanaAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return address.length >= 32 && address.length <= 44;
+  } catch {
+    return false;
+  }
+}
+
+export async function sniperRoutes(app: FastifyInstance) {
+  // Weights the SNIPER_BOTS check is using
+  app.get('/api/snipers/model', async () => {
+    return getSniperModel();
+  });
+
+  // Fit a new version from labeled observations
+  app.post('/api/snipers/model/fit', async (_request, reply) => {
+    try {
+      return refitSniperModel();
+    } catch (error) {
+      return reply.status(400).send({
+        error: 'Not enough training data',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  // Label a wallet bot or not for the next fit
+  app.put<{ Params: { wallet: string }; Body: { isBot?: boolean } }>('/api/snipers/labels/:wallet', async (request, reply) => {
+    const { wallet } = request.params;
+    const { isBot } = request.body || {};
+    if (!isValidSolanaAddress(wallet)) {
+      return reply.status(400).send({ error: 'Invalid wallet address' });
+    }
+    if (typeof isBot !== 'boolean') {
+      return reply.status(400).send({ error: 'isBot must be true or false' });
+    }
+    setSniperLabel(wallet, isBot);
+    return { success: true };
+  });
+
+  app.delete<{ Params: { wallet: string } }>('/api/snipers/labels/:wallet', async (request, reply) => {
+    if (!removeSniperLabel(request.params.wallet)) {
+      return reply.status(404).send({ error: 'Wallet not labeled' });
+    }
+    return { success: true };
+  });
+}
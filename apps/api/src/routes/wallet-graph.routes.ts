@@ -0,0 +1,62 @@
+import type { FastifyInstance } from 'fastify';
+import { PublicKey } from '@solana/web3.js';
+import type { WalletGraphResponse } from '@trenchable/shared';
+import { getConnection } from '../config/rpc.js';
+import { config } from '../config/env.js';
+import { getMintWithExtensions } from '../services/token-extensions.service.js';
+import { getTokenFundingGraph } from '../services/funding-graph/index.js';
+
+function isValidSolanaAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return address.length >= 32 && address.length <= 44;
+  } catch {
+    return false;
+  }
+}
+
+export async function walletGraphRoutes(app: FastifyInstance) {
+  // Funding graph of the creator and early buyers, with cluster path evidence
+  app.get<{ Params: { tokenMint: string }; Querystring: { depth?: string } }>('/api/wallet-graph/:tokenMint', async (request, reply) => {
+    const { tokenMint } = request.params;
+
+    if (!isValidSolanaAddress(tokenMint)) {
+      return reply.status(400).send({
+        error: 'Invalid token mint address',
+      });
+    }
+
+    const depth = request.query.depth ? parseInt(request.query.depth, 10) : config.fundingGraph.depth;
+    if (!Number.isInteger(depth) || depth < 1 || depth > config.fundingGraph.maxDepth) {
+      return reply.status(400).send({
+        error: 'Invalid depth',
+        message: `depth must be between 1 and ${config.fundingGraph.maxDepth}`,
+      });
+    }
+
+    try {
+      const connection = getConnection();
+      const mint = new PublicKey(tokenMint);
+      const mintInfo = await getMintWithExtensions(connection, mint).catch(() => undefined);
+      const { creator, earlyBuyers, graph } = await getTokenFundingGraph({ tokenMint: mint, mintInfo, connection }, depth);
+
+      const supply = mintInfo?.supply ?? 0n;
+      const response: WalletGraphResponse = {
+        tokenMint,
+        creator,
+        earlyBuyers: earlyBuyers.map(b => ({
+          wallet: b.wallet,
+          slot: b.slot,
+          pct: supply > 0n ? Number((b.amount * 10_000n) / supply) / 100 : 0,
+        })),
+        ...graph,
+      };
+      return response;
+    } catch (error) {
+      return reply.status(500).send({
+        error: 'Funding graph failed',
+        message: String(error),
+      });
+    }
+  });
+}
@@ -6,8 +6,12 @@ import {
   toggleAutoRescan,
   getAutoRescanTokens,
   updateWatchlistScore,
+  getWatchlistAlerts,
+  acknowledgeWatchlistAlert,
 } from '../db/watchlist.js';
+import { getHolderSnapshots } from '../db/holder-snapshots.js';
 import { runScan } from '../services/scanner.service.js';
+import { buildHolderSeries } from '../services/holder-tracker.service.js';
 
 export async function watchlistRoutes(app: FastifyInstance) {
   // Get all watchlist items
@@ -58,6 +62,31 @@ export async function watchlistRoutes(app: FastifyInstance) {
     }
   );
 
+  // Drift alerts raised by the holder tracker, newest first
+  app.get<{ Querystring: { tokenMint?: string; unacknowledged?: string } }>('/api/watchlist/alerts', async (request) => {
+    const { tokenMint, unacknowledged } = request.query;
+    return getWatchlistAlerts(tokenMint || undefined, unacknowledged === 'true');
+  });
+
+  app.post<{ Params: { id: string } }>('/api/watchlist/alerts/:id/ack', async (request, reply) => {
+    const id = parseInt(request.params.id, 10);
+    if (!Number.isInteger(id) || !acknowledgeWatchlistAlert(id)) {
+      return reply.status(404).send({ error: 'Alert not found' });
+    }
+    return { success: true };
+  });
+
+  // Tracker snapshot time series: top-10 share, holder count, whale entries/exits
+  app.get<{ Params: { tokenMint: string }; Querystring: { since?: string; limit?: string } }>(
+    '/api/watchlist/:tokenMint/holders',
+    async (request) => {
+      const since = parseInt(request.query.since || '0', 10) || 0;
+      const limit = Math.min(1000, Math.max(1, parseInt(request.query.limit || '500', 10) || 500));
+      const snapshots = getHolderSnapshots(request.params.tokenMint, 'tracker', since, limit);
+      return { tokenMint: request.params.tokenMint, points: buildHolderSeries(snapshots) };
+    }
+  );
+
   // Rescan all auto-rescan tokens
   app.post('/api/watchlist/rescan-all', async () => {
     const tokens = getAutoRescanTokens();
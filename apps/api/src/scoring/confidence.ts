@@ -0,0 +1,59 @@
+import type { DataSource, ScanConfidence, ScoreExplanation, SourceStatus } from '@trenchable/shared';
+
+// Share of check weight that must be evaluated for each confidence level
+const HIGH_COMPLETENESS = 0.8;
+const MEDIUM_COMPLETENESS = 0.5;
+
+const SOURCE_NAMES: Record<DataSource, string> = {
+  helius: 'Helius',
+  goplus: 'GoPlus',
+  dexscreener: 'DexScreener',
+  rugcheck: 'Rugcheck',
+  jupiter: 'Jupiter',
+};
+
+/**
+ * How much of the score is backed by real data: the share of check weight that
+ * was evaluated (not 'unknown') and how many of the queried sources answered.
+ */
+export function assessConfidence(
+  explanation: ScoreExplanation,
+  dataSources: Record<DataSource, SourceStatus>
+): ScanConfidence {
+  const completeness = explanation.totalWeight > 0
+    ? explanation.evaluatedWeight / explanation.totalWeight
+    : 0;
+  const totalChecks = explanation.contributions.length;
+  const evaluatedChecks = totalChecks - explanation.excludedChecks.length;
+
+  const queried = (Object.keys(dataSources) as DataSource[]).filter(s => dataSources[s] !== 'not_queried');
+  const missing = queried.filter(s => dataSources[s] === 'no_data');
+  const sourcesResponded = queried.length - missing.length;
+
+  const reasons: string[] = [];
+  if (evaluatedChecks === 0) {
+    reasons.push('No checks completed — the score is a neutral placeholder');
+  } else if (completeness < HIGH_COMPLETENESS) {
+    reasons.push(`${Math.round((1 - completeness) * 100)}% of the check weight could not be evaluated`);
+  }
+  if (missing.length > 0) {
+    reasons.push(`No data from ${missing.map(s => SOURCE_NAMES[s]).join(', ')}`);
+  }
+
+  let level: ScanConfidence['level'] = 'high';
+  if (evaluatedChecks === 0 || completeness < MEDIUM_COMPLETENESS || sourcesResponded < queried.length / 2) {
+    level = 'low';
+  } else if (completeness < HIGH_COMPLETENESS || missing.length > 0) {
+    level = 'medium';
+  }
+
+  return {
+    level,
+    completeness: Math.round(completeness * 1000) / 1000,
+    evaluatedChecks,
+    totalChecks,
+    sourcesResponded,
+    sourcesQueried: queried.length,
+    reasons,
+  };
+}
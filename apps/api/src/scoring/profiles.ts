@@ -0,0 +1,180 @@
+import type { ScoringProfile, ScoreOverrideRule } from '@trenchable/shared';
+import { RISK_THRESHOLDS } from '@trenchable/shared';
+import { config } from '../config/env.js';
+import { getScoringProfile, seedScoringProfiles } from '../db/scoring-profiles.js';
+
+/**
+ * Scoring profiles
+ *
+ * A profile decides how check results become an overall score: per-check weight
+ * overrides, floor rules ("if check X scores ≥ N, the overall score is at least M")
+ * and the thresholds that map a score to a risk level. Profiles live in SQLite;
+ * the built-ins below are seeded on first use and can be edited but not deleted.
+ */
+
+// Floors applied by every built-in profile
+const CRITICAL_OVERRIDES: ScoreOverrideRule[] = [
+  { check: 'HONEYPOT', minCheckScore: 90, floor: 90 },
+  { check: 'MINT_AUTHORITY', minCheckScore: 90, floor: 75 },
+];
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  description: 'Balanced weights from the check registry',
+  weights: {},
+  overrides: [
+    ...CRITICAL_OVERRIDES,
+    { check: 'RUG_PATTERN', minCheckScore: 100, floor: 100, modes: ['instant'] }, // Confirmed rug
+  ],
+  thresholds: {
+    low: RISK_THRESHOLDS.LOW,
+    moderate: RISK_THRESHOLDS.MODERATE,
+    high: RISK_THRESHOLDS.HIGH,
+  },
+  builtin: true,
+};
+
+export const BUILTIN_SCORING_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    name: 'degen',
+    description: 'Only hard rug vectors (honeypot, authorities, tax, LP) move the score',
+    weights: {
+      HONEYPOT: 0.22,
+      MINT_AUTHORITY: 0.18,
+      FREEZE_AUTHORITY: 0.14,
+      TOKEN_TAX: 0.12,
+      TOKEN_EXTENSIONS: 0.10,
+      LP_STATUS: 0.12,
+      RUG_PATTERN: 0.08,
+      TOP_HOLDERS: 0.05,
+      DEV_WALLET: 0.04,
+      BUNDLE_DETECTION: 0.02,
+      WALLET_CLUSTER: 0.01,
+      SNIPER_BOTS: 0.01,
+      SOCIAL_SENTIMENT: 0.01,
+      METADATA_INTEGRITY: 0.01,
+    },
+    overrides: [
+      ...CRITICAL_OVERRIDES,
+      { check: 'RUG_PATTERN', minCheckScore: 100, floor: 100 },
+    ],
+    thresholds: { low: 35, moderate: 60, high: 80 },
+    builtin: true,
+  },
+  {
+    name: 'conservative',
+    description: 'Weighs holder concentration and insiders more, flags earlier',
+    weights: {
+      TOP_HOLDERS: 0.15,
+      DEV_WALLET: 0.10,
+      BUNDLE_DETECTION: 0.12,
+      WALLET_CLUSTER: 0.09,
+    },
+    overrides: [
+      ...CRITICAL_OVERRIDES,
+      { check: 'FREEZE_AUTHORITY', minCheckScore: 90, floor: 70 },
+      { check: 'TOKEN_EXTENSIONS', minCheckScore: 90, floor: 80 }, // Non-transferable, paused or permanent delegate
+      { check: 'LP_STATUS', minCheckScore: 80, floor: 65 },
+      { check: 'BUNDLE_DETECTION', minCheckScore: 80, floor: 60 },
+      { check: 'RUG_PATTERN', minCheckScore: 100, floor: 100 },
+    ],
+    thresholds: { low: 20, moderate: 40, high: 60 },
+    builtin: true,
+  },
+  {
+    name: 'institutional',
+    description: 'Any unresolved authority, LP or tax risk is disqualifying',
+    weights: {
+      LP_STATUS: 0.18,
+      TOP_HOLDERS: 0.14,
+      DEV_WALLET: 0.10,
+      SOCIAL_SENTIMENT: 0.06,
+    },
+    overrides: [
+      { check: 'HONEYPOT', minCheckScore: 70, floor: 90 },
+      { check: 'MINT_AUTHORITY', minCheckScore: 50, floor: 80 },
+      { check: 'FREEZE_AUTHORITY', minCheckScore: 50, floor: 75 },
+      { check: 'LP_STATUS', minCheckScore: 60, floor: 70 },
+      { check: 'TOKEN_TAX', minCheckScore: 50, floor: 60 },
+      { check: 'TOKEN_EXTENSIONS', minCheckScore: 40, floor: 60 },
+      { check: 'METADATA_INTEGRITY', minCheckScore: 75, floor: 70 }, // Edited after launch
+      { check: 'RUG_PATTERN', minCheckScore: 80, floor: 95 },
+    ],
+    thresholds: { low: 10, moderate: 25, high: 50 },
+    builtin: true,
+  },
+];
+
+let seeded = false;
+
+function ensureSeeded() {
+  if (seeded) return;
+  seedScoringProfiles(BUILTIN_SCORING_PROFILES);
+  seeded = true;
+}
+
+export function findScoringProfile(name: string): ScoringProfile | null {
+  ensureSeeded();
+  return getScoringProfile(name);
+}
+
+export function getDefaultScoringProfile(): ScoringProfile {
+  return findScoringProfile(config.scoring.defaultProfile) ?? DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * Pick the profile for a request: explicit ?profile= first, then the profile
+ * mapped to the caller's API key, then the configured default.
+ * Returns null only when an explicitly requested profile does not exist.
+ */
+export function resolveScoringProfile(requested?: string, apiKey?: string): ScoringProfile | null {
+  if (requested) return findScoringProfile(requested);
+
+  const keyProfile = apiKey ? config.scoring.apiKeyProfiles[apiKey] : undefined;
+  if (keyProfile) {
+    const profile = findScoringProfile(keyProfile);
+    if (profile) return profile;
+  }
+
+  return getDefaultScoringProfile();
+}
+
+const PROFILE_NAME_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+// Validate a user-supplied profile body. Returns an error message or null.
+export function validateScoringProfile(profile: Partial<ScoringProfile>): string | null {
+  if (!profile.name || !PROFILE_NAME_RE.test(profile.name)) {
+    return 'Profile name must be 1-32 lowercase letters, digits, "-" or "_"';
+  }
+
+  const weights = profile.weights ?? {};
+  if (typeof weights !== 'object' || Array.isArray(weights)) return 'weights must be an object';
+  for (const [check, weight] of Object.entries(weights)) {
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      return `Weight for ${check} must be a non-negative number`;
+    }
+  }
+
+  if (!Array.isArray(profile.overrides ?? [])) return 'overrides must be an array';
+  for (const rule of profile.overrides ?? []) {
+    if (!rule || typeof rule.check !== 'string') return 'Each override needs a check id';
+    if (typeof rule.minCheckScore !== 'number' || typeof rule.floor !== 'number') {
+      return `Override for ${rule.check} needs numeric minCheckScore and floor`;
+    }
+    if (rule.floor < 0 || rule.floor > 100) return `Override floor for ${rule.check} must be 0-100`;
+    if (rule.modes && !rule.modes.every(m => m === 'instant' || m === 'deep')) {
+      return `Override modes for ${rule.check} must be "instant" or "deep"`;
+    }
+  }
+
+  const t = profile.thresholds;
+  if (!t || typeof t.low !== 'number' || typeof t.moderate !== 'number' || typeof t.high !== 'number') {
+    return 'thresholds must define low, moderate and high';
+  }
+  if (!(t.low >= 0 && t.low < t.moderate && t.moderate < t.high && t.high <= 100)) {
+    return 'thresholds must satisfy 0 <= low < moderate < high <= 100';
+  }
+
+  return null;
+}
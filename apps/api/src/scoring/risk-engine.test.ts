@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { RiskCheckResult, RiskCheckType } from '@trenchable/shared';
+import { BUILTIN_SCORING_PROFILES, DEFAULT_SCORING_PROFILE } from './profiles.js';
+import { explainScore } from './risk-engine.js';
+
+function check(id: RiskCheckType, score: number, weight: number): RiskCheckResult {
+  return { check: id, status: score >= 50 ? 'danger' : 'safe', score, weight, details: {}, message: '' };
+}
+
+const profile = (name: string) => BUILTIN_SCORING_PROFILES.find(p => p.name === name)!;
+
+// A clean token apart from a permanent delegate
+const delegated = [
+  check('TOKEN_EXTENSIONS', 90, 0.1),
+  check('MINT_AUTHORITY', 0, 0.3),
+  check('HONEYPOT', 0, 0.6),
+];
+
+describe('explainScore overrides', () => {
+  it('leaves Token-2022 extensions to the weights under the default profile', () => {
+    const explanation = explainScore(delegated, DEFAULT_SCORING_PROFILE);
+    expect(explanation.overrides).toEqual([]);
+    expect(explanation.finalScore).toBe(9);
+  });
+
+  it('floors dangerous extensions in the conservative and institutional profiles', () => {
+    expect(explainScore(delegated, profile('conservative')).finalScore).toBe(80);
+    expect(explainScore(delegated, profile('institutional'))).toMatchObject({
+      finalScore: 60,
+      overrides: [{ check: 'TOKEN_EXTENSIONS', checkScore: 90, floor: 60, raisedScore: true }],
+    });
+  });
+
+  it('applies the critical floors in every built-in but institutional, which sets its own', () => {
+    const honeypot = [check('HONEYPOT', 95, 0.2), check('TOP_HOLDERS', 0, 0.8)];
+    for (const p of BUILTIN_SCORING_PROFILES) {
+      expect(explainScore(honeypot, p).finalScore, p.name).toBe(90);
+    }
+  });
+
+  it('skips rules for other scan modes and records floors that did not raise the score', () => {
+    const rug = [check('RUG_PATTERN', 100, 0.5), check('HONEYPOT', 90, 0.5)];
+
+    const deep = explainScore(rug, DEFAULT_SCORING_PROFILE, 'deep');
+    expect(deep.finalScore).toBe(95);
+    expect(deep.overrides).toEqual([expect.objectContaining({ check: 'HONEYPOT', raisedScore: false })]);
+
+    const instant = explainScore(rug, DEFAULT_SCORING_PROFILE, 'instant');
+    expect(instant.finalScore).toBe(100);
+    expect(instant.overrides.map(o => o.check)).toEqual(['HONEYPOT', 'RUG_PATTERN']);
+  });
+});
@@ -1,37 +1,95 @@
-import type { RiskCheckResult, RiskLevel } from '@trenchable/shared';
+import type {
+  AppliedOverride,
+  CheckContribution,
+  RiskCheckResult,
+  RiskLevel,
+  RiskLevelThresholds,
+  ScanMode,
+  ScanResponse,
+  ScoreExplanation,
+  ScoringProfile,
+} from '@trenchable/shared';
+import { getCheckWeights } from '../checks/registry.js';
+import { DEFAULT_SCORING_PROFILE } from './profiles.js';
+import { assessConfidence } from './confidence.js';
 
-export function calculateOverallScore(results: RiskCheckResult[]): number {
+export function calculateOverallScore(
+  results: RiskCheckResult[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  mode: ScanMode = 'deep'
+): number {
+  return explainScore(results, profile, mode).finalScore;
+}
+
+// Same computation as calculateOverallScore, keeping every intermediate step
+export function explainScore(
+  results: RiskCheckResult[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  mode: ScanMode = 'deep'
+): ScoreExplanation {
   let totalScore = 0;
   let totalWeight = 0;
+  let evaluatedWeight = 0;
 
   for (const result of results) {
+    totalWeight += result.weight;
     if (result.status !== 'unknown') {
       totalScore += result.score * result.weight;
-      totalWeight += result.weight;
+      evaluatedWeight += result.weight;
     }
   }
 
   // Normalize to 0-100 based on checks that actually completed
-  let normalizedScore = totalWeight > 0 ? totalScore / totalWeight : 50;
+  const weightedScore = evaluatedWeight > 0 ? totalScore / evaluatedWeight : null;
+  let normalizedScore = weightedScore ?? 50;
+
+  const contributions: CheckContribution[] = results.map(r => {
+    const excluded = r.status === 'unknown';
+    const share = !excluded && evaluatedWeight > 0 ? r.weight / evaluatedWeight : 0;
+    return {
+      check: r.check,
+      score: r.score,
+      weight: r.weight,
+      share: round(share, 4),
+      contribution: round(r.score * share, 2),
+      excluded,
+    };
+  });
 
   // Critical overrides: certain checks force a minimum score
-  const honeypot = results.find(r => r.check === 'HONEYPOT');
-  if (honeypot && honeypot.score >= 90) {
-    normalizedScore = Math.max(normalizedScore, 90);
+  const overrides: AppliedOverride[] = [];
+  for (const rule of profile.overrides) {
+    if (rule.modes && !rule.modes.includes(mode)) continue;
+    const result = results.find(r => r.check === rule.check);
+    if (result && result.score >= rule.minCheckScore) {
+      overrides.push({ ...rule, checkScore: result.score, raisedScore: rule.floor > normalizedScore });
+      normalizedScore = Math.max(normalizedScore, rule.floor);
+    }
   }
 
-  const mintAuth = results.find(r => r.check === 'MINT_AUTHORITY');
-  if (mintAuth && mintAuth.score >= 90) {
-    normalizedScore = Math.max(normalizedScore, 75);
-  }
+  return {
+    contributions,
+    excludedChecks: contributions.filter(c => c.excluded).map(c => c.check),
+    totalWeight: round(totalWeight, 4),
+    evaluatedWeight: round(evaluatedWeight, 4),
+    weightedScore: weightedScore != null ? round(weightedScore, 2) : null,
+    overrides,
+    finalScore: Math.round(normalizedScore),
+  };
+}
 
-  return Math.round(normalizedScore);
+function round(value: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
 }
 
-export function getRiskLevel(score: number): RiskLevel {
-  if (score <= 25) return 'low';
-  if (score <= 50) return 'moderate';
-  if (score <= 75) return 'high';
+export function getRiskLevel(
+  score: number,
+  thresholds: RiskLevelThresholds = DEFAULT_SCORING_PROFILE.thresholds
+): RiskLevel {
+  if (score <= thresholds.low) return 'low';
+  if (score <= thresholds.moderate) return 'moderate';
+  if (score <= thresholds.high) return 'high';
   return 'critical';
 }
 
@@ -41,3 +99,36 @@ export function getRiskColor(score: number): string {
   if (score <= 75) return '#f97316';
   return '#ef4444';
 }
+
+// Re-weight checks with the profile's weights (falling back to registry defaults)
+export function applyProfileWeights(
+  checks: RiskCheckResult[],
+  profile: ScoringProfile,
+  mode: ScanMode
+): RiskCheckResult[] {
+  const defaults = getCheckWeights(mode);
+  return checks.map(c => ({
+    ...c,
+    weight: profile.weights[c.check] ?? defaults[c.check] ?? c.weight,
+  }));
+}
+
+// A scan before scoring — what the scanners cache
+export type UnscoredScan<T extends ScanResponse = ScanResponse> =
+  Omit<T, 'overallScore' | 'riskLevel' | 'scoringProfile' | 'scoreExplanation' | 'confidence'>;
+
+// Score a finished scan under a profile. Check results are left untouched apart
+// from their weights, so a cached scan can be rescored for any profile.
+export function scoreScan<T extends ScanResponse>(scan: UnscoredScan<T>, profile: ScoringProfile, mode: ScanMode): T {
+  const checks = applyProfileWeights(scan.checks, profile, mode);
+  const scoreExplanation = explainScore(checks, profile, mode);
+  return {
+    ...scan,
+    checks,
+    overallScore: scoreExplanation.finalScore,
+    riskLevel: getRiskLevel(scoreExplanation.finalScore, profile.thresholds),
+    scoringProfile: profile.name,
+    scoreExplanation,
+    confidence: assessConfidence(scoreExplanation, scan.dataSources),
+  } as T;
+}
@@ -0,0 +1,234 @@
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type AccountInfo,
+  type Connection,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  AccountType,
+  ExtensionType,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TransferHookLayout,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getMintLen,
+} from '@solana/spl-token';
+import { SOL_MINT } from '@trenchable/shared';
+import type { JupiterQuote } from '../external/jupiter.js';
+import type { SellBuilderFactory } from '../honeypot.service.js';
+
+/**
+ * A constant-product pool and a few holders of one mint, served by an
+ * in-memory stand-in for the validator HONEYPOT_SIMULATION_RPC would point at.
+ * simulateTransaction sells into the pool, or fails the way a given program
+ * would, with the logs a validator writes.
+ */
+
+export const POOL_PROGRAM = new PublicKey('CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK');
+export const HOOK_PROGRAM = Keypair.generate().publicKey;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const FEE_LAMPORTS = 5000;
+
+export type FixtureFailure =
+  // Failing program, and its custom error code (null for a plain failure)
+  { program: 'token' | 'hook' | 'pool'; code: number | null };
+
+export interface FixturePoolOptions {
+  token2022?: boolean;
+  transferHook?: boolean;
+  // Share of the proceeds the token takes at execution, in basis points
+  sellTaxBps?: number;
+  // Makes every simulated sell fail like this
+  failure?: FixtureFailure;
+}
+
+export interface FixturePool {
+  connection: Connection;
+  mint: PublicKey;
+  decimals: number;
+  // Largest balance, but not in the owner's associated token account
+  nonAtaHolder: { owner: PublicKey; tokenAccount: PublicKey };
+  ataHolder: { owner: PublicKey; tokenAccount: PublicKey };
+  // What Jupiter would quote for selling `amount` into the pool, before any tax
+  quote(amount: bigint): JupiterQuote;
+  // Sells into the pool with transfer_checked, proceeds to the seller's wallet
+  builder: SellBuilderFactory;
+}
+
+function account(owner: PublicKey, data: Buffer, lamports = 2_039_280): AccountInfo<Buffer> {
+  return { owner, data, lamports, executable: false, rentEpoch: 0 };
+}
+
+function encodeMint(supply: bigint, decimals: number, hook: boolean): Buffer {
+  const data = Buffer.alloc(hook ? getMintLen([ExtensionType.TransferHook]) : MintLayout.span);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply,
+    decimals,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default,
+  }, data);
+  if (hook) {
+    // Account type after the base account's length, then one TLV entry
+    let offset = ACCOUNT_SIZE;
+    data.writeUInt8(AccountType.Mint, offset++);
+    data.writeUInt16LE(ExtensionType.TransferHook, offset);
+    data.writeUInt16LE(TransferHookLayout.span, offset + 2);
+    TransferHookLayout.encode({ authority: PublicKey.default, programId: HOOK_PROGRAM }, data, offset + 4);
+  }
+  return data;
+}
+
+function encodeTokenAccount(mint: PublicKey, owner: PublicKey, amount: bigint): Buffer {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint,
+    owner,
+    amount,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: AccountState.Initialized,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default,
+  }, data);
+  return data;
+}
+
+function failureLogs(failure: FixtureFailure, tokenProgram: PublicKey): string[] {
+  const error = failure.code === null ? 'invalid account data for instruction' : `custom program error: 0x${failure.code.toString(16)}`;
+  const pool = POOL_PROGRAM.toBase58();
+  const token = tokenProgram.toBase58();
+  const hook = HOOK_PROGRAM.toBase58();
+  const logs = [`Program ${pool} invoke [1]`, 'Program log: Instruction: SwapBaseInput', `Program ${token} invoke [2]`];
+  if (failure.program === 'pool') {
+    return [...logs, `Program ${token} success`, 'Program log: AnchorError: ExceededSlippage', `Program ${pool} failed: ${error}`];
+  }
+  if (failure.program === 'hook') {
+    return [...logs, `Program ${hook} invoke [3]`, 'Program log: transfers are paused', `Program ${hook} failed: ${error}`,
+      `Program ${token} failed: ${error}`, `Program ${pool} failed: ${error}`];
+  }
+  return [...logs, 'Program log: Error: Account is frozen', `Program ${token} failed: ${error}`, `Program ${pool} failed: ${error}`];
+}
+
+export function createFixturePool(options: FixturePoolOptions = {}): FixturePool {
+  const tokenProgram = options.token2022 || options.transferHook ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+  const decimals = 6;
+  const unit = 10n ** BigInt(decimals);
+  const mint = Keypair.generate().publicKey;
+  const reserves = { token: 200_000_000n * unit, sol: 80n * BigInt(LAMPORTS_PER_SOL) };
+
+  const poolAuthority = PublicKey.findProgramAddressSync([Buffer.from('vault_and_lp_mint_auth_seed')], POOL_PROGRAM)[0];
+  const poolVault = getAssociatedTokenAddressSync(mint, poolAuthority, true, tokenProgram);
+  const nonAtaOwner = Keypair.generate().publicKey;
+  const nonAtaAccount = Keypair.generate().publicKey;
+  const ataOwner = Keypair.generate().publicKey;
+  const ataAccount = getAssociatedTokenAddressSync(mint, ataOwner, false, tokenProgram);
+
+  const balances = new Map<string, bigint>([
+    [poolVault.toBase58(), reserves.token],
+    [nonAtaAccount.toBase58(), 5_000_000n * unit],
+    [ataAccount.toBase58(), 1_000_000n * unit],
+  ]);
+  const owners = new Map([
+    [poolVault.toBase58(), poolAuthority],
+    [nonAtaAccount.toBase58(), nonAtaOwner],
+    [ataAccount.toBase58(), ataOwner],
+  ]);
+
+  const accounts = new Map<string, AccountInfo<Buffer>>();
+  accounts.set(mint.toBase58(), account(tokenProgram, encodeMint(1_000_000_000n * unit, decimals, !!options.transferHook)));
+  for (const [address, amount] of balances) {
+    accounts.set(address, account(tokenProgram, encodeTokenAccount(mint, owners.get(address)!, amount)));
+  }
+  for (const wallet of [nonAtaOwner, ataOwner]) {
+    accounts.set(wallet.toBase58(), account(SystemProgram.programId, Buffer.alloc(0), LAMPORTS_PER_SOL));
+  }
+
+  const quoteOut = (amount: bigint) => (reserves.sol * amount) / (reserves.token + amount);
+
+  const connection = {
+    async getTokenLargestAccounts(forMint: PublicKey) {
+      const value = [...balances]
+        .filter(() => forMint.equals(mint))
+        .sort(([, a], [, b]) => (b > a ? 1 : -1))
+        .map(([address, amount]) => ({
+          address: new PublicKey(address),
+          amount: amount.toString(),
+          decimals,
+          uiAmount: Number(amount / unit),
+          uiAmountString: (amount / unit).toString(),
+        }));
+      return { context: { slot: 1 }, value };
+    },
+    async getAccountInfo(address: PublicKey) {
+      return accounts.get(address.toBase58()) ?? null;
+    },
+    async getMultipleAccountsInfo(addresses: PublicKey[]) {
+      return addresses.map(a => accounts.get(a.toBase58()) ?? null);
+    },
+    async getFeeForMessage() {
+      return { context: { slot: 1 }, value: FEE_LAMPORTS };
+    },
+    async simulateTransaction(tx: VersionedTransaction, config: { accounts?: { addresses: string[] } }) {
+      const { seller, amount } = sells.get(tx)!;
+      if (options.failure) {
+        const err = { InstructionError: [0, options.failure.code === null ? 'InvalidAccountData' : { Custom: options.failure.code }] };
+        return { context: { slot: 1 }, value: { err, logs: failureLogs(options.failure, tokenProgram), accounts: null, unitsConsumed: 40_000 } };
+      }
+
+      const out = quoteOut(amount) * BigInt(10_000 - (options.sellTaxBps ?? 0)) / 10_000n;
+      const post = (config.accounts?.addresses ?? []).map(address => {
+        const info = accounts.get(address)!;
+        const lamports = address === seller ? BigInt(info.lamports) + out - BigInt(FEE_LAMPORTS) : BigInt(info.lamports);
+        return { ...info, lamports: Number(lamports), owner: info.owner.toBase58(), data: [info.data.toString('base64'), 'base64'] };
+      });
+      const logs = [`Program ${POOL_PROGRAM.toBase58()} invoke [1]`, `Program ${POOL_PROGRAM.toBase58()} success`];
+      return { context: { slot: 1 }, value: { err: null, logs, accounts: post, unitsConsumed: 60_000 } };
+    },
+  } as unknown as Connection;
+
+  // What each built transaction sells, for the simulation to look up
+  const sells = new Map<VersionedTransaction, { seller: string; amount: bigint }>();
+
+  const builder: SellBuilderFactory = quote => async req => {
+    const source = getAssociatedTokenAddressSync(req.mint, req.owner, false, tokenProgram);
+    const message = new TransactionMessage({
+      payerKey: req.owner,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [createTransferCheckedInstruction(source, req.mint, poolVault, req.owner, req.amount, decimals, [], tokenProgram)],
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(message);
+    sells.set(transaction, { seller: req.owner.toBase58(), amount: req.amount });
+    return { transaction, output: { account: req.owner, native: true }, expectedOut: BigInt(quote.outAmount) };
+  };
+
+  return {
+    connection,
+    mint,
+    decimals,
+    nonAtaHolder: { owner: nonAtaOwner, tokenAccount: nonAtaAccount },
+    ataHolder: { owner: ataOwner, tokenAccount: ataAccount },
+    quote: amount => ({
+      inputMint: mint.toBase58(),
+      outputMint: SOL_MINT,
+      inAmount: amount.toString(),
+      outAmount: quoteOut(amount).toString(),
+      priceImpactPct: (Number(amount) / Number(reserves.token + amount)).toString(),
+      routePlan: [{}],
+    }),
+    builder,
+  };
+}
@@ -0,0 +1,199 @@
+import { spawn, spawnSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type AccountInfo,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { SOL_MINT } from '@trenchable/shared';
+import type { JupiterQuote } from '../external/jupiter.js';
+import type { SellBuilderFactory } from '../honeypot.service.js';
+
+/**
+ * A fixture pool on a real solana-test-validator: a mint, a synthetic holder
+ * with SOL and tokens, and a pool whose vault takes the tokens and whose
+ * wallet pays out SOL. The accounts are written to files and loaded with
+ * --account, so the token programs that run are the validator's own. A sell
+ * is a transfer_checked into the vault plus the pool's payout, simulated
+ * without signature checks.
+ */
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const MINT_RENT = 1_461_600;
+const TOKEN_ACCOUNT_RENT = 2_039_280;
+const RPC_PORT = 18_899;
+const STARTUP_TIMEOUT_MS = 60_000;
+
+export interface ValidatorPoolOptions {
+  token2022?: boolean;
+  // The holder's token account is frozen, as freeze-on-transfer tokens leave buyers
+  frozenHolder?: boolean;
+}
+
+export interface ValidatorPool {
+  mint: PublicKey;
+  decimals: number;
+  holder: { owner: PublicKey; tokenAccount: PublicKey };
+  quote(amount: bigint): JupiterQuote;
+  builder: SellBuilderFactory;
+  accounts: Map<PublicKey, AccountInfo<Buffer>>;
+}
+
+export interface RunningValidator {
+  connection: Connection;
+  stop(): void;
+}
+
+// solana-test-validator is part of the Solana CLI, not an npm package
+export function hasTestValidator(): boolean {
+  return spawnSync('solana-test-validator', ['--version'], { stdio: 'ignore' }).status === 0;
+}
+
+function account(owner: PublicKey, data: Buffer, lamports: number): AccountInfo<Buffer> {
+  return { owner, data, lamports, executable: false, rentEpoch: 0 };
+}
+
+function encodeMint(supply: bigint, decimals: number): Buffer {
+  const data = Buffer.alloc(MintLayout.span);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply,
+    decimals,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default,
+  }, data);
+  return data;
+}
+
+function encodeTokenAccount(mint: PublicKey, owner: PublicKey, amount: bigint, frozen: boolean): Buffer {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint,
+    owner,
+    amount,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: frozen ? AccountState.Frozen : AccountState.Initialized,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default,
+  }, data);
+  return data;
+}
+
+export function createValidatorPool(options: ValidatorPoolOptions = {}): ValidatorPool {
+  const tokenProgram = options.token2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+  const decimals = 6;
+  const unit = 10n ** BigInt(decimals);
+  const mint = Keypair.generate().publicKey;
+  const reserves = { token: 200_000_000n * unit, sol: 80n * BigInt(LAMPORTS_PER_SOL) };
+
+  // The vault belongs to a PDA, so it is never picked as a seller
+  const poolAuthority = PublicKey.findProgramAddressSync([Buffer.from('pool'), mint.toBuffer()], SystemProgram.programId)[0];
+  const poolVault = getAssociatedTokenAddressSync(mint, poolAuthority, true, tokenProgram);
+  const poolWallet = Keypair.generate().publicKey;
+  const owner = Keypair.generate().publicKey;
+  const tokenAccount = getAssociatedTokenAddressSync(mint, owner, false, tokenProgram);
+
+  const accounts = new Map<PublicKey, AccountInfo<Buffer>>([
+    [mint, account(tokenProgram, encodeMint(1_000_000_000n * unit, decimals), MINT_RENT)],
+    [poolVault, account(tokenProgram, encodeTokenAccount(mint, poolAuthority, reserves.token, false), TOKEN_ACCOUNT_RENT)],
+    [tokenAccount, account(tokenProgram, encodeTokenAccount(mint, owner, 1_000_000n * unit, !!options.frozenHolder), TOKEN_ACCOUNT_RENT)],
+    [owner, account(SystemProgram.programId, Buffer.alloc(0), LAMPORTS_PER_SOL)],
+    [poolWallet, account(SystemProgram.programId, Buffer.alloc(0), Number(reserves.sol))],
+  ]);
+
+  const quoteOut = (amount: bigint) => (reserves.sol * amount) / (reserves.token + amount);
+
+  const builder: SellBuilderFactory = quote => async req => {
+    const source = getAssociatedTokenAddressSync(req.mint, req.owner, false, tokenProgram);
+    const message = new TransactionMessage({
+      payerKey: req.owner,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        createTransferCheckedInstruction(source, req.mint, poolVault, req.owner, req.amount, decimals, [], tokenProgram),
+        SystemProgram.transfer({ fromPubkey: poolWallet, toPubkey: req.owner, lamports: BigInt(quote.outAmount) }),
+      ],
+    }).compileToV0Message();
+    return { transaction: new VersionedTransaction(message), output: { account: req.owner, native: true }, expectedOut: BigInt(quote.outAmount) };
+  };
+
+  return {
+    mint,
+    decimals,
+    holder: { owner, tokenAccount },
+    quote: amount => ({
+      inputMint: mint.toBase58(),
+      outputMint: SOL_MINT,
+      inAmount: amount.toString(),
+      outAmount: quoteOut(amount).toString(),
+      priceImpactPct: (Number(amount) / Number(reserves.token + amount)).toString(),
+      routePlan: [{}],
+    }),
+    builder,
+    accounts,
+  };
+}
+
+/**
+ * Start solana-test-validator with fixture accounts, from an empty ledger.
+ * Resolves once the RPC answers.
+ */
+export async function startValidator(accounts: Map<PublicKey, AccountInfo<Buffer>>): Promise<RunningValidator> {
+  const dir = mkdtempSync(join(tmpdir(), 'validator-pool-'));
+  const args = ['--reset', '--quiet', '--ledger', join(dir, 'ledger'), '--rpc-port', String(RPC_PORT), '--faucet-port', String(RPC_PORT + 1)];
+  for (const [address, info] of accounts) {
+    const file = join(dir, `${address.toBase58()}.json`);
+    writeFileSync(file, JSON.stringify({
+      pubkey: address.toBase58(),
+      account: {
+        lamports: info.lamports,
+        data: [info.data.toString('base64'), 'base64'],
+        owner: info.owner.toBase58(),
+        executable: false,
+        rentEpoch: 0,
+        space: info.data.length,
+      },
+    }));
+    args.push('--account', address.toBase58(), file);
+  }
+
+  const child = spawn('solana-test-validator', args, { stdio: 'ignore' });
+  const stop = () => {
+    child.kill();
+    rmSync(dir, { recursive: true, force: true });
+  };
+
+  const connection = new Connection(`http://127.0.0.1:${RPC_PORT}`, 'confirmed');
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      await connection.getSlot();
+      return { connection, stop };
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+  stop();
+  throw new Error('solana-test-validator did not start');
+}
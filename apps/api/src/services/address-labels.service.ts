@@ -0,0 +1,183 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  ADDRESS_LABEL_CATEGORIES,
+  BURN_ADDRESS,
+  KNOWN_EXCHANGE_WALLETS,
+  KNOWN_SNIPER_BOTS,
+  LP_LOCKER_PROGRAMS,
+  PROGRAM_IDS,
+  PUMP_FUN_MINT_AUTHORITY,
+  type AddressLabel,
+  type AddressLabelCategory,
+  type AddressLabelExport,
+  type AddressLabelImportResult,
+} from '@trenchable/shared';
+import {
+  getAddressLabels,
+  getAddressLabel,
+  saveAddressLabel,
+  seedAddressLabels,
+  deleteAddressLabel,
+} from '../db/address-labels.js';
+
+/**
+ * Address labels
+ *
+ * One address book for every check that classifies wallets: exchange hot
+ * wallets, MEV bots, AMM programs and pools, LP lockers, burn addresses and
+ * known ruggers. Built-in labels are seeded into SQLite on first use; team
+ * labels are added through /api/labels and can be moved between servers as JSON.
+ * Checks read from an in-memory copy that is rebuilt after every write.
+ */
+
+type LabelInput = Pick<AddressLabel, 'address' | 'category' | 'name' | 'notes'>;
+
+// Raydium's LP lock keeps CPMM LP in vaults owned by this PDA
+const RAYDIUM_LOCK_AUTHORITY = PublicKey.findProgramAddressSync(
+  [Buffer.from('lock_cp_authority_seed')],
+  new PublicKey(LP_LOCKER_PROGRAMS.RAYDIUM_LP_LOCK)
+)[0].toBase58();
+
+export const BUILTIN_ADDRESS_LABELS: LabelInput[] = [
+  ...Object.entries(KNOWN_EXCHANGE_WALLETS).map(([address, exchange]) => (
+    { address, category: 'cex' as const, name: `${exchange} hot wallet`, notes: null }
+  )),
+  ...[...KNOWN_SNIPER_BOTS].map(address => ({ address, category: 'mev-bot' as const, name: 'MEV bot', notes: null })),
+  { address: BURN_ADDRESS, category: 'burn', name: 'Incinerator', notes: null },
+  { address: LP_LOCKER_PROGRAMS.RAYDIUM_LP_LOCK, category: 'locker', name: 'Raydium LP lock', notes: null },
+  { address: RAYDIUM_LOCK_AUTHORITY, category: 'locker', name: 'Raydium LP lock authority', notes: 'Owns locked CPMM LP vaults' },
+  { address: LP_LOCKER_PROGRAMS.STREAMFLOW, category: 'locker', name: 'Streamflow', notes: null },
+  { address: PROGRAM_IDS.RAYDIUM_V4_AMM, category: 'lp', name: 'Raydium V4 AMM', notes: null },
+  { address: '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1', category: 'lp', name: 'Raydium V4 authority', notes: 'Owns every V4 pool vault' },
+  { address: PROGRAM_IDS.RAYDIUM_CPMM, category: 'lp', name: 'Raydium CPMM', notes: null },
+  { address: PROGRAM_IDS.PUMP_FUN, category: 'lp', name: 'pump.fun bonding curve', notes: null },
+  { address: PROGRAM_IDS.PUMP_SWAP_AMM, category: 'lp', name: 'PumpSwap AMM', notes: null },
+  { address: PROGRAM_IDS.METEORA_DLMM, category: 'lp', name: 'Meteora DLMM', notes: null },
+  // Meteora DAMM is both the AMM and its own lock escrow program
+  { address: PROGRAM_IDS.METEORA_DAMM, category: 'locker', name: 'Meteora DAMM', notes: 'AMM program; LP lock escrows live here too' },
+  { address: PUMP_FUN_MINT_AUTHORITY, category: 'other', name: 'pump.fun mint authority', notes: null },
+  { address: 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', category: 'other', name: 'Jupiter aggregator', notes: null },
+];
+
+let cache: Map<string, AddressLabel> | null = null;
+
+function labels(): Map<string, AddressLabel> {
+  if (!cache) {
+    seedAddressLabels(BUILTIN_ADDRESS_LABELS);
+    cache = new Map(getAddressLabels().map(l => [l.address, l]));
+  }
+  return cache;
+}
+
+// ─── Lookups used by checks ───
+
+export function getLabel(address: string): AddressLabel | null {
+  return labels().get(address) ?? null;
+}
+
+export function hasLabel(address: string, ...categories: AddressLabelCategory[]): boolean {
+  const label = labels().get(address);
+  return !!label && categories.includes(label.category);
+}
+
+// address -> label name for one category
+export function getLabelNames(category: AddressLabelCategory): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const label of labels().values()) {
+    if (label.category === category) names[label.address] = label.name;
+  }
+  return names;
+}
+
+export function getLabeledAddresses(...categories: AddressLabelCategory[]): Set<string> {
+  return new Set([...labels().values()].filter(l => categories.includes(l.category)).map(l => l.address));
+}
+
+// ─── Editing ───
+
+export function listLabels(category?: AddressLabelCategory): AddressLabel[] {
+  labels();
+  return getAddressLabels(category);
+}
+
+export function findLabel(address: string): AddressLabel | null {
+  labels();
+  return getAddressLabel(address);
+}
+
+export function setLabel(input: LabelInput): AddressLabel {
+  labels();
+  const saved = saveAddressLabel({ ...input, name: input.name.trim(), notes: input.notes ?? null }, 'team');
+  cache = null;
+  return saved;
+}
+
+export function removeLabel(address: string): boolean {
+  const removed = deleteAddressLabel(address);
+  cache = null;
+  return removed;
+}
+
+// Validate a user-supplied label. Returns an error message or null.
+export function validateLabel(input: Partial<LabelInput>): string | null {
+  try {
+    new PublicKey(input.address ?? '');
+  } catch {
+    return 'address must be a valid Solana address';
+  }
+  if (!input.category || !(ADDRESS_LABEL_CATEGORIES as readonly string[]).includes(input.category)) {
+    return `category must be one of ${ADDRESS_LABEL_CATEGORIES.join(', ')}`;
+  }
+  if (typeof input.name !== 'string' || input.name.trim().length === 0 || input.name.length > 64) {
+    return 'name must be 1-64 characters';
+  }
+  if (input.notes != null && (typeof input.notes !== 'string' || input.notes.length > 500)) {
+    return 'notes must be a string of at most 500 characters';
+  }
+  return null;
+}
+
+export function exportLabels(): AddressLabelExport {
+  return {
+    formatVersion: 1,
+    exportedAt: Date.now(),
+    labels: listLabels().map(({ address, category, name, notes, version }) => ({ address, category, name, notes, version })),
+  };
+}
+
+/**
+ * Load labels from an export. A label whose version is not newer than the one
+ * stored is skipped unless `overwrite` is set; invalid entries are reported,
+ * not fatal.
+ */
+export function importLabels(data: Partial<AddressLabelExport>, overwrite = false): AddressLabelImportResult {
+  const result: AddressLabelImportResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+  if (data.formatVersion !== undefined && data.formatVersion !== 1) {
+    result.errors.push(`Unsupported formatVersion ${data.formatVersion}`);
+    return result;
+  }
+  if (!Array.isArray(data.labels)) {
+    result.errors.push('labels must be an array');
+    return result;
+  }
+
+  labels();
+  for (const [i, entry] of data.labels.entries()) {
+    const error = validateLabel(entry ?? {});
+    if (error) {
+      result.errors.push(`labels[${i}]: ${error}`);
+      continue;
+    }
+    const version = Number.isInteger(entry.version) && entry.version > 0 ? entry.version : 1;
+    const existing = getAddressLabel(entry.address);
+    if (existing && existing.version >= version && !overwrite) {
+      result.skipped++;
+      continue;
+    }
+    saveAddressLabel({ address: entry.address, category: entry.category, name: entry.name.trim(), notes: entry.notes ?? null }, 'import', version);
+    if (existing) result.updated++;
+    else result.created++;
+  }
+  cache = null;
+  return result;
+}
@@ -0,0 +1,84 @@
+import { Keypair, PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import { buildTimeline, extractEvents, type AuthorityEvent, type HolderKind } from './authority-history.service.js';
+
+const MINT = Keypair.generate().publicKey.toBase58();
+const key = () => Keypair.generate().publicKey.toBase58();
+
+const tokenIx = (type: string, info: Record<string, unknown>) =>
+  ({ programId: new PublicKey(PROGRAM_IDS.SPL_TOKEN), program: 'spl-token', parsed: { type, info } });
+
+// Top-level instructions, and token instructions invoked by the first of them
+function transaction(slot: number, topLevel: unknown[], inner: unknown[] = []): ParsedTransactionWithMeta {
+  return {
+    slot,
+    blockTime: slot * 10,
+    transaction: { message: { instructions: topLevel } },
+    meta: { err: null, innerInstructions: inner.length ? [{ index: 0, instructions: inner }] : [] },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+describe('extractEvents', () => {
+  it('reads both authorities from an initializeMint made through CPI', () => {
+    const creator = key();
+    const launchpad = { programId: new PublicKey(PROGRAM_IDS.PUMP_FUN), accounts: [], data: '' };
+    const tx = transaction(1, [launchpad], [
+      tokenIx('initializeMint2', { mint: MINT, decimals: 6, mintAuthority: creator }),
+      tokenIx('initializeMint2', { mint: key(), decimals: 6, mintAuthority: creator }),
+    ]);
+
+    expect(extractEvents(tx, 'sigInit', MINT)).toEqual([
+      { authority: 'mint', action: 'initialize', from: null, to: creator, signature: 'sigInit', slot: 1, blockTime: 10, viaProgram: PROGRAM_IDS.PUMP_FUN },
+      { authority: 'freeze', action: 'initialize', from: null, to: null, signature: 'sigInit', slot: 1, blockTime: 10, viaProgram: PROGRAM_IDS.PUMP_FUN },
+    ]);
+  });
+
+  it('reads setAuthority for mint and freeze authorities, ignoring account authorities', () => {
+    const [owner, multisig, next] = [key(), key(), key()];
+    const tx = transaction(2, [
+      tokenIx('setAuthority', { mint: MINT, authorityType: 'mintTokens', authority: owner, newAuthority: null }),
+      tokenIx('setAuthority', { mint: MINT, authorityType: 'freezeAccount', multisigAuthority: multisig, newAuthority: next }),
+      tokenIx('setAuthority', { account: key(), authorityType: 'accountOwner', authority: owner, newAuthority: next }),
+    ]);
+
+    expect(extractEvents(tx, 'sigSet', MINT).map(({ authority, action, from, to, viaProgram }) => ({ authority, action, from, to, viaProgram }))).toEqual([
+      { authority: 'mint', action: 'set', from: owner, to: null, viaProgram: null },
+      { authority: 'freeze', action: 'set', from: multisig, to: next, viaProgram: null },
+    ]);
+  });
+});
+
+describe('buildTimeline', () => {
+  const event = (slot: number, action: AuthorityEvent['action'], from: string | null, to: string | null, viaProgram: string | null = null): AuthorityEvent =>
+    ({ authority: 'freeze', action, from, to, signature: `sig${slot}`, slot, blockTime: slot * 10, viaProgram });
+
+  it('does not count a mint initialized without the authority as a revoke', () => {
+    const later = key();
+    // Closed and re-initialized with a freeze authority: it was never revoked
+    const timeline = buildTimeline([event(1, 'initialize', null, null), event(2, 'initialize', null, later)], later, new Map([[later, 'wallet']]));
+
+    expect(timeline).toMatchObject({ revokedAt: null, revokedSignature: null, regained: false, currentHolderKind: 'wallet' });
+    expect(timeline.holders).toEqual([{ address: later, kind: 'wallet', since: 20 }]);
+  });
+
+  it('flags an authority set again after a revoke, with the program that did it', () => {
+    const [creator, proxy] = [key(), key()];
+    const kinds = new Map<string, HolderKind>([[creator, 'wallet'], [proxy, 'pda']]);
+    const timeline = buildTimeline([
+      event(1, 'initialize', null, creator),
+      event(2, 'set', creator, null),
+      event(3, 'set', null, proxy, 'ProxyProgram'),
+    ], proxy, kinds);
+
+    expect(timeline).toMatchObject({ revokedAt: 20, revokedSignature: 'sig2', regained: true, regainedVia: 'ProxyProgram', currentHolderKind: 'pda' });
+    expect(timeline.holders.map(h => h.address)).toEqual([creator, proxy]);
+  });
+
+  it('treats a current authority after a seen revoke as regained even without the transaction', () => {
+    const [creator, current] = [key(), key()];
+    const timeline = buildTimeline([event(1, 'initialize', null, creator), event(2, 'set', creator, null)], current, new Map());
+
+    expect(timeline).toMatchObject({ revokedAt: 20, regained: true, regainedVia: null, currentHolderKind: 'unknown' });
+  });
+});
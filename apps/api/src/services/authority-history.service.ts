@@ -0,0 +1,289 @@
+import {
+  PublicKey,
+  type ConfirmedSignatureInfo,
+  type Connection,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import { PROGRAM_IDS, type RiskCheckResult } from '@trenchable/shared';
+import type { ScanContext } from '../types/risk.types.js';
+
+/**
+ * Authority history
+ *
+ * Walks the mint's transaction history for InitializeMint and SetAuthority
+ * instructions (top-level and CPI) to show who held mint/freeze authority, when
+ * it was revoked, and where it went when it wasn't. A revoke followed by a new
+ * authority — e.g. a Token-2022 mint closed and re-initialized, or authority
+ * handed back through a proxy program — is flagged as regained.
+ */
+
+export type AuthorityKind = 'mint' | 'freeze';
+export type HolderKind = 'wallet' | 'multisig' | 'pda' | 'program-account' | 'unknown';
+
+export interface AuthorityEvent {
+  authority: AuthorityKind;
+  action: 'initialize' | 'set';
+  from: string | null;
+  to: string | null;
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  // Program that invoked the token program, when the change came through CPI
+  viaProgram: string | null;
+}
+
+export interface AuthorityTimeline {
+  events: AuthorityEvent[];
+  holders: { address: string; kind: HolderKind; since: number | null }[];
+  revokedAt: number | null;
+  revokedSignature: string | null;
+  currentHolderKind: HolderKind | null;
+  regained: boolean;
+  regainedVia: string | null;
+}
+
+export interface AuthorityHistory {
+  mint: AuthorityTimeline;
+  freeze: AuthorityTimeline;
+  scannedTransactions: number;
+  totalSignatures: number;
+  // False when the mint has more history than was walked
+  complete: boolean;
+}
+
+const SIGNATURE_PAGES = 5;
+const OLDEST_TXS = 60;   // Creation and early revokes
+const NEWEST_TXS = 40;   // Late authority changes
+const TX_BATCH = 20;
+const MULTISIG_SIZE = 355;
+
+const TOKEN_PROGRAMS = new Set<string>([PROGRAM_IDS.SPL_TOKEN, PROGRAM_IDS.TOKEN_2022]);
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+const AUTHORITY_TYPES: Record<string, AuthorityKind> = {
+  mintTokens: 'mint',
+  freezeAccount: 'freeze',
+};
+
+async function collectSignatures(connection: Connection, mint: PublicKey): Promise<{
+  signatures: ConfirmedSignatureInfo[];
+  complete: boolean;
+}> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+  for (let page = 0; page < SIGNATURE_PAGES; page++) {
+    const batch = await connection.getSignaturesForAddress(mint, { limit: 1000, before });
+    signatures.push(...batch);
+    if (batch.length < 1000) return { signatures, complete: true };
+    before = batch[batch.length - 1].signature;
+  }
+  return { signatures, complete: false };
+}
+
+function isParsed(ix: ParsedInstruction | PartiallyDecodedInstruction): ix is ParsedInstruction {
+  return 'parsed' in ix;
+}
+
+export function extractEvents(tx: ParsedTransactionWithMeta, signature: string, mint: string): AuthorityEvent[] {
+  const events: AuthorityEvent[] = [];
+  const topLevel = tx.transaction.message.instructions;
+
+  const visit = (ix: ParsedInstruction | PartiallyDecodedInstruction, parentProgram: string | null) => {
+    if (!isParsed(ix) || !TOKEN_PROGRAMS.has(ix.programId.toBase58())) return;
+    const { type, info } = ix.parsed as { type: string; info: Record<string, unknown> };
+    const base = { signature, slot: tx.slot, blockTime: tx.blockTime ?? null, viaProgram: parentProgram };
+
+    if ((type === 'initializeMint' || type === 'initializeMint2') && info.mint === mint) {
+      events.push({ ...base, authority: 'mint', action: 'initialize', from: null, to: (info.mintAuthority as string) ?? null });
+      events.push({ ...base, authority: 'freeze', action: 'initialize', from: null, to: (info.freezeAuthority as string) ?? null });
+    } else if (type === 'setAuthority' && info.mint === mint) {
+      const authority = AUTHORITY_TYPES[info.authorityType as string];
+      if (!authority) return;
+      events.push({
+        ...base,
+        authority,
+        action: 'set',
+        from: ((info.authority ?? info.multisigAuthority) as string) ?? null,
+        to: (info.newAuthority as string) ?? null,
+      });
+    }
+  };
+
+  topLevel.forEach(ix => visit(ix, null));
+  for (const inner of tx.meta?.innerInstructions ?? []) {
+    const parent = topLevel[inner.index]?.programId.toBase58() ?? null;
+    inner.instructions.forEach(ix => visit(ix, parent));
+  }
+  return events;
+}
+
+async function classifyHolders(connection: Connection, addresses: string[]): Promise<Map<string, HolderKind>> {
+  const kinds = new Map<string, HolderKind>();
+  if (addresses.length === 0) return kinds;
+  const keys = addresses.map(a => new PublicKey(a));
+  const infos = await connection.getMultipleAccountsInfo(keys).catch(() => keys.map(() => null));
+
+  keys.forEach((key, i) => {
+    const info = infos[i];
+    const owner = info?.owner.toBase58();
+    let kind: HolderKind;
+    if (info && owner && TOKEN_PROGRAMS.has(owner) && info.data.length === MULTISIG_SIZE) kind = 'multisig';
+    else if (!PublicKey.isOnCurve(key.toBytes())) kind = 'pda';
+    else if (info && owner !== SYSTEM_PROGRAM) kind = 'program-account';
+    else kind = 'wallet';
+    kinds.set(addresses[i], kind);
+  });
+  return kinds;
+}
+
+export function buildTimeline(
+  events: AuthorityEvent[],
+  current: string | null,
+  kinds: Map<string, HolderKind>
+): AuthorityTimeline {
+  const holders: AuthorityTimeline['holders'] = [];
+  let revoked: AuthorityEvent | null = null;
+  let regained: AuthorityEvent | null = null;
+
+  for (const event of events) {
+    if (event.to === null) {
+      // A mint initialized without a freeze authority never had one to revoke
+      if (event.action === 'set' && event.from !== null) revoked ??= event;
+    } else {
+      if (revoked && !regained) regained = event;
+      if (!holders.some(h => h.address === event.to)) {
+        holders.push({ address: event.to, kind: kinds.get(event.to) ?? 'unknown', since: event.blockTime });
+      }
+    }
+  }
+
+  // History is partial on busy mints — an authority that exists now after a
+  // seen revoke was regained even if the regaining transaction wasn't walked
+  if (revoked && current && !regained) {
+    regained = { ...revoked, to: current, viaProgram: null };
+  }
+
+  return {
+    events,
+    holders,
+    revokedAt: revoked?.blockTime ?? null,
+    revokedSignature: revoked?.signature ?? null,
+    currentHolderKind: current ? kinds.get(current) ?? 'unknown' : null,
+    regained: regained !== null,
+    regainedVia: regained?.viaProgram ?? null,
+  };
+}
+
+export async function getAuthorityHistory(ctx: ScanContext): Promise<AuthorityHistory> {
+  const mint = ctx.tokenMint.toBase58();
+  const { signatures, complete } = await collectSignatures(ctx.connection, ctx.tokenMint);
+
+  // Signatures come newest first; walk the oldest and newest ends
+  const ok = signatures.filter(s => !s.err);
+  const picked = ok.length <= OLDEST_TXS + NEWEST_TXS
+    ? ok
+    : [...ok.slice(0, NEWEST_TXS), ...ok.slice(-OLDEST_TXS)];
+  const chronological = [...picked].reverse();
+
+  const events: AuthorityEvent[] = [];
+  for (let i = 0; i < chronological.length; i += TX_BATCH) {
+    const batch = chronological.slice(i, i + TX_BATCH);
+    const txs = await ctx.connection.getParsedTransactions(
+      batch.map(s => s.signature),
+      { maxSupportedTransactionVersion: 0 }
+    );
+    txs.forEach((tx, j) => {
+      if (tx) events.push(...extractEvents(tx, batch[j].signature, mint));
+    });
+  }
+
+  const currentMint = ctx.mintInfo?.mintAuthority?.toBase58() ?? null;
+  const currentFreeze = ctx.mintInfo?.freezeAuthority?.toBase58() ?? null;
+  const addresses = new Set<string>();
+  for (const e of events) if (e.to) addresses.add(e.to);
+  if (currentMint) addresses.add(currentMint);
+  if (currentFreeze) addresses.add(currentFreeze);
+  const kinds = await classifyHolders(ctx.connection, [...addresses].slice(0, 100));
+
+  return {
+    mint: buildTimeline(events.filter(e => e.authority === 'mint'), currentMint, kinds),
+    freeze: buildTimeline(events.filter(e => e.authority === 'freeze'), currentFreeze, kinds),
+    scannedTransactions: picked.length,
+    totalSignatures: signatures.length,
+    complete: complete && picked.length === ok.length,
+  };
+}
+
+// MINT_AUTHORITY and FREEZE_AUTHORITY share one history walk per scan
+const scanHistories = new WeakMap<object, Promise<AuthorityHistory | null>>();
+
+export function getAuthorityHistoryCached(ctx: ScanContext): Promise<AuthorityHistory | null> {
+  let history = scanHistories.get(ctx);
+  if (!history) {
+    history = getAuthorityHistory(ctx).catch(() => null);
+    scanHistories.set(ctx, history);
+  }
+  return history;
+}
+
+const HOLDER_LABELS: Record<HolderKind, string> = {
+  wallet: 'a wallet',
+  multisig: 'a multisig',
+  pda: 'a program-derived address',
+  'program-account': 'a program-owned account',
+  unknown: 'an unknown account',
+};
+
+/**
+ * Fold the authority timeline into a MINT_AUTHORITY / FREEZE_AUTHORITY result.
+ * A regained authority is always danger; one parked on a PDA or multisig
+ * rather than revoked is called out as such.
+ */
+export function applyAuthorityHistory(
+  result: RiskCheckResult,
+  history: AuthorityHistory | null,
+  authority: AuthorityKind
+): RiskCheckResult {
+  if (!history || result.status === 'unknown') return result;
+  const timeline = history[authority];
+  const label = authority === 'mint' ? 'Mint' : 'Freeze';
+
+  const details = {
+    ...result.details,
+    authorityHistory: {
+      holders: timeline.holders,
+      events: timeline.events.slice(-20),
+      revokedAt: timeline.revokedAt,
+      revokedSignature: timeline.revokedSignature,
+      currentHolderKind: timeline.currentHolderKind,
+      regained: timeline.regained,
+      regainedVia: timeline.regainedVia,
+      scannedTransactions: history.scannedTransactions,
+      complete: history.complete,
+    },
+  };
+
+  if (timeline.regained) {
+    const via = timeline.regainedVia ? ` via program ${timeline.regainedVia}` : '';
+    return {
+      ...result,
+      status: 'danger',
+      score: 100,
+      details,
+      message: `${label} authority was revoked and later regained${via} — the revoke cannot be trusted`,
+    };
+  }
+
+  const kind = timeline.currentHolderKind;
+  if (kind && kind !== 'wallet' && result.status !== 'safe') {
+    return {
+      ...result,
+      details,
+      message: `${result.message} — held by ${HOLDER_LABELS[kind]}, not revoked`,
+    };
+  }
+
+  return { ...result, details };
+}
@@ -0,0 +1,67 @@
+import { Keypair, PublicKey, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import type { Mint } from '@solana/spl-token';
+import { describe, expect, it, vi } from 'vitest';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import { checkBundleDetection } from './bundle-detect.service.js';
+import { getLaunchTransactions, getTokenFundingGraphCached, type EarlyBuyer, type LaunchTransaction } from './funding-graph/index.js';
+
+vi.mock('./funding-graph/index.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./funding-graph/index.js')>()),
+  getTokenFundingGraphCached: vi.fn(),
+  getLaunchTransactions: vi.fn(),
+}));
+
+const mint = Keypair.generate().publicKey;
+const wallet = () => Keypair.generate().publicKey.toBase58();
+
+// One wallet buying 10M tokens through pump.fun
+function buy(slot: number, buyer: string): LaunchTransaction {
+  const tx = {
+    slot,
+    transaction: {
+      message: {
+        accountKeys: [{ pubkey: new PublicKey(buyer), signer: true, writable: true }],
+        instructions: [{ programId: new PublicKey(PROGRAM_IDS.PUMP_FUN), accounts: [], data: '' }],
+      },
+    },
+    meta: {
+      err: null,
+      preTokenBalances: [],
+      postTokenBalances: [{ accountIndex: 1, mint: mint.toBase58(), owner: buyer, uiTokenAmount: { amount: '10000000' } }],
+      innerInstructions: [],
+    },
+  } as unknown as ParsedTransactionWithMeta;
+  return { signature: `sig-${slot}-${buyer}`, tx };
+}
+
+describe('checkBundleDetection', () => {
+  it('opens the launch window at the mint\'s first transaction, not its first non-creator buyer', async () => {
+    const creator = wallet();
+    const [early, late] = [wallet(), wallet()];
+    const launch = [buy(100, creator), buy(102, early), buy(103, late)];
+    const earlyBuyers: EarlyBuyer[] = [
+      { wallet: early, slot: 102, signature: launch[1].signature, amount: 10_000_000n },
+      { wallet: late, slot: 103, signature: launch[2].signature, amount: 10_000_000n },
+    ];
+    vi.mocked(getLaunchTransactions).mockResolvedValue(launch);
+    vi.mocked(getTokenFundingGraphCached).mockResolvedValue({
+      creator,
+      earlyBuyers,
+      graph: { clusters: [], depth: 1 },
+    } as unknown as Awaited<ReturnType<typeof getTokenFundingGraphCached>>);
+
+    const result = await checkBundleDetection({
+      tokenMint: mint,
+      mintInfo: { supply: 1_000_000_000n } as Mint,
+      connection: {} as Connection,
+    });
+
+    // Slots 100-102: the buyer at 103 is outside the window bundle detection uses
+    expect(result.details).toMatchObject({
+      totalEarlyWallets: 1,
+      walletsInFirstSlot: 0,
+      earlyBuyPercentage: 1,
+      earlyBuyers: [{ wallet: early, slot: 102 }],
+    });
+  });
+});
@@ -1,21 +1,18 @@
-import { PublicKey } from '@solana/web3.js';
-import { RISK_WEIGHTS, type RiskCheckResult } from '@trenchable/shared';
+import { type RiskCheckResult } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
+import { getTokenFundingGraphCached, getLaunchTransactions } from './funding-graph/index.js';
+import { detectLaunchBundles, launchWindow } from './bundles/index.js';
 import type { ScanContext } from '../types/risk.types.js';
 
-interface EarlyBuyer {
-  wallet: string;
-  slot: number;
-  amount: number;
-}
-
 export async function checkBundleDetection(ctx: ScanContext): Promise<RiskCheckResult> {
   try {
-    // Get the earliest transactions for this token mint
-    const signatures = await ctx.connection.getSignaturesForAddress(ctx.tokenMint, {
-      limit: 30,
-    });
+    const [{ creator, earlyBuyers, graph }, launch] = await Promise.all([
+      getTokenFundingGraphCached(ctx),
+      getLaunchTransactions(ctx),
+    ]);
 
-    if (signatures.length === 0) {
+    const slots = launchWindow(launch);
+    if (!slots || earlyBuyers.length === 0) {
       return {
         check: 'BUNDLE_DETECTION',
         status: 'unknown',
@@ -26,73 +23,33 @@ export async function checkBundleDetection(ctx: ScanContext): Promise<RiskCheckR
       };
     }
 
-    // Sort by slot ascending (earliest first)
-    const sorted = [...signatures].sort((a, b) => (a.slot ?? 0) - (b.slot ?? 0));
-    const firstSlot = sorted[0].slot;
-
-    // Get transactions from the first few slots (the launch window)
-    const launchWindow = sorted.filter(s => s.slot !== null && s.slot <= firstSlot + 2);
-
-    // Analyze each transaction in the launch window
-    const earlyBuyers: EarlyBuyer[] = [];
-    const walletSlotsMap = new Map<string, number[]>();
-
-    for (const sig of launchWindow.slice(0, 15)) {
-      try {
-        const tx = await ctx.connection.getTransaction(sig.signature, {
-          maxSupportedTransactionVersion: 0,
-        });
-        if (!tx?.meta) continue;
-
-        const postBalances = tx.meta.postTokenBalances || [];
-        const preBalances = tx.meta.preTokenBalances || [];
-
-        // Find wallets that gained tokens in this transaction
-        for (const post of postBalances) {
-          if (post.mint !== ctx.tokenMint.toBase58()) continue;
-          if (!post.owner) continue;
-
-          const pre = preBalances.find(
-            p => p.mint === ctx.tokenMint.toBase58() && p.owner === post.owner
-          );
-          const preAmount = pre ? Number(pre.uiTokenAmount.amount) : 0;
-          const postAmount = Number(post.uiTokenAmount.amount);
+    // Buyers from the launch window: the mint's first transaction's slot and the
+    // few after it, as bundle detection sees them, not the first buyer's slot
+    const windowBuyers = earlyBuyers.filter(b => b.slot <= slots.lastSlot);
 
-          if (postAmount > preAmount) {
-            earlyBuyers.push({
-              wallet: post.owner,
-              slot: sig.slot ?? 0,
-              amount: postAmount - preAmount,
-            });
-
-            const slots = walletSlotsMap.get(post.owner) || [];
-            slots.push(sig.slot ?? 0);
-            walletSlotsMap.set(post.owner, slots);
-          }
-        }
-      } catch {
-        // Skip failed tx lookups
-      }
-    }
-
-    // Deduplicate wallets
-    const uniqueWallets = new Set(earlyBuyers.map(b => b.wallet));
-    const walletsInFirstSlot = earlyBuyers.filter(b => b.slot === firstSlot);
-    const uniqueFirstSlotWallets = new Set(walletsInFirstSlot.map(b => b.wallet));
+    const uniqueWallets = new Set(windowBuyers.map(b => b.wallet));
+    const uniqueFirstSlotWallets = new Set(windowBuyers.filter(b => b.slot === slots.firstSlot).map(b => b.wallet));
 
     // Calculate total supply bought by early buyers
-    const totalEarlyBought = earlyBuyers.reduce((s, b) => s + b.amount, 0);
-    const supply = ctx.mintInfo?.supply ? Number(ctx.mintInfo.supply) : 0;
-    const earlyBuyPct = supply > 0 ? (totalEarlyBought / supply) * 100 : 0;
-
-    // Check for shared funding source (simplified: check if multiple early buyers
-    // received SOL from the same source recently)
-    let sharedFundingDetected = false;
-    if (uniqueFirstSlotWallets.size >= 3) {
-      // For MVP, checking if 3+ wallets bought in the same slot is a strong bundle signal
-      // Full funding source analysis would require tracing SOL transfers
-      sharedFundingDetected = true;
-    }
+    const totalEarlyBought = windowBuyers.reduce((s, b) => s + b.amount, 0n);
+    const supply = ctx.mintInfo?.supply ?? 0n;
+    const earlyBuyPct = supply > 0n ? Number((totalEarlyBought * 10_000n) / supply) / 100 : 0;
+
+    // Launch-window buyers traced back to a common funder
+    const fundedTogether = graph.clusters
+      .map(c => ({ source: c.fundingSource, wallets: c.wallets.filter(w => uniqueWallets.has(w)) }))
+      .filter(c => c.wallets.length >= 2);
+    const sharedFundingDetected = fundedTogether.length > 0;
+    const sharedFundingWallets = fundedTogether.reduce((s, c) => s + c.wallets.length, 0);
+
+    // Buyers tied together by shared transactions, fee payers or funding; Jito tips and fingerprints corroborate
+    const bundles = detectLaunchBundles(launch, ctx.tokenMint.toBase58(), { creator, supply, clusters: graph.clusters });
+    const creatorBundles = bundles.filter(b => b.origin === 'creator');
+    const thirdPartyBundles = bundles.filter(b => b.origin === 'third-party');
+    const pctOf = (list: typeof bundles) => Math.round(list.reduce((s, b) => s + b.supplyPct, 0) * 10) / 10;
+    const creatorBundlePct = pctOf(creatorBundles);
+    const thirdPartyBundlePct = pctOf(thirdPartyBundles);
+    const describe = (list: typeof bundles) => [...new Set(list.flatMap(b => b.signals))].join(', ');
 
     // Scoring
     const numBundledWallets = uniqueFirstSlotWallets.size;
@@ -100,14 +57,23 @@ export async function checkBundleDetection(ctx: ScanContext): Promise<RiskCheckR
     let status: 'safe' | 'warning' | 'danger';
     let message: string;
 
-    if (numBundledWallets >= 4 || earlyBuyPct > 20) {
+    if (creatorBundles.length > 0) {
+      const wallets = creatorBundles.reduce((s, b) => s + b.wallets.length, 0);
       score = 90;
       status = 'danger';
-      message = `${numBundledWallets} wallets bought in the first slot (${earlyBuyPct.toFixed(1)}% of supply) — likely bundled launch`;
-    } else if (numBundledWallets >= 2 || earlyBuyPct > 10) {
+      message = `Dev bundled the launch: ${wallets} wallets bought ${creatorBundlePct.toFixed(1)}% of supply (${describe(creatorBundles)})`;
+    } else if (thirdPartyBundlePct >= 25 || (sharedFundingWallets >= 3 && thirdPartyBundles.length > 0)) {
+      score = 75;
+      status = 'danger';
+      message = `${thirdPartyBundles.length} sniper bundle(s) took ${thirdPartyBundlePct.toFixed(1)}% of supply at launch (${describe(thirdPartyBundles)})`;
+    } else if (thirdPartyBundles.length > 0) {
       score = 50;
       status = 'warning';
-      message = `${numBundledWallets} wallets bought in the first slot (${earlyBuyPct.toFixed(1)}% of supply) — possible bundle`;
+      message = `${thirdPartyBundles.length} sniper bundle(s) bought ${thirdPartyBundlePct.toFixed(1)}% of supply at launch`;
+    } else if (numBundledWallets >= 4 || earlyBuyPct > 20) {
+      score = 40;
+      status = 'warning';
+      message = `${numBundledWallets} wallets bought in the first slot (${earlyBuyPct.toFixed(1)}% of supply) — crowded launch, no bundle signature`;
     } else {
       score = 0;
       status = 'safe';
@@ -124,7 +90,13 @@ export async function checkBundleDetection(ctx: ScanContext): Promise<RiskCheckR
         totalEarlyWallets: uniqueWallets.size,
         earlyBuyPercentage: Math.round(earlyBuyPct * 10) / 10,
         sharedFundingDetected,
-        earlyBuyers: earlyBuyers.slice(0, 10).map(b => ({
+        fundingClusters: fundedTogether,
+        bundleCount: bundles.length,
+        creatorBundlePct,
+        thirdPartyBundlePct,
+        bundles: bundles.slice(0, 10),
+        fundingDepth: graph.depth,
+        earlyBuyers: windowBuyers.slice(0, 10).map(b => ({
           wallet: b.wallet,
           slot: b.slot,
         })),
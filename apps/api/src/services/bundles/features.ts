@@ -0,0 +1,83 @@
+import bs58 from 'bs58';
+import { PublicKey, type ParsedInstruction, type ParsedTransactionWithMeta, type PartiallyDecodedInstruction } from '@solana/web3.js';
+import { JITO_TIP_ACCOUNTS, PROGRAM_IDS } from '@trenchable/shared';
+
+// ComputeBudget instruction tags
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+
+export interface LaunchTxFeatures {
+  signature: string;
+  slot: number;
+  feePayer: string;
+  signers: string[];
+  // Wallets whose balance of the mint went up; pools and curves (off-curve owners) left out
+  buyers: { wallet: string; amount: bigint }[];
+  jitoTipLamports: number;
+  // "limit:price" when the transaction sets its own compute budget
+  computeBudget: string | null;
+  // Top-level programs in order, compute budget and Jito tips left out
+  layout: string;
+}
+
+function isParsed(ix: ParsedInstruction | PartiallyDecodedInstruction): ix is ParsedInstruction {
+  return 'parsed' in ix;
+}
+
+// Compute unit limit and price the transaction sets, null where it leaves the default
+export function readComputeBudget(instructions: (ParsedInstruction | PartiallyDecodedInstruction)[]): { limit: number | null; price: bigint | null } {
+  let limit: number | null = null;
+  let price: bigint | null = null;
+  for (const ix of instructions) {
+    if (isParsed(ix) || ix.programId.toBase58() !== PROGRAM_IDS.COMPUTE_BUDGET) continue;
+    const data = Buffer.from(bs58.decode(ix.data));
+    if (data[0] === SET_COMPUTE_UNIT_LIMIT && data.length >= 5) limit = data.readUInt32LE(1);
+    if (data[0] === SET_COMPUTE_UNIT_PRICE && data.length >= 9) price = data.readBigUInt64LE(1);
+  }
+  return { limit, price };
+}
+
+function jitoTip(ix: ParsedInstruction | PartiallyDecodedInstruction): number {
+  if (!isParsed(ix) || ix.program !== 'system' || ix.parsed?.type !== 'transfer') return 0;
+  const { destination, lamports } = ix.parsed.info as { destination: string; lamports: number };
+  return JITO_TIP_ACCOUNTS.has(destination) ? lamports : 0;
+}
+
+// Tips paid directly or through a program (bots often tip by CPI)
+export function jitoTipOf(tx: ParsedTransactionWithMeta): number {
+  return [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+  ].reduce((sum, ix) => sum + jitoTip(ix), 0);
+}
+
+function buyersOf(tx: ParsedTransactionWithMeta, mint: string): LaunchTxFeatures['buyers'] {
+  const gained = new Map<string, bigint>();
+  for (const post of tx.meta?.postTokenBalances ?? []) {
+    if (post.mint !== mint || !post.owner) continue;
+    const pre = (tx.meta?.preTokenBalances ?? []).find(p => p.accountIndex === post.accountIndex);
+    const delta = BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount ?? '0');
+    gained.set(post.owner, (gained.get(post.owner) ?? 0n) + delta);
+  }
+  return [...gained]
+    .filter(([wallet, amount]) => amount > 0n && PublicKey.isOnCurve(new PublicKey(wallet).toBytes()))
+    .map(([wallet, amount]) => ({ wallet, amount }));
+}
+
+export function txFeatures(signature: string, tx: ParsedTransactionWithMeta, mint: string): LaunchTxFeatures {
+  const { accountKeys, instructions } = tx.transaction.message;
+  const { limit, price } = readComputeBudget(instructions);
+  return {
+    signature,
+    slot: tx.slot,
+    feePayer: accountKeys[0].pubkey.toBase58(),
+    signers: accountKeys.filter(k => k.signer).map(k => k.pubkey.toBase58()),
+    buyers: buyersOf(tx, mint),
+    jitoTipLamports: jitoTipOf(tx),
+    computeBudget: limit === null && price === null ? null : `${limit ?? '-'}:${price ?? '-'}`,
+    layout: instructions
+      .filter(ix => jitoTip(ix) === 0 && ix.programId.toBase58() !== PROGRAM_IDS.COMPUTE_BUDGET)
+      .map(ix => ix.programId.toBase58())
+      .join('>'),
+  };
+}
@@ -0,0 +1,116 @@
+import bs58 from 'bs58';
+import { Keypair, PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { JITO_TIP_ACCOUNTS, PROGRAM_IDS, type FundingCluster } from '@trenchable/shared';
+import type { LaunchTransaction } from '../funding-graph/index.js';
+import { detectLaunchBundles } from './index.js';
+
+const MINT = Keypair.generate().publicKey.toBase58();
+const SUPPLY = 1_000_000_000n;
+const TIP_ACCOUNT = [...JITO_TIP_ACCOUNTS][0];
+
+const wallet = () => Keypair.generate().publicKey.toBase58();
+
+interface BuyOptions {
+  slot: number;
+  feePayer: string;
+  buyers: string[];
+  // Lamports tipped to Jito
+  tip?: number;
+  // Compute unit limit set by the transaction
+  unitLimit?: number;
+}
+
+let sequence = 0;
+
+// A launch-window buy of 10M tokens per buyer, through pump.fun
+function buy({ slot, feePayer, buyers, tip = 0, unitLimit }: BuyOptions): LaunchTransaction {
+  const keys = [feePayer, ...buyers.filter(b => b !== feePayer)];
+  const instructions: unknown[] = [];
+  if (unitLimit !== undefined) {
+    const data = Buffer.alloc(5);
+    data.writeUInt8(2, 0);
+    data.writeUInt32LE(unitLimit, 1);
+    instructions.push({ programId: new PublicKey(PROGRAM_IDS.COMPUTE_BUDGET), accounts: [], data: bs58.encode(data) });
+  }
+  instructions.push({ programId: new PublicKey(PROGRAM_IDS.PUMP_FUN), accounts: [], data: '' });
+  if (tip > 0) {
+    instructions.push({
+      programId: new PublicKey('11111111111111111111111111111111'),
+      program: 'system',
+      parsed: { type: 'transfer', info: { source: feePayer, destination: TIP_ACCOUNT, lamports: tip } },
+    });
+  }
+
+  const balances = buyers.map((owner, i) => ({
+    accountIndex: keys.length + i,
+    mint: MINT,
+    owner,
+    uiTokenAmount: { amount: '10000000' },
+  }));
+  const tx = {
+    slot,
+    transaction: {
+      message: {
+        accountKeys: keys.map(k => ({ pubkey: new PublicKey(k), signer: keys.indexOf(k) === 0, writable: true })),
+        instructions,
+      },
+    },
+    meta: { err: null, preTokenBalances: [], postTokenBalances: balances, innerInstructions: [] },
+  } as unknown as ParsedTransactionWithMeta;
+  return { signature: `sig${++sequence}`, tx };
+}
+
+function cluster(wallets: string[]): FundingCluster {
+  return { fundingSource: wallet(), wallets, totalPct: 0, depth: 1, paths: [] };
+}
+
+describe('detectLaunchBundles', () => {
+  it('does not bundle a crowded launch on a shared tip or fingerprint alone', () => {
+    const creator = wallet();
+    const snipers = [wallet(), wallet(), wallet(), wallet()];
+    const launch = [
+      // The creator's tipped create-and-buy, then snipers on the same program and compute budget
+      buy({ slot: 100, feePayer: creator, buyers: [creator], tip: 100_000, unitLimit: 200_000 }),
+      ...snipers.map(s => buy({ slot: 100, feePayer: s, buyers: [s], unitLimit: 200_000 })),
+    ];
+
+    expect(detectLaunchBundles(launch, MINT, { creator, supply: SUPPLY, clusters: [] })).toEqual([]);
+  });
+
+  it('adds a tip and fingerprint to a group a shared fee payer joined', () => {
+    const payer = wallet();
+    const [a, b] = [wallet(), wallet()];
+    const bystander = wallet();
+    const launch = [
+      buy({ slot: 100, feePayer: payer, buyers: [a], tip: 50_000, unitLimit: 300_000 }),
+      buy({ slot: 100, feePayer: payer, buyers: [b], unitLimit: 300_000 }),
+      buy({ slot: 100, feePayer: bystander, buyers: [bystander], unitLimit: 300_000 }),
+    ];
+
+    const bundles = detectLaunchBundles(launch, MINT, { creator: null, supply: SUPPLY, clusters: [] });
+    expect(bundles).toHaveLength(1);
+    expect(bundles[0].wallets.sort()).toEqual([a, b].sort());
+    expect(bundles[0].signals.sort()).toEqual(['fingerprint', 'jito-tip', 'shared-payer']);
+    expect(bundles[0]).toMatchObject({ supplyPct: 2, origin: 'third-party', jitoTipLamports: 50_000 });
+  });
+
+  it('corroborates a shared funder and traces it to the creator', () => {
+    const creator = wallet();
+    const [a, b, c] = [wallet(), wallet(), wallet()];
+    const launch = [
+      buy({ slot: 100, feePayer: creator, buyers: [creator] }),
+      buy({ slot: 101, feePayer: a, buyers: [a], unitLimit: 250_000 }),
+      buy({ slot: 101, feePayer: b, buyers: [b], unitLimit: 250_000 }),
+      buy({ slot: 101, feePayer: c, buyers: [c], unitLimit: 250_000 }),
+    ];
+    // The creator funded a and b; c only shares their fingerprint
+    const clusters = [cluster([creator, a, b])];
+
+    const bundles = detectLaunchBundles(launch, MINT, { creator, supply: SUPPLY, clusters });
+    expect(bundles).toHaveLength(1);
+    expect(bundles[0].wallets.sort()).toEqual([creator, a, b].sort());
+    expect(bundles[0].signals.sort()).toEqual(['fingerprint', 'shared-funding']);
+    expect(bundles[0].origin).toBe('creator');
+  });
+});
@@ -0,0 +1,166 @@
+import type { BundleSignal, FundingCluster, LaunchBundle } from '@trenchable/shared';
+import type { LaunchTransaction } from '../funding-graph/index.js';
+import { txFeatures, type LaunchTxFeatures } from './features.js';
+
+export { txFeatures, jitoTipOf, readComputeBudget, type LaunchTxFeatures } from './features.js';
+
+/**
+ * Launch bundle detection
+ *
+ * Ties launch-window buyers together when their transactions show they were
+ * sent by one party:
+ *   multi-wallet-tx — one transaction bought for several wallets
+ *   shared-payer    — one fee payer paid for several buyers' transactions
+ *   shared-funding  — the funding graph traced the buyers to a common funder
+ * Each connected group of two or more wallets is a bundle. Two weaker signals
+ * only corroborate a group those joined, since unrelated snipers share them:
+ *   jito-tip        — buys landing in a slot next to the single Jito tip that paid for them
+ *   fingerprint     — the same explicit compute budget and instruction layout
+ */
+
+// Slots after the first transaction that count as the launch
+const LAUNCH_WINDOW_SLOTS = 2;
+
+export interface LaunchWindow {
+  firstSlot: number;
+  lastSlot: number;
+}
+
+// The slot of the mint's first transaction and the few after it; null without history
+export function launchWindow(launch: LaunchTransaction[]): LaunchWindow | null {
+  if (launch.length === 0) return null;
+  const firstSlot = Math.min(...launch.map(l => l.tx.slot));
+  return { firstSlot, lastSlot: firstSlot + LAUNCH_WINDOW_SLOTS };
+}
+
+export interface BundleOptions {
+  creator: string | null;
+  supply: bigint;
+  clusters: FundingCluster[];
+}
+
+// Union-find over wallets, remembering why each group was joined
+class WalletGroups {
+  private parent = new Map<string, string>();
+  private groupSignals = new Map<string, Set<BundleSignal>>();
+
+  find(wallet: string): string {
+    const parent = this.parent.get(wallet) ?? wallet;
+    if (parent === wallet) return wallet;
+    const root = this.find(parent);
+    this.parent.set(wallet, root);
+    return root;
+  }
+
+  join(wallets: string[], signal: BundleSignal): void {
+    if (new Set(wallets).size < 2) return;
+    const roots = [...new Set(wallets.map(w => this.find(w)))];
+    const [root, ...others] = roots;
+    const signals = this.groupSignals.get(root) ?? new Set();
+    for (const other of others) {
+      this.parent.set(other, root);
+      for (const s of this.groupSignals.get(other) ?? []) signals.add(s);
+      this.groupSignals.delete(other);
+    }
+    signals.add(signal);
+    this.groupSignals.set(root, signals);
+  }
+
+  // Records the signal on groups that already hold two or more of the wallets, without joining any
+  corroborate(wallets: string[], signal: BundleSignal): void {
+    for (const members of groupBy([...new Set(wallets)], w => this.find(w))) {
+      if (members.length >= 2) this.groupSignals.get(this.find(members[0]))?.add(signal);
+    }
+  }
+
+  signals(root: string): BundleSignal[] {
+    return [...(this.groupSignals.get(root) ?? [])];
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (k === null) continue;
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return [...groups.values()];
+}
+
+const walletsOf = (txs: LaunchTxFeatures[]) => txs.flatMap(t => t.buyers.map(b => b.wallet));
+
+export function detectLaunchBundles(launch: LaunchTransaction[], mint: string, options: BundleOptions): LaunchBundle[] {
+  const slots = launchWindow(launch);
+  if (!slots) return [];
+  const txs = launch
+    .filter(l => l.tx.slot <= slots.lastSlot)
+    .map(l => txFeatures(l.signature, l.tx, mint))
+    .filter(t => t.buyers.length > 0);
+
+  const groups = new WalletGroups();
+
+  for (const tx of txs) groups.join(tx.buyers.map(b => b.wallet), 'multi-wallet-tx');
+
+  for (const paid of groupBy(txs, t => t.feePayer)) groups.join(walletsOf(paid), 'shared-payer');
+
+  const windowWallets = new Set(walletsOf(txs));
+  for (const cluster of options.clusters) {
+    groups.join(cluster.wallets.filter(w => windowWallets.has(w)), 'shared-funding');
+  }
+
+  // Independent snipers tip for themselves; one tip covering untipped buys with the same layout is one sender
+  for (const slot of groupBy(txs, t => String(t.slot))) {
+    const tipped = slot.filter(t => t.jitoTipLamports > 0);
+    if (tipped.length !== 1) continue;
+    const riders = slot.filter(t => t.jitoTipLamports === 0 && t.layout === tipped[0].layout);
+    if (riders.length > 0) groups.corroborate(walletsOf([...tipped, ...riders]), 'jito-tip');
+  }
+
+  for (const same of groupBy(txs, t => (t.computeBudget ? `${t.computeBudget}|${t.layout}` : null))) {
+    groups.corroborate(walletsOf(same), 'fingerprint');
+  }
+
+  // Collect each group's transactions
+  const byRoot = new Map<string, LaunchTxFeatures[]>();
+  for (const tx of txs) {
+    for (const root of new Set(tx.buyers.map(b => groups.find(b.wallet)))) {
+      byRoot.set(root, [...(byRoot.get(root) ?? []), tx]);
+    }
+  }
+
+  const creatorClusters = options.clusters.filter(c => options.creator && c.wallets.includes(options.creator));
+  const bundles: LaunchBundle[] = [];
+  for (const [root, bundleTxs] of byRoot) {
+    const bought = new Map<string, bigint>();
+    for (const tx of bundleTxs) {
+      for (const b of tx.buyers) {
+        if (groups.find(b.wallet) === root) bought.set(b.wallet, (bought.get(b.wallet) ?? 0n) + b.amount);
+      }
+    }
+    if (bought.size < 2) continue;
+
+    const wallets = [...bought.keys()];
+    const total = [...bought.values()].reduce((s, a) => s + a, 0n);
+    const feePayers = [...new Set(bundleTxs.map(t => t.feePayer))];
+    const creator = options.creator;
+    const fromCreator = creator !== null && (
+      wallets.includes(creator)
+      || bundleTxs.some(t => t.signers.includes(creator))
+      || creatorClusters.some(c => wallets.some(w => c.wallets.includes(w)))
+    );
+
+    bundles.push({
+      wallets,
+      signatures: bundleTxs.map(t => t.signature),
+      slots: [...new Set(bundleTxs.map(t => t.slot))].sort((a, b) => a - b),
+      signals: groups.signals(root),
+      supplyPct: options.supply > 0n ? Number((total * 10_000n) / options.supply) / 100 : 0,
+      jitoTipLamports: bundleTxs.reduce((s, t) => s + t.jitoTipLamports, 0),
+      feePayers,
+      origin: fromCreator ? 'creator' : 'third-party',
+    });
+  }
+
+  return bundles.sort((a, b) => b.supplyPct - a.supplyPct);
+}
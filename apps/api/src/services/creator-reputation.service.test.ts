@@ -0,0 +1,156 @@
+import { readFileSync } from 'fs';
+import { Keypair, PublicKey, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { DexScreenerPair } from './external/dexscreener.js';
+import { getDexScreenerPairsForTokens } from './external/dexscreener.js';
+import { getLaunchOutcomes, type LaunchOutcome } from './token-tracker.service.js';
+import {
+  extractLaunches,
+  resolveOutcomes,
+  summarizeLaunches,
+  type LaunchCandidate,
+} from './creator-reputation.service.js';
+
+vi.mock('./external/dexscreener.js', () => ({ getDexScreenerPairsForTokens: vi.fn() }));
+vi.mock('./token-tracker.service.js', () => ({ getLaunchOutcomes: vi.fn() }));
+
+interface FixtureTransaction {
+  label: string;
+  signature: string;
+  slot: number;
+  blockTime: number;
+  transaction: unknown;
+  meta: unknown;
+}
+
+// getParsedTransactions' jsonParsed answers; web3.js hands keys back as PublicKeys
+const fixture = JSON.parse(readFileSync(new URL('./__fixtures__/creator-launches.json', import.meta.url), 'utf-8')) as {
+  creator: string;
+  transactions: FixtureTransaction[];
+};
+
+function revive(value: unknown, key?: string): unknown {
+  if (typeof value === 'string') return key === 'pubkey' || key === 'programId' || key === 'accounts' ? new PublicKey(value) : value;
+  if (Array.isArray(value)) return value.map(v => revive(v, key));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, revive(v, k)]));
+  }
+  return value;
+}
+
+const recorded = (label: string) => {
+  const { signature, slot, blockTime, transaction, meta } = fixture.transactions.find(t => t.label === label)!;
+  return { signature, tx: revive({ slot, blockTime, transaction, meta }) as ParsedTransactionWithMeta };
+};
+
+describe('extractLaunches', () => {
+  it('finds the pump.fun mint created under the pump.fun mint authority', () => {
+    const { signature, tx } = recorded('pump.fun create');
+    expect(extractLaunches(tx, fixture.creator, signature)).toEqual([{
+      mint: 'FFDyjS7S1hvjp46cxbYP5wEbzgoggtENNgEFZQELmcpb',
+      deployer: fixture.creator,
+      platform: 'pump.fun',
+      signature,
+      launchedAt: 1_730_000_000_000,
+    }]);
+  });
+
+  it('takes the non-SOL, non-LP side of a Raydium pool', () => {
+    const { signature, tx } = recorded('Raydium AMM v4 initialize2 for a bare mint');
+    expect(extractLaunches(tx, fixture.creator, signature)).toEqual([
+      expect.objectContaining({ mint: 'e9hpDzanEXKp5VnYrxFLqYbLSeF8KR7vGc8Ae1B4GaZ', platform: 'raydium' }),
+    ]);
+  });
+
+  it('counts a bare mint only when the wallet signed, kept the authority and the transaction succeeded', () => {
+    const bare = recorded('bare SPL mint');
+    expect(extractLaunches(bare.tx, fixture.creator, bare.signature)).toEqual([
+      expect.objectContaining({ mint: 'e9hpDzanEXKp5VnYrxFLqYbLSeF8KR7vGc8Ae1B4GaZ', platform: 'spl' }),
+    ]);
+
+    const failed = recorded('failed bare SPL mint');
+    expect(extractLaunches(failed.tx, fixture.creator, failed.signature)).toEqual([]);
+    const unsigned = recorded('mint created by another wallet, creator only in the accounts');
+    expect(extractLaunches(unsigned.tx, fixture.creator, unsigned.signature)).toEqual([]);
+  });
+});
+
+describe('resolveOutcomes and summarizeLaunches', () => {
+  const NOW = 1_730_200_000_000;
+  const HOUR = 3_600_000;
+  const launchedAt = NOW - 50 * HOUR;
+  const mint = Object.fromEntries(
+    ['tracked', 'trading', 'pulled', 'abandoned', 'faded', 'fresh', 'unlisted'].map(name => [name, Keypair.generate().publicKey.toBase58()])
+  );
+
+  const candidate = (name: string, at = launchedAt): LaunchCandidate =>
+    ({ mint: mint[name], deployer: fixture.creator, platform: 'pump.fun', signature: `sig-${name}`, launchedAt: at });
+
+  const pair = (liquidityUsd: number, txns24h: number, priceChange24h = 0) => ({
+    priceUsd: '0.0001',
+    liquidity: { usd: liquidityUsd, base: 0, quote: 0 },
+    txns: { h24: { buys: txns24h, sells: 0 } },
+    priceChange: { h24: priceChange24h },
+  }) as unknown as DexScreenerPair;
+
+  // Each mint's last transaction, in hours after launch
+  const lastTradeHours = new Map([[mint.pulled, 6], [mint.abandoned, 30], [mint.faded, 40]]);
+  const connection = {
+    getSignaturesForAddress: async (address: PublicKey) => {
+      const hours = lastTradeHours.get(address.toBase58());
+      return hours === undefined ? [] : [{ blockTime: (launchedAt + hours * HOUR) / 1000 }];
+    },
+  } as unknown as Connection;
+
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it('takes rugs from the tracker, and calls the rest from DexScreener and the last trade', async () => {
+    vi.mocked(getLaunchOutcomes).mockReturnValue(new Map<string, LaunchOutcome>([[mint.tracked, {
+      tokenMint: mint.tracked, scannedAt: launchedAt, rugDetected: true, rugTimeMinutes: 90,
+      outcomeCheckedAt: null, launchLiquidity: null, launchPrice: null,
+    }]]));
+    vi.mocked(getDexScreenerPairsForTokens).mockResolvedValue(new Map([
+      [mint.trading, [pair(20_000, 40)]],
+      [mint.pulled, [pair(50, 0)]],             // Liquidity gone within 6h
+      [mint.abandoned, [pair(5_000, 1, -20)]],  // Quiet, but the pool is still there
+      [mint.faded, [pair(10, 0)]],              // Pulled, but only after 40h of trading
+      [mint.fresh, []],
+    ]));
+
+    const launches = await resolveOutcomes(connection, [
+      candidate('tracked'), candidate('trading'), candidate('pulled'), candidate('abandoned'),
+      candidate('faded'), candidate('fresh', NOW - 10 * 60_000), candidate('unlisted'),
+    ]);
+    const byName = Object.fromEntries(Object.keys(mint).map((name, i) => [name, launches[i]]));
+
+    // The tracker's rug is not looked up again
+    expect(vi.mocked(getDexScreenerPairsForTokens).mock.calls[0][0]).not.toContain(mint.tracked);
+    expect(byName.tracked).toMatchObject({ outcome: 'rugged', outcomeSource: 'tracker', lifespanHours: 1.5 });
+    expect(byName.trading).toMatchObject({ outcome: 'alive', outcomeSource: 'dexscreener', liquidityUsd: 20_000, lifespanHours: null });
+    expect(byName.pulled).toMatchObject({ outcome: 'rugged', outcomeSource: 'dexscreener', lifespanHours: 6 });
+    expect(byName.abandoned).toMatchObject({ outcome: 'dead', lifespanHours: 30 });
+    expect(byName.faded).toMatchObject({ outcome: 'dead', lifespanHours: 40 });
+    expect(byName.fresh).toMatchObject({ outcome: 'unknown', outcomeSource: null });
+    expect(byName.unlisted).toMatchObject({ outcome: 'unknown', outcomeSource: null, liquidityUsd: null });
+
+    expect(summarizeLaunches(launches)).toEqual({
+      launchCount: 7,
+      resolvedCount: 5,
+      ruggedCount: 2,
+      rugRate: 0.4,
+      // Rugged and dead launches only: 1.5, 6, 30 and 40 hours
+      medianLifespanHours: 18,
+    });
+  });
+
+  it('has no rate or lifespan without resolved launches', () => {
+    expect(summarizeLaunches([])).toEqual({ launchCount: 0, resolvedCount: 0, ruggedCount: 0, rugRate: null, medianLifespanHours: null });
+  });
+});
@@ -0,0 +1,310 @@
+import {
+  PublicKey,
+  type Connection,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import {
+  PROGRAM_IDS,
+  PUMP_FUN_MINT_AUTHORITY,
+  SOL_MINT,
+  type CreatorLaunch,
+  type CreatorReport,
+  type FundingGraph,
+} from '@trenchable/shared';
+import { MemoryCache } from '../cache/memory-cache.js';
+import { getDexScreenerPairsForTokens, type DexScreenerPair } from './external/dexscreener.js';
+import { getLaunchOutcomes, type LaunchOutcome } from './token-tracker.service.js';
+import { clusterOf, fundersOf, getWalletFundingGraph } from './funding-graph/index.js';
+
+/**
+ * Creator reputation
+ *
+ * Finds every token the creator and its funding-linked wallets launched — on
+ * pump.fun, by creating a Raydium pool, or as a bare SPL mint — and how each one
+ * ended. Outcomes come from the launch tracker first and DexScreener second.
+ * A launch that stopped trading within a day counts as a rug when its
+ * liquidity was pulled or its price collapsed, and as dead otherwise.
+ */
+
+const SIGNATURE_LIMIT = 1000;
+const MAX_TXS_PER_WALLET = 150;
+const TX_BATCH = 25;
+const MAX_RELATED_WALLETS = 4;
+const MAX_LAUNCHES = 50;
+
+const HOUR_MS = 60 * 60 * 1000;
+const RUG_LIFESPAN_HOURS = 24;
+// Fewer trades than this in DexScreener's 24h window and the token has stopped trading
+const DEAD_TXNS_24H = 5;
+// Pulled liquidity or a collapsed price: below a tenth of the launch value, or a 90% drop in 24h
+const RUG_REMAINING_RATIO = 0.1;
+const RUG_PRICE_CHANGE_24H_PCT = -90;
+// Pool liquidity left once the creator has withdrawn, when the launch value isn't known
+const PULLED_LIQUIDITY_USD = 100;
+const REPORT_TTL_MS = 30 * 60 * 1000;
+
+const reportCache = new MemoryCache<CreatorReport>();
+
+export type LaunchCandidate = Pick<CreatorLaunch, 'mint' | 'deployer' | 'platform' | 'signature' | 'launchedAt'>;
+
+// ─── Launch discovery ───
+
+function allInstructions(tx: ParsedTransactionWithMeta): (ParsedInstruction | PartiallyDecodedInstruction)[] {
+  return [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(i => i.instructions),
+  ];
+}
+
+// Mints a transaction signed by `wallet` launched
+export function extractLaunches(tx: ParsedTransactionWithMeta, wallet: string, signature: string): LaunchCandidate[] {
+  if (!tx.meta || tx.meta.err) return [];
+  const signed = tx.transaction.message.accountKeys.some(k => k.signer && k.pubkey.toBase58() === wallet);
+  if (!signed) return [];
+
+  const instructions = allInstructions(tx);
+  const programs = new Set(instructions.map(ix => ix.programId.toBase58()));
+  const launchedAt = tx.blockTime ? tx.blockTime * 1000 : null;
+  const launch = (mint: string, platform: CreatorLaunch['platform']): LaunchCandidate =>
+    ({ mint, deployer: wallet, platform, signature, launchedAt });
+
+  const initialized = instructions
+    .filter((ix): ix is ParsedInstruction => 'parsed' in ix)
+    .filter(ix => (ix.program === 'spl-token' || ix.program === 'spl-token-2022')
+      && (ix.parsed?.type === 'initializeMint' || ix.parsed?.type === 'initializeMint2'))
+    .map(ix => ({ mint: ix.parsed.info.mint as string, authority: ix.parsed.info.mintAuthority as string | undefined }));
+
+  // pump.fun creates the mint under its own mint authority
+  if (programs.has(PROGRAM_IDS.PUMP_FUN)) {
+    return initialized.filter(m => m.authority === PUMP_FUN_MINT_AUTHORITY).map(m => launch(m.mint, 'pump.fun'));
+  }
+
+  // Creating a Raydium pool mints the LP token; the launched token is the pool's other side
+  if (programs.has(PROGRAM_IDS.RAYDIUM_V4_AMM) || programs.has(PROGRAM_IDS.RAYDIUM_CPMM)) {
+    const lpMints = new Set(initialized.map(m => m.mint));
+    if (lpMints.size === 0) return [];
+    const mints = new Set((tx.meta.postTokenBalances ?? []).map(b => b.mint));
+    return [...mints].filter(m => m !== SOL_MINT && !lpMints.has(m)).map(m => launch(m, 'raydium'));
+  }
+
+  return initialized.filter(m => m.authority === wallet).map(m => launch(m.mint, 'spl'));
+}
+
+async function findWalletLaunches(
+  connection: Connection,
+  wallet: string
+): Promise<{ launches: LaunchCandidate[]; truncated: boolean }> {
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(wallet), { limit: SIGNATURE_LIMIT });
+  const ok = signatures.filter(s => !s.err);
+  const searched = ok.slice(0, MAX_TXS_PER_WALLET);
+  const launches: LaunchCandidate[] = [];
+
+  for (let i = 0; i < searched.length; i += TX_BATCH) {
+    const batch = searched.slice(i, i + TX_BATCH);
+    const txs = await connection.getParsedTransactions(batch.map(s => s.signature), { maxSupportedTransactionVersion: 0 });
+    txs.forEach((tx, j) => {
+      if (tx) launches.push(...extractLaunches(tx, wallet, batch[j].signature));
+    });
+  }
+
+  return { launches, truncated: signatures.length >= SIGNATURE_LIMIT || ok.length > MAX_TXS_PER_WALLET };
+}
+
+// One record per mint: the earliest launch, upgraded to 'raydium' if a pool was created for a bare mint
+function mergeLaunches(candidates: LaunchCandidate[]): LaunchCandidate[] {
+  const byMint = new Map<string, LaunchCandidate>();
+  for (const c of candidates) {
+    const existing = byMint.get(c.mint);
+    if (!existing) {
+      byMint.set(c.mint, { ...c });
+      continue;
+    }
+    if (existing.platform === 'spl' && c.platform === 'raydium') existing.platform = 'raydium';
+    if (c.launchedAt !== null && (existing.launchedAt === null || c.launchedAt < existing.launchedAt)) {
+      existing.launchedAt = c.launchedAt;
+      existing.signature = c.signature;
+      existing.deployer = c.deployer;
+    }
+  }
+  return [...byMint.values()]
+    .sort((a, b) => (b.launchedAt ?? 0) - (a.launchedAt ?? 0))
+    .slice(0, MAX_LAUNCHES);
+}
+
+// ─── Outcomes ───
+
+async function lastActivity(connection: Connection, mint: string): Promise<number | null> {
+  try {
+    const [newest] = await connection.getSignaturesForAddress(new PublicKey(mint), { limit: 1 });
+    return newest?.blockTime ? newest.blockTime * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a launch that stopped trading was pulled, rather than just abandoned
+function hasRugSignal(pairs: DexScreenerPair[], tracker: LaunchOutcome | undefined): boolean {
+  // Bonding-curve pairs report no liquidity
+  const pools = pairs.filter(p => p.liquidity);
+  const liquidity = pools.reduce((s, p) => s + (p.liquidity.usd || 0), 0);
+  if (pools.length > 0) {
+    if (tracker?.launchLiquidity) {
+      if (liquidity < tracker.launchLiquidity * RUG_REMAINING_RATIO) return true;
+    } else if (liquidity < PULLED_LIQUIDITY_USD) {
+      return true;
+    }
+  }
+
+  const price = Math.max(0, ...pairs.map(p => parseFloat(p.priceUsd) || 0));
+  if (tracker?.launchPrice && price > 0 && price < tracker.launchPrice * RUG_REMAINING_RATIO) return true;
+  return pairs.some(p => (p.priceChange?.h24 ?? 0) <= RUG_PRICE_CHANGE_24H_PCT);
+}
+
+export async function resolveOutcomes(connection: Connection, candidates: LaunchCandidate[]): Promise<CreatorLaunch[]> {
+  const now = Date.now();
+  const mints = candidates.map(c => c.mint);
+  const tracked = getLaunchOutcomes(mints);
+  const dex = await getDexScreenerPairsForTokens(mints.filter(m => !tracked.get(m)?.rugDetected));
+
+  const launches: CreatorLaunch[] = [];
+  const ended: { launch: CreatorLaunch; pulled: boolean }[] = [];
+
+  for (const c of candidates) {
+    const tracker = tracked.get(c.mint);
+    if (tracker?.rugDetected) {
+      const rugAt = tracker.scannedAt + (tracker.rugTimeMinutes ?? 0) * 60_000;
+      launches.push({
+        ...c,
+        outcome: 'rugged',
+        outcomeSource: 'tracker',
+        lifespanHours: (rugAt - (c.launchedAt ?? tracker.scannedAt)) / HOUR_MS,
+        liquidityUsd: null,
+      });
+      continue;
+    }
+
+    const pairs = dex.get(c.mint);
+    const launch: CreatorLaunch = { ...c, outcome: 'unknown', outcomeSource: null, lifespanHours: null, liquidityUsd: null };
+    launches.push(launch);
+    if (!pairs) continue;
+
+    const age = c.launchedAt !== null ? now - c.launchedAt : null;
+    const txns24h = pairs.reduce((s, p) => s + (p.txns?.h24?.buys || 0) + (p.txns?.h24?.sells || 0), 0);
+    launch.liquidityUsd = pairs.length > 0 ? pairs.reduce((s, p) => s + (p.liquidity?.usd || 0), 0) : null;
+    launch.outcomeSource = 'dexscreener';
+
+    // Too young to call unless it already has a market
+    if (age === null || age < HOUR_MS) {
+      if (pairs.length > 0 && txns24h >= DEAD_TXNS_24H) launch.outcome = 'alive';
+      else launch.outcomeSource = null;
+      continue;
+    }
+
+    if (txns24h >= DEAD_TXNS_24H) {
+      launch.outcome = 'alive';
+    } else {
+      launch.outcome = 'dead';
+      ended.push({ launch, pulled: hasRugSignal(pairs, tracker) });
+    }
+  }
+
+  // Lifespan of a dead launch runs to its last transaction; a short one that was pulled is a rug
+  for (let i = 0; i < ended.length; i += 10) {
+    await Promise.all(ended.slice(i, i + 10).map(async ({ launch, pulled }) => {
+      const last = await lastActivity(connection, launch.mint);
+      if (last === null || launch.launchedAt === null) return;
+      launch.lifespanHours = Math.max(0, (last - launch.launchedAt) / HOUR_MS);
+      if (pulled && launch.lifespanHours < RUG_LIFESPAN_HOURS) launch.outcome = 'rugged';
+    }));
+  }
+
+  return launches;
+}
+
+// ─── Reports ───
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function summarizeLaunches(
+  launches: CreatorLaunch[]
+): Pick<CreatorReport, 'launchCount' | 'resolvedCount' | 'ruggedCount' | 'rugRate' | 'medianLifespanHours'> {
+  const resolved = launches.filter(l => l.outcome !== 'unknown');
+  const rugged = resolved.filter(l => l.outcome === 'rugged');
+  const lifespans = launches
+    .filter(l => (l.outcome === 'rugged' || l.outcome === 'dead') && l.lifespanHours !== null)
+    .map(l => l.lifespanHours!);
+  const medianLifespan = median(lifespans);
+
+  return {
+    launchCount: launches.length,
+    resolvedCount: resolved.length,
+    ruggedCount: rugged.length,
+    rugRate: resolved.length > 0 ? Math.round((rugged.length / resolved.length) * 100) / 100 : null,
+    medianLifespanHours: medianLifespan !== null ? Math.round(medianLifespan * 10) / 10 : null,
+  };
+}
+
+// Wallets worth searching alongside the creator: its funders, then its cluster
+export function relatedWallets(graph: FundingGraph, creator: string): string[] {
+  const cluster = clusterOf(graph, creator);
+  const related = [
+    ...fundersOf(graph, creator),
+    ...(cluster ? [cluster.fundingSource, ...cluster.wallets] : []),
+  ].filter(w => w !== creator && !w.startsWith('exchange:'));
+  return [...new Set(related)].slice(0, MAX_RELATED_WALLETS);
+}
+
+export async function buildCreatorReport(connection: Connection, creator: string, related: string[] = []): Promise<CreatorReport> {
+  const wallets = [creator, ...related.filter(w => w !== creator)];
+  const candidates: LaunchCandidate[] = [];
+  let truncated = false;
+
+  for (const wallet of wallets) {
+    try {
+      const found = await findWalletLaunches(connection, wallet);
+      candidates.push(...found.launches);
+      truncated ||= found.truncated;
+    } catch {
+      // A wallet that can't be read just adds nothing
+    }
+  }
+
+  const launches = await resolveOutcomes(connection, mergeLaunches(candidates));
+  return {
+    creator,
+    wallets,
+    launches,
+    ...summarizeLaunches(launches),
+    truncated,
+    generatedAt: Date.now(),
+  };
+}
+
+// Cached per creator. With no graph given, the creator's own funders are traced.
+export async function getCreatorReport(
+  connection: Connection,
+  creator: string,
+  graph?: FundingGraph | null,
+  refresh = false
+): Promise<CreatorReport> {
+  if (!refresh) {
+    const cached = reportCache.get(creator);
+    if (cached) return cached;
+  }
+
+  const fundingGraph = graph ?? await getWalletFundingGraph(connection, creator).catch(() => null);
+  const report = await buildCreatorReport(connection, creator, fundingGraph ? relatedWallets(fundingGraph, creator) : []);
+  reportCache.set(creator, report, REPORT_TTL_MS);
+  return report;
+}
+
+export function getCachedCreatorReport(creator: string): CreatorReport | null {
+  return reportCache.get(creator);
+}
@@ -0,0 +1,131 @@
+import { Keypair, PublicKey, type ConfirmedSignatureInfo, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { traceDevSide } from './dev-activity.service.js';
+
+const MINT = Keypair.generate().publicKey;
+const SUPPLY = 1_000_000_000_000n;
+const LAUNCH_SLOT = 1_000;
+
+const wallet = () => Keypair.generate().publicKey.toBase58();
+
+interface Chain {
+  connection: Connection;
+  // Adds a transaction to `owner`'s history (and the other party's), returning its signature
+  record(owners: string[], slot: number, tx?: ParsedTransactionWithMeta): string;
+  requests: { wallet: string; before?: string; until?: string }[];
+}
+
+function chain(): Chain {
+  const histories = new Map<string, ConfirmedSignatureInfo[]>();
+  const txs = new Map<string, ParsedTransactionWithMeta>();
+  const requests: Chain['requests'] = [];
+  let sequence = 0;
+
+  const connection = {
+    async getSignaturesForAddress(address: PublicKey, options: { limit: number; before?: string; until?: string }) {
+      requests.push({ wallet: address.toBase58(), before: options.before, until: options.until });
+      // Newest first
+      const history = [...(histories.get(address.toBase58()) ?? [])].sort((a, b) => b.slot - a.slot);
+      let start = options.before ? history.findIndex(s => s.signature === options.before) + 1 : 0;
+      const end = options.until ? history.findIndex(s => s.signature === options.until) : history.length;
+      start = Math.min(start, end < 0 ? history.length : end);
+      return history.slice(start, end < 0 ? history.length : end).slice(0, options.limit);
+    },
+    async getParsedTransactions(signatures: string[]) {
+      return signatures.map(s => txs.get(s) ?? null);
+    },
+    async getTokenAccountsByOwner() {
+      return { context: { slot: 1 }, value: [] };
+    },
+  } as unknown as Connection;
+
+  return {
+    connection,
+    requests,
+    record(owners, slot, tx) {
+      const signature = `sig${++sequence}`;
+      for (const owner of owners) {
+        const history = histories.get(owner) ?? [];
+        history.push({ signature, slot, err: null, memo: null, blockTime: slot });
+        histories.set(owner, history);
+      }
+      if (tx) txs.set(signature, { ...tx, slot, blockTime: slot });
+      return signature;
+    },
+  };
+}
+
+// `from` loses `tokens`; a sale pays it `lamports`, a transfer credits `to`
+function tokenTx(from: string, tokens: bigint, { lamports = 0, to }: { lamports?: number; to?: string }): ParsedTransactionWithMeta {
+  const keys = [from, ...(to ? [to] : [])];
+  const balance = (accountIndex: number, owner: string, amount: bigint) =>
+    ({ accountIndex, mint: MINT.toBase58(), owner, uiTokenAmount: { amount: amount.toString(), decimals: 6, uiAmount: null } });
+  return {
+    slot: 0,
+    blockTime: 0,
+    transaction: { message: { accountKeys: keys.map(k => ({ pubkey: new PublicKey(k), signer: k === from, writable: true })), instructions: [] } },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: keys.map(() => 1_000_000_000),
+      postBalances: keys.map((_, i) => 1_000_000_000 + (i === 0 ? lamports - 5000 : 0)),
+      preTokenBalances: [balance(10, from, 100_000_000_000n)],
+      postTokenBalances: [balance(10, from, 100_000_000_000n - tokens), ...(to ? [balance(11, to, tokens)] : [])],
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+const sale = (from: string, tokens = 1_000_000_000n) => tokenTx(from, tokens, { lamports: 100_000_000 });
+
+describe('traceDevSide', () => {
+  it('pages back through a busy creator to the launch', async () => {
+    const { connection, record, requests } = chain();
+    const creator = wallet();
+    // Before the launch, and so never read
+    for (let i = 0; i < 300; i++) record([creator], LAUNCH_SLOT - 300 + i);
+    // A sell right after the launch, then 1,500 unrelated transactions
+    record([creator], LAUNCH_SLOT + 1, sale(creator));
+    for (let i = 0; i < 1_500; i++) record([creator], LAUNCH_SLOT + 10 + i);
+
+    const devSide = await traceDevSide(connection, MINT, creator, [], SUPPLY, LAUNCH_SLOT);
+    expect(devSide.sellCount).toBe(1);
+    expect(devSide).toMatchObject({ soldPct: 0.1, truncated: false });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('counts every sell, not only those kept for the timeline', async () => {
+    const { connection, record } = chain();
+    const creator = wallet();
+    for (let i = 0; i < 60; i++) record([creator], LAUNCH_SLOT + i, sale(creator));
+
+    const devSide = await traceDevSide(connection, MINT, creator, [], SUPPLY, LAUNCH_SLOT);
+    expect(devSide.sells).toHaveLength(50);
+    expect(devSide).toMatchObject({ sellCount: 60, sellingWallets: 1, soldPct: 6 });
+    // The timeline keeps the latest
+    expect(devSide.sells[0].time).toBe((LAUNCH_SLOT + 10) * 1000);
+  });
+
+  it('follows a transfer and reads the recipient only from when the token arrived', async () => {
+    const { connection, record, requests } = chain();
+    const creator = wallet();
+    const fresh = wallet();
+    record([fresh], LAUNCH_SLOT + 1);
+    const transfer = record([creator, fresh], LAUNCH_SLOT + 5, tokenTx(creator, 50_000_000_000n, { to: fresh }));
+    record([fresh], LAUNCH_SLOT + 8, sale(fresh, 20_000_000_000n));
+
+    const devSide = await traceDevSide(connection, MINT, creator, [], SUPPLY, LAUNCH_SLOT);
+    expect(devSide.transfers).toEqual([expect.objectContaining({ from: creator, to: fresh, signature: transfer, pct: 5 })]);
+    expect(devSide.wallets.map(w => w.via)).toEqual(['creator', 'recipient']);
+    expect(devSide.sells).toEqual([expect.objectContaining({ wallet: fresh, pct: 2, sol: 0.1, venue: 'dex' })]);
+    expect(requests.find(r => r.wallet === fresh)?.until).toBe(transfer);
+  });
+
+  it('marks histories cut short when a wallet is too busy to read back to the launch', async () => {
+    const { connection, record } = chain();
+    const creator = wallet();
+    for (let i = 0; i < 3_500; i++) record([creator], LAUNCH_SLOT + i);
+
+    const devSide = await traceDevSide(connection, MINT, creator, [], SUPPLY, LAUNCH_SLOT);
+    expect(devSide.truncated).toBe(true);
+  });
+});
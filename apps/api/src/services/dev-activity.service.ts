@@ -0,0 +1,244 @@
+import { PublicKey, type ConfirmedSignatureInfo, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { SOL_MINT } from '@trenchable/shared';
+import { getLabel, hasLabel } from './address-labels.service.js';
+
+/**
+ * Dev-side activity
+ *
+ * Devs move supply to fresh wallets before dumping, so the creator's own
+ * balance and history understate what the dev side holds and has sold.
+ * Starting from the creator and the wallets it funded, this follows the token
+ * out to every wallet it was sent to (up to MAX_HOPS transfers away) and
+ * collects the sells made from any of them.
+ */
+
+const SIGNATURE_PAGE = 1000;
+// A wallet busier than this since the launch has the rest of its history skipped
+const MAX_SIGNATURES_PER_WALLET = 3000;
+const TX_BATCH = 20;
+const MAX_HOPS = 2;
+const MAX_WALLETS = 12;
+const MAX_TIMELINE = 50;
+// SOL received alongside a token decrease that makes it a sale rather than a transfer
+const MIN_SALE_LAMPORTS = 1_000_000;
+
+export type DevSideRole = 'creator' | 'funded' | 'recipient';
+
+export interface DevSideWallet {
+  address: string;
+  via: DevSideRole;
+  // Wallet it got the token from (recipients) or funding from (funded)
+  from: string | null;
+  hops: number;
+  holdingPct: number;
+  // Transfer that brought it in; its history is only read from there on
+  signature: string | null;
+}
+
+export interface DevSideSell {
+  wallet: string;
+  signature: string;
+  time: number | null;
+  tokens: string;
+  pct: number;
+  sol: number;
+  // 'cex' is a deposit to a labeled exchange wallet: sold off-chain
+  venue: 'dex' | 'cex';
+  exchange: string | null;
+}
+
+export interface DevSideTransfer {
+  from: string;
+  to: string;
+  signature: string;
+  time: number | null;
+  pct: number;
+}
+
+export interface DevSideActivity {
+  wallets: DevSideWallet[];
+  // Oldest first; the latest MAX_TIMELINE of them
+  sells: DevSideSell[];
+  transfers: DevSideTransfer[];
+  // Every sell found, including those past the timeline
+  sellCount: number;
+  sellingWallets: number;
+  soldTokens: bigint;
+  soldPct: number;
+  solExtracted: number;
+  // Some history wasn't read: a wallet had more signatures since the launch than fetched, or the wallet cap was hit
+  truncated: boolean;
+}
+
+type SignedTx = { signature: string; tx: ParsedTransactionWithMeta };
+
+// Change in `owner`'s balance of `mint` across all its token accounts in the transaction
+function tokenDelta(tx: ParsedTransactionWithMeta, owner: string, mint: string): bigint {
+  const byAccount = new Map<number, [bigint, bigint]>();
+  for (const b of tx.meta?.preTokenBalances ?? []) {
+    if (b.mint === mint && b.owner === owner) byAccount.set(b.accountIndex, [BigInt(b.uiTokenAmount.amount), 0n]);
+  }
+  for (const b of tx.meta?.postTokenBalances ?? []) {
+    if (b.mint !== mint || b.owner !== owner) continue;
+    const [pre] = byAccount.get(b.accountIndex) ?? [0n];
+    byAccount.set(b.accountIndex, [pre, BigInt(b.uiTokenAmount.amount)]);
+  }
+  let delta = 0n;
+  for (const [pre, post] of byAccount.values()) delta += post - pre;
+  return delta;
+}
+
+// Owners (other than `wallet`) whose balance of `mint` went up in the transaction
+function tokenRecipients(tx: ParsedTransactionWithMeta, wallet: string, mint: string): string[] {
+  const owners = new Set(
+    (tx.meta?.postTokenBalances ?? []).filter(b => b.mint === mint && b.owner && b.owner !== wallet).map(b => b.owner!)
+  );
+  return [...owners].filter(owner => tokenDelta(tx, owner, mint) > 0n);
+}
+
+// Lamports `wallet` received, native and wrapped, not counting the fee it paid
+function lamportsReceived(tx: ParsedTransactionWithMeta, wallet: string): number {
+  const index = tx.transaction.message.accountKeys.findIndex(k => k.pubkey.toBase58() === wallet);
+  let received = 0;
+  if (index >= 0 && tx.meta) {
+    received = tx.meta.postBalances[index] - tx.meta.preBalances[index];
+    if (index === 0) received += tx.meta.fee;
+  }
+  return received + Number(tokenDelta(tx, wallet, SOL_MINT));
+}
+
+/**
+ * Successful transactions of `wallet` that moved `mint` in or out of it, oldest
+ * first. Pages back to `until` (the transfer that brought the token in) or to
+ * the launch slot, since nothing older can have moved the mint.
+ */
+async function mintHistory(
+  connection: Connection,
+  wallet: string,
+  mint: string,
+  launchSlot: number | null,
+  until?: string
+): Promise<{ txs: SignedTx[]; truncated: boolean }> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let truncated = false;
+  let before: string | undefined;
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(new PublicKey(wallet), { limit: SIGNATURE_PAGE, before, until });
+    const sinceLaunch = launchSlot === null ? page : page.filter(s => s.slot >= launchSlot);
+    signatures.push(...sinceLaunch);
+    if (page.length < SIGNATURE_PAGE || sinceLaunch.length < page.length) break;
+    if (signatures.length >= MAX_SIGNATURES_PER_WALLET) {
+      truncated = true;
+      break;
+    }
+    before = page[page.length - 1].signature;
+  }
+  const ok = signatures.filter(s => !s.err).reverse();
+  const txs: SignedTx[] = [];
+
+  for (let i = 0; i < ok.length; i += TX_BATCH) {
+    const batch = ok.slice(i, i + TX_BATCH);
+    const parsed = await connection.getParsedTransactions(batch.map(s => s.signature), { maxSupportedTransactionVersion: 0 });
+    parsed.forEach((tx, j) => {
+      if (tx?.meta && tokenDelta(tx, wallet, mint) !== 0n) txs.push({ signature: batch[j].signature, tx });
+    });
+  }
+  return { txs, truncated };
+}
+
+async function holdingOf(connection: Connection, wallet: string, mint: PublicKey): Promise<bigint> {
+  const accounts = await connection.getTokenAccountsByOwner(new PublicKey(wallet), { mint });
+  // Token account data: amount is at offset 64, u64 LE
+  return accounts.value.reduce((sum, { account }) => sum + account.data.readBigUInt64LE(64), 0n);
+}
+
+/**
+ * Follow the token from the creator and the wallets it funded, and collect the
+ * sells made from any wallet on the dev side. A wallet whose history can't be
+ * read is kept in the set but contributes no sells. `launchSlot`, the slot of
+ * the mint's first transaction, bounds how far back histories are read.
+ */
+export async function traceDevSide(
+  connection: Connection,
+  mint: PublicKey,
+  creator: string,
+  funded: { wallet: string; from: string | null }[],
+  supply: bigint,
+  launchSlot: number | null = null
+): Promise<DevSideActivity> {
+  const mintStr = mint.toBase58();
+  const pct = (amount: bigint) => (supply > 0n ? Number((amount * 10000n) / supply) / 100 : 0);
+
+  const wallets = new Map<string, DevSideWallet>();
+  const add = (wallet: Omit<DevSideWallet, 'holdingPct'>) => {
+    if (wallets.size < MAX_WALLETS && !wallets.has(wallet.address)) wallets.set(wallet.address, { ...wallet, holdingPct: 0 });
+  };
+  add({ address: creator, via: 'creator', from: null, hops: 0, signature: null });
+  for (const f of funded) add({ address: f.wallet, via: 'funded', from: f.from, hops: 0, signature: null });
+
+  const sells: DevSideSell[] = [];
+  const transfers: DevSideTransfer[] = [];
+  let truncated = false;
+
+  // Map iteration visits wallets added during the loop, so this walks the transfers breadth-first
+  for (const wallet of wallets.values()) {
+    let history: Awaited<ReturnType<typeof mintHistory>>;
+    try {
+      history = await mintHistory(connection, wallet.address, mintStr, launchSlot, wallet.signature ?? undefined);
+    } catch {
+      continue;
+    }
+    truncated ||= history.truncated;
+
+    for (const { signature, tx } of history.txs) {
+      const delta = tokenDelta(tx, wallet.address, mintStr);
+      if (delta >= 0n) continue;
+
+      const time = tx.blockTime ? tx.blockTime * 1000 : null;
+      const recipients = tokenRecipients(tx, wallet.address, mintStr);
+      const lamports = lamportsReceived(tx, wallet.address);
+      const exchange = recipients.map(r => getLabel(r)).find(l => l?.category === 'cex') ?? null;
+
+      if (lamports >= MIN_SALE_LAMPORTS || exchange) {
+        sells.push({
+          wallet: wallet.address,
+          signature,
+          time,
+          tokens: (-delta).toString(),
+          pct: pct(-delta),
+          sol: Math.max(0, lamports) / 1e9,
+          venue: lamports >= MIN_SALE_LAMPORTS ? 'dex' : 'cex',
+          exchange: exchange?.name ?? null,
+        });
+        continue;
+      }
+
+      // Plain transfer: follow it to wallets, not to pools, lockers or burn addresses
+      for (const to of recipients) {
+        if (!PublicKey.isOnCurve(new PublicKey(to).toBytes()) || hasLabel(to, 'lp', 'locker', 'burn')) continue;
+        transfers.push({ from: wallet.address, to, signature, time, pct: pct(tokenDelta(tx, to, mintStr)) });
+        if (wallet.hops >= MAX_HOPS || wallets.has(to)) continue;
+        if (wallets.size >= MAX_WALLETS) truncated = true;
+        add({ address: to, via: 'recipient', from: wallet.address, hops: wallet.hops + 1, signature });
+      }
+    }
+  }
+
+  await Promise.all([...wallets.values()].map(async (wallet) => {
+    wallet.holdingPct = pct(await holdingOf(connection, wallet.address, mint).catch(() => 0n));
+  }));
+
+  sells.sort((a, b) => (a.time ?? 0) - (b.time ?? 0));
+  const soldTokens = sells.reduce((sum, s) => sum + BigInt(s.tokens), 0n);
+  return {
+    wallets: [...wallets.values()],
+    sells: sells.slice(-MAX_TIMELINE),
+    transfers: transfers.slice(0, MAX_TIMELINE),
+    sellCount: sells.length,
+    sellingWallets: new Set(sells.map(s => s.wallet)).size,
+    soldTokens,
+    soldPct: pct(soldTokens),
+    solExtracted: sells.reduce((sum, s) => sum + s.sol, 0),
+    truncated,
+  };
+}
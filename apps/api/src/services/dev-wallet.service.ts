@@ -1,43 +1,34 @@
-import { PublicKey } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { RISK_WEIGHTS, PROGRAM_IDS, type RiskCheckResult } from '@trenchable/shared';
+import { type RiskCheckResult } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
+import {
+  getTokenFundingGraphCached,
+  findCreator,
+  clusterOf,
+  getLaunchTransactions,
+  type LaunchTransaction,
+} from './funding-graph/index.js';
 import type { ScanContext } from '../types/risk.types.js';
-
-async function findCreator(ctx: ScanContext): Promise<string | null> {
-  try {
-    // First try pump.fun bonding curve to get creator directly
-    const [bondingCurve] = PublicKey.findProgramAddressSync(
-      [Buffer.from('bonding-curve'), ctx.tokenMint.toBuffer()],
-      new PublicKey(PROGRAM_IDS.PUMP_FUN)
-    );
-
-    const bcInfo = await ctx.connection.getAccountInfo(bondingCurve);
-    if (bcInfo && bcInfo.data.length >= 81) {
-      // creator is at offset 49 (after 8 byte discriminator + 5 u64s + 1 bool)
-      return new PublicKey(bcInfo.data.subarray(49, 81)).toBase58();
-    }
-
-    // Fallback: find the earliest transaction on the mint account
-    const sigs = await ctx.connection.getSignaturesForAddress(ctx.tokenMint, { limit: 1 }, 'confirmed');
-    if (sigs.length === 0) return null;
-
-    // Get the first transaction
-    const tx = await ctx.connection.getTransaction(sigs[sigs.length - 1].signature, {
-      maxSupportedTransactionVersion: 0,
-    });
-    if (!tx?.transaction.message) return null;
-
-    // The first signer is typically the creator/deployer
-    const keys = tx.transaction.message.getAccountKeys();
-    return keys.get(0)?.toBase58() ?? null;
-  } catch {
-    return null;
-  }
+import { getLabel } from './address-labels.service.js';
+import { traceDevSide } from './dev-activity.service.js';
+
+// Slot of the transaction that initialized the mint, if the paged launch history reaches back to it
+function mintCreationSlot(launch: LaunchTransaction[], mint: string): number | null {
+  const first = launch[0];
+  if (!first) return null;
+  const instructions = [
+    ...first.tx.transaction.message.instructions,
+    ...(first.tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+  ];
+  const initializes = instructions.some(ix =>
+    'parsed' in ix && /^initializeMint2?$/.test(ix.parsed?.type) && ix.parsed.info?.mint === mint);
+  return initializes ? first.tx.slot : null;
 }
 
 export async function checkDevWallet(ctx: ScanContext): Promise<RiskCheckResult> {
   try {
-    const creator = await findCreator(ctx);
+    // The funding graph also finds the creator; fall back to a plain lookup if the trace fails
+    const funding = await getTokenFundingGraphCached(ctx).catch(() => null);
+    const creator = funding ? funding.creator : await findCreator(ctx);
     if (!creator) {
       return {
         check: 'DEV_WALLET',
@@ -49,69 +40,69 @@ export async function checkDevWallet(ctx: ScanContext): Promise<RiskCheckResult>
       };
     }
 
-    // Check how many tokens the creator currently holds
-    const creatorPubkey = new PublicKey(creator);
-    const tokenAccounts = await ctx.connection.getTokenAccountsByOwner(creatorPubkey, {
-      mint: ctx.tokenMint,
-    });
-
-    let creatorBalance = BigInt(0);
-    for (const { account } of tokenAccounts.value) {
-      // Token account data: amount is at offset 64, u64 LE
-      const amount = account.data.readBigUInt64LE(64);
-      creatorBalance += amount;
-    }
+    // Early buyers the creator funded, or that share a funder with the creator
+    const cluster = funding ? clusterOf(funding.graph, creator) : null;
+    const linkedWallets = cluster
+      ? cluster.paths.filter(p => p.wallet !== creator).map(p => ({ wallet: p.wallet, hops: p.hops }))
+      : [];
 
+    // Follow supply the dev side moved to other wallets and the sells made from all of them
     const supply = ctx.mintInfo?.supply ?? BigInt(0);
-    const holdingPct = supply > 0 ? Number((creatorBalance * BigInt(10000)) / supply) / 100 : 0;
-
-    // Check recent activity (last 10 transactions)
-    const recentSigs = await ctx.connection.getSignaturesForAddress(creatorPubkey, { limit: 10 });
-    let recentSellCount = 0;
-
-    for (const sig of recentSigs.slice(0, 5)) {
-      try {
-        const tx = await ctx.connection.getTransaction(sig.signature, {
-          maxSupportedTransactionVersion: 0,
-        });
-        if (!tx?.meta) continue;
+    const launch = await getLaunchTransactions(ctx).catch(() => []);
+    const devSide = await traceDevSide(
+      ctx.connection,
+      ctx.tokenMint,
+      creator,
+      linkedWallets.map(w => ({ wallet: w.wallet, from: cluster?.fundingSource ?? null })),
+      supply,
+      mintCreationSlot(launch, ctx.tokenMint.toBase58())
+    );
+    const holdingPct = devSide.wallets[0].holdingPct;
+    const devSideHoldingPct = Math.round(devSide.wallets.reduce((s, w) => s + w.holdingPct, 0) * 10) / 10;
+    const recipients = devSide.wallets.filter(w => w.via === 'recipient');
+    const sellCount = devSide.sellCount;
+    const soldSummary = `${devSide.soldPct.toFixed(1)}% of supply for ${devSide.solExtracted.toFixed(2)} SOL`;
 
-        // Check if token balance decreased (indicating a sell)
-        const preBalances = tx.meta.preTokenBalances || [];
-        const postBalances = tx.meta.postTokenBalances || [];
-
-        for (const pre of preBalances) {
-          if (pre.mint === ctx.tokenMint.toBase58() && pre.owner === creator) {
-            const post = postBalances.find(
-              p => p.mint === ctx.tokenMint.toBase58() && p.owner === creator
-            );
-            const preBal = Number(pre.uiTokenAmount.amount);
-            const postBal = post ? Number(post.uiTokenAmount.amount) : 0;
-            if (postBal < preBal) {
-              recentSellCount++;
-            }
-          }
-        }
-      } catch {
-        // Skip failed tx lookups
-      }
-    }
+    // The creator, its funder or a linked wallet is a rugger the team has labeled
+    const rugger = [creator, cluster?.fundingSource, ...devSide.wallets.map(w => w.address)]
+      .map(address => (address ? getLabel(address) : null))
+      .find(label => label?.category === 'rugger') ?? null;
 
     // Scoring
     let score: number;
     let status: 'safe' | 'warning' | 'danger';
     let message: string;
 
-    if (holdingPct > 5 || recentSellCount >= 3) {
+    if (rugger) {
+      score = 95;
+      status = 'danger';
+      message = rugger.address === creator
+        ? `Dev wallet is a known rugger (${rugger.name})`
+        : `Dev is linked to a known rugger (${rugger.name})`;
+    } else if (devSide.soldPct >= 20) {
+      score = 85;
+      status = 'danger';
+      message = `Dev side has sold ${soldSummary} across ${devSide.sellingWallets} wallet(s)`;
+    } else if (devSideHoldingPct > 5 || sellCount >= 3 || linkedWallets.length >= 3) {
       score = 80;
       status = 'danger';
-      message = holdingPct > 5
-        ? `Dev wallet holds ${holdingPct.toFixed(1)}% of supply — high risk`
-        : `Dev has sold ${recentSellCount} times recently — active dumping`;
-    } else if (holdingPct > 1 || recentSellCount >= 1) {
+      message = devSideHoldingPct > 5
+        ? recipients.length > 0
+          ? `Dev and ${recipients.length} wallet(s) it sent supply to hold ${devSideHoldingPct.toFixed(1)}% of supply — high risk`
+          : `Dev wallet holds ${devSideHoldingPct.toFixed(1)}% of supply — high risk`
+        : sellCount >= 3
+          ? `Dev side has sold ${sellCount} times (${soldSummary}) — active dumping`
+          : `Dev is linked by funding to ${linkedWallets.length} early buyer wallets — hidden dev supply`;
+    } else if (linkedWallets.length > 0 || recipients.length > 0) {
+      score = 50;
+      status = 'warning';
+      message = linkedWallets.length > 0
+        ? `Dev wallet holds ${holdingPct.toFixed(1)}% of supply, linked by funding to ${linkedWallets.length} early buyer(s)`
+        : `Dev moved supply to ${recipients.length} other wallet(s)`;
+    } else if (devSideHoldingPct > 1 || sellCount >= 1) {
       score = 40;
       status = 'warning';
-      message = `Dev wallet holds ${holdingPct.toFixed(1)}% of supply${recentSellCount > 0 ? `, sold ${recentSellCount} time(s) recently` : ''}`;
+      message = `Dev wallet holds ${devSideHoldingPct.toFixed(1)}% of supply${sellCount > 0 ? `, sold ${soldSummary}` : ''}`;
     } else {
       score = 0;
       status = 'safe';
@@ -125,9 +116,19 @@ export async function checkDevWallet(ctx: ScanContext): Promise<RiskCheckResult>
       weight: RISK_WEIGHTS.DEV_WALLET,
       details: {
         creator,
-        holdingPct: Math.round(holdingPct * 10) / 10,
-        creatorBalance: creatorBalance.toString(),
-        recentSellCount,
+        holdingPct,
+        devSideHoldingPct,
+        sellCount,
+        soldTokens: devSide.soldTokens.toString(),
+        soldPct: devSide.soldPct,
+        solExtracted: Math.round(devSide.solExtracted * 1000) / 1000,
+        devSideWallets: devSide.wallets,
+        sells: devSide.sells,
+        transfers: devSide.transfers,
+        historyTruncated: devSide.truncated,
+        linkedWallets,
+        knownRugger: rugger ? { address: rugger.address, name: rugger.name } : null,
+        fundingDepth: funding?.graph.depth ?? null,
       },
       message,
     };
@@ -100,3 +100,35 @@ export async function getDexScreenerData(mint: string): Promise<DexScreenerData
     return null;
   }
 }
+
+// The tokens endpoint takes up to 30 comma-separated mints
+const DEXSCREENER_BATCH = 30;
+
+/**
+ * Pairs for many mints at once, keyed by base token mint. A mint DexScreener
+ * has no pairs for maps to an empty array; mints in a failed batch are left out.
+ */
+export async function getDexScreenerPairsForTokens(mints: string[]): Promise<Map<string, DexScreenerPair[]>> {
+  const byMint = new Map<string, DexScreenerPair[]>();
+  for (let i = 0; i < mints.length; i += DEXSCREENER_BATCH) {
+    const batch = mints.slice(i, i + DEXSCREENER_BATCH);
+    try {
+      const res = await fetch(`https://api.dexscreener.com/tokens/v1/solana/${batch.join(',')}`, {
+        signal: AbortSignal.timeout(8000),
+      });
+      if (!res.ok) continue;
+
+      const pairs = (await res.json()) as DexScreenerPair[];
+      if (!Array.isArray(pairs)) continue;
+      for (const mint of batch) byMint.set(mint, []);
+      for (const pair of pairs) {
+        const mint = pair.baseToken?.address;
+        if (!mint || !batch.includes(mint)) continue;
+        byMint.get(mint)!.push(pair);
+      }
+    } catch {
+      // Skip this batch
+    }
+  }
+  return byMint;
+}
@@ -0,0 +1,54 @@
+import { VersionedTransaction, type PublicKey } from '@solana/web3.js';
+import { config } from '../../config/env.js';
+
+export interface JupiterQuote {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  priceImpactPct: string;
+  routePlan?: unknown[];
+  [key: string]: unknown;
+}
+
+export type JupiterQuoteResult =
+  | { ok: true; quote: JupiterQuote }
+  | { ok: false; status: number; error: string };
+
+export async function getJupiterQuote(
+  inputMint: string,
+  outputMint: string,
+  amount: bigint,
+  slippageBps = 5000,
+  signal: AbortSignal = AbortSignal.timeout(10000)
+): Promise<JupiterQuoteResult> {
+  const url = `${config.jupiter.apiUrl}/quote?inputMint=${inputMint}&outputMint=${outputMint}&amount=${amount}&slippageBps=${slippageBps}`;
+  const res = await fetch(url, { signal });
+  if (!res.ok) {
+    return { ok: false, status: res.status, error: await res.text() };
+  }
+  return { ok: true, quote: (await res.json()) as JupiterQuote };
+}
+
+// Build the swap transaction for a quote, unsigned, with the user as fee payer
+export async function getJupiterSwapTransaction(
+  quote: JupiterQuote,
+  user: PublicKey
+): Promise<VersionedTransaction> {
+  const res = await fetch(`${config.jupiter.apiUrl}/swap`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      quoteResponse: quote,
+      userPublicKey: user.toBase58(),
+      wrapAndUnwrapSol: true,
+      dynamicComputeUnitLimit: true,
+    }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) {
+    throw new Error(`Jupiter swap build failed (${res.status}): ${(await res.text()).substring(0, 200)}`);
+  }
+  const { swapTransaction } = (await res.json()) as { swapTransaction: string };
+  return VersionedTransaction.deserialize(Buffer.from(swapTransaction, 'base64'));
+}
@@ -21,6 +21,7 @@ export interface RugcheckReport {
     insider: boolean;
   }[] | null;
   markets: {
+    pubkey?: string;
     marketType: string;
     mintA: string;
     mintB: string;
@@ -34,6 +35,8 @@ export interface RugcheckReport {
       lpBurnedPct: number;
       lpTotalSupply: string;
       lpCurrentSupply: string;
+      baseUSD?: number;
+      quoteUSD?: number;
     };
   }[] | null;
   totalMarketLiquidity: number;
@@ -78,27 +81,60 @@ export function extractRugcheckRisks(report: RugcheckReport): string[] {
   return flags;
 }
 
+export interface RugcheckMarketLp {
+  address: string | null;
+  marketType: string;
+  liquidityUsd: number;
+  liquiditySharePct: number | null;
+  lpLockedPct: number;
+  lpBurnedPct: number;
+  removablePct: number;
+}
+
 export function extractLpLockData(report: RugcheckReport): {
   lpLockedPct: number;
   lpBurnedPct: number;
   totalLiquidity: number;
+  removableLiquidityPct: number | null;
+  markets: RugcheckMarketLp[];
 } | null {
   if (!report.markets || report.markets.length === 0) return null;
 
-  // Use the market with highest liquidity
-  let bestLpLocked = 0;
-  let bestLpBurned = 0;
+  const markets = report.markets
+    .filter(m => m.lp)
+    .map(m => {
+      const lpLockedPct = m.lp.lpLockedPct || 0;
+      const lpBurnedPct = m.lp.lpBurnedPct || 0;
+      return {
+        address: m.pubkey ?? null,
+        marketType: m.marketType,
+        liquidityUsd: (m.lp.baseUSD || 0) + (m.lp.quoteUSD || 0),
+        liquiditySharePct: null as number | null,
+        lpLockedPct,
+        lpBurnedPct,
+        removablePct: Math.max(0, 100 - lpLockedPct - lpBurnedPct),
+      };
+    })
+    .sort((a, b) => b.liquidityUsd - a.liquidityUsd);
+  if (markets.length === 0) return null;
 
-  for (const market of report.markets) {
-    if (market.lp) {
-      bestLpLocked = Math.max(bestLpLocked, market.lp.lpLockedPct || 0);
-      bestLpBurned = Math.max(bestLpBurned, market.lp.lpBurnedPct || 0);
-    }
+  // Weight lock/burn by each market's liquidity — a small locked pool next to a
+  // large unlocked one must not make the token look secured. Without liquidity
+  // figures, fall back to the least secured market.
+  const totalUsd = markets.reduce((sum, m) => sum + m.liquidityUsd, 0);
+  const leastSecured = markets.reduce((a, b) => (b.removablePct > a.removablePct ? b : a));
+  const weighted = (pick: (m: RugcheckMarketLp) => number) => totalUsd > 0
+    ? Math.round(markets.reduce((sum, m) => sum + pick(m) * m.liquidityUsd, 0) / totalUsd * 100) / 100
+    : pick(leastSecured);
+  if (totalUsd > 0) {
+    for (const m of markets) m.liquiditySharePct = Math.round(m.liquidityUsd / totalUsd * 10_000) / 100;
   }
 
   return {
-    lpLockedPct: bestLpLocked,
-    lpBurnedPct: bestLpBurned,
+    lpLockedPct: weighted(m => m.lpLockedPct),
+    lpBurnedPct: weighted(m => m.lpBurnedPct),
     totalLiquidity: report.totalMarketLiquidity,
+    removableLiquidityPct: totalUsd > 0 ? weighted(m => m.removablePct) : null,
+    markets,
   };
 }
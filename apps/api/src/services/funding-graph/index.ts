@@ -0,0 +1,90 @@
+import type { Connection } from '@solana/web3.js';
+import type { FundingCluster, FundingGraph } from '@trenchable/shared';
+import { config } from '../../config/env.js';
+import type { ScanContext } from '../../types/risk.types.js';
+import { getLabel, getLabelNames } from '../address-labels.service.js';
+import { buildFundingGraph } from './trace.js';
+import { findCreator, findEarlyBuyers, type EarlyBuyer } from './participants.js';
+
+export { buildFundingGraph, extractInflows, DEFAULT_FUNDING_OPTIONS, type FundingGraphOptions } from './trace.js';
+export { findCreator, findEarlyBuyers, getLaunchTransactions, type EarlyBuyer, type LaunchTransaction } from './participants.js';
+
+/**
+ * Funding graph for a token: the creator and its early buyers are the seeds,
+ * traced back config.fundingGraph.depth hops. DEV_WALLET, BUNDLE_DETECTION and
+ * WALLET_CLUSTER read the same graph.
+ */
+export interface TokenFundingGraph {
+  creator: string | null;
+  earlyBuyers: EarlyBuyer[];
+  graph: FundingGraph;
+}
+
+export async function getTokenFundingGraph(ctx: ScanContext, depth = config.fundingGraph.depth): Promise<TokenFundingGraph> {
+  const creator = await findCreator(ctx);
+  const earlyBuyers = await findEarlyBuyers(ctx, creator);
+
+  const seeds = [...(creator ? [creator] : []), ...earlyBuyers.map(b => b.wallet)];
+  const graph = await buildFundingGraph(ctx.connection, seeds, {
+    depth,
+    exchanges: exchangeNames(),
+    tokenAmounts: new Map(earlyBuyers.map(b => [b.wallet, b.amount])),
+    tokenSupply: ctx.mintInfo?.supply,
+  });
+  return { creator, earlyBuyers, graph: labelNodes(graph) };
+}
+
+// Funders of a single wallet, e.g. the wallets a dev rotated through
+export async function getWalletFundingGraph(connection: Connection, wallet: string, depth = config.fundingGraph.depth): Promise<FundingGraph> {
+  const graph = await buildFundingGraph(connection, [wallet], { depth, exchanges: exchangeNames() });
+  return labelNodes(graph);
+}
+
+// Name the other wallets the address book knows (bots, known ruggers, ...)
+function labelNodes(graph: FundingGraph): FundingGraph {
+  for (const node of graph.nodes) {
+    if (node.kind !== 'exchange') node.label = getLabel(node.address)?.name ?? null;
+  }
+  return graph;
+}
+
+// Labeled CEX wallets, named by exchange so each exchange collapses into one node
+function exchangeNames(): Record<string, string> {
+  const names = getLabelNames('cex');
+  for (const address of Object.keys(names)) names[address] = names[address].replace(/ hot wallet$/i, '');
+  return names;
+}
+
+// One trace per scan, shared by the checks that read it
+const scanGraphs = new WeakMap<object, Promise<TokenFundingGraph>>();
+
+export function getTokenFundingGraphCached(ctx: ScanContext): Promise<TokenFundingGraph> {
+  let graph = scanGraphs.get(ctx);
+  if (!graph) {
+    graph = getTokenFundingGraph(ctx);
+    scanGraphs.set(ctx, graph);
+  }
+  return graph;
+}
+
+export function clusterOf(graph: FundingGraph, wallet: string): FundingCluster | null {
+  return graph.clusters.find(c => c.wallets.includes(wallet)) ?? null;
+}
+
+// Non-exchange wallets that funded `wallet`, nearest first
+export function fundersOf(graph: FundingGraph, wallet: string): string[] {
+  const kinds = new Map(graph.nodes.map(n => [n.address, n.kind]));
+  const funders: string[] = [];
+  let frontier = [wallet];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const edge of graph.edges) {
+      if (!frontier.includes(edge.to) || kinds.get(edge.from) !== 'funder') continue;
+      if (edge.from === wallet || funders.includes(edge.from)) continue;
+      funders.push(edge.from);
+      next.push(edge.from);
+    }
+    frontier = next;
+  }
+  return funders;
+}
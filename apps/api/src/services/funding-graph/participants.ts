@@ -0,0 +1,116 @@
+import { PublicKey, type ConfirmedSignatureInfo, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import type { ScanContext } from '../../types/risk.types.js';
+
+export interface EarlyBuyer {
+  wallet: string;
+  slot: number;
+  signature: string;
+  amount: bigint;   // Raw token units received
+}
+
+export interface LaunchTransaction {
+  signature: string;
+  tx: ParsedTransactionWithMeta;
+}
+
+const SIGNATURE_PAGES = 3;
+const EARLY_TXS = 40;
+const TX_BATCH = 20;
+const MAX_EARLY_BUYERS = 20;
+
+export async function findCreator(ctx: ScanContext): Promise<string | null> {
+  try {
+    // First try pump.fun bonding curve to get creator directly
+    const [bondingCurve] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bonding-curve'), ctx.tokenMint.toBuffer()],
+      new PublicKey(PROGRAM_IDS.PUMP_FUN)
+    );
+
+    const bcInfo = await ctx.connection.getAccountInfo(bondingCurve);
+    if (bcInfo && bcInfo.data.length >= 81) {
+      // creator is at offset 49 (after 8 byte discriminator + 5 u64s + 1 bool)
+      return new PublicKey(bcInfo.data.subarray(49, 81)).toBase58();
+    }
+
+    // Fallback: the first signer of the oldest transaction on the mint
+    const oldest = await oldestSignatures(ctx.connection, ctx.tokenMint, 1);
+    if (oldest.length === 0) return null;
+
+    const tx = await ctx.connection.getTransaction(oldest[0].signature, {
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx?.transaction.message) return null;
+
+    const keys = tx.transaction.message.getAccountKeys();
+    return keys.get(0)?.toBase58() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Signatures come back newest first — page back to reach the launch
+async function oldestSignatures(connection: Connection, mint: PublicKey, count: number): Promise<ConfirmedSignatureInfo[]> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+  for (let page = 0; page < SIGNATURE_PAGES; page++) {
+    const batch = await connection.getSignaturesForAddress(mint, { limit: 1000, before });
+    signatures.push(...batch);
+    if (batch.length < 1000) break;
+    before = batch[batch.length - 1].signature;
+  }
+  return signatures.filter(s => !s.err).slice(-count).reverse();
+}
+
+// The mint's earliest transactions, oldest first; one fetch per scan, shared with bundle detection
+const scanLaunchTxs = new WeakMap<object, Promise<LaunchTransaction[]>>();
+
+export function getLaunchTransactions(ctx: ScanContext): Promise<LaunchTransaction[]> {
+  let launch = scanLaunchTxs.get(ctx);
+  if (!launch) {
+    launch = fetchLaunchTransactions(ctx.connection, ctx.tokenMint);
+    scanLaunchTxs.set(ctx, launch);
+  }
+  return launch;
+}
+
+async function fetchLaunchTransactions(connection: Connection, mint: PublicKey): Promise<LaunchTransaction[]> {
+  const early = await oldestSignatures(connection, mint, EARLY_TXS);
+  const launch: LaunchTransaction[] = [];
+  for (let i = 0; i < early.length; i += TX_BATCH) {
+    const batch = early.slice(i, i + TX_BATCH);
+    const txs = await connection.getParsedTransactions(batch.map(s => s.signature), { maxSupportedTransactionVersion: 0 });
+    txs.forEach((tx, j) => {
+      if (tx?.meta) launch.push({ signature: batch[j].signature, tx });
+    });
+  }
+  return launch;
+}
+
+/**
+ * Wallets that received the token in its earliest transactions, oldest first.
+ * On mints with more history than is paged, "earliest" is the oldest reached.
+ */
+export async function findEarlyBuyers(ctx: ScanContext, creator: string | null = null): Promise<EarlyBuyer[]> {
+  const mint = ctx.tokenMint.toBase58();
+  const buyers = new Map<string, EarlyBuyer>();
+
+  for (const { signature, tx } of await getLaunchTransactions(ctx)) {
+    if (buyers.size >= MAX_EARLY_BUYERS) break;
+    for (const post of tx.meta!.postTokenBalances ?? []) {
+      if (post.mint !== mint || !post.owner || post.owner === creator) continue;
+      const pre = (tx.meta!.preTokenBalances ?? []).find(p => p.accountIndex === post.accountIndex);
+      const gained = BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount ?? '0');
+      if (gained <= 0n) continue;
+
+      const existing = buyers.get(post.owner);
+      if (existing) existing.amount += gained;
+      else if (buyers.size < MAX_EARLY_BUYERS) {
+        buyers.set(post.owner, { wallet: post.owner, slot: tx.slot, signature, amount: gained });
+      }
+    }
+  }
+
+  // Pools and bonding curves receive tokens at launch too; only on-curve wallets are buyers
+  return [...buyers.values()].filter(b => PublicKey.isOnCurve(new PublicKey(b.wallet).toBytes()));
+}
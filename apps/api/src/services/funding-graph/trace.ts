@@ -0,0 +1,309 @@
+import {
+  PublicKey,
+  type Connection,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import {
+  KNOWN_EXCHANGE_WALLETS,
+  PROGRAM_IDS,
+  type FundingCluster,
+  type FundingEdge,
+  type FundingGraph,
+  type FundingNode,
+  type FundingPath,
+} from '@trenchable/shared';
+
+export interface FundingGraphOptions {
+  depth: number;
+  // Recent transactions read per wallet when looking for its funders
+  signaturesPerWallet: number;
+  // Largest funders followed per wallet
+  maxFundersPerWallet: number;
+  // Wallets traced in total, across all hops
+  maxWallets: number;
+  // SOL transfers below this are dust, not funding
+  minLamports: number;
+  // Hot wallet address -> exchange name
+  exchanges: Record<string, string>;
+  // Address -> total raw amount of the traced token the wallet holds or bought, for cluster share
+  tokenAmounts?: Map<string, bigint>;
+  tokenSupply?: bigint;
+}
+
+export const DEFAULT_FUNDING_OPTIONS: FundingGraphOptions = {
+  depth: 2,
+  signaturesPerWallet: 25,
+  maxFundersPerWallet: 3,
+  maxWallets: 120,
+  minLamports: 10_000_000, // 0.01 SOL
+  exchanges: KNOWN_EXCHANGE_WALLETS,
+};
+
+const TX_BATCH = 20;
+// Wallets whose inflows are fetched at once
+const CONCURRENCY = 5;
+const TOKEN_PROGRAMS = new Set<string>([PROGRAM_IDS.SPL_TOKEN, PROGRAM_IDS.TOKEN_2022]);
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+function isParsed(ix: ParsedInstruction | PartiallyDecodedInstruction): ix is ParsedInstruction {
+  return 'parsed' in ix;
+}
+
+/**
+ * Transfers into `wallet` signed by the sender. Requiring a signer keeps out
+ * program payouts and swap legs — pools and bonding curves pay out from PDAs
+ * that never sign. Token transfers must be top-level for the same reason.
+ */
+export function extractInflows(tx: ParsedTransactionWithMeta, signature: string, wallet: string, minLamports: number): FundingEdge[] {
+  const keys = tx.transaction.message.accountKeys;
+  const signers = new Set(keys.filter(k => k.signer).map(k => k.pubkey.toBase58()));
+  const base = { to: wallet, signature, slot: tx.slot, blockTime: tx.blockTime ?? null };
+  const edges: FundingEdge[] = [];
+
+  // Token account -> owner, from the balances the transaction touched
+  const tokenOwners = new Map<string, { owner: string; mint: string }>();
+  for (const b of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+    if (b.owner) tokenOwners.set(keys[b.accountIndex].pubkey.toBase58(), { owner: b.owner, mint: b.mint });
+  }
+
+  const visitSystem = (ix: ParsedInstruction) => {
+    const { type, info } = ix.parsed as { type: string; info: Record<string, unknown> };
+    if (type !== 'transfer' && type !== 'transferWithSeed' && type !== 'createAccount') return;
+    const from = info.source as string;
+    const to = (info.destination ?? info.newAccount) as string;
+    const lamports = Number(info.lamports ?? 0);
+    if (to === wallet && from !== wallet && signers.has(from) && lamports >= minLamports) {
+      edges.push({ ...base, from, asset: 'SOL', amount: String(lamports) });
+    }
+  };
+
+  const visitToken = (ix: ParsedInstruction) => {
+    const { type, info } = ix.parsed as { type: string; info: Record<string, unknown> };
+    if (type !== 'transfer' && type !== 'transferChecked') return;
+    const from = (info.authority ?? info.multisigAuthority) as string | undefined;
+    const dest = tokenOwners.get(info.destination as string);
+    if (!from || !dest || dest.owner !== wallet || from === wallet || !signers.has(from)) return;
+    const amount = (info.tokenAmount as { amount?: string } | undefined)?.amount ?? (info.amount as string | undefined);
+    if (amount) edges.push({ ...base, from, asset: dest.mint, amount });
+  };
+
+  for (const ix of tx.transaction.message.instructions) {
+    if (!isParsed(ix)) continue;
+    const program = ix.programId.toBase58();
+    if (program === SYSTEM_PROGRAM) visitSystem(ix);
+    else if (TOKEN_PROGRAMS.has(program)) visitToken(ix);
+  }
+  // Multi-send programs fan SOL out through CPI; the signer check still applies
+  for (const inner of tx.meta?.innerInstructions ?? []) {
+    for (const ix of inner.instructions) {
+      if (isParsed(ix) && ix.programId.toBase58() === SYSTEM_PROGRAM) visitSystem(ix);
+    }
+  }
+  return edges;
+}
+
+async function fetchInflows(connection: Connection, wallet: string, options: FundingGraphOptions): Promise<FundingEdge[]> {
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(wallet), { limit: options.signaturesPerWallet });
+  const ok = signatures.filter(s => !s.err);
+  const edges: FundingEdge[] = [];
+  for (let i = 0; i < ok.length; i += TX_BATCH) {
+    const batch = ok.slice(i, i + TX_BATCH);
+    const txs = await connection.getParsedTransactions(batch.map(s => s.signature), { maxSupportedTransactionVersion: 0 });
+    txs.forEach((tx, j) => {
+      if (tx) edges.push(...extractInflows(tx, batch[j].signature, wallet, options.minLamports));
+    });
+  }
+  return edges;
+}
+
+// Largest funders first; SOL and token amounts aren't comparable, so SOL funders rank ahead
+function topFunders(edges: FundingEdge[], limit: number): string[] {
+  const totals = new Map<string, { sol: bigint; other: bigint }>();
+  for (const e of edges) {
+    const t = totals.get(e.from) ?? { sol: 0n, other: 0n };
+    if (e.asset === 'SOL') t.sol += BigInt(e.amount);
+    else t.other += BigInt(e.amount);
+    totals.set(e.from, t);
+  }
+  return [...totals.entries()]
+    .sort(([, a], [, b]) => (a.sol !== b.sol ? (b.sol > a.sol ? 1 : -1) : b.other > a.other ? 1 : b.other < a.other ? -1 : 0))
+    .slice(0, limit)
+    .map(([from]) => from);
+}
+
+/**
+ * Trace who funded each seed wallet, `depth` hops back. Exchange hot wallets are
+ * collapsed into one node per exchange and not followed: everyone withdraws from
+ * Binance, so a shared exchange source says nothing about coordination.
+ */
+export async function buildFundingGraph(
+  connection: Connection,
+  seeds: string[],
+  overrides: Partial<FundingGraphOptions> = {}
+): Promise<FundingGraph> {
+  const options = { ...DEFAULT_FUNDING_OPTIONS, ...overrides };
+  const exchangeNode = (address: string) => {
+    const name = options.exchanges[address];
+    return name ? `exchange:${name}` : null;
+  };
+
+  const nodes = new Map<string, FundingNode>();
+  const edges: FundingEdge[] = [];
+  const uniqueSeeds = [...new Set(seeds)];
+  for (const seed of uniqueSeeds) nodes.set(seed, { address: seed, kind: 'seed', label: null, depth: 0 });
+
+  let frontier = uniqueSeeds.filter(s => !exchangeNode(s));
+  let traced = 0;
+  let truncated = false;
+
+  for (let hop = 1; hop <= options.depth && frontier.length > 0; hop++) {
+    if (traced + frontier.length > options.maxWallets) {
+      frontier = frontier.slice(0, Math.max(0, options.maxWallets - traced));
+      truncated = true;
+    }
+    traced += frontier.length;
+
+    const fetched: FundingEdge[][] = [];
+    for (let i = 0; i < frontier.length; i += CONCURRENCY) {
+      fetched.push(...await Promise.all(frontier.slice(i, i + CONCURRENCY).map(wallet =>
+        fetchInflows(connection, wallet, options).catch(() => [] as FundingEdge[]))));
+    }
+
+    // Walked in frontier order, so node depths and edges don't depend on which fetch finished first
+    const next: string[] = [];
+    for (const inflows of fetched) {
+      const funders = topFunders(inflows, options.maxFundersPerWallet);
+      if (new Set(inflows.map(e => e.from)).size > funders.length) truncated = true;
+
+      for (const edge of inflows) {
+        if (!funders.includes(edge.from)) continue;
+        const collapsed = exchangeNode(edge.from);
+        const from = collapsed ?? edge.from;
+        edges.push({ ...edge, from });
+
+        if (nodes.has(from)) continue;
+        nodes.set(from, collapsed
+          ? { address: from, kind: 'exchange', label: options.exchanges[edge.from], depth: hop }
+          : { address: from, kind: 'funder', label: null, depth: hop });
+        if (!collapsed) next.push(from);
+      }
+    }
+    frontier = next;
+  }
+
+  const graph = { seeds: uniqueSeeds, depth: options.depth, nodes: [...nodes.values()], edges, tracedWallets: traced, truncated };
+  return { ...graph, ...clusterSeeds(uniqueSeeds, nodes, edges, options) };
+}
+
+// ─── Clustering ───
+// Two seeds belong together when one funded the other or they share an ancestor
+// that isn't an exchange. Each cluster is reported from the ancestor that reaches
+// the most of its wallets, with the transfer path to each.
+
+function ancestorPaths(seed: string, fundersOf: Map<string, FundingEdge[]>): Map<string, FundingEdge[]> {
+  // BFS upwards; the first path found to an ancestor is a shortest one
+  const paths = new Map<string, FundingEdge[]>([[seed, []]]);
+  const queue = [seed];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of fundersOf.get(current) ?? []) {
+      if (paths.has(edge.from)) continue;
+      paths.set(edge.from, [edge, ...paths.get(current)!]);
+      queue.push(edge.from);
+    }
+  }
+  paths.delete(seed);
+  return paths;
+}
+
+function clusterSeeds(
+  seeds: string[],
+  nodes: Map<string, FundingNode>,
+  edges: FundingEdge[],
+  options: FundingGraphOptions
+): Pick<FundingGraph, 'clusters' | 'exchangeFunded'> {
+  // Keep the earliest transfer per funder -> wallet pair
+  const fundersOf = new Map<string, FundingEdge[]>();
+  for (const edge of [...edges].sort((a, b) => a.slot - b.slot)) {
+    const list = fundersOf.get(edge.to) ?? [];
+    if (!list.some(e => e.from === edge.from)) list.push(edge);
+    fundersOf.set(edge.to, list);
+  }
+
+  const pathsBySeed = new Map(seeds.map(seed => [seed, ancestorPaths(seed, fundersOf)]));
+
+  // ancestor -> seeds it reaches
+  const reach = new Map<string, string[]>();
+  for (const [seed, paths] of pathsBySeed) {
+    for (const ancestor of paths.keys()) reach.set(ancestor, [...(reach.get(ancestor) ?? []), seed]);
+  }
+
+  // Union seeds linked through a non-exchange ancestor, or directly (a seed funding another seed)
+  const parent = new Map(seeds.map(s => [s, s]));
+  const find = (s: string): string => (parent.get(s) === s ? s : find(parent.get(s)!));
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  const exchangeFunded: FundingGraph['exchangeFunded'] = [];
+  for (const [ancestor, reached] of reach) {
+    const linked = parent.has(ancestor) ? [ancestor, ...reached] : reached;
+    if (nodes.get(ancestor)?.kind === 'exchange') {
+      if (reached.length >= 2) exchangeFunded.push({ exchange: nodes.get(ancestor)!.label ?? ancestor, wallets: reached });
+      continue;
+    }
+    for (let i = 1; i < linked.length; i++) union(linked[0], linked[i]);
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const seed of seeds) groups.set(find(seed), [...(groups.get(find(seed)) ?? []), seed]);
+
+  const clusters: FundingCluster[] = [];
+  for (const wallets of groups.values()) {
+    if (wallets.length < 2) continue;
+    const members = new Set(wallets);
+
+    // Root: the ancestor (or member seed) reaching most members, then the shallowest
+    let root: string | null = null;
+    let best = { count: 0, depth: Infinity };
+    for (const [ancestor, reached] of reach) {
+      if (nodes.get(ancestor)?.kind === 'exchange') continue;
+      const covered = reached.filter(s => members.has(s));
+      // An ancestor reaching none of the members can't root them
+      if (covered.length === 0) continue;
+      const count = covered.length + (members.has(ancestor) ? 1 : 0);
+      const depth = Math.max(...covered.map(s => pathsBySeed.get(s)!.get(ancestor)!.length));
+      if (count > best.count || (count === best.count && depth < best.depth)) {
+        root = ancestor;
+        best = { count, depth };
+      }
+    }
+    if (!root) continue;
+
+    // Members the root doesn't reach keep the path from whichever ancestor linked them
+    const paths: FundingPath[] = wallets.filter(w => w !== root).map(wallet => {
+      const own = pathsBySeed.get(wallet)!;
+      const viaRoot = own.get(root!);
+      if (viaRoot) return { wallet, hops: viaRoot };
+      const shared = [...own.entries()].find(([a]) => reach.get(a)!.some(s => s !== wallet && members.has(s)));
+      return { wallet, hops: shared?.[1] ?? [] };
+    });
+
+    let totalPct = 0;
+    if (options.tokenAmounts && options.tokenSupply && options.tokenSupply > 0n) {
+      const held = wallets.reduce((sum, w) => sum + (options.tokenAmounts!.get(w) ?? 0n), 0n);
+      totalPct = Number((held * 10_000n) / options.tokenSupply) / 100;
+    }
+
+    clusters.push({
+      fundingSource: root,
+      wallets,
+      totalPct,
+      depth: Math.max(0, ...paths.map(p => p.hops.length)),
+      paths,
+    });
+  }
+
+  clusters.sort((a, b) => b.wallets.length - a.wallets.length);
+  return { clusters, exchangeFunded };
+}
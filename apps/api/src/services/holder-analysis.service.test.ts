@@ -0,0 +1,68 @@
+import { Keypair, type Connection } from '@solana/web3.js';
+import type { Mint } from '@solana/spl-token';
+import { describe, expect, it, vi } from 'vitest';
+import type { HolderSnapshot } from '@trenchable/shared';
+import { checkHolderConcentration } from './holder-analysis.service.js';
+import { getHolderSnapshot } from './holders/index.js';
+
+// The full holder index is read over RPC; the check is tested on the snapshot it returns
+vi.mock('./holders/index.js', () => ({ getHolderSnapshot: vi.fn() }));
+
+const SUPPLY = 1_000_000_000n;
+
+function snapshot(excludedPct: number, topPcts: number[], freshWalletPct = 0): HolderSnapshot {
+  return {
+    tokenMint: 'Mint',
+    takenAt: Date.now(),
+    holderCount: 400,
+    tokenAccounts: 420,
+    excludedPct,
+    gini: 0.7,
+    nakamoto: 10,
+    top10Pct: Math.round(topPcts.slice(0, 10).reduce((s, p) => s + p, 0) * 10) / 10,
+    freshWalletPct,
+    freshWalletsChecked: 20,
+    topHolders: topPcts.map(pct => ({ address: Keypair.generate().publicKey.toBase58(), pct, fresh: false })),
+    tracked: [],
+  };
+}
+
+async function check(snap: HolderSnapshot) {
+  vi.mocked(getHolderSnapshot).mockResolvedValue(snap);
+  const connection = {
+    async getTokenLargestAccounts() {
+      return { context: { slot: 1 }, value: [{ address: Keypair.generate().publicKey, amount: '1000', decimals: 6, uiAmount: 0.001, uiAmountString: '0.001' }] };
+    },
+    async getMultipleAccountsInfo(addresses: unknown[]) {
+      return addresses.map(() => null);
+    },
+  } as unknown as Connection;
+  return checkHolderConcentration({ tokenMint: Keypair.generate().publicKey, mintInfo: { supply: SUPPLY } as Mint, connection });
+}
+
+describe('checkHolderConcentration', () => {
+  it('scores shares of the mint supply, not of the little that left the bonding curve', async () => {
+    // 20% circulating: the top wallet holds 15.5% of that, 3.1% of supply
+    const result = await check(snapshot(80, [15.5, 10, 8, 6.5], 60));
+
+    expect(result).toMatchObject({ status: 'safe', score: 0 });
+    expect(result.message).toBe('Top 10 holders own 8.0% of supply — well distributed');
+    expect(result.details).toMatchObject({ top1Pct: 3.1, top10Pct: 8, freshWalletPct: 12, circulatingPct: 20 });
+    expect((result.details.holders as { percentage: number }[])[0].percentage).toBe(3.1);
+  });
+
+  it('still flags a wallet holding a large share of supply', async () => {
+    // 90% circulating: 20% of it is 18% of supply
+    const result = await check(snapshot(10, [20, 5, 5]));
+
+    expect(result).toMatchObject({ status: 'danger', score: 95 });
+    expect(result.message).toBe('Top holder owns 18.0% of supply — extreme concentration risk');
+  });
+
+  it('flags fresh wallets by their share of supply', async () => {
+    const result = await check(snapshot(50, [4, 4, 4], 70));
+
+    expect(result).toMatchObject({ status: 'danger', score: 85 });
+    expect(result.message).toBe('Fresh wallets hold 35.0% of supply — likely insider wallets');
+  });
+});
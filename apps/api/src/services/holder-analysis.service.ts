@@ -1,24 +1,40 @@
-import { PublicKey } from '@solana/web3.js';
-import { RISK_WEIGHTS, PROGRAM_IDS, type RiskCheckResult, type HolderInfo } from '@trenchable/shared';
+import type { PublicKey } from '@solana/web3.js';
+import { unpackAccount } from '@solana/spl-token';
+import type { RiskCheckResult, HolderInfo } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
 import type { ScanContext } from '../types/risk.types.js';
+import { getLabel } from './address-labels.service.js';
+import { getHolderSnapshot } from './holders/index.js';
 
-// Known addresses to exclude from concentration analysis
-const EXCLUDED_ADDRESSES = new Set([
-  '1nc1nerator11111111111111111111111111111111',  // Burn address
-  '1111111111111111111111111111111111',             // System null
-]);
-
-function isLPOrBurnAddress(address: string): boolean {
-  return EXCLUDED_ADDRESSES.has(address) ||
-    address.startsWith('1111') ||
-    address === PROGRAM_IDS.RAYDIUM_V4_AMM ||
-    address === PROGRAM_IDS.PUMP_FUN;
+// Pools, lockers and exchange wallets hold supply nobody can dump on holders
+const EXCLUDED_CATEGORIES = new Set(['lp', 'locker', 'cex']);
+
+// Owner of each token account; accounts that can't be read are left out
+async function getAccountOwners(ctx: ScanContext, accounts: PublicKey[]): Promise<Map<string, string>> {
+  const owners = new Map<string, string>();
+  try {
+    const infos = await ctx.connection.getMultipleAccountsInfo(accounts);
+    infos.forEach((info, i) => {
+      if (!info) return;
+      try {
+        owners.set(accounts[i].toBase58(), unpackAccount(accounts[i], info, info.owner).owner.toBase58());
+      } catch {
+        // Not a token account
+      }
+    });
+  } catch {
+    // Fall back to the token account addresses alone
+  }
+  return owners;
 }
 
 export async function checkHolderConcentration(ctx: ScanContext): Promise<RiskCheckResult> {
   try {
-    // Get the 20 largest token accounts for this mint
-    const largestAccounts = await ctx.connection.getTokenLargestAccounts(ctx.tokenMint);
+    // The 20 largest token accounts, and the full holder index for count and distribution
+    const [largestAccounts, snapshot] = await Promise.all([
+      ctx.connection.getTokenLargestAccounts(ctx.tokenMint),
+      getHolderSnapshot(ctx.connection, ctx.tokenMint).catch(() => null),
+    ]);
 
     if (largestAccounts.value.length === 0) {
       return {
@@ -37,25 +53,28 @@ export async function checkHolderConcentration(ctx: ScanContext): Promise<RiskCh
       : largestAccounts.value.reduce((sum, a) => sum + Number(a.amount), 0);
 
     // Build holder info
+    const owners = await getAccountOwners(ctx, largestAccounts.value.map(a => a.address));
     const holders: HolderInfo[] = [];
+    const labeledHolders: { address: string; label: string; category: string; percentage: number }[] = [];
     let excludedSupply = 0;
 
     for (const account of largestAccounts.value) {
       const amount = Number(account.amount);
-      const address = account.address.toBase58();
-      const isLP = isLPOrBurnAddress(address);
-
-      if (isLP) {
+      const tokenAccount = account.address.toBase58();
+      const address = owners.get(tokenAccount) ?? tokenAccount;
+      const label = getLabel(address) ?? getLabel(tokenAccount);
+      const isBurn = label?.category === 'burn' || address.startsWith('1111');
+      const isLP = !isBurn && !!label && EXCLUDED_CATEGORIES.has(label.category);
+      const percentage = supply > 0 ? (amount / supply) * 100 : 0;
+
+      if (isLP || isBurn) {
         excludedSupply += amount;
       }
+      if (label) {
+        labeledHolders.push({ address, label: label.name, category: label.category, percentage: Math.round(percentage * 10) / 10 });
+      }
 
-      holders.push({
-        address,
-        amount,
-        percentage: supply > 0 ? (amount / supply) * 100 : 0,
-        isLP,
-        isBurn: address.startsWith('1111'),
-      });
+      holders.push({ address, amount, percentage, isLP, isBurn });
     }
 
     // Filter to only real holders (exclude LP/burn addresses)
@@ -70,9 +89,17 @@ export async function checkHolderConcentration(ctx: ScanContext): Promise<RiskCh
     // Sort by amount descending
     realHolders.sort((a, b) => b.amount - a.amount);
 
-    const top1Pct = realHolders[0]?.percentage ?? 0;
-    const top5Pct = realHolders.slice(0, 5).reduce((s, h) => s + h.percentage, 0);
-    const top10Pct = realHolders.slice(0, 10).reduce((s, h) => s + h.percentage, 0);
+    // Prefer the full index: it also leaves out bonding curves and pool vaults that carry no label.
+    // Its shares are of circulating supply; the thresholds below are set for shares of the mint's
+    // supply, so a token with most of it still on the curve doesn't read as concentrated.
+    const circulatingShare = snapshot ? (100 - snapshot.excludedPct) / 100 : 1;
+    const ofSupply = (pct: number) => pct * circulatingShare;
+    const top = snapshot
+      ? snapshot.topHolders.map(h => ofSupply(h.pct))
+      : realHolders.map(h => h.percentage);
+    const top1Pct = top[0] ?? 0;
+    const top5Pct = top.slice(0, 5).reduce((s, p) => s + p, 0);
+    const top10Pct = snapshot ? ofSupply(snapshot.top10Pct) : top.slice(0, 10).reduce((s, p) => s + p, 0);
 
     // Scoring
     let score: number;
@@ -101,6 +128,24 @@ export async function checkHolderConcentration(ctx: ScanContext): Promise<RiskCh
       message = `Top 10 holders own ${top10Pct.toFixed(1)}% of supply — well distributed`;
     }
 
+    // Distribution signals only the full index can see
+    if (snapshot) {
+      const freshPct = ofSupply(snapshot.freshWalletPct);
+      if (freshPct > 30 && score < 85) {
+        score = 85;
+        status = 'danger';
+        message = `Fresh wallets hold ${freshPct.toFixed(1)}% of supply — likely insider wallets`;
+      } else if (freshPct > 15 && score < 50) {
+        score = 50;
+        status = 'warning';
+        message = `Fresh wallets hold ${freshPct.toFixed(1)}% of supply`;
+      } else if (snapshot.holderCount < 25 && score < 40) {
+        score = 40;
+        status = 'warning';
+        message = `Only ${snapshot.holderCount} holders — ${message.charAt(0).toLowerCase()}${message.slice(1)}`;
+      }
+    }
+
     return {
       check: 'TOP_HOLDERS',
       status,
@@ -110,11 +155,21 @@ export async function checkHolderConcentration(ctx: ScanContext): Promise<RiskCh
         top1Pct: Math.round(top1Pct * 10) / 10,
         top5Pct: Math.round(top5Pct * 10) / 10,
         top10Pct: Math.round(top10Pct * 10) / 10,
-        totalHolders: largestAccounts.value.length,
-        holders: realHolders.slice(0, 10).map(h => ({
-          address: h.address,
-          percentage: Math.round(h.percentage * 10) / 10,
-        })),
+        totalHolders: snapshot?.holderCount ?? largestAccounts.value.length,
+        holderCount: snapshot?.holderCount ?? null,
+        gini: snapshot?.gini ?? null,
+        nakamoto: snapshot?.nakamoto ?? null,
+        freshWalletPct: snapshot ? Math.round(ofSupply(snapshot.freshWalletPct) * 10) / 10 : null,
+        // Share of supply outside pools, lockers, burn, exchanges and the bonding curve
+        circulatingPct: snapshot ? Math.round((100 - snapshot.excludedPct) * 10) / 10 : null,
+        snapshotAt: snapshot?.takenAt ?? null,
+        holders: snapshot
+          ? snapshot.topHolders.slice(0, 10).map(h => ({ address: h.address, percentage: Math.round(ofSupply(h.pct) * 10) / 10, fresh: h.fresh }))
+          : realHolders.slice(0, 10).map(h => ({
+              address: h.address,
+              percentage: Math.round(h.percentage * 10) / 10,
+            })),
+        labeledHolders,
       },
       message,
     };
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { HolderSnapshot } from '@trenchable/shared';
+import { getHolderSnapshots, saveHolderSnapshot } from '../db/holder-snapshots.js';
+import { buildHolderSeries, detectHolderDrift } from './holder-tracker.service.js';
+
+const MINUTE_MS = 60 * 1000;
+
+function snapshot(tokenMint: string, minutesAgo: number, top10Pct: number, tracked: HolderSnapshot['tracked'] = []): HolderSnapshot {
+  return {
+    tokenMint,
+    takenAt: Date.now() - minutesAgo * MINUTE_MS,
+    holderCount: 500,
+    tokenAccounts: 520,
+    excludedPct: 20,
+    gini: 0.8,
+    nakamoto: 12,
+    top10Pct,
+    freshWalletPct: 5,
+    freshWalletsChecked: 20,
+    topHolders: [],
+    tracked,
+  };
+}
+
+describe('detectHolderDrift', () => {
+  it('warns when the top 10 share jumps, and escalates past twenty points', () => {
+    expect(detectHolderDrift(snapshot('M', 60, 30), snapshot('M', 0, 35))).toEqual([]);
+
+    const [warning] = detectHolderDrift(snapshot('M', 60, 30), snapshot('M', 0, 42));
+    expect(warning).toMatchObject({ kind: 'concentration', severity: 'warning', details: { from: 30, to: 42 } });
+
+    const [danger] = detectHolderDrift(snapshot('M', 60, 30), snapshot('M', 0, 55));
+    expect(danger.severity).toBe('danger');
+  });
+
+  it('alerts when the dev and insiders sell down, naming the sellers', () => {
+    const baseline = snapshot('M', 60, 30, [
+      { address: 'Dev', role: 'dev', pct: 6 },
+      { address: 'Insider1', role: 'insider', pct: 4 },
+    ]);
+    const current = snapshot('M', 0, 30, [
+      { address: 'Dev', role: 'dev', pct: 1 },
+      { address: 'Insider1', role: 'insider', pct: 4 },
+    ]);
+
+    const [alert] = detectHolderDrift(baseline, current);
+    expect(alert).toMatchObject({ kind: 'distribution', severity: 'danger', details: { from: 10, to: 5 } });
+    expect(alert.message).toMatch(/^Dev and insider wallets sold 50%/);
+    expect(alert.details.sellers).toEqual([{ address: 'Dev', role: 'dev', pct: 1, sold: 5 }]);
+  });
+
+  it('only compares wallets followed in both snapshots', () => {
+    const baseline = snapshot('M', 60, 30, [{ address: 'Insider1', role: 'insider', pct: 4 }]);
+    // Insider1 left the followed set; Insider2 is new
+    const current = snapshot('M', 0, 30, [{ address: 'Insider2', role: 'insider', pct: 0 }]);
+    expect(detectHolderDrift(baseline, current)).toEqual([]);
+
+    // Small moves are noise
+    const trimmed = snapshot('M', 0, 30, [{ address: 'Insider1', role: 'insider', pct: 3.8 }]);
+    expect(detectHolderDrift(baseline, trimmed)).toEqual([]);
+  });
+});
+
+describe('tracker snapshots', () => {
+  it('keeps scan snapshots out of the drift baseline and the series', () => {
+    const tracked = [{ address: 'Dev', role: 'dev' as const, pct: 8 }];
+    saveHolderSnapshot(snapshot('Watched', 50, 30, tracked), 'tracker');
+    saveHolderSnapshot(snapshot('Watched', 55, 30), 'scan');
+    saveHolderSnapshot(snapshot('Watched', 20, 31), 'scan');
+    saveHolderSnapshot(snapshot('Watched', 10, 32, tracked), 'tracker');
+
+    const snapshots = getHolderSnapshots('Watched', 'tracker', Date.now() - 60 * MINUTE_MS);
+    expect(snapshots.map(s => s.top10Pct)).toEqual([30, 32]);
+    expect(buildHolderSeries(snapshots).map(p => p.trackedPct)).toEqual([8, 8]);
+
+    // The oldest tracker snapshot in the hour is the baseline, so a sell-down is seen
+    const current = snapshot('Watched', 0, 30, [{ address: 'Dev', role: 'dev', pct: 2 }]);
+    expect(detectHolderDrift(snapshots[0], current).map(a => a.kind)).toEqual(['distribution']);
+  });
+});
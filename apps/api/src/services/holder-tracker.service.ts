@@ -0,0 +1,187 @@
+/**
+ * Watchlist Holder Tracker
+ *
+ * Snapshots the holders of every watchlisted token on an interval, so holder
+ * data survives between scans, and raises watchlist alerts when the
+ * distribution drifts:
+ *   concentration — the top-10 share jumps within an hour
+ *   distribution  — the dev and insider wallets sell down their share
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import type { HolderSeriesPoint, HolderSnapshot, WatchlistAlert } from '@trenchable/shared';
+import { config } from '../config/env.js';
+import { getConnection } from '../config/rpc.js';
+import { MemoryCache } from '../cache/memory-cache.js';
+import { getHolderSnapshots, saveHolderSnapshot } from '../db/holder-snapshots.js';
+import { addWatchlistAlert, getLatestWatchlistAlert, getWatchlist } from '../db/watchlist.js';
+import { takeHolderSnapshot, type TrackedWallet } from './holders/index.js';
+import { getTokenFundingGraph } from './funding-graph/index.js';
+
+type NewAlert = Omit<WatchlistAlert, 'id' | 'createdAt' | 'acknowledged'>;
+
+const DRIFT_WINDOW_MS = 60 * 60 * 1000;
+const CONCENTRATION_WARN_PTS = 10;
+const CONCENTRATION_DANGER_PTS = 20;
+// Share of their holdings the dev/insider wallets sold, ignoring moves under half a point of supply
+const DISTRIBUTION_MIN_PTS = 0.5;
+const DISTRIBUTION_WARN_RATIO = 0.25;
+const DISTRIBUTION_DANGER_RATIO = 0.5;
+const ALERT_COOLDOWN_MS = 60 * 60 * 1000;
+const WHALE_PCT = 1;
+const MAX_TRACKED = 30;
+const TRACKED_TTL_MS = 6 * 60 * 60 * 1000;
+
+const trackedCache = new MemoryCache<TrackedWallet[]>();
+let trackerInterval: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+// ─── Wallets to follow: the dev and the clustered early buyers ───
+
+async function resolveTrackedWallets(tokenMint: string): Promise<TrackedWallet[]> {
+  const cached = trackedCache.get(tokenMint);
+  if (cached) return cached;
+
+  const { creator, graph } = await getTokenFundingGraph({ tokenMint: new PublicKey(tokenMint), connection: getConnection() });
+  const tracked: TrackedWallet[] = creator ? [{ address: creator, role: 'dev' }] : [];
+  for (const wallet of graph.clusters.flatMap(c => c.wallets)) {
+    if (!tracked.some(t => t.address === wallet)) tracked.push({ address: wallet, role: 'insider' });
+  }
+
+  const result = tracked.slice(0, MAX_TRACKED);
+  trackedCache.set(tokenMint, result, TRACKED_TTL_MS);
+  return result;
+}
+
+// ─── Drift ───
+
+function sumTracked(snapshot: HolderSnapshot, wallets: Set<string>): number {
+  return snapshot.tracked.filter(t => wallets.has(t.address)).reduce((s, t) => s + t.pct, 0);
+}
+
+// Alerts for the change from `baseline` to `current`
+export function detectHolderDrift(baseline: HolderSnapshot, current: HolderSnapshot): NewAlert[] {
+  const alerts: NewAlert[] = [];
+  const round = (n: number) => Math.round(n * 10) / 10;
+
+  const jump = current.top10Pct - baseline.top10Pct;
+  if (jump >= CONCENTRATION_WARN_PTS) {
+    alerts.push({
+      tokenMint: current.tokenMint,
+      kind: 'concentration',
+      severity: jump >= CONCENTRATION_DANGER_PTS ? 'danger' : 'warning',
+      message: `Top 10 holders went from ${baseline.top10Pct}% to ${current.top10Pct}% of supply`,
+      details: { from: baseline.top10Pct, to: current.top10Pct, since: baseline.takenAt },
+    });
+  }
+
+  // Only wallets followed in both snapshots, so a changed insider set isn't read as selling
+  const followed = new Set(baseline.tracked.map(t => t.address).filter(a => current.tracked.some(t => t.address === a)));
+  const before = sumTracked(baseline, followed);
+  const after = sumTracked(current, followed);
+  const sold = before - after;
+  if (before > 0 && sold >= DISTRIBUTION_MIN_PTS && sold / before >= DISTRIBUTION_WARN_RATIO) {
+    const sellers = current.tracked
+      .filter(t => followed.has(t.address))
+      .map(t => ({ ...t, sold: round((baseline.tracked.find(b => b.address === t.address)?.pct ?? 0) - t.pct) }))
+      .filter(t => t.sold > 0)
+      .sort((a, b) => b.sold - a.sold);
+    const devSelling = sellers.some(s => s.role === 'dev');
+
+    alerts.push({
+      tokenMint: current.tokenMint,
+      kind: 'distribution',
+      severity: sold / before >= DISTRIBUTION_DANGER_RATIO ? 'danger' : 'warning',
+      message: `${devSelling ? 'Dev and insider' : 'Insider'} wallets sold ${Math.round((sold / before) * 100)}% of their holdings (${round(before)}% → ${round(after)}% of supply)`,
+      details: { from: round(before), to: round(after), since: baseline.takenAt, sellers: sellers.slice(0, 10) },
+    });
+  }
+  return alerts;
+}
+
+function shouldRaise(alert: NewAlert): boolean {
+  const last = getLatestWatchlistAlert(alert.tokenMint, alert.kind);
+  if (!last || Date.now() - last.createdAt >= ALERT_COOLDOWN_MS) return true;
+  // Within the cooldown, only an escalation gets through
+  return last.severity === 'warning' && alert.severity === 'danger';
+}
+
+// ─── Time series ───
+
+function whales(snapshot: HolderSnapshot): Map<string, number> {
+  return new Map(snapshot.topHolders.filter(h => h.pct >= WHALE_PCT).map(h => [h.address, h.pct]));
+}
+
+export function buildHolderSeries(snapshots: HolderSnapshot[]): HolderSeriesPoint[] {
+  return snapshots.map((snapshot, i) => {
+    const current = whales(snapshot);
+    const previous = i > 0 ? whales(snapshots[i - 1]) : null;
+    return {
+      takenAt: snapshot.takenAt,
+      holderCount: snapshot.holderCount,
+      top10Pct: snapshot.top10Pct,
+      gini: snapshot.gini,
+      nakamoto: snapshot.nakamoto,
+      freshWalletPct: snapshot.freshWalletPct,
+      trackedPct: snapshot.tracked.length > 0
+        ? Math.round(snapshot.tracked.reduce((s, t) => s + t.pct, 0) * 10) / 10
+        : null,
+      whaleEntries: previous
+        ? [...current].filter(([a]) => !previous.has(a)).map(([address, pct]) => ({ address, pct }))
+        : [],
+      whaleExits: previous
+        ? [...previous].filter(([a]) => !current.has(a)).map(([address, pct]) => ({ address, pct }))
+        : [],
+    };
+  });
+}
+
+// ─── Snapshot the watchlist ───
+
+async function snapshotWatchlist(): Promise<void> {
+  const entries = getWatchlist();
+  if (entries.length === 0) return;
+
+  for (const entry of entries) {
+    try {
+      const tracked = await resolveTrackedWallets(entry.tokenMint).catch(() => []);
+      const snapshot = await takeHolderSnapshot(getConnection(), new PublicKey(entry.tokenMint), tracked);
+      // Scan snapshots carry no tracked wallets, so only the tracker's own are a baseline
+      const [baseline] = getHolderSnapshots(entry.tokenMint, 'tracker', Date.now() - DRIFT_WINDOW_MS, 1000);
+      saveHolderSnapshot(snapshot, 'tracker');
+
+      if (!baseline) continue;
+      for (const alert of detectHolderDrift(baseline, snapshot)) {
+        if (shouldRaise(alert)) addWatchlistAlert(alert);
+      }
+    } catch (err) {
+      console.error(`[HolderTracker] Snapshot failed for ${entry.tokenMint}:`, err);
+    }
+  }
+}
+
+// ─── Start/stop tracker ───
+
+export function startHolderTracker(): void {
+  if (trackerInterval) return;
+
+  const run = () => {
+    // A slow pass (large holder sets) must not overlap the next one
+    if (running) return;
+    running = true;
+    snapshotWatchlist()
+      .catch(err => console.error('[HolderTracker] Snapshot pass failed:', err))
+      .finally(() => { running = false; });
+  };
+  trackerInterval = setInterval(run, config.watchlist.holderSnapshotIntervalMs);
+  setTimeout(run, 30_000);
+
+  console.log(`[HolderTracker] Started — snapshotting watchlist holders every ${Math.round(config.watchlist.holderSnapshotIntervalMs / 60000)} minutes`);
+}
+
+export function stopHolderTracker(): void {
+  if (trackerInterval) {
+    clearInterval(trackerInterval);
+    trackerInterval = null;
+  }
+}
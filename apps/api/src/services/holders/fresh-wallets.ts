@@ -0,0 +1,43 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { MemoryCache } from '../../cache/memory-cache.js';
+
+// A wallet whose first transaction is this recent was likely made for the token
+const FRESH_WALLET_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+const HISTORY_LIMIT = 100;
+const CONCURRENCY = 5;
+const FIRST_SEEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Wallet -> first transaction time. Established wallets aren't cached: their answer is cheap to repeat
+const firstSeenCache = new MemoryCache<number>();
+
+// First transaction time, or null when the history is longer than what's fetched
+async function firstSeen(connection: Connection, wallet: string): Promise<number | null> {
+  const cached = firstSeenCache.get(wallet);
+  if (cached !== null) return cached;
+
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(wallet), { limit: HISTORY_LIMIT });
+  const oldest = signatures[signatures.length - 1];
+  const seen = signatures.length < HISTORY_LIMIT && oldest?.blockTime ? oldest.blockTime * 1000 : null;
+  if (seen !== null) firstSeenCache.set(wallet, seen, FIRST_SEEN_TTL_MS);
+  return seen;
+}
+
+/**
+ * Which wallets are fresh. A wallet with more history than is fetched counts
+ * as established; one that couldn't be looked up is left out of the result.
+ */
+export async function findFreshWallets(connection: Connection, wallets: string[]): Promise<Map<string, boolean>> {
+  const fresh = new Map<string, boolean>();
+  const now = Date.now();
+  for (let i = 0; i < wallets.length; i += CONCURRENCY) {
+    await Promise.all(wallets.slice(i, i + CONCURRENCY).map(async (wallet) => {
+      try {
+        const seen = await firstSeen(connection, wallet);
+        fresh.set(wallet, seen !== null && now - seen < FRESH_WALLET_MAX_AGE_MS);
+      } catch {
+        // Unknown
+      }
+    }));
+  }
+  return fresh;
+}
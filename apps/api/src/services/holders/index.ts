@@ -0,0 +1,129 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { PROGRAM_IDS, type HolderSnapshot } from '@trenchable/shared';
+import { config } from '../../config/env.js';
+import { getLatestHolderSnapshot, saveHolderSnapshot } from '../../db/holder-snapshots.js';
+import { hasLabel } from '../address-labels.service.js';
+import { indexTokenAccounts } from './indexer.js';
+import { giniCoefficient, nakamotoCoefficient } from './metrics.js';
+import { findFreshWallets } from './fresh-wallets.js';
+
+export { indexTokenAccounts, type TokenAccountIndex } from './indexer.js';
+export { giniCoefficient, nakamotoCoefficient } from './metrics.js';
+export { findFreshWallets } from './fresh-wallets.js';
+
+/**
+ * Holder index
+ *
+ * Reads every token account of a mint rather than the 20 largest, and sums
+ * balances per wallet. Supply held by pools, lockers, burn and exchange
+ * wallets is left out of the distribution. Snapshots are stored in SQLite and
+ * reused for config.cache.holderSnapshotTtlMs.
+ */
+
+const EXCLUDED_CATEGORIES = ['lp', 'locker', 'burn', 'cex'] as const;
+// Largest holders checked for freshness and for being a pool or locker vault
+const TOP_SAMPLE = 20;
+const TOP_HOLDERS_KEPT = 20;
+
+const inFlight = new Map<string, Promise<HolderSnapshot>>();
+
+// Owners among the largest that are pools or lockers: labeled, the pump.fun
+// bonding curve, or a program account owned by a labeled pool or locker program
+async function findExcludedOwners(connection: Connection, mint: PublicKey, owners: string[]): Promise<Set<string>> {
+  const [bondingCurve] = PublicKey.findProgramAddressSync(
+    [Buffer.from('bonding-curve'), mint.toBuffer()],
+    new PublicKey(PROGRAM_IDS.PUMP_FUN)
+  );
+  const excluded = new Set(owners.filter(o => hasLabel(o, ...EXCLUDED_CATEGORIES) || o.startsWith('1111')));
+  excluded.add(bondingCurve.toBase58());
+
+  const offCurve = owners.filter(o => !excluded.has(o) && !PublicKey.isOnCurve(new PublicKey(o).toBytes()));
+  if (offCurve.length > 0) {
+    try {
+      const infos = await connection.getMultipleAccountsInfo(offCurve.map(o => new PublicKey(o)));
+      infos.forEach((info, i) => {
+        if (info && hasLabel(info.owner.toBase58(), 'lp', 'locker')) excluded.add(offCurve[i]);
+      });
+    } catch {
+      // Labeled owners are still excluded
+    }
+  }
+  return excluded;
+}
+
+export type TrackedWallet = Pick<HolderSnapshot['tracked'][number], 'address' | 'role'>;
+
+// `track` wallets get their share recorded whatever their rank
+export async function takeHolderSnapshot(
+  connection: Connection,
+  mint: PublicKey,
+  track: TrackedWallet[] = []
+): Promise<HolderSnapshot> {
+  const mintAccount = await connection.getAccountInfo(mint, { dataSlice: { offset: 0, length: 0 } });
+  if (!mintAccount) throw new Error(`Mint ${mint.toBase58()} not found`);
+
+  const index = await indexTokenAccounts(connection, mint, mintAccount.owner);
+  const ranked = [...index.balances.entries()].sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0));
+
+  const excluded = await findExcludedOwners(connection, mint, ranked.slice(0, TOP_SAMPLE * 2).map(([owner]) => owner));
+  // Labeled wallets further down the list don't need the account lookup
+  for (const [owner] of ranked.slice(TOP_SAMPLE * 2)) {
+    if (hasLabel(owner, ...EXCLUDED_CATEGORIES)) excluded.add(owner);
+  }
+
+  const total = ranked.reduce((s, [, amount]) => s + Number(amount), 0);
+  const holders = ranked.filter(([owner]) => !excluded.has(owner)).map(([owner, amount]) => ({ owner, amount: Number(amount) }));
+  const circulating = holders.reduce((s, h) => s + h.amount, 0);
+  const pct = (amount: number) => (circulating > 0 ? (amount / circulating) * 100 : 0);
+  const round = (n: number) => Math.round(n * 10) / 10;
+
+  const sample = holders.slice(0, TOP_SAMPLE);
+  const fresh = await findFreshWallets(connection, sample.map(h => h.owner));
+  const freshAmount = sample.filter(h => fresh.get(h.owner)).reduce((s, h) => s + h.amount, 0);
+  const balances = holders.map(h => h.amount);
+
+  return {
+    tokenMint: mint.toBase58(),
+    takenAt: Date.now(),
+    holderCount: holders.length,
+    tokenAccounts: index.tokenAccounts,
+    excludedPct: round(total > 0 ? ((total - circulating) / total) * 100 : 0),
+    gini: Math.round(giniCoefficient(balances) * 1000) / 1000,
+    nakamoto: nakamotoCoefficient(balances),
+    top10Pct: round(pct(holders.slice(0, 10).reduce((s, h) => s + h.amount, 0))),
+    freshWalletPct: round(pct(freshAmount)),
+    freshWalletsChecked: fresh.size,
+    topHolders: holders.slice(0, TOP_HOLDERS_KEPT).map(h => ({
+      address: h.owner,
+      pct: round(pct(h.amount)),
+      fresh: fresh.get(h.owner) ?? null,
+    })),
+    tracked: track.map(w => ({ ...w, pct: round(pct(Number(index.balances.get(w.address) ?? 0n))) })),
+  };
+}
+
+/**
+ * Latest holder snapshot, reusing a stored one younger than maxAgeMs.
+ * Concurrent requests for the same mint share one index run.
+ */
+export async function getHolderSnapshot(
+  connection: Connection,
+  mint: PublicKey,
+  maxAgeMs = config.cache.holderSnapshotTtlMs
+): Promise<HolderSnapshot> {
+  const key = mint.toBase58();
+  const stored = getLatestHolderSnapshot(key);
+  if (stored && Date.now() - stored.takenAt < maxAgeMs) return stored;
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = takeHolderSnapshot(connection, mint)
+      .then(snapshot => {
+        saveHolderSnapshot(snapshot);
+        return snapshot;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
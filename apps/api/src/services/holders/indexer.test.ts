@@ -0,0 +1,75 @@
+import bs58 from 'bs58';
+import { Keypair, type Connection, type GetProgramAccountsConfig, type PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { describe, expect, it } from 'vitest';
+import { indexTokenAccounts } from './indexer.js';
+
+// A token account data slice: owner (32 bytes) then amount (u64)
+function slice(owner: PublicKey, amount: bigint): Buffer {
+  const data = Buffer.alloc(40);
+  owner.toBuffer().copy(data, 0);
+  data.writeBigUInt64LE(amount, 32);
+  return data;
+}
+
+interface FakeRpc {
+  connection: Connection;
+  calls: { full: number; shards: number };
+}
+
+// An RPC at its own endpoint that serves the given slices, or fails the full query with `fullError`
+function rpc(slices: Buffer[], fullError?: string): FakeRpc {
+  const calls = { full: 0, shards: 0 };
+  const connection = {
+    rpcEndpoint: `https://rpc-${Keypair.generate().publicKey.toBase58()}.test`,
+    async getProgramAccounts(_programId: PublicKey, config: GetProgramAccountsConfig) {
+      const prefix = config.filters?.find(f => 'memcmp' in f && f.memcmp.offset === 32);
+      if (!prefix || !('memcmp' in prefix)) {
+        calls.full++;
+        if (fullError) throw new Error(fullError);
+        return slices.map(data => ({ account: { data } }));
+      }
+      calls.shards++;
+      if (fullError && !/limit|timeout/i.test(fullError)) throw new Error(fullError);
+      const [firstByte] = bs58.decode(prefix.memcmp.bytes);
+      return slices.filter(s => s[0] === firstByte).map(data => ({ account: { data } }));
+    },
+  } as unknown as Connection;
+  return { connection, calls };
+}
+
+const owner = () => Keypair.generate().publicKey;
+
+describe('indexTokenAccounts', () => {
+  it('sums balances per owner and leaves out empty accounts', async () => {
+    const [a, b] = [owner(), owner()];
+    const { connection, calls } = rpc([slice(a, 5n), slice(a, 7n), slice(b, 3n), slice(owner(), 0n)]);
+
+    const index = await indexTokenAccounts(connection, owner(), TOKEN_PROGRAM_ID);
+    expect(index.balances).toEqual(new Map([[a.toBase58(), 12n], [b.toBase58(), 3n]]));
+    expect(index).toMatchObject({ tokenAccounts: 3, sharded: false });
+    expect(calls).toEqual({ full: 1, shards: 0 });
+  });
+
+  it('shards a response the provider caps, and skips the full query next time', async () => {
+    const holders = [owner(), owner(), owner()];
+    const { connection, calls } = rpc(holders.map(h => slice(h, 10n)), 'Response size limit exceeded');
+    const mint = owner();
+
+    const index = await indexTokenAccounts(connection, mint, TOKEN_PROGRAM_ID);
+    expect(index).toMatchObject({ tokenAccounts: 3, sharded: true });
+    expect([...index.balances.keys()].sort()).toEqual(holders.map(h => h.toBase58()).sort());
+    expect(calls).toEqual({ full: 1, shards: 256 });
+
+    await indexTokenAccounts(connection, mint, TOKEN_PROGRAM_ID);
+    expect(calls).toEqual({ full: 1, shards: 512 });
+  });
+
+  it('fails without sharding when the provider does not serve the method, and remembers it', async () => {
+    const { connection, calls } = rpc([], 'Method not found: getProgramAccounts is not supported');
+
+    await expect(indexTokenAccounts(connection, owner(), TOKEN_PROGRAM_ID)).rejects.toThrow(/not supported/);
+    await expect(indexTokenAccounts(connection, owner(), TOKEN_PROGRAM_ID)).rejects.toThrow(/not supported/);
+    expect(calls).toEqual({ full: 1, shards: 0 });
+  });
+});
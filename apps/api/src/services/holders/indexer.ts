@@ -0,0 +1,101 @@
+import bs58 from 'bs58';
+import type { Connection, GetProgramAccountsFilter, PublicKey } from '@solana/web3.js';
+import { ACCOUNT_SIZE, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { MemoryCache } from '../../cache/memory-cache.js';
+
+// Token account layout: mint (0..32), owner (32..64), amount (64..72)
+const OWNER_OFFSET = 32;
+const SLICE = { offset: OWNER_OFFSET, length: 40 };
+const SHARD_CONCURRENCY = 4;
+const SHARD_COUNT = 256;
+const SHARDED_TTL_MS = 60 * 60 * 1000;
+const REFUSED_TTL_MS = 10 * 60 * 1000;
+// How providers say a getProgramAccounts response is too big or took too long
+const TOO_LARGE_ERROR = /too (many|large|big)|response size|size limit|exceed|timed? ?out|timeout|deadline|\b(413|504)\b|-32010/i;
+
+// Mints whose full query a provider refused as too large: later scans go straight to shards
+const shardedMints = new MemoryCache<true>();
+// Providers that fail the query outright (e.g. getProgramAccounts not supported), with the error
+const refusingProviders = new MemoryCache<string>();
+
+export interface TokenAccountIndex {
+  // Owner wallet -> summed raw balance, non-zero only
+  balances: Map<string, bigint>;
+  tokenAccounts: number;
+  // True when the RPC refused the full query and the index was built in shards
+  sharded: boolean;
+}
+
+function accountFilters(mint: PublicKey, programId: PublicKey, ownerPrefix?: number): GetProgramAccountsFilter[] {
+  const filters: GetProgramAccountsFilter[] = [{ memcmp: { offset: 0, bytes: mint.toBase58() } }];
+  // Token-2022 accounts grow with their extensions, so only legacy accounts have a fixed size
+  if (programId.equals(TOKEN_PROGRAM_ID)) filters.push({ dataSize: ACCOUNT_SIZE });
+  if (ownerPrefix !== undefined) {
+    filters.push({ memcmp: { offset: OWNER_OFFSET, bytes: bs58.encode(Uint8Array.from([ownerPrefix])) } });
+  }
+  return filters;
+}
+
+async function fetchAccounts(
+  connection: Connection,
+  mint: PublicKey,
+  programId: PublicKey,
+  ownerPrefix?: number
+): Promise<Buffer[]> {
+  const accounts = await connection.getProgramAccounts(programId, {
+    filters: accountFilters(mint, programId, ownerPrefix),
+    dataSlice: SLICE,
+  });
+  return accounts.map(a => a.account.data);
+}
+
+async function fetchSharded(connection: Connection, mint: PublicKey, programId: PublicKey): Promise<Buffer[]> {
+  const slices: Buffer[] = [];
+  for (let prefix = 0; prefix < SHARD_COUNT; prefix += SHARD_CONCURRENCY) {
+    const shards = await Promise.all(
+      Array.from({ length: Math.min(SHARD_CONCURRENCY, SHARD_COUNT - prefix) }, (_, i) =>
+        fetchAccounts(connection, mint, programId, prefix + i))
+    );
+    slices.push(...shards.flat());
+  }
+  return slices;
+}
+
+/**
+ * Every token account of a mint, summed per owner. Providers that cap a large
+ * getProgramAccounts response, or time out on it, are paged through instead,
+ * one query per first byte of the owner address. Any other failure would fail
+ * every shard too, so it is thrown, and remembered for the provider.
+ */
+export async function indexTokenAccounts(connection: Connection, mint: PublicKey, programId: PublicKey): Promise<TokenAccountIndex> {
+  const refused = refusingProviders.get(connection.rpcEndpoint);
+  if (refused) throw new Error(refused);
+
+  let slices: Buffer[];
+  let sharded = shardedMints.get(mint.toBase58()) ?? false;
+  try {
+    slices = sharded ? await fetchSharded(connection, mint, programId) : await fetchAccounts(connection, mint, programId);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (!TOO_LARGE_ERROR.test(message)) {
+      refusingProviders.set(connection.rpcEndpoint, message, REFUSED_TTL_MS);
+      throw err;
+    }
+    if (sharded) throw err;
+    shardedMints.set(mint.toBase58(), true, SHARDED_TTL_MS);
+    sharded = true;
+    slices = await fetchSharded(connection, mint, programId);
+  }
+
+  const balances = new Map<string, bigint>();
+  let tokenAccounts = 0;
+  for (const data of slices) {
+    if (data.length < SLICE.length) continue;
+    const amount = data.readBigUInt64LE(32);
+    if (amount === 0n) continue;
+    const owner = bs58.encode(data.subarray(0, 32));
+    balances.set(owner, (balances.get(owner) ?? 0n) + amount);
+    tokenAccounts++;
+  }
+  return { balances, tokenAccounts, sharded };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { giniCoefficient, nakamotoCoefficient } from './metrics.js';
+
+describe('giniCoefficient', () => {
+  it('is 0 for an even spread and approaches 1 as one holder takes it all', () => {
+    expect(giniCoefficient([10, 10, 10, 10])).toBe(0);
+    expect(giniCoefficient([0, 0, 0, 100])).toBeCloseTo(0.75);
+    expect(giniCoefficient([...Array(999).fill(0), 100])).toBeCloseTo(0.999);
+  });
+
+  it('ignores order and is 0 without balances', () => {
+    expect(giniCoefficient([1, 2, 3, 4])).toBeCloseTo(giniCoefficient([4, 1, 3, 2]));
+    expect(giniCoefficient([1, 2, 3, 4])).toBeCloseTo(0.25);
+    expect(giniCoefficient([])).toBe(0);
+    expect(giniCoefficient([0, 0])).toBe(0);
+  });
+});
+
+describe('nakamotoCoefficient', () => {
+  it('counts the fewest holders with more than half', () => {
+    expect(nakamotoCoefficient([60, 20, 20])).toBe(1);
+    // Exactly half is not a majority
+    expect(nakamotoCoefficient([50, 30, 20])).toBe(2);
+    expect(nakamotoCoefficient([10, 10, 10, 10, 10])).toBe(3);
+  });
+
+  it('is 0 without balances', () => {
+    expect(nakamotoCoefficient([])).toBe(0);
+    expect(nakamotoCoefficient([0, 0])).toBe(0);
+  });
+});
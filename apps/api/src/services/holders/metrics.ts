@@ -0,0 +1,31 @@
+/**
+ * Distribution metrics over holder balances. Balances are plain numbers:
+ * the metrics are ratios, so losing the low bits of a large u64 doesn't matter.
+ */
+
+// 0 when every holder has the same balance, approaching 1 when one holder has it all
+export function giniCoefficient(balances: number[]): number {
+  const n = balances.length;
+  if (n === 0) return 0;
+  const sorted = [...balances].sort((a, b) => a - b);
+  const total = sorted.reduce((s, b) => s + b, 0);
+  if (total <= 0) return 0;
+
+  let weighted = 0;
+  sorted.forEach((b, i) => { weighted += (i + 1) * b; });
+  return Math.max(0, (2 * weighted) / (n * total) - (n + 1) / n);
+}
+
+// Fewest holders that together hold more than half
+export function nakamotoCoefficient(balances: number[]): number {
+  const sorted = [...balances].sort((a, b) => b - a);
+  const total = sorted.reduce((s, b) => s + b, 0);
+  if (total <= 0) return 0;
+
+  let held = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    held += sorted[i];
+    if (held > total / 2) return i + 1;
+  }
+  return sorted.length;
+}
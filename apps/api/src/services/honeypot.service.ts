@@ -1,21 +1,84 @@
-import { RISK_WEIGHTS, SOL_MINT, type RiskCheckResult } from '@trenchable/shared';
+import { Connection } from '@solana/web3.js';
+import { SOL_MINT, type RiskCheckResult } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
 import { config } from '../config/env.js';
 import type { ScanContext } from '../types/risk.types.js';
+import { getJupiterQuote, type JupiterQuote } from './external/jupiter.js';
+import {
+  createSyntheticHolder,
+  findSimulationHolder,
+  jupiterSellBuilder,
+  simulateSell,
+  type SellSimulation,
+  type SellTxBuilder,
+  type SimulationHolder,
+} from './sell-simulation.service.js';
+
+export type SellBuilderFactory = (quote: JupiterQuote) => SellTxBuilder;
+
+let simulationConnection: Connection | null = null;
+let sellBuilderFactory: SellBuilderFactory = jupiterSellBuilder;
+
+/**
+ * Build simulated sells some other way than through Jupiter's /swap, e.g.
+ * straight against a fixture pool on the validator HONEYPOT_SIMULATION_RPC
+ * points at. null goes back to Jupiter.
+ */
+export function setSellTxBuilder(factory: SellBuilderFactory | null): void {
+  sellBuilderFactory = factory ?? jupiterSellBuilder;
+}
+
+function getSimulationConnection(ctx: ScanContext): Connection {
+  if (!config.honeypot.simulationRpcUrl) return ctx.connection;
+  simulationConnection ??= new Connection(config.honeypot.simulationRpcUrl, 'confirmed');
+  return simulationConnection;
+}
+
+/**
+ * Who the simulated sell runs as. A separate simulation RPC may be a forking
+ * validator that can mint a synthetic holder the exact test amount; the main
+ * RPC can't, so there the largest eligible real holder sells.
+ */
+async function findSeller(
+  connection: Connection,
+  ctx: ScanContext,
+  amount: bigint
+): Promise<{ holder: SimulationHolder; synthetic: boolean } | null> {
+  if (config.honeypot.simulationRpcUrl) {
+    const synthetic = await createSyntheticHolder(connection, ctx.tokenMint, amount).catch(() => null);
+    if (synthetic) return { holder: synthetic, synthetic: true };
+  }
+  const holder = await findSimulationHolder(connection, ctx.tokenMint).catch(() => null);
+  return holder ? { holder, synthetic: false } : null;
+}
+
+// Sell 0.01% of supply, at least one whole token — sized in real units whatever the decimals
+function testSellAmount(ctx: ScanContext): bigint {
+  const decimals = ctx.mintInfo?.decimals ?? 6;
+  const oneToken = 10n ** BigInt(decimals);
+  const fraction = (ctx.mintInfo?.supply ?? 0n) / 10_000n;
+  return fraction > oneToken ? fraction : oneToken;
+}
 
 export async function checkHoneypot(ctx: ScanContext): Promise<RiskCheckResult> {
   try {
-    // Use Jupiter Quote API to simulate selling a small amount of the token for SOL
-    const testAmount = 1_000_000; // 1 token (assuming 6 decimals — will work for rough check)
-    const url = `${config.jupiter.apiUrl}/quote?inputMint=${ctx.tokenMint.toBase58()}&outputMint=${SOL_MINT}&amount=${testAmount}&slippageBps=5000`;
+    let amount = testSellAmount(ctx);
+
+    // A real holder can only sell what they hold
+    const simConnection = getSimulationConnection(ctx);
+    const seller = config.honeypot.mode === 'simulate' ? await findSeller(simConnection, ctx, amount) : null;
+    const holder = seller?.holder ?? null;
+    if (holder && holder.balance < amount) amount = holder.balance;
 
-    const response = await fetch(url);
+    // Use Jupiter Quote API to price selling the test amount for SOL
+    const quoteResult = await getJupiterQuote(ctx.tokenMint.toBase58(), SOL_MINT, amount);
 
-    if (!response.ok) {
+    if (!quoteResult.ok) {
       // Jupiter returned an error — likely cannot route this token
-      const errorText = await response.text();
+      const errorText = quoteResult.error;
 
       // If it's specifically a "no route" error, this is a strong honeypot signal
-      if (response.status === 400 || errorText.includes('NO_ROUTE') || errorText.includes('ROUTE_NOT_FOUND')) {
+      if (quoteResult.status === 400 || errorText.includes('NO_ROUTE') || errorText.includes('ROUTE_NOT_FOUND')) {
         return {
           check: 'HONEYPOT',
           status: 'danger',
@@ -39,37 +102,93 @@ export async function checkHoneypot(ctx: ScanContext): Promise<RiskCheckResult>
       };
     }
 
-    const quote = await response.json();
+    const quote = quoteResult.quote;
 
     // Check price impact
     const priceImpact = Math.abs(parseFloat(quote.priceImpactPct || '0')) * 100;
 
+    let simulation: SellSimulation | null = null;
+    let simulationNote: string | null = null;
+    if (config.honeypot.mode === 'simulate') {
+      if (holder) {
+        simulation = await simulateSell(
+          simConnection,
+          { mint: ctx.tokenMint, owner: holder.owner, amount },
+          sellBuilderFactory(quote)
+        ).catch(error => {
+          simulationNote = `Simulation failed to run: ${String(error).substring(0, 200)}`;
+          return null;
+        });
+      } else {
+        simulationNote = 'No holder with an unfrozen account and SOL for fees to simulate as';
+      }
+      if (simulation && !simulation.success && simulation.inconclusive) {
+        simulationNote = `Simulated sell failed outside the token's transfer path (${simulation.error}), so it proves nothing`;
+      }
+    }
+
+    const baseDetails = {
+      testAmount: amount.toString(),
+      priceImpactPct: priceImpact,
+      outputAmount: quote.outAmount,
+      simulation,
+      simulationSeller: seller ? (seller.synthetic ? 'synthetic' : 'holder') : null,
+      simulationNote,
+    };
+
+    // The sell reverts when actually executed — the quote alone would have passed it
+    if (simulation && !simulation.success && !simulation.inconclusive) {
+      return {
+        check: 'HONEYPOT',
+        status: 'danger',
+        score: 100,
+        weight: RISK_WEIGHTS.HONEYPOT,
+        details: { ...baseDetails, canSell: false },
+        message: `Token CANNOT be sold — sell transaction fails in simulation (${simulation.error})`,
+      };
+    }
+
+    const tax = simulation?.effectiveTaxPct ?? null;
+    if (tax !== null && tax > 50) {
+      return {
+        check: 'HONEYPOT',
+        status: 'danger',
+        score: 90,
+        weight: RISK_WEIGHTS.HONEYPOT,
+        details: { ...baseDetails, canSell: true },
+        message: `Simulated sell loses ${tax.toFixed(1)}% to execution-time fees — effectively unsellable`,
+      };
+    }
+
     if (priceImpact > 50) {
       return {
         check: 'HONEYPOT',
         status: 'danger',
         score: 80,
         weight: RISK_WEIGHTS.HONEYPOT,
-        details: {
-          canSell: true,
-          priceImpactPct: priceImpact,
-          outputAmount: quote.outAmount,
-        },
+        details: { ...baseDetails, canSell: true },
         message: `Token can be sold but has extreme price impact (${priceImpact.toFixed(1)}%) — very thin liquidity`,
       };
     }
 
+    if (tax !== null && tax > 10) {
+      return {
+        check: 'HONEYPOT',
+        status: 'warning',
+        score: 60,
+        weight: RISK_WEIGHTS.HONEYPOT,
+        details: { ...baseDetails, canSell: true },
+        message: `Simulated sell succeeds but ${tax.toFixed(1)}% is taken at execution`,
+      };
+    }
+
     if (priceImpact > 20) {
       return {
         check: 'HONEYPOT',
         status: 'warning',
         score: 60,
         weight: RISK_WEIGHTS.HONEYPOT,
-        details: {
-          canSell: true,
-          priceImpactPct: priceImpact,
-          outputAmount: quote.outAmount,
-        },
+        details: { ...baseDetails, canSell: true },
         message: `Token can be sold but has high price impact (${priceImpact.toFixed(1)}%) — low liquidity`,
       };
     }
@@ -80,12 +199,13 @@ export async function checkHoneypot(ctx: ScanContext): Promise<RiskCheckResult>
       score: 0,
       weight: RISK_WEIGHTS.HONEYPOT,
       details: {
+        ...baseDetails,
         canSell: true,
-        priceImpactPct: priceImpact,
-        outputAmount: quote.outAmount,
         routePlan: quote.routePlan?.length ?? 0,
       },
-      message: `Token is sellable with ${priceImpact.toFixed(1)}% price impact`,
+      message: simulation?.success
+        ? `Sell simulated successfully with ${priceImpact.toFixed(1)}% price impact`
+        : `Token is sellable with ${priceImpact.toFixed(1)}% price impact`,
     };
   } catch (error) {
     return {
@@ -0,0 +1,90 @@
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { NewPairEvent, ScoredPairEvent } from '@trenchable/shared';
+import type { PairEmitter } from './pair-sources/index.js';
+import { replaySource } from './pair-sources/replay.js';
+import { setPairEventSource } from './pair-monitor.service.js';
+import {
+  addLaunchScoreListener,
+  getLaunchMonitorStats,
+  requestDeepScan,
+  startLaunchMonitor,
+  stopLaunchMonitor,
+} from './launch-monitor.service.js';
+import { runInstantScan } from './instant-scanner.service.js';
+import { saveLaunchSignals } from './token-tracker.service.js';
+
+// Scans hit external APIs; every launch gets the same stand-in scores instead
+vi.mock('./instant-scanner.service.js', () => ({
+  runInstantScan: vi.fn(async (mint: string) => ({ tokenMint: mint, overallScore: 40, riskLevel: 'moderate' })),
+}));
+vi.mock('./scanner.service.js', () => ({
+  runScan: vi.fn(async (mint: string) => ({ tokenMint: mint, overallScore: 72, riskLevel: 'high' })),
+}));
+vi.mock('./token-tracker.service.js', () => ({
+  saveLaunchSignals: vi.fn(),
+}));
+
+// Runs the monitor's 1.5s pacing between scans without waiting for it
+async function advanceUntil(done: () => boolean): Promise<void> {
+  for (let i = 0; i < 50 && !done(); i++) await vi.advanceTimersByTimeAsync(500);
+}
+
+const LAUNCH_DAY = fileURLToPath(new URL('./pair-sources/__fixtures__/launch-day.jsonl', import.meta.url));
+
+describe('launch monitor on a replayed launch day', () => {
+  const scores: ScoredPairEvent[] = [];
+  let removeListener: () => void;
+
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    setPairEventSource(replaySource({ file: LAUNCH_DAY, speed: 0 }));
+    removeListener = addLaunchScoreListener(event => scores.push(event));
+    startLaunchMonitor();
+  });
+
+  afterAll(() => {
+    removeListener();
+    stopLaunchMonitor();
+    setPairEventSource(null);
+    vi.useRealTimers();
+  });
+
+  it('instant-scans every replayed launch and publishes its score', async () => {
+    await advanceUntil(() => scores.length >= 4);
+
+    expect(vi.mocked(runInstantScan)).toHaveBeenCalledTimes(4);
+    expect(vi.mocked(saveLaunchSignals)).toHaveBeenCalledTimes(4);
+    expect(scores.map(s => s.type)).toEqual(['scored', 'scored', 'scored', 'scored']);
+    expect(scores.map(s => s.platform)).toEqual(['pump.fun', 'raydium', 'pumpswap', 'meteora']);
+    // The pair's own fields survive alongside the score
+    expect(scores[2]).toMatchObject({ tokenName: 'Frog Coin', initialLiquidity: 84.9, overallScore: 40, riskLevel: 'moderate' });
+  });
+
+  it('follows a requested deep scan with a rescored event, once per mint', async () => {
+    requestDeepScan(scores[0]);
+    requestDeepScan(scores[0]);
+
+    await advanceUntil(() => scores.some(s => s.type === 'rescored'));
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    const rescored = scores.filter(s => s.type === 'rescored');
+    expect(rescored).toHaveLength(1);
+    expect(rescored[0]).toMatchObject({ tokenMint: scores[0].tokenMint, overallScore: 72, riskLevel: 'high' });
+    expect(getLaunchMonitorStats()).toMatchObject({ deepScansThisHour: 1, maxDeepScansPerHour: 60 });
+  });
+
+  it('publishes a launch the instant scan failed on as unscored', async () => {
+    let emit: PairEmitter = () => {};
+    setPairEventSource({ name: 'test', start(e) { emit = e; }, stop() {} });
+    vi.mocked(runInstantScan).mockRejectedValueOnce(new Error('not indexed yet'));
+    const launch: NewPairEvent = {
+      type: 'new_pair', platform: 'pump.fun', tokenMint: 'Fai1edScan1111111111111111111111111111111111',
+      tokenName: 'Ghost', tokenSymbol: 'GHOST', creator: 'Creator1', initialLiquidity: 1, signature: 'sig', timestamp: 0,
+    };
+    emit(launch);
+
+    await advanceUntil(() => scores.some(s => s.tokenMint === launch.tokenMint));
+    expect(scores.at(-1)).toMatchObject({ type: 'scored', tokenMint: launch.tokenMint, unscored: true, overallScore: null, riskLevel: null });
+  });
+});
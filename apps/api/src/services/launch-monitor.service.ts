@@ -1,31 +1,82 @@
 /**
  * Launch Monitor Service
  *
- * Subscribes to pump.fun and Raydium for every new token launch.
+ * Subscribes to pump.fun, PumpSwap, Raydium and Meteora for every new token launch.
  * Auto-scans each one instantly and saves signals to the training dataset.
  *
  * This runs 24/7 in the background, building the MC prediction dataset
- * without any user interaction needed.
+ * without any user interaction needed. Scores are published to the live
+ * feed, which can ask for a deep scan of the launches its clients are shown.
  */
 
+import type { NewPairEvent, ScanResponse, ScoredPairEvent } from '@trenchable/shared';
 import { addPairListener } from './pair-monitor.service.js';
 import { runInstantScan } from './instant-scanner.service.js';
+import { runScan } from './scanner.service.js';
 import { saveLaunchSignals } from './token-tracker.service.js';
 import { getDb } from '../db/database.js';
 
 let stopMonitor: (() => void) | null = null;
 let isRunning = false;
 
+type ScoreListener = (event: ScoredPairEvent) => void;
+
+const scoreListeners = new Set<ScoreListener>();
+
 // Queue to process launches without blocking
-const scanQueue: Array<{ mint: string; platform: string; timestamp: number }> = [];
+const scanQueue: NewPairEvent[] = [];
 let isProcessingQueue = false;
 
+// Deep scans cost dozens of RPC calls, so only requested launches get one
+const deepQueue: ScoredPairEvent[] = [];
+const deepRequested = new Set<string>();
+let isProcessingDeepQueue = false;
+
 // Safety caps to prevent runaway resource usage
 const MAX_QUEUE_SIZE = 100;        // Never queue more than 100 at once
 const MAX_SCANS_PER_HOUR = 500;   // Max auto-scans per hour
+const MAX_DEEP_QUEUE_SIZE = 20;    // Oldest requests give way to newer launches
+const MAX_DEEP_SCANS_PER_HOUR = 60;
 let scansThisHour = 0;
+let deepScansThisHour = 0;
 let hourResetAt = Date.now() + 3_600_000;
 
+// ─── Score events ───
+
+export function addLaunchScoreListener(listener: ScoreListener): () => void {
+  scoreListeners.add(listener);
+  return () => {
+    scoreListeners.delete(listener);
+  };
+}
+
+// Without a scan the launch goes out unscored, so risk-filtered clients still hear of it
+function emitScore(type: ScoredPairEvent['type'], launch: NewPairEvent | ScoredPairEvent, scan: ScanResponse | null): void {
+  const event: ScoredPairEvent = {
+    ...launch,
+    type,
+    unscored: scan === null,
+    overallScore: scan?.overallScore ?? null,
+    riskLevel: scan?.riskLevel ?? null,
+    scoredAt: Date.now(),
+  };
+  for (const listener of scoreListeners) {
+    try {
+      listener(event);
+    } catch {
+      // Don't let one listener break others
+    }
+  }
+}
+
+function resetHourlyCounters(): void {
+  if (Date.now() > hourResetAt) {
+    scansThisHour = 0;
+    deepScansThisHour = 0;
+    hourResetAt = Date.now() + 3_600_000;
+  }
+}
+
 // ─── Queue processor ───
 
 async function processQueue(): Promise<void> {
@@ -34,40 +85,41 @@ async function processQueue(): Promise<void> {
 
   while (scanQueue.length > 0) {
     const item = scanQueue.shift()!;
+    const mint = item.tokenMint;
 
     // Skip if already in our database
     try {
       const db = getDb();
       const exists = db.prepare(
         'SELECT 1 FROM token_launch_signals WHERE token_mint = ?'
-      ).get(item.mint);
+      ).get(mint);
       if (exists) continue;
     } catch { continue; }
 
     // Skip obviously invalid mints
-    if (!item.mint || item.mint === 'unknown' || item.mint.length < 32) continue;
+    if (!mint || mint === 'unknown' || mint.length < 32) continue;
 
     // Reset hourly counter
-    if (Date.now() > hourResetAt) {
-      scansThisHour = 0;
-      hourResetAt = Date.now() + 3_600_000;
-    }
+    resetHourlyCounters();
 
     // Enforce hourly cap
     if (scansThisHour >= MAX_SCANS_PER_HOUR) {
       console.log(`[LaunchMonitor] Hourly cap (${MAX_SCANS_PER_HOUR}) reached, pausing until next hour`);
+      for (const dropped of [item, ...scanQueue]) emitScore('scored', dropped, null);
       scanQueue.length = 0; // clear queue
       break;
     }
 
     try {
-      console.log(`[LaunchMonitor] Auto-scanning new ${item.platform} token: ${item.mint}`);
-      const scan = await runInstantScan(item.mint);
+      console.log(`[LaunchMonitor] Auto-scanning new ${item.platform} token: ${mint}`);
+      const scan = await runInstantScan(mint);
       saveLaunchSignals(scan);
       scansThisHour++;
-      console.log(`[LaunchMonitor] Saved signals for ${item.mint} — score: ${scan.overallScore} (${scan.riskLevel})`);
+      console.log(`[LaunchMonitor] Saved signals for ${mint} — score: ${scan.overallScore} (${scan.riskLevel})`);
+      emitScore('scored', item, scan);
     } catch (err) {
       // Many new tokens fail to scan (not yet indexed) — that's fine
+      emitScore('scored', item, null);
     }
 
     // Small delay between scans to avoid rate limits
@@ -77,6 +129,55 @@ async function processQueue(): Promise<void> {
   isProcessingQueue = false;
 }
 
+async function processDeepQueue(): Promise<void> {
+  if (isProcessingDeepQueue || deepQueue.length === 0) return;
+  isProcessingDeepQueue = true;
+
+  while (deepQueue.length > 0) {
+    const item = deepQueue.shift()!;
+
+    resetHourlyCounters();
+    if (deepScansThisHour >= MAX_DEEP_SCANS_PER_HOUR) {
+      console.log(`[LaunchMonitor] Deep scan cap (${MAX_DEEP_SCANS_PER_HOUR}) reached, dropping ${deepQueue.length + 1} request(s)`);
+      deepQueue.length = 0;
+      break;
+    }
+
+    try {
+      const scan = await runScan(item.tokenMint);
+      deepScansThisHour++;
+      console.log(`[LaunchMonitor] Deep scan of ${item.tokenMint} — score: ${scan.overallScore} (${scan.riskLevel})`);
+      emitScore('rescored', item, scan);
+    } catch {
+      // Same as instant scans: brand-new tokens often aren't indexed yet
+    }
+
+    await new Promise(r => setTimeout(r, 1500));
+  }
+
+  isProcessingDeepQueue = false;
+}
+
+/**
+ * Deep-scan a launch the instant scan has scored, and publish the result as a
+ * 'rescored' event. Each mint is deep-scanned once, and at most
+ * MAX_DEEP_SCANS_PER_HOUR are run: past that, requests are dropped until the
+ * hour resets and their launches keep the instant score. getLaunchMonitorStats
+ * reports how much of the hour's budget is left.
+ */
+export function requestDeepScan(event: ScoredPairEvent): void {
+  if (!isRunning || deepRequested.has(event.tokenMint)) return;
+  deepRequested.add(event.tokenMint);
+  // Bounded like the queue; a mint dropped from here long ago can be scanned again
+  if (deepRequested.size > MAX_SCANS_PER_HOUR) {
+    deepRequested.delete(deepRequested.values().next().value!);
+  }
+
+  if (deepQueue.length >= MAX_DEEP_QUEUE_SIZE) deepQueue.shift();
+  deepQueue.push(event);
+  setTimeout(() => processDeepQueue().catch(() => {}), 0);
+}
+
 // ─── Start/stop ───
 
 export function startLaunchMonitor(): void {
@@ -88,18 +189,14 @@ export function startLaunchMonitor(): void {
       // Don't let queue grow unbounded
       if (scanQueue.length >= MAX_QUEUE_SIZE) return;
 
-      scanQueue.push({
-        mint: event.tokenMint,
-        platform: event.platform,
-        timestamp: event.timestamp,
-      });
+      scanQueue.push(event);
 
       // Process queue if not already running
       setTimeout(() => processQueue().catch(() => {}), 0);
     }
   });
 
-  console.log('[LaunchMonitor] Started — auto-scanning all new pump.fun + Raydium launches');
+  console.log('[LaunchMonitor] Started — auto-scanning all new pump.fun, PumpSwap, Raydium and Meteora launches');
 }
 
 export function stopLaunchMonitor(): void {
@@ -107,6 +204,7 @@ export function stopLaunchMonitor(): void {
     stopMonitor();
     stopMonitor = null;
   }
+  deepQueue.length = 0;
   isRunning = false;
   console.log('[LaunchMonitor] Stopped');
 }
@@ -114,8 +212,12 @@ export function stopLaunchMonitor(): void {
 export function getLaunchMonitorStats(): {
   isRunning: boolean;
   queueLength: number;
+  deepQueueLength: number;
+  deepScansThisHour: number;
+  maxDeepScansPerHour: number;
   totalScanned: number;
 } {
+  resetHourlyCounters();
   let totalScanned = 0;
   try {
     const db = getDb();
@@ -127,6 +229,9 @@ export function getLaunchMonitorStats(): {
   return {
     isRunning,
     queueLength: scanQueue.length,
+    deepQueueLength: deepQueue.length,
+    deepScansThisHour,
+    maxDeepScansPerHour: MAX_DEEP_SCANS_PER_HOUR,
     totalScanned,
   };
 }
@@ -0,0 +1,99 @@
+import { PublicKey, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { PROGRAM_IDS, type NewPairEvent } from '@trenchable/shared';
+import { decodeMetaplexMetadata } from '../metadata-integrity.service.js';
+import { decodeLaunchTransaction } from './instructions.js';
+
+export { decodeLaunchTransaction, type DecodedLaunch } from './instructions.js';
+
+/**
+ * Launch decoding
+ *
+ * A log notification only says a program ran. The monitor fetches the
+ * transaction behind it and decodes the create or pool-initialise instruction
+ * to learn which mint launched, who launched it and with how much liquidity.
+ */
+
+const METADATA_PROGRAM = new PublicKey(PROGRAM_IDS.TOKEN_METADATA);
+// Notifications can arrive before the RPC serves the transaction
+const FETCH_ATTEMPTS = 3;
+const FETCH_RETRY_MS = 1000;
+
+async function fetchTransaction(connection: Connection, signature: string): Promise<ParsedTransactionWithMeta | null> {
+  for (let attempt = 0; attempt < FETCH_ATTEMPTS; attempt++) {
+    if (attempt > 0) await new Promise(r => setTimeout(r, FETCH_RETRY_MS));
+    const tx = await connection.getParsedTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+    if (tx) return tx;
+  }
+  return null;
+}
+
+// Name and symbol from the Metaplex metadata account, when the mint has one
+async function readTokenNames(connection: Connection, mint: string): Promise<{ name: string | null; symbol: string | null }> {
+  try {
+    const [metadataPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), METADATA_PROGRAM.toBuffer(), new PublicKey(mint).toBuffer()],
+      METADATA_PROGRAM
+    );
+    const account = await connection.getAccountInfo(metadataPda);
+    if (!account || !account.owner.equals(METADATA_PROGRAM)) return { name: null, symbol: null };
+    const { name, symbol } = decodeMetaplexMetadata(account.data);
+    return { name: name || null, symbol: symbol || null };
+  } catch {
+    return { name: null, symbol: null };
+  }
+}
+
+// Programs that launch tokens, with the log lines that can mark a launch.
+// Sources decode a transaction only when one matches; the decoder has the final say.
+export const LAUNCH_LOG_PATTERNS: { program: string; pattern: RegExp }[] = [
+  { program: PROGRAM_IDS.PUMP_FUN, pattern: /Instruction: Create(V2)?$/ },
+  { program: PROGRAM_IDS.RAYDIUM_V4_AMM, pattern: /initialize2/ },
+  { program: PROGRAM_IDS.RAYDIUM_CPMM, pattern: /Instruction: Initialize$/ },
+  { program: PROGRAM_IDS.PUMP_SWAP_AMM, pattern: /Instruction: CreatePool$/ },
+  { program: PROGRAM_IDS.METEORA_DLMM, pattern: /Instruction: Initialize\w*LbPair2?$/ },
+  { program: PROGRAM_IDS.METEORA_DAMM, pattern: /Instruction: Initialize\w*Permissionless\w*Pool\w*$/ },
+];
+
+export const LAUNCH_PROGRAMS = LAUNCH_LOG_PATTERNS.map(p => p.program);
+
+// Programs of the patterns matched by any of `logs`
+export function launchProgramsInLogs(logs: string[]): string[] {
+  return LAUNCH_LOG_PATTERNS.filter(({ pattern }) => logs.some(log => pattern.test(log))).map(p => p.program);
+}
+
+/**
+ * The pair event for a transaction already in hand, decoding the launch it
+ * performs through `programId`. Names the instruction doesn't carry are read
+ * from the metadata account. Null when the transaction isn't a launch.
+ */
+export async function pairFromTransaction(
+  connection: Connection,
+  tx: ParsedTransactionWithMeta,
+  signature: string,
+  programId: string
+): Promise<NewPairEvent | null> {
+  const launch = decodeLaunchTransaction(tx, programId);
+  if (!launch) return null;
+
+  const { name, symbol } = launch.name !== null ? launch : await readTokenNames(connection, launch.mint);
+  return {
+    type: 'new_pair',
+    platform: launch.platform,
+    tokenMint: launch.mint,
+    tokenName: name,
+    tokenSymbol: symbol,
+    creator: launch.creator,
+    initialLiquidity: launch.initialLiquidity,
+    signature,
+    timestamp: tx.blockTime ? tx.blockTime * 1000 : Date.now(),
+  };
+}
+
+/**
+ * Fetch and decode the launch in `signature`, which a log subscription on
+ * `programId` reported. Null when the transaction isn't a launch.
+ */
+export async function fetchNewPair(connection: Connection, signature: string, programId: string): Promise<NewPairEvent | null> {
+  const tx = await fetchTransaction(connection, signature);
+  return tx ? pairFromTransaction(connection, tx, signature, programId) : null;
+}
@@ -0,0 +1,216 @@
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+import { Keypair, PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { PROGRAM_IDS, SOL_MINT, USDC_MINT } from '@trenchable/shared';
+import { decodeLaunchTransaction } from './instructions.js';
+
+const key = () => Keypair.generate().publicKey.toBase58();
+
+const discriminator = (namespace: string, name: string) =>
+  createHash('sha256').update(`${namespace}:${name}`).digest().subarray(0, 8);
+
+function borshString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf-8');
+  const len = Buffer.alloc(4);
+  len.writeUInt32LE(bytes.length);
+  return Buffer.concat([len, bytes]);
+}
+
+function u64(value: bigint): Buffer {
+  const data = Buffer.alloc(8);
+  data.writeBigUInt64LE(value);
+  return data;
+}
+
+interface TxOptions {
+  feePayer: string;
+  program: string;
+  accounts: string[];
+  data: Buffer;
+  // Emitted through "Program data:" logs
+  logEvents?: Buffer[];
+  // Emitted by self-CPI, as inner instructions of the program
+  cpiEvents?: Buffer[];
+  failed?: boolean;
+}
+
+function transaction({ feePayer, program, accounts, data, logEvents = [], cpiEvents = [], failed }: TxOptions): ParsedTransactionWithMeta {
+  const instruction = (bytes: Buffer, keys: string[]) =>
+    ({ programId: new PublicKey(program), accounts: keys.map(k => new PublicKey(k)), data: bs58.encode(bytes) });
+  const eventTag = Buffer.from('e445a52e51cb9a1d', 'hex');
+  return {
+    slot: 1,
+    blockTime: 1_700_000_000,
+    transaction: {
+      message: {
+        accountKeys: [{ pubkey: new PublicKey(feePayer), signer: true, writable: true }],
+        instructions: [instruction(data, accounts)],
+      },
+    },
+    meta: {
+      err: failed ? { InstructionError: [0, 'InvalidAccountData'] } : null,
+      logMessages: logEvents.map(e => `Program data: ${e.toString('base64')}`),
+      innerInstructions: [{ index: 0, instructions: cpiEvents.map(e => instruction(Buffer.concat([eventTag, e]), [])) }],
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+// Account list with the given keys at their positions and filler elsewhere
+function accountsAt(length: number, at: Record<number, string>): string[] {
+  return Array.from({ length }, (_, i) => at[i] ?? key());
+}
+
+function tradeEvent(mint: string, lamports: bigint, isBuy: boolean): Buffer {
+  return Buffer.concat([
+    discriminator('event', 'TradeEvent'),
+    new PublicKey(mint).toBuffer(),
+    u64(lamports),
+    u64(1_000_000n),
+    Buffer.from([isBuy ? 1 : 0]),
+    Buffer.alloc(32), // user
+  ]);
+}
+
+describe('decodeLaunchTransaction: pump.fun', () => {
+  const create = (name: string, creator?: string) => Buffer.concat([
+    discriminator('global', name),
+    borshString('Moon Cat'),
+    borshString('MCAT'),
+    borshString('https://ipfs.io/ipfs/cat'),
+    creator ? new PublicKey(creator).toBuffer() : Buffer.alloc(0),
+  ]);
+
+  it('reads the mint, names, creator argument and the dev buy', () => {
+    const mint = key();
+    const creator = key();
+    const tx = transaction({
+      feePayer: key(),
+      program: PROGRAM_IDS.PUMP_FUN,
+      accounts: accountsAt(14, { 0: mint }),
+      data: create('create', creator),
+      logEvents: [tradeEvent(mint, 1_000_000_000n, true), tradeEvent(key(), 9_000_000_000n, true)],
+      cpiEvents: [tradeEvent(mint, 500_000_000n, true), tradeEvent(mint, 200_000_000n, false)],
+    });
+
+    expect(decodeLaunchTransaction(tx, PROGRAM_IDS.PUMP_FUN)).toEqual({
+      platform: 'pump.fun',
+      mint,
+      creator,
+      name: 'Moon Cat',
+      symbol: 'MCAT',
+      initialLiquidity: 1.5,
+    });
+  });
+
+  it('falls back to the fee payer when create_v2 carries no creator', () => {
+    const mint = key();
+    const payer = key();
+    const tx = transaction({ feePayer: payer, program: PROGRAM_IDS.PUMP_FUN, accounts: accountsAt(16, { 0: mint }), data: create('create_v2') });
+
+    expect(decodeLaunchTransaction(tx, PROGRAM_IDS.PUMP_FUN)).toMatchObject({ mint, creator: payer, initialLiquidity: 0 });
+  });
+
+  it('ignores failed transactions and other pump.fun instructions', () => {
+    const accounts = accountsAt(14, {});
+    const failed = transaction({ feePayer: key(), program: PROGRAM_IDS.PUMP_FUN, accounts, data: create('create'), failed: true });
+    const buy = transaction({ feePayer: key(), program: PROGRAM_IDS.PUMP_FUN, accounts, data: Buffer.concat([discriminator('global', 'buy'), u64(1n), u64(2n)]) });
+
+    expect(decodeLaunchTransaction(failed, PROGRAM_IDS.PUMP_FUN)).toBeNull();
+    expect(decodeLaunchTransaction(buy, PROGRAM_IDS.PUMP_FUN)).toBeNull();
+  });
+});
+
+describe('decodeLaunchTransaction: pool initialisation', () => {
+  it('takes the non-quote side of a Raydium initialize2, with the SOL deposited', () => {
+    const token = key();
+    const creator = key();
+    // SOL as the coin side: the launched token is the pc mint
+    const data = Buffer.concat([Buffer.from([1, 254]), u64(0n), u64(5_000_000_000_000n), u64(12_500_000_000n)]);
+    const tx = transaction({
+      feePayer: creator,
+      program: PROGRAM_IDS.RAYDIUM_V4_AMM,
+      accounts: accountsAt(21, { 8: SOL_MINT, 9: token, 17: creator }),
+      data,
+    });
+
+    expect(decodeLaunchTransaction(tx, PROGRAM_IDS.RAYDIUM_V4_AMM)).toEqual({
+      platform: 'raydium',
+      mint: token,
+      creator,
+      name: null,
+      symbol: null,
+      initialLiquidity: 12.5,
+    });
+  });
+
+  it('prefers PumpSwap\'s coin_creator argument over the pool creator account', () => {
+    const token = key();
+    const coinCreator = key();
+    const data = Buffer.concat([
+      discriminator('global', 'create_pool'),
+      Buffer.from([0, 0]),
+      u64(206_900_000_000_000n),
+      u64(84_990_000_000n),
+      new PublicKey(coinCreator).toBuffer(),
+    ]);
+    const tx = transaction({
+      feePayer: key(),
+      program: PROGRAM_IDS.PUMP_SWAP_AMM,
+      accounts: accountsAt(18, { 3: token, 4: SOL_MINT }),
+      data,
+    });
+
+    expect(decodeLaunchTransaction(tx, PROGRAM_IDS.PUMP_SWAP_AMM)).toMatchObject({
+      platform: 'pumpswap',
+      mint: token,
+      creator: coinCreator,
+      initialLiquidity: 84.99,
+    });
+  });
+
+  it('reads Raydium CPMM deposits and leaves empty Meteora DLMM pairs without liquidity', () => {
+    const token = key();
+    const creator = key();
+    const cpmm = transaction({
+      feePayer: creator,
+      program: PROGRAM_IDS.RAYDIUM_CPMM,
+      accounts: accountsAt(20, { 0: creator, 4: SOL_MINT, 5: token }),
+      data: Buffer.concat([discriminator('global', 'initialize'), u64(3_000_000_000n), u64(1_000_000_000_000n), u64(0n)]),
+    });
+    expect(decodeLaunchTransaction(cpmm, PROGRAM_IDS.RAYDIUM_CPMM)).toMatchObject({ platform: 'raydium-cpmm', mint: token, creator, initialLiquidity: 3 });
+
+    const funder = key();
+    const dlmm = transaction({
+      feePayer: funder,
+      program: PROGRAM_IDS.METEORA_DLMM,
+      accounts: accountsAt(14, { 2: token, 3: SOL_MINT, 8: funder }),
+      data: Buffer.concat([discriminator('global', 'initialize_lb_pair'), Buffer.alloc(6)]),
+    });
+    expect(decodeLaunchTransaction(dlmm, PROGRAM_IDS.METEORA_DLMM)).toMatchObject({ platform: 'meteora', mint: token, creator: funder, initialLiquidity: null });
+  });
+
+  it('reads constant-product DAMM deposits but not stable-curve ones', () => {
+    const token = key();
+    const payer = key();
+    const damm = (curve: number) => transaction({
+      feePayer: payer,
+      program: PROGRAM_IDS.METEORA_DAMM,
+      accounts: accountsAt(26, { 2: token, 3: SOL_MINT, 17: payer }),
+      data: Buffer.concat([discriminator('global', 'initialize_permissionless_pool'), Buffer.from([curve]), u64(1_000_000n), u64(2_000_000_000n)]),
+    });
+
+    expect(decodeLaunchTransaction(damm(0), PROGRAM_IDS.METEORA_DAMM)).toMatchObject({ mint: token, creator: payer, initialLiquidity: 2 });
+    expect(decodeLaunchTransaction(damm(1), PROGRAM_IDS.METEORA_DAMM)).toMatchObject({ mint: token, initialLiquidity: null });
+  });
+
+  it('skips pools between two quote tokens', () => {
+    const tx = transaction({
+      feePayer: key(),
+      program: PROGRAM_IDS.RAYDIUM_CPMM,
+      accounts: accountsAt(20, { 4: SOL_MINT, 5: USDC_MINT }),
+      data: Buffer.concat([discriminator('global', 'initialize'), u64(1n), u64(1n), u64(0n)]),
+    });
+    expect(decodeLaunchTransaction(tx, PROGRAM_IDS.RAYDIUM_CPMM)).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+import bs58 from 'bs58';
+import { PublicKey, type ParsedInstruction, type ParsedTransactionWithMeta, type PartiallyDecodedInstruction } from '@solana/web3.js';
+import { PROGRAM_IDS, SOL_MINT, USDC_MINT, USDT_MINT, type Platform } from '@trenchable/shared';
+import { isAnchorEvent, isAnchorInstruction } from '../pools/decode.js';
+
+export interface DecodedLaunch {
+  platform: Platform;
+  mint: string;
+  creator: string;
+  // From the instruction itself (pump.fun); pools leave them to the metadata account
+  name: string | null;
+  symbol: string | null;
+  // Quote deposited by the transaction, in SOL
+  initialLiquidity: number | null;
+}
+
+const LAMPORTS_PER_SOL = 1e9;
+// A pool paired against one of these launches the other side
+const QUOTE_MINTS = new Set([SOL_MINT, USDC_MINT, USDT_MINT]);
+// Anchor's emit_cpi! prefix on self-CPI event data
+const EVENT_IX_TAG = Buffer.from('e445a52e51cb9a1d', 'hex');
+
+type Instruction = ParsedInstruction | PartiallyDecodedInstruction;
+
+// The program's instructions in the transaction, top level and CPI, with their data
+function programInstructions(tx: ParsedTransactionWithMeta, programId: string): { accounts: string[]; data: Buffer }[] {
+  const all: Instruction[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+  ];
+  return all
+    .filter((ix): ix is PartiallyDecodedInstruction => !('parsed' in ix) && ix.programId.toBase58() === programId)
+    .map(ix => ({ accounts: ix.accounts.map(a => a.toBase58()), data: Buffer.from(bs58.decode(ix.data)) }));
+}
+
+function feePayer(tx: ParsedTransactionWithMeta): string {
+  return tx.transaction.message.accountKeys[0].pubkey.toBase58();
+}
+
+// Borsh string: u32 length + bytes
+function readString(data: Buffer, offset: number): [string, number] {
+  const len = data.readUInt32LE(offset);
+  return [data.subarray(offset + 4, offset + 4 + len).toString('utf-8').replace(/\0/g, '').trim(), offset + 4 + len];
+}
+
+// A pubkey argument, null when absent or zeroed
+function optionalKeyArg(data: Buffer, offset: number): string | null {
+  if (data.length < offset + 32) return null;
+  const key = data.subarray(offset, offset + 32);
+  return key.every(b => b === 0) ? null : new PublicKey(key).toBase58();
+}
+
+// ─── pump.fun create / create_v2 ───
+// Args: name, symbol, uri strings, then creator (newer versions). Accounts: mint 0.
+// create_v2 (Token-2022 mints) keeps the args and the mint's position but moves
+// the user account, so the creator comes from the args, else the fee payer.
+// TradeEvent: mint 0, sol_amount u64 32, token_amount u64 40, is_buy u8 48.
+
+const TRADE_SOL_AMOUNT = 32;
+const TRADE_IS_BUY = 48;
+
+// SOL the creation transaction's buys put into the curve — the dev's opening buy
+function pumpFunDevBuy(tx: ParsedTransactionWithMeta, mint: string): number {
+  const events: Buffer[] = [];
+  for (const log of tx.meta?.logMessages ?? []) {
+    if (log.startsWith('Program data: ')) events.push(Buffer.from(log.slice(14), 'base64'));
+  }
+  for (const { data } of programInstructions(tx, PROGRAM_IDS.PUMP_FUN)) {
+    if (data.subarray(0, 8).equals(EVENT_IX_TAG)) events.push(data.subarray(8));
+  }
+
+  let lamports = 0n;
+  for (const event of events) {
+    if (!isAnchorEvent(event, 'TradeEvent') || event.length < 8 + TRADE_IS_BUY + 1) continue;
+    const body = event.subarray(8);
+    if (new PublicKey(body.subarray(0, 32)).toBase58() !== mint || body[TRADE_IS_BUY] !== 1) continue;
+    lamports += body.readBigUInt64LE(TRADE_SOL_AMOUNT);
+  }
+  return Number(lamports) / LAMPORTS_PER_SOL;
+}
+
+function decodePumpFunCreate(tx: ParsedTransactionWithMeta): DecodedLaunch | null {
+  const ix = programInstructions(tx, PROGRAM_IDS.PUMP_FUN)
+    .find(({ data }) => isAnchorInstruction(data, 'create') || isAnchorInstruction(data, 'create_v2'));
+  if (!ix || ix.accounts.length === 0) return null;
+
+  let offset = 8;
+  let name: string, symbol: string;
+  [name, offset] = readString(ix.data, offset);
+  [symbol, offset] = readString(ix.data, offset);
+  [, offset] = readString(ix.data, offset);
+
+  const mint = ix.accounts[0];
+  return {
+    platform: 'pump.fun',
+    mint,
+    creator: optionalKeyArg(ix.data, offset) ?? feePayer(tx),
+    name: name || null,
+    symbol: symbol || null,
+    initialLiquidity: pumpFunDevBuy(tx, mint),
+  };
+}
+
+// ─── Pool initialisation ───
+// Account indices of the two mints and the creator, and where the deposited
+// amounts sit in the data, per program and instruction.
+
+interface PoolInitLayout {
+  program: string;
+  platform: Platform;
+  matches(data: Buffer): boolean;
+  baseMint: number;
+  quoteMint: number;
+  creator: number;
+  // Deposits on the base and quote side; null when the pool starts empty or the layout varies
+  amounts(data: Buffer): [bigint, bigint] | null;
+  // Creator passed as an argument, which wins over the account (PumpSwap's coin_creator on migrations)
+  creatorArg?: number;
+}
+
+const u64Pair = (base: number, quote: number) => (data: Buffer): [bigint, bigint] | null =>
+  data.length >= Math.max(base, quote) + 8 ? [data.readBigUInt64LE(base), data.readBigUInt64LE(quote)] : null;
+
+const DAMM_CONSTANT_PRODUCT = 0;
+
+const POOL_INIT_LAYOUTS: PoolInitLayout[] = [
+  // Raydium V4 initialize2 (tag 1): nonce u8 1, open_time u64 2, init_pc_amount u64 10,
+  // init_coin_amount u64 18. Accounts: coin_mint 8, pc_mint 9, user_wallet 17.
+  {
+    program: PROGRAM_IDS.RAYDIUM_V4_AMM,
+    platform: 'raydium',
+    matches: data => data[0] === 1 && data.length >= 26,
+    baseMint: 8,
+    quoteMint: 9,
+    creator: 17,
+    amounts: u64Pair(18, 10),
+  },
+  // Raydium CPMM initialize: init_amount_0 u64 8, init_amount_1 u64 16.
+  // Accounts: creator 0, token_0_mint 4, token_1_mint 5.
+  {
+    program: PROGRAM_IDS.RAYDIUM_CPMM,
+    platform: 'raydium-cpmm',
+    matches: data => isAnchorInstruction(data, 'initialize'),
+    baseMint: 4,
+    quoteMint: 5,
+    creator: 0,
+    amounts: u64Pair(8, 16),
+  },
+  // PumpSwap create_pool: index u16 8, base_amount_in u64 10, quote_amount_in u64 18,
+  // coin_creator 26. Accounts: creator 2, base_mint 3, quote_mint 4.
+  {
+    program: PROGRAM_IDS.PUMP_SWAP_AMM,
+    platform: 'pumpswap',
+    matches: data => isAnchorInstruction(data, 'create_pool'),
+    baseMint: 3,
+    quoteMint: 4,
+    creator: 2,
+    amounts: u64Pair(10, 18),
+    creatorArg: 26,
+  },
+  // Meteora DLMM pairs are created empty; liquidity comes with later positions.
+  // Accounts: token_mint_x 2, token_mint_y 3, funder 8.
+  ...['initialize_lb_pair', 'initialize_lb_pair2', 'initialize_customizable_permissionless_lb_pair', 'initialize_customizable_permissionless_lb_pair2']
+    .map((name): PoolInitLayout => ({
+      program: PROGRAM_IDS.METEORA_DLMM,
+      platform: 'meteora',
+      matches: data => isAnchorInstruction(data, name),
+      baseMint: 2,
+      quoteMint: 3,
+      creator: 8,
+      amounts: () => null,
+    })),
+  // Meteora DAMM v1 initialize_permissionless_pool: curve_type enum 8, then token_a_amount
+  // and token_b_amount (at 9 and 17 for constant product; stable curves carry params first).
+  // Accounts: token_a_mint 2, token_b_mint 3, payer 17.
+  {
+    program: PROGRAM_IDS.METEORA_DAMM,
+    platform: 'meteora',
+    matches: data => isAnchorInstruction(data, 'initialize_permissionless_pool'),
+    baseMint: 2,
+    quoteMint: 3,
+    creator: 17,
+    amounts: data => (data[8] === DAMM_CONSTANT_PRODUCT ? u64Pair(9, 17)(data) : null),
+  },
+  // DAMM v1 customizable pools: token_a_amount u64 8, token_b_amount u64 16. Same accounts.
+  {
+    program: PROGRAM_IDS.METEORA_DAMM,
+    platform: 'meteora',
+    matches: data => isAnchorInstruction(data, 'initialize_customizable_permissionless_constant_product_pool'),
+    baseMint: 2,
+    quoteMint: 3,
+    creator: 17,
+    amounts: u64Pair(8, 16),
+  },
+  // DAMM v1 config pools (launchpad migrations): amounts at 8 and 16; a config account
+  // at 1 shifts the rest: token_a_mint 3, token_b_mint 4, payer 18.
+  ...['initialize_permissionless_constant_product_pool_with_config', 'initialize_permissionless_constant_product_pool_with_config2']
+    .map((name): PoolInitLayout => ({
+      program: PROGRAM_IDS.METEORA_DAMM,
+      platform: 'meteora',
+      matches: data => isAnchorInstruction(data, name),
+      baseMint: 3,
+      quoteMint: 4,
+      creator: 18,
+      amounts: u64Pair(8, 16),
+    })),
+];
+
+function decodePoolInit(tx: ParsedTransactionWithMeta, programId: string): DecodedLaunch | null {
+  const layouts = POOL_INIT_LAYOUTS.filter(l => l.program === programId);
+  for (const ix of programInstructions(tx, programId)) {
+    const layout = layouts.find(l => l.matches(ix.data));
+    if (!layout || ix.accounts.length <= Math.max(layout.baseMint, layout.quoteMint, layout.creator)) continue;
+
+    let base = ix.accounts[layout.baseMint];
+    let quote = ix.accounts[layout.quoteMint];
+    const amounts = layout.amounts(ix.data);
+    let quoteAmount = amounts?.[1] ?? null;
+    // Pools don't agree on which side is which: the launched token is the non-quote one
+    if (QUOTE_MINTS.has(base) && !QUOTE_MINTS.has(quote)) {
+      [base, quote] = [quote, base];
+      quoteAmount = amounts?.[0] ?? null;
+    }
+    if (QUOTE_MINTS.has(base)) return null;
+
+    return {
+      platform: layout.platform,
+      mint: base,
+      creator: (layout.creatorArg !== undefined ? optionalKeyArg(ix.data, layout.creatorArg) : null) ?? ix.accounts[layout.creator],
+      name: null,
+      symbol: null,
+      initialLiquidity: quote === SOL_MINT && quoteAmount !== null ? Number(quoteAmount) / LAMPORTS_PER_SOL : null,
+    };
+  }
+  return null;
+}
+
+/**
+ * The launch a transaction performs through `programId`: a pump.fun create
+ * or a pool initialisation on one of the AMMs. Null when the transaction
+ * doesn't contain one, or only pairs two quote tokens.
+ */
+export function decodeLaunchTransaction(tx: ParsedTransactionWithMeta, programId: string): DecodedLaunch | null {
+  if (tx.meta?.err) return null;
+  return programId === PROGRAM_IDS.PUMP_FUN ? decodePumpFunCreate(tx) : decodePoolInit(tx, programId);
+}
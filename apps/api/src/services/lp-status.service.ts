@@ -1,62 +1,25 @@
 import { PublicKey } from '@solana/web3.js';
-import { getMint } from '@solana/spl-token';
-import { PROGRAM_IDS, RISK_WEIGHTS, type RiskCheckResult } from '@trenchable/shared';
+import { PROGRAM_IDS, type RiskCheckResult } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
 import type { ScanContext } from '../types/risk.types.js';
+import type { DexScreenerData } from './external/dexscreener.js';
+import {
+  findLpPoolsCached,
+  analyzePool,
+  getTokenReserves,
+  pctOf,
+  AMM_PLATFORM,
+  AMM_NAMES,
+  type LpAnalysis,
+  type Pool,
+} from './pools/index.js';
 
-// Raydium V4 AMM pool layout offsets for LP mint
-const RAYDIUM_LP_MINT_OFFSET = 432;
+// Pools beyond this many (by reserves) are spam-sized and not worth the RPC calls
+const MAX_POOLS_ANALYZED = 8;
+// Pools holding less than this share of liquidity aren't a realistic exit
+export const MIN_EXIT_SHARE_PCT = 5;
 
-async function findRaydiumPool(ctx: ScanContext): Promise<{ lpMint: PublicKey; poolAddress: PublicKey } | null> {
-  try {
-    // Search for Raydium V4 pool accounts that reference this token mint
-    const accounts = await ctx.connection.getProgramAccounts(
-      new PublicKey(PROGRAM_IDS.RAYDIUM_V4_AMM),
-      {
-        filters: [
-          { dataSize: 752 }, // Raydium V4 pool account size
-          {
-            memcmp: {
-              offset: 400, // baseMint offset in Raydium V4 layout
-              bytes: ctx.tokenMint.toBase58(),
-            },
-          },
-        ],
-      }
-    );
-
-    // Also check quoteMint position
-    if (accounts.length === 0) {
-      const quotAccounts = await ctx.connection.getProgramAccounts(
-        new PublicKey(PROGRAM_IDS.RAYDIUM_V4_AMM),
-        {
-          filters: [
-            { dataSize: 752 },
-            {
-              memcmp: {
-                offset: 432 - 32, // quoteMint is 32 bytes before lpMint
-                bytes: ctx.tokenMint.toBase58(),
-              },
-            },
-          ],
-        }
-      );
-      if (quotAccounts.length > 0) {
-        const data = quotAccounts[0].account.data;
-        const lpMint = new PublicKey(data.subarray(RAYDIUM_LP_MINT_OFFSET, RAYDIUM_LP_MINT_OFFSET + 32));
-        return { lpMint, poolAddress: quotAccounts[0].pubkey };
-      }
-      return null;
-    }
-
-    const data = accounts[0].account.data;
-    const lpMint = new PublicKey(data.subarray(RAYDIUM_LP_MINT_OFFSET, RAYDIUM_LP_MINT_OFFSET + 32));
-    return { lpMint, poolAddress: accounts[0].pubkey };
-  } catch {
-    return null;
-  }
-}
-
-async function checkPumpFunBondingCurve(ctx: ScanContext): Promise<{
+export async function checkPumpFunBondingCurve(ctx: ScanContext): Promise<{
   isOnBondingCurve: boolean;
   isComplete: boolean;
   creator: string | null;
@@ -89,7 +52,10 @@ async function checkPumpFunBondingCurve(ctx: ScanContext): Promise<{
   }
 }
 
-export async function checkLPStatus(ctx: ScanContext): Promise<RiskCheckResult> {
+export async function checkLPStatus(
+  ctx: ScanContext,
+  dexData: DexScreenerData | null = null
+): Promise<RiskCheckResult> {
   try {
     // First check if this is a pump.fun token still on bonding curve
     const pumpFun = await checkPumpFunBondingCurve(ctx);
@@ -109,80 +75,10 @@ export async function checkLPStatus(ctx: ScanContext): Promise<RiskCheckResult>
       };
     }
 
-    // Check for Raydium pool
-    const pool = await findRaydiumPool(ctx);
-    if (pool) {
-      const lpMintInfo = await getMint(ctx.connection, pool.lpMint);
-      const lpSupply = Number(lpMintInfo.supply);
-
-      // Check if LP supply is 0 or near 0 (burned)
-      if (lpSupply === 0) {
-        return {
-          check: 'LP_STATUS',
-          status: 'safe',
-          score: 0,
-          weight: RISK_WEIGHTS.LP_STATUS,
-          details: {
-            platform: 'raydium',
-            lpMint: pool.lpMint.toBase58(),
-            lpSupply: 0,
-            isBurned: true,
-            isLocked: false,
-          },
-          message: 'LP tokens are fully burned — liquidity cannot be removed',
-        };
-      }
-
-      // Check largest LP token holders to see if most are sent to burn address
-      const largestAccounts = await ctx.connection.getTokenLargestAccounts(pool.lpMint);
-      const totalLPSupply = lpSupply;
-      let burnedAmount = 0;
-
-      for (const account of largestAccounts.value) {
-        const ownerInfo = await ctx.connection.getAccountInfo(account.address);
-        if (!ownerInfo) continue;
-        // Check if the token account owner is a known burn address
-        // The "dead" address pattern or the null address
-        const amount = Number(account.amount);
-        // Simple check: if the owner is the system program or a known burn address
-        if (account.address.toBase58().startsWith('1111') || amount === 0) {
-          burnedAmount += amount;
-        }
-      }
-
-      const burnPercentage = totalLPSupply > 0 ? (burnedAmount / totalLPSupply) * 100 : 0;
-
-      if (burnPercentage > 95) {
-        return {
-          check: 'LP_STATUS',
-          status: 'safe',
-          score: 5,
-          weight: RISK_WEIGHTS.LP_STATUS,
-          details: {
-            platform: 'raydium',
-            lpMint: pool.lpMint.toBase58(),
-            burnPercentage,
-            isBurned: true,
-          },
-          message: `${burnPercentage.toFixed(1)}% of LP tokens burned — liquidity is essentially locked`,
-        };
-      }
-
-      return {
-        check: 'LP_STATUS',
-        status: 'danger',
-        score: 90,
-        weight: RISK_WEIGHTS.LP_STATUS,
-        details: {
-          platform: 'raydium',
-          lpMint: pool.lpMint.toBase58(),
-          lpSupply: totalLPSupply,
-          burnPercentage,
-          isBurned: false,
-          isLocked: false,
-        },
-        message: 'LP tokens are NOT burned or locked — liquidity can be pulled (rug risk)',
-      };
+    // Check AMM pools (PumpSwap, Raydium CPMM/V4, Meteora DAMM/DLMM)
+    const pools = await findLpPoolsCached(ctx);
+    if (pools.length > 0) {
+      return assessAllPools(ctx, pools, dexData);
     }
 
     // If we got here from a graduated pump.fun token
@@ -195,9 +91,9 @@ export async function checkLPStatus(ctx: ScanContext): Promise<RiskCheckResult>
         details: {
           platform: 'pump.fun',
           isComplete: true,
-          note: 'Graduated from bonding curve, pool lookup did not find Raydium pool',
+          note: 'Graduated from bonding curve, pool lookup did not find a PumpSwap, Raydium or Meteora pool',
         },
-        message: 'Token graduated from pump.fun — could not verify LP status on Raydium',
+        message: 'Token graduated from pump.fun — could not find its AMM pool to verify LP status',
       };
     }
 
@@ -206,7 +102,7 @@ export async function checkLPStatus(ctx: ScanContext): Promise<RiskCheckResult>
       status: 'unknown',
       score: 50,
       weight: RISK_WEIGHTS.LP_STATUS,
-      details: { note: 'No pool found on Raydium or pump.fun' },
+      details: { note: 'No pool found on pump.fun, PumpSwap, Raydium or Meteora' },
       message: 'Could not find a liquidity pool for this token',
     };
   } catch (error) {
@@ -220,3 +116,236 @@ export async function checkLPStatus(ctx: ScanContext): Promise<RiskCheckResult>
     };
   }
 }
+
+interface PoolExit {
+  pool: Pool;
+  lp: LpAnalysis;
+  reserve: bigint | null;
+  sharePct: number | null;
+  verdict: RiskCheckResult;
+}
+
+// Share of a pool's liquidity that can be pulled, as the verdict sees it
+function exitablePct(pool: Pool, lp: LpAnalysis): number {
+  return pool.amm === 'meteora-dlmm' ? lp.creatorPct ?? lp.removablePct : lp.removablePct;
+}
+
+/**
+ * Analyze every pool and score on the worst realistic exit: the least secured
+ * pool that holds a meaningful share of liquidity. Pools are weighted by how
+ * much of the token they hold, which also gives the overall removable figure.
+ */
+async function assessAllPools(
+  ctx: ScanContext,
+  pools: Pool[],
+  dexData: DexScreenerData | null
+): Promise<RiskCheckResult> {
+  const reserves = await getTokenReserves(ctx.connection, pools, ctx.tokenMint).catch(() => pools.map(() => null));
+
+  // DexScreener fills in pools whose reserves aren't in plain token accounts
+  const mint = ctx.tokenMint.toBase58();
+  const decimals = ctx.mintInfo?.decimals;
+  pools.forEach((pool, i) => {
+    if (reserves[i] !== null || decimals === undefined) return;
+    const pair = dexData?.pairs.find(p => p.pairAddress === pool.address.toBase58());
+    if (!pair?.liquidity) return;
+    const amount = pair.baseToken.address === mint ? pair.liquidity.base : pair.liquidity.quote;
+    if (amount > 0) reserves[i] = BigInt(Math.round(amount * 10 ** decimals));
+  });
+
+  // Largest pools first; discovery order breaks ties and orders unknown reserves
+  const ranked = pools
+    .map((pool, i) => ({ pool, reserve: reserves[i] }))
+    .sort((a, b) => {
+      if (a.reserve === b.reserve) return 0;
+      if (a.reserve === null) return 1;
+      if (b.reserve === null) return -1;
+      return a.reserve > b.reserve ? -1 : 1;
+    })
+    .slice(0, MAX_POOLS_ANALYZED);
+
+  const analyses = await Promise.all(ranked.map(({ pool }) =>
+    analyzePool(ctx.connection, pool).catch(() => null)
+  ));
+
+  const totalReserve = ranked.reduce((sum, r) => sum + (r.reserve ?? 0n), 0n);
+  const exits: PoolExit[] = [];
+  ranked.forEach(({ pool, reserve }, i) => {
+    const lp = analyses[i];
+    if (!lp) return;
+    exits.push({
+      pool,
+      lp,
+      reserve,
+      sharePct: reserve !== null && totalReserve > 0n ? pctOf(reserve, totalReserve) : null,
+      verdict: assessPoolLiquidity(pool, lp, RISK_WEIGHTS.LP_STATUS, pools.length),
+    });
+  });
+  if (exits.length === 0) throw new Error('No pool could be analyzed');
+
+  const sizeable = exits.filter(e => e.sharePct === null || e.sharePct >= MIN_EXIT_SHARE_PCT);
+  const worst = (sizeable.length > 0 ? sizeable : exits)
+    .reduce((a, b) => (b.verdict.score > a.verdict.score ? b : a));
+
+  const weighed = exits.filter(e => e.sharePct !== null);
+  const removableLiquidityPct = weighed.length > 0
+    ? Math.round(weighed.reduce((sum, e) => sum + exitablePct(e.pool, e.lp) * (e.sharePct ?? 0), 0)) / 100
+    : null;
+
+  const details = {
+    ...worst.verdict.details,
+    removableLiquidityPct,
+    analyzedPools: exits.length,
+    pools: exits.map(e => ({
+      amm: e.pool.amm,
+      poolAddress: e.pool.address.toBase58(),
+      tokenReserve: e.reserve?.toString() ?? null,
+      liquiditySharePct: e.sharePct,
+      burnPercentage: e.lp.burnedPct,
+      lockedPercentage: e.lp.lockedPct,
+      removablePercentage: exitablePct(e.pool, e.lp),
+      score: e.verdict.score,
+    })),
+  };
+
+  if (exits.length === 1) return { ...worst.verdict, details };
+
+  return {
+    ...worst.verdict,
+    details,
+    message: `${worst.verdict.message} (worst of ${exits.length} pools` +
+      (removableLiquidityPct !== null ? `, ${removableLiquidityPct.toFixed(1)}% of liquidity removable overall)` : ')'),
+  };
+}
+
+/**
+ * Turn a pool's liquidity ownership into an LP_STATUS verdict. Shared by the deep
+ * check and the instant scan's on-chain Meteora path.
+ */
+export function assessPoolLiquidity(
+  pool: Pool,
+  lp: LpAnalysis,
+  weight: number,
+  poolCount = 1
+): RiskCheckResult {
+  const ammName = AMM_NAMES[pool.amm];
+  const details = {
+    platform: AMM_PLATFORM[pool.amm],
+    amm: pool.amm,
+    poolAddress: pool.address.toBase58(),
+    poolCount,
+    lpMint: pool.amm === 'meteora-dlmm' ? null : pool.lpMint.toBase58(),
+    lpSupply: lp.lpSupply,
+    burnPercentage: lp.burnedPct,
+    lockedPercentage: lp.lockedPct,
+    removablePercentage: lp.removablePct,
+    creatorPercentage: lp.creatorPct,
+    isBurned: lp.burnedPct > 95,
+    isLocked: lp.lockedPct > 0,
+    lpHolders: lp.holders.slice(0, 5),
+  };
+
+  if (pool.amm === 'meteora-dlmm') return assessDlmmLiquidity(ammName, lp, weight, details);
+
+  // LP supply is 0 — every LP token was burned
+  if (lp.lpSupply === '0') {
+    return {
+      check: 'LP_STATUS',
+      status: 'safe',
+      score: 0,
+      weight,
+      details,
+      message: `${ammName} LP tokens are fully burned — liquidity cannot be removed`,
+    };
+  }
+
+  if (lp.removablePct < 5) {
+    return {
+      check: 'LP_STATUS',
+      status: 'safe',
+      score: lp.lockedPct > lp.burnedPct ? 10 : 5,
+      weight,
+      details,
+      message: lp.lockedPct > lp.burnedPct
+        ? `${ammName} LP is ${(100 - lp.removablePct).toFixed(1)}% locked/burned — locks can expire`
+        : `${lp.burnedPct.toFixed(1)}% of ${ammName} LP tokens burned — liquidity is essentially locked`,
+    };
+  }
+
+  if (lp.removablePct < 50) {
+    return {
+      check: 'LP_STATUS',
+      status: 'warning',
+      score: lp.removablePct < 20 ? 40 : 65,
+      weight,
+      details,
+      message: `${lp.removablePct.toFixed(1)}% of ${ammName} LP is not burned or locked — part of the liquidity can be pulled`,
+    };
+  }
+
+  return {
+    check: 'LP_STATUS',
+    status: 'danger',
+    score: 90,
+    weight,
+    details,
+    message: `${ammName} LP tokens are NOT burned or locked — liquidity can be pulled (rug risk)`,
+  };
+}
+
+// DLMM liquidity is always withdrawable by its LPs, and third-party market makers
+// are normal there — what matters is how much the creator can pull.
+function assessDlmmLiquidity(
+  ammName: string,
+  lp: LpAnalysis,
+  weight: number,
+  details: Record<string, unknown>
+): RiskCheckResult {
+  if (lp.lpSupply === '0') {
+    return {
+      check: 'LP_STATUS',
+      status: 'warning',
+      score: 50,
+      weight,
+      details,
+      message: `${ammName} pair has no open positions — there is no liquidity to trade against`,
+    };
+  }
+
+  const creatorKnown = lp.creatorPct !== null;
+  const removable = lp.creatorPct ?? lp.removablePct;
+  const who = creatorKnown ? 'the pool creator' : 'unlocked positions';
+
+  if (removable < 5) {
+    return {
+      check: 'LP_STATUS',
+      status: 'safe',
+      score: lp.lockedPct > 50 ? 10 : 15,
+      weight,
+      details,
+      message: creatorKnown
+        ? `${ammName} liquidity is held by independent LPs (${lp.lockedPct.toFixed(1)}% locked) — creator cannot pull it`
+        : `${ammName} liquidity is ${lp.lockedPct.toFixed(1)}% locked`,
+    };
+  }
+
+  if (removable < 50) {
+    return {
+      check: 'LP_STATUS',
+      status: 'warning',
+      score: removable < 20 ? 40 : 65,
+      weight,
+      details,
+      message: `${removable.toFixed(1)}% of ${ammName} liquidity is removable by ${who}`,
+    };
+  }
+
+  return {
+    check: 'LP_STATUS',
+    status: 'danger',
+    score: 90,
+    weight,
+    details,
+    message: `${removable.toFixed(1)}% of ${ammName} liquidity can be pulled by ${who} (rug risk)`,
+  };
+}
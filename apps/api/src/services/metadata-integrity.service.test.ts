@@ -0,0 +1,95 @@
+import { Keypair, PublicKey, type Connection } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { PROGRAM_IDS, type RiskCheckResult, type ScanResponse } from '@trenchable/shared';
+import type { CheckContext } from '../checks/registry.js';
+import { saveScanToHistory } from '../db/history.js';
+import {
+  checkMetadataIntegrity,
+  diffMetadata,
+  getFirstSeenMetadata,
+  type TokenMetadataRecord,
+} from './metadata-integrity.service.js';
+
+const ON_CHAIN: TokenMetadataRecord = { name: 'Moon Cat', symbol: 'MCAT', uri: 'https://arweave.net/a', image: null };
+
+function saveScan(tokenMint: string, scanTimestamp: number, tokenName: string, checks: Partial<RiskCheckResult>[]) {
+  saveScanToHistory({
+    tokenMint, tokenName, tokenSymbol: tokenName.toUpperCase(), overallScore: 10, riskLevel: 'low',
+    platform: 'pump.fun', scanTimestamp, checks,
+  } as unknown as ScanResponse);
+}
+
+describe('getFirstSeenMetadata', () => {
+  it('ignores names and symbols that scans took from other sources', () => {
+    // DexScreener's name for the token, saved before the check ran
+    saveScan('Legacy', 1_000, 'moon cat (dex)', [{ check: 'HONEYPOT', details: {} }]);
+    expect(getFirstSeenMetadata('Legacy')).toBeNull();
+  });
+
+  it('compares against the first on-chain record, skipping scans where decoding failed', () => {
+    saveScan('Edited', 1_000, 'other', [{ check: 'METADATA_INTEGRITY', details: { error: 'rpc down' } }]);
+    saveScan('Edited', 2_000, 'other', [{ check: 'METADATA_INTEGRITY', details: { metadata: ON_CHAIN } }]);
+    saveScan('Edited', 3_000, 'other', [{ check: 'METADATA_INTEGRITY', details: { metadata: { ...ON_CHAIN, name: 'Later' } } }]);
+
+    const first = getFirstSeenMetadata('Edited');
+    expect(first).toEqual({ metadata: ON_CHAIN, scannedAt: 2_000 });
+    expect(diffMetadata(first!.metadata, { ...ON_CHAIN, uri: 'https://evil.example/b' })).toEqual([
+      { field: 'uri', from: 'https://arweave.net/a', to: 'https://evil.example/b' },
+    ]);
+  });
+});
+
+function borshString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf-8');
+  const len = Buffer.alloc(4);
+  len.writeUInt32LE(bytes.length);
+  return Buffer.concat([len, bytes]);
+}
+
+// An immutable Metaplex metadata account without creators
+function metaplexAccount({ name, symbol, uri }: TokenMetadataRecord): Buffer {
+  return Buffer.concat([
+    Buffer.from([4]),
+    Keypair.generate().publicKey.toBuffer(),
+    Keypair.generate().publicKey.toBuffer(),
+    borshString(name),
+    borshString(symbol),
+    borshString(uri),
+    Buffer.from([0, 0, 0, 0, 0]), // seller fee, no creators, primary sale, immutable
+  ]);
+}
+
+function context(tokenMint: string, onChain: TokenMetadataRecord, image: string): CheckContext {
+  const account = { owner: new PublicKey(PROGRAM_IDS.TOKEN_METADATA), data: metaplexAccount(onChain) };
+  return {
+    tokenMint: new PublicKey(tokenMint),
+    connection: { getAccountInfo: async () => account } as unknown as Connection,
+    mintInfo: null,
+    mode: 'deep',
+    external: { offChainMeta: { image } },
+  } as unknown as CheckContext;
+}
+
+describe('checkMetadataIntegrity', () => {
+  const recorded = { ...ON_CHAIN, image: 'https://ipfs.io/ipfs/cat.png' };
+
+  it('scores an image change low when the on-chain fields are unchanged', async () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+    saveScan(mint, 1_000, 'moon cat', [{ check: 'METADATA_INTEGRITY', details: { metadata: recorded } }]);
+
+    const result = await checkMetadataIntegrity(context(mint, ON_CHAIN, 'https://cdn.example/cat.png'));
+    expect(result).toMatchObject({ status: 'warning', score: 30 });
+    expect(result.details.edits).toEqual([{ field: 'image', from: recorded.image, to: 'https://cdn.example/cat.png' }]);
+  });
+
+  it('flags edited on-chain fields as danger', async () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+    saveScan(mint, 1_000, 'moon cat', [{ check: 'METADATA_INTEGRITY', details: { metadata: recorded } }]);
+
+    const renamed = await checkMetadataIntegrity(context(mint, { ...ON_CHAIN, name: 'Rug Cat' }, recorded.image));
+    expect(renamed).toMatchObject({ status: 'danger', score: 75, message: 'Metadata edited since first seen (name changed)' });
+
+    const moved = await checkMetadataIntegrity(context(mint, { ...ON_CHAIN, uri: 'https://evil.example/b' }, 'https://evil.example/b.png'));
+    expect(moved).toMatchObject({ status: 'danger', score: 85, message: 'Metadata edited since first seen (URI changed)' });
+  });
+});
@@ -0,0 +1,261 @@
+import { PublicKey } from '@solana/web3.js';
+import { ExtensionType, getExtensionData } from '@solana/spl-token';
+import { PROGRAM_IDS, PUMP_FUN_MINT_AUTHORITY, type RiskCheckResult, type RiskStatus } from '@trenchable/shared';
+import { RISK_WEIGHTS, INSTANT_RISK_WEIGHTS, type CheckContext } from '../checks/registry.js';
+import { getFirstScanForToken } from '../db/history.js';
+
+/**
+ * Metadata integrity
+ *
+ * Decodes the token's metadata — the Metaplex metadata account, or the
+ * Token-2022 TokenMetadata extension — to see whether name, symbol and URI can
+ * still change and who can change them. Edits already made are caught by
+ * comparing against the metadata recorded the first time the token was scanned.
+ */
+
+export type UpdateAuthorityKind = 'none' | 'pump.fun' | 'creator' | 'unknown';
+
+export interface TokenMetadataRecord {
+  name: string;
+  symbol: string;
+  uri: string;
+  image: string | null;
+}
+
+export interface DecodedMetadata extends TokenMetadataRecord {
+  source: 'metaplex' | 'token-2022';
+  updateAuthority: string | null;
+  isMutable: boolean;
+  // Verified Metaplex creators — signed by the creator, so they identify the deployer
+  verifiedCreators: string[];
+}
+
+export interface MetadataEdit {
+  field: keyof TokenMetadataRecord;
+  from: string;
+  to: string;
+}
+
+const CHECK_ID = 'METADATA_INTEGRITY';
+const METADATA_PROGRAM = new PublicKey(PROGRAM_IDS.TOKEN_METADATA);
+const PUMP_FUN_AUTHORITIES = new Set<string>([PUMP_FUN_MINT_AUTHORITY, PROGRAM_IDS.PUMP_FUN]);
+
+// Borsh string: u32 length + bytes. Metaplex pads fixed-size fields with NULs.
+function readString(data: Buffer, offset: number): [string, number] {
+  const len = data.readUInt32LE(offset);
+  const value = data.subarray(offset + 4, offset + 4 + len).toString('utf-8').replace(/\0/g, '').trim();
+  return [value, offset + 4 + len];
+}
+
+function optionalKey(data: Buffer, offset: number): string | null {
+  const key = data.subarray(offset, offset + 32);
+  return key.every(b => b === 0) ? null : new PublicKey(key).toBase58();
+}
+
+// ─── Metaplex Metadata ───
+// key u8 0, update_authority 1, mint 33, name/symbol/uri strings from 65,
+// seller_fee_basis_points u16, creators Option<Vec<{address, verified u8, share u8}>>,
+// primary_sale_happened bool, is_mutable bool
+
+export function decodeMetaplexMetadata(data: Buffer): DecodedMetadata {
+  const updateAuthority = new PublicKey(data.subarray(1, 33)).toBase58();
+  let offset = 65;
+  let name: string, symbol: string, uri: string;
+  [name, offset] = readString(data, offset);
+  [symbol, offset] = readString(data, offset);
+  [uri, offset] = readString(data, offset);
+  offset += 2;
+
+  const verifiedCreators: string[] = [];
+  if (data[offset++] === 1) {
+    const count = data.readUInt32LE(offset);
+    offset += 4;
+    for (let i = 0; i < count; i++, offset += 34) {
+      if (data[offset + 32] === 1) verifiedCreators.push(new PublicKey(data.subarray(offset, offset + 32)).toBase58());
+    }
+  }
+  offset += 1; // primary_sale_happened
+
+  return {
+    source: 'metaplex',
+    updateAuthority,
+    isMutable: data[offset] === 1,
+    verifiedCreators,
+    name,
+    symbol,
+    uri,
+    image: null,
+  };
+}
+
+// ─── Token-2022 TokenMetadata extension ───
+// update_authority (zeroed = none) 0, mint 32, name/symbol/uri strings from 64.
+// There is no mutability flag: metadata is immutable once the authority is cleared.
+
+export function decodeToken2022Metadata(data: Buffer): DecodedMetadata {
+  const updateAuthority = optionalKey(data, 0);
+  let offset = 64;
+  let name: string, symbol: string, uri: string;
+  [name, offset] = readString(data, offset);
+  [symbol, offset] = readString(data, offset);
+  [uri, offset] = readString(data, offset);
+
+  return {
+    source: 'token-2022',
+    updateAuthority,
+    isMutable: updateAuthority !== null,
+    verifiedCreators: [],
+    name,
+    symbol,
+    uri,
+    image: null,
+  };
+}
+
+export async function getTokenMetadata(ctx: CheckContext): Promise<DecodedMetadata | null> {
+  const [metadataPda] = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), METADATA_PROGRAM.toBuffer(), ctx.tokenMint.toBuffer()],
+    METADATA_PROGRAM
+  );
+  const account = await ctx.connection.getAccountInfo(metadataPda);
+
+  let metadata: DecodedMetadata | null = null;
+  if (account && account.owner.equals(METADATA_PROGRAM)) {
+    metadata = decodeMetaplexMetadata(account.data);
+  } else if (ctx.mintInfo) {
+    const ext = getExtensionData(ExtensionType.TokenMetadata, ctx.mintInfo.tlvData);
+    if (ext) metadata = decodeToken2022Metadata(ext);
+  }
+  if (!metadata) return null;
+
+  // The image lives in the off-chain JSON; DAS and the URI fetch both report its `image` field
+  const { helius, offChainMeta } = ctx.external;
+  metadata.image = helius?.content?.links?.image || offChainMeta?.image || null;
+  return metadata;
+}
+
+export function classifyUpdateAuthority(metadata: DecodedMetadata, ctx: CheckContext): UpdateAuthorityKind {
+  const authority = metadata.updateAuthority;
+  if (!authority) return 'none';
+  if (PUMP_FUN_AUTHORITIES.has(authority)) return 'pump.fun';
+
+  const creators = new Set(metadata.verifiedCreators);
+  const { rugcheck, goPlus } = ctx.external;
+  if (rugcheck?.creator) creators.add(rugcheck.creator);
+  if (goPlus?.creator_address) creators.add(goPlus.creator_address);
+  return creators.has(authority) ? 'creator' : 'unknown';
+}
+
+/**
+ * Metadata as first seen by this server: the on-chain record stored by the
+ * earliest METADATA_INTEGRITY check that decoded it. Scan history names and
+ * symbols can come from Helius or DexScreener, so without a record there is
+ * nothing to compare against.
+ */
+export function getFirstSeenMetadata(tokenMint: string): { metadata: TokenMetadataRecord; scannedAt: number } | null {
+  try {
+    const first = getFirstScanForToken(tokenMint, CHECK_ID, 'metadata');
+    if (!first) return null;
+    const checks = JSON.parse(first.checksJson) as RiskCheckResult[];
+    const recorded = checks.find(c => c.check === CHECK_ID)?.details?.metadata as TokenMetadataRecord | undefined;
+    return recorded ? { metadata: recorded, scannedAt: first.scanTimestamp } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function diffMetadata(first: TokenMetadataRecord, current: TokenMetadataRecord): MetadataEdit[] {
+  const edits: MetadataEdit[] = [];
+  for (const field of ['name', 'symbol', 'uri', 'image'] as const) {
+    const from = first[field]?.trim();
+    const to = current[field]?.trim();
+    // A field missing on either side is a data gap, not an edit
+    if (from && to && from !== to) edits.push({ field, from, to });
+  }
+  return edits;
+}
+
+export async function checkMetadataIntegrity(ctx: CheckContext): Promise<RiskCheckResult> {
+  const weight = (ctx.mode === 'instant' ? INSTANT_RISK_WEIGHTS : RISK_WEIGHTS)[CHECK_ID];
+  try {
+    const metadata = await getTokenMetadata(ctx);
+    if (!metadata) {
+      return {
+        check: CHECK_ID,
+        status: 'warning',
+        score: 40,
+        weight,
+        details: { hasMetadata: false },
+        message: 'No on-chain metadata — name and symbol are not bound to the mint',
+      };
+    }
+
+    const authorityKind = classifyUpdateAuthority(metadata, ctx);
+    const record: TokenMetadataRecord = { name: metadata.name, symbol: metadata.symbol, uri: metadata.uri, image: metadata.image };
+    const firstSeen = getFirstSeenMetadata(ctx.tokenMint.toBase58());
+    const edits = firstSeen ? diffMetadata(firstSeen.metadata, record) : [];
+
+    const details = {
+      hasMetadata: true,
+      metadataSource: metadata.source,
+      isMutable: metadata.isMutable,
+      updateAuthority: metadata.updateAuthority,
+      updateAuthorityKind: authorityKind,
+      verifiedCreators: metadata.verifiedCreators,
+      // Stored with the scan so later scans can compare against it
+      metadata: record,
+      firstSeenAt: firstSeen?.scannedAt ?? null,
+      edits,
+    };
+
+    let status: RiskStatus;
+    let score: number;
+    let message: string;
+
+    // The image comes from the off-chain JSON through Helius or a URI fetch,
+    // either of which can rehost it, so only on-chain fields count as edits
+    const onChainEdits = edits.filter(e => e.field !== 'image');
+    const imageChanged = edits.length > onChainEdits.length;
+
+    if (onChainEdits.length > 0) {
+      status = 'danger';
+      // A swapped URI rebrands the token under holders' feet
+      score = onChainEdits.some(e => e.field === 'uri') ? 85 : 75;
+      const changed = onChainEdits.map(e => e.field === 'uri' ? 'URI' : e.field).join(', ');
+      message = `Metadata edited since first seen (${changed} changed)`;
+    } else if (!metadata.isMutable) {
+      status = 'safe';
+      score = 0;
+      message = 'Metadata is immutable';
+    } else if (authorityKind === 'pump.fun') {
+      status = 'safe';
+      score = 10;
+      message = 'Metadata is mutable, but the update authority is the pump.fun program';
+    } else if (authorityKind === 'creator') {
+      status = 'warning';
+      score = 50;
+      message = 'Metadata is mutable — the creator can still change name, symbol and image';
+    } else {
+      status = 'warning';
+      score = 55;
+      message = `Metadata is mutable — update authority ${metadata.updateAuthority!.slice(0, 4)}…${metadata.updateAuthority!.slice(-4)} is not the creator`;
+    }
+
+    if (imageChanged && onChainEdits.length === 0) {
+      status = status === 'safe' ? 'warning' : status;
+      score = Math.max(score, 30);
+      message += ' (the image has changed since first seen)';
+    }
+
+    return { check: CHECK_ID, status, score, weight, details, message };
+  } catch (error) {
+    return {
+      check: CHECK_ID,
+      status: 'unknown',
+      score: 50,
+      weight,
+      details: { error: String(error) },
+      message: 'Could not decode token metadata',
+    };
+  }
+}
@@ -1,11 +1,12 @@
-import { getMint } from '@solana/spl-token';
-import { RISK_WEIGHTS, type RiskCheckResult } from '@trenchable/shared';
+import { type RiskCheckResult } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
 import type { ScanContext } from '../types/risk.types.js';
+import { getMintWithExtensions } from './token-extensions.service.js';
 
 export async function checkMintAuthority(ctx: ScanContext): Promise<RiskCheckResult> {
   try {
     if (!ctx.mintInfo) {
-      ctx.mintInfo = await getMint(ctx.connection, ctx.tokenMint);
+      ctx.mintInfo = await getMintWithExtensions(ctx.connection, ctx.tokenMint);
     }
     const mintInfo = ctx.mintInfo;
     const isRevoked = mintInfo.mintAuthority === null;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { compileNamePattern } from './name-pattern.js';
+
+const NAMES = ['PepeCoin', 'pepe', 'Moon Cat', 'MCAT', 'doge 2.0', 'CAT-INU', '', 'a\nb', 'élan', '🐸 frog'];
+
+describe('compileNamePattern', () => {
+  it('matches the same names as a case-insensitive RegExp', () => {
+    const patterns = [
+      'cat', '^pep', 'coin$', '^(pepe|doge)', 'c.t', '[a-c]at', '[^a-z ]', '\\d\\.\\d', '\\s', '\\W',
+      'p(e|o)+p?e', '^m(?:oon)? ?cat$', 'x*', '^$', 'cat-?inu', 'a.b', 'É', '🐸.f', 'a|',
+    ];
+    for (const source of patterns) {
+      const ours = compileNamePattern(source);
+      const reference = new RegExp(source, 'iu');
+      for (const name of NAMES) {
+        expect(ours.test(name), `/${source}/ on ${JSON.stringify(name)}`).toBe(reference.test(name));
+      }
+    }
+  });
+
+  it('rejects what it cannot match in linear time, and malformed patterns', () => {
+    for (const source of ['(a)\\1', '(?=a)', '\\bcat', 'a{2,}', '(cat', 'cat)', '[cat', '*cat', 'a**', '[z-a]', 'cat\\']) {
+      expect(() => compileNamePattern(source), source).toThrow(SyntaxError);
+    }
+  });
+
+  it('stays linear on patterns that make RegExp backtrack', () => {
+    const pattern = compileNamePattern('^(a|a?)+(a*)*$b');
+    const started = performance.now();
+    expect(pattern.test('a'.repeat(5_000))).toBe(false);
+    expect(performance.now() - started).toBeLessThan(500);
+  });
+});
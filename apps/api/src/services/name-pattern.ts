@@ -0,0 +1,224 @@
+/**
+ * Name patterns
+ *
+ * Case-insensitive regexes for the live feed's name filter. Clients choose the
+ * pattern and token creators choose the name, so a backtracking engine like
+ * RegExp could be made to run for seconds on a single launch. Patterns are
+ * compiled to an NFA instead and matched by stepping every live state over the
+ * text at once: at most states × characters steps, whatever the input.
+ *
+ * Supported: literals, `.`, classes (`[a-z]`, `[^0-9]`, `\d`, `\w`, `\s` and
+ * their negations), groups `(…)` and `(?:…)`, `|`, `*`, `+`, `?` and the
+ * anchors `^` and `$`. Backreferences, lookaround, `\b` and counted
+ * repetition are rejected. Like RegExp#test, a match can start anywhere.
+ */
+
+export interface NamePattern {
+  test(text: string): boolean;
+}
+
+type CharTest = (c: string) => boolean;
+
+type Node =
+  | { kind: 'char'; test: CharTest }
+  | { kind: 'assert'; at: 'start' | 'end' }
+  | { kind: 'seq'; items: Node[] }
+  | { kind: 'alt'; options: Node[] }
+  | { kind: 'repeat'; node: Node; min: 0 | 1; max: 1 | typeof Infinity };
+
+type State =
+  | { kind: 'char'; test: CharTest; out: number }
+  | { kind: 'assert'; at: 'start' | 'end'; out: number }
+  | { kind: 'split'; out: number; alt: number }
+  | { kind: 'match' };
+
+const CLASS_ESCAPES: Record<string, CharTest> = {
+  d: c => c >= '0' && c <= '9',
+  w: c => /^[A-Za-z0-9_]$/.test(c),
+  s: c => /^\s$/.test(c),
+};
+const CONTROL_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+// Case-insensitive like the i flag: either case of the character will do
+const fold = (test: CharTest): CharTest => c => test(c) || test(c.toLowerCase()) || test(c.toUpperCase());
+const literal = (value: string): CharTest => fold(c => c === value);
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly chars: string[]) {}
+
+  parse(): Node {
+    const node = this.alternation();
+    if (this.pos < this.chars.length) throw new SyntaxError('unmatched ")"');
+    return node;
+  }
+
+  private peek(): string | undefined {
+    return this.chars[this.pos];
+  }
+
+  private alternation(): Node {
+    const options = [this.sequence()];
+    while (this.peek() === '|') {
+      this.pos++;
+      options.push(this.sequence());
+    }
+    return options.length === 1 ? options[0] : { kind: 'alt', options };
+  }
+
+  private sequence(): Node {
+    const items: Node[] = [];
+    while (this.pos < this.chars.length && this.peek() !== '|' && this.peek() !== ')') {
+      let node = this.atom();
+      const quantifier = this.peek();
+      if (quantifier === '*' || quantifier === '+' || quantifier === '?') {
+        this.pos++;
+        if (this.peek() === '?') this.pos++; // Lazy or greedy matches the same names
+        node = { kind: 'repeat', node, min: quantifier === '+' ? 1 : 0, max: quantifier === '?' ? 1 : Infinity };
+        const next = this.peek();
+        if (next === '*' || next === '+' || next === '?') throw new SyntaxError('nothing to repeat');
+      }
+      items.push(node);
+    }
+    return items.length === 1 ? items[0] : { kind: 'seq', items };
+  }
+
+  private atom(): Node {
+    const c = this.chars[this.pos++];
+    switch (c) {
+      case '(': {
+        if (this.peek() === '?') {
+          if (this.chars[this.pos + 1] !== ':') throw new SyntaxError('lookaround and named groups are not supported');
+          this.pos += 2;
+        }
+        const node = this.alternation();
+        if (this.chars[this.pos++] !== ')') throw new SyntaxError('unterminated group');
+        return node;
+      }
+      case '[':
+        return { kind: 'char', test: this.charClass() };
+      case '.':
+        return { kind: 'char', test: ch => ch !== '\n' && ch !== '\r' };
+      case '^':
+        return { kind: 'assert', at: 'start' };
+      case '$':
+        return { kind: 'assert', at: 'end' };
+      case '\\':
+        return { kind: 'char', test: this.escape() };
+      case '*':
+      case '+':
+      case '?':
+        throw new SyntaxError('nothing to repeat');
+      case '{':
+      case '}':
+        throw new SyntaxError('counted repetition is not supported');
+      default:
+        return { kind: 'char', test: literal(c) };
+    }
+  }
+
+  private escape(): CharTest {
+    const c = this.chars[this.pos++];
+    if (c === undefined) throw new SyntaxError('\\ at end of pattern');
+    const named = CLASS_ESCAPES[c.toLowerCase()];
+    if (named) return c === c.toLowerCase() ? named : ch => !named(ch);
+    if (/[0-9]/.test(c)) throw new SyntaxError('backreferences are not supported');
+    if (c === 'b' || c === 'B') throw new SyntaxError('word boundaries are not supported');
+    return literal(CONTROL_ESCAPES[c] ?? c);
+  }
+
+  private charClass(): CharTest {
+    const negated = this.peek() === '^';
+    if (negated) this.pos++;
+
+    const tests: CharTest[] = [];
+    while (this.peek() !== ']') {
+      if (this.pos >= this.chars.length) throw new SyntaxError('unterminated character class');
+      const c = this.chars[this.pos++];
+      if (c === '\\') {
+        tests.push(this.escape());
+      } else if (this.peek() === '-' && this.chars[this.pos + 1] !== undefined && this.chars[this.pos + 1] !== ']') {
+        const to = this.chars[this.pos + 1];
+        this.pos += 2;
+        if (to < c) throw new SyntaxError('range out of order in character class');
+        tests.push(fold(ch => ch >= c && ch <= to));
+      } else {
+        tests.push(literal(c));
+      }
+    }
+    this.pos++;
+    return ch => tests.some(t => t(ch)) !== negated;
+  }
+}
+
+// Thompson construction, built back to front: each node's states lead to `next`
+function compile(node: Node, next: number, states: State[]): number {
+  const add = (state: State) => states.push(state) - 1;
+  switch (node.kind) {
+    case 'char':
+      return add({ kind: 'char', test: node.test, out: next });
+    case 'assert':
+      return add({ kind: 'assert', at: node.at, out: next });
+    case 'seq':
+      return node.items.reduceRight((out, item) => compile(item, out, states), next);
+    case 'alt':
+      return node.options
+        .map(option => compile(option, next, states))
+        .reduce((first, second) => add({ kind: 'split', out: first, alt: second }));
+    case 'repeat': {
+      if (node.max === 1) return add({ kind: 'split', out: compile(node.node, next, states), alt: next });
+      // The loop's split is patched once the body that returns to it exists
+      const loop = add({ kind: 'split', out: -1, alt: next });
+      const body = compile(node.node, loop, states);
+      (states[loop] as Extract<State, { kind: 'split' }>).out = body;
+      return node.min === 0 ? loop : body;
+    }
+  }
+}
+
+export function compileNamePattern(source: string): NamePattern {
+  const tree = new Parser(Array.from(source)).parse();
+  const states: State[] = [{ kind: 'match' }];
+  const start = compile(tree, 0, states);
+
+  return {
+    test(text: string): boolean {
+      const chars = Array.from(text);
+      let current: number[] = [];
+      let seen = new Set<number>();
+
+      // Follow splits and anchors to the states that consume a character
+      const follow = (i: number, pos: number, into: number[]): boolean => {
+        if (seen.has(i)) return false;
+        seen.add(i);
+        const state = states[i];
+        switch (state.kind) {
+          case 'match':
+            return true;
+          case 'split':
+            return follow(state.out, pos, into) || follow(state.alt, pos, into);
+          case 'assert':
+            return (state.at === 'start' ? pos === 0 : pos === chars.length) && follow(state.out, pos, into);
+          case 'char':
+            into.push(i);
+            return false;
+        }
+      };
+
+      for (let pos = 0; ; pos++) {
+        // Unanchored: a new attempt starts at every position
+        if (follow(start, pos, current)) return true;
+        if (pos === chars.length) return false;
+
+        const next: number[] = [];
+        seen = new Set();
+        for (const i of current) {
+          const state = states[i] as Extract<State, { kind: 'char' }>;
+          if (state.test(chars[pos]) && follow(state.out, pos + 1, next)) return true;
+        }
+        current = next;
+      }
+    },
+  };
+}
@@ -1,12 +1,16 @@
-import { PublicKey } from '@solana/web3.js';
-import { PROGRAM_IDS, type NewPairEvent } from '@trenchable/shared';
-import { getConnection } from '../config/rpc.js';
+import { createWriteStream, type WriteStream } from 'fs';
+import type { NewPairEvent } from '@trenchable/shared';
+import { config } from '../config/env.js';
+import { createPairEventSource, type PairEventSource } from './pair-sources/index.js';
 
 type PairListener = (event: NewPairEvent) => void;
 
 const listeners = new Set<PairListener>();
-let subscriptionIds: number[] = [];
 let isMonitoring = false;
+let activeSource: PairEventSource | null = null;
+// Set by setPairEventSource; otherwise PAIR_SOURCE decides
+let sourceOverride: PairEventSource | null = null;
+let recorder: WriteStream | null = null;
 
 export function addPairListener(listener: PairListener): () => void {
   listeners.add(listener);
@@ -21,7 +25,19 @@ export function addPairListener(listener: PairListener): () => void {
   };
 }
 
+/**
+ * Use `source` instead of the configured one, e.g. a replay in tests; null
+ * goes back to the configured source. A running monitor switches over.
+ */
+export function setPairEventSource(source: PairEventSource | null): void {
+  const wasMonitoring = isMonitoring;
+  if (wasMonitoring) stopMonitoring();
+  sourceOverride = source;
+  if (wasMonitoring) startMonitoring();
+}
+
 function emit(event: NewPairEvent) {
+  recorder?.write(`${JSON.stringify(event)}\n`);
   for (const listener of listeners) {
     try {
       listener(event);
@@ -35,70 +51,17 @@ function startMonitoring() {
   if (isMonitoring) return;
   isMonitoring = true;
 
-  const connection = getConnection();
-
   try {
-    // Monitor pump.fun for new token creates
-    const pumpFunSub = connection.onLogs(
-      new PublicKey(PROGRAM_IDS.PUMP_FUN),
-      (logs) => {
-        // Look for "create" instruction in pump.fun program
-        const hasCreate = logs.logs.some(
-          log => log.includes('Instruction: Create') || log.includes('Instruction: Initialize')
-        );
-
-        if (hasCreate) {
-          // Extract token mint from the transaction accounts
-          // For pump.fun creates, the new token mint is typically in the logs
-          const mintMatch = logs.logs.find(l => l.includes('mint:'));
-          const tokenMint = mintMatch
-            ? mintMatch.split('mint:')[1]?.trim()
-            : logs.signature; // fallback to signature as identifier
-
-          emit({
-            type: 'new_pair',
-            platform: 'pump.fun',
-            tokenMint: tokenMint || 'unknown',
-            tokenName: null,
-            tokenSymbol: null,
-            creator: '',
-            initialLiquidity: null,
-            timestamp: Date.now(),
-          });
-        }
-      },
-      'confirmed'
-    );
-    subscriptionIds.push(pumpFunSub);
-
-    // Monitor Raydium V4 for new pool initializations
-    const raydiumSub = connection.onLogs(
-      new PublicKey(PROGRAM_IDS.RAYDIUM_V4_AMM),
-      (logs) => {
-        const hasInit = logs.logs.some(
-          log => log.includes('Instruction: Initialize') || log.includes('initialize2')
-        );
-
-        if (hasInit) {
-          emit({
-            type: 'new_pair',
-            platform: 'raydium',
-            tokenMint: 'unknown',
-            tokenName: null,
-            tokenSymbol: null,
-            creator: '',
-            initialLiquidity: null,
-            timestamp: Date.now(),
-          });
-        }
-      },
-      'confirmed'
-    );
-    subscriptionIds.push(raydiumSub);
-
-    console.log('[PairMonitor] Started monitoring pump.fun and Raydium for new pairs');
+    activeSource = sourceOverride ?? createPairEventSource();
+    if (config.pairMonitor.recordFile) {
+      recorder = createWriteStream(config.pairMonitor.recordFile, { flags: 'a' });
+      recorder.on('error', (error) => console.error('[PairMonitor] Recording failed:', error));
+    }
+    activeSource.start(emit);
+    console.log(`[PairMonitor] Started monitoring for new pairs (${activeSource.name})`);
   } catch (error) {
     console.error('[PairMonitor] Failed to start monitoring:', error);
+    activeSource = null;
     isMonitoring = false;
   }
 }
@@ -106,11 +69,10 @@ function startMonitoring() {
 function stopMonitoring() {
   if (!isMonitoring) return;
 
-  const connection = getConnection();
-  for (const id of subscriptionIds) {
-    connection.removeOnLogsListener(id).catch(() => {});
-  }
-  subscriptionIds = [];
+  activeSource?.stop();
+  activeSource = null;
+  recorder?.end();
+  recorder = null;
   isMonitoring = false;
   console.log('[PairMonitor] Stopped monitoring');
 }
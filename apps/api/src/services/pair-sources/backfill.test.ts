@@ -0,0 +1,108 @@
+import type { ConfirmedSignatureInfo, Connection, PublicKey } from '@solana/web3.js';
+import { describe, expect, it, vi } from 'vitest';
+import { PROGRAM_IDS, PUMP_FUN_MINT_AUTHORITY } from '@trenchable/shared';
+import { getPairCursors, savePairCursors } from '../../db/pair-cursors.js';
+import { backfillLaunches, SlotCursors } from './backfill.js';
+import type { LaunchQueue } from './queue.js';
+
+const RAYDIUM_FEE_ACCOUNT = '7YttLkHDoNj9wyDur5pM1ejNaAvT9X4eqaYcHQqtj2G5';
+
+// Newest first, like getSignaturesForAddress
+function history(fromSlot: number, toSlot: number, failedSlots: number[] = []): ConfirmedSignatureInfo[] {
+  const now = Math.floor(Date.now() / 1000);
+  return Array.from({ length: toSlot - fromSlot + 1 }, (_, i) => {
+    const slot = toSlot - i;
+    return { signature: `sig${slot}`, slot, err: failedSlots.includes(slot) ? { InstructionError: [0, 'Custom'] } : null, memo: null, blockTime: now };
+  });
+}
+
+// Serves each marker's history in pages of `limit`, recording the `before` of every request
+function connection(histories: Record<string, ConfirmedSignatureInfo[] | Error>) {
+  const requests: { marker: string; before?: string }[] = [];
+  const conn = {
+    async getSignaturesForAddress(address: PublicKey, options: { before?: string; limit: number }) {
+      const marker = address.toBase58();
+      requests.push({ marker, before: options.before });
+      const entries = histories[marker] ?? [];
+      if (entries instanceof Error) throw entries;
+      const start = options.before ? entries.findIndex(s => s.signature === options.before) + 1 : 0;
+      return entries.slice(start, start + options.limit);
+    },
+  } as unknown as Connection;
+  return { conn, requests };
+}
+
+function queue() {
+  const enqueued: { signature: string; program: string; backfill?: boolean }[] = [];
+  const launchQueue: LaunchQueue = {
+    enqueue: (signature, program, backfill) => { enqueued.push({ signature, program, backfill }); },
+    clear: () => {},
+  };
+  return { enqueued, launchQueue };
+}
+
+describe('SlotCursors', () => {
+  it('keeps the newest slot per program until flushed, and never moves a stored cursor back', () => {
+    const cursors = new SlotCursors();
+    cursors.advance('ProgramA', 10, 'a10');
+    cursors.advance('ProgramA', 8, 'a8');
+    cursors.advance('ProgramB', 5, null);
+    cursors.flush();
+    expect(getPairCursors().get('ProgramA')).toMatchObject({ slot: 10, signature: 'a10' });
+    expect(getPairCursors().get('ProgramB')).toMatchObject({ slot: 5, signature: null });
+
+    // A fresh batch with an older slot (a lagging connection after reconnect) is ignored
+    cursors.advance('ProgramA', 9, 'a9');
+    cursors.flush();
+    expect(getPairCursors().get('ProgramA')?.slot).toBe(10);
+  });
+});
+
+describe('backfillLaunches', () => {
+  it('queues the successful launches after each cursor, oldest first, paging through the marker', async () => {
+    savePairCursors(new Map([[PROGRAM_IDS.PUMP_FUN, { slot: 1_000, signature: null }]]));
+    // 1,000 marker transactions since the cursor fill the first page, most of them failed
+    const failed = Array.from({ length: 801 }, (_, i) => 1_200 + i);
+    const { conn, requests } = connection({ [PUMP_FUN_MINT_AUTHORITY]: history(900, 2_000, failed) });
+    const { enqueued, launchQueue } = queue();
+
+    expect(await backfillLaunches(conn, launchQueue)).toBe(199);
+    expect(enqueued.every(e => e.program === PROGRAM_IDS.PUMP_FUN && e.backfill)).toBe(true);
+    expect(enqueued[0].signature).toBe('sig1001');
+    expect(enqueued.at(-1)?.signature).toBe('sig1199');
+    // The second page reaches the cursor
+    expect(requests.map(r => r.before)).toEqual([undefined, 'sig1001']);
+    // Programs without a cursor have nothing to catch up on
+    expect(requests.every(r => r.marker === PUMP_FUN_MINT_AUTHORITY)).toBe(true);
+  });
+
+  it('caps each program at the newest 500 and carries on past a failing marker', async () => {
+    savePairCursors(new Map([
+      [PROGRAM_IDS.PUMP_FUN, { slot: 2_400, signature: null }],
+      [PROGRAM_IDS.RAYDIUM_V4_AMM, { slot: 100, signature: null }],
+    ]));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { conn, requests } = connection({
+      [PUMP_FUN_MINT_AUTHORITY]: new Error('429 Too Many Requests'),
+      [RAYDIUM_FEE_ACCOUNT]: history(50, 1_150),
+    });
+    const { enqueued, launchQueue } = queue();
+
+    expect(await backfillLaunches(conn, launchQueue)).toBe(500);
+    expect(enqueued.map(e => e.program)).toEqual(Array(500).fill(PROGRAM_IDS.RAYDIUM_V4_AMM));
+    expect(enqueued[0].signature).toBe('sig651');
+    expect(requests.filter(r => r.marker === RAYDIUM_FEE_ACCOUNT).map(r => r.before)).toEqual([undefined]);
+    vi.restoreAllMocks();
+  });
+
+  it('leaves out launches older than the monitor window', async () => {
+    savePairCursors(new Map([[PROGRAM_IDS.RAYDIUM_CPMM, { slot: 0, signature: null }]]));
+    const entries = history(1, 10).map(s => (s.slot <= 4 ? { ...s, blockTime: Math.floor(Date.now() / 1000) - 2 * 3600 } : s));
+    const { conn } = connection({ DNXgeM9EiiaAbaWvwjHj9fQQLAX5ZsfHyvmYUNRAdNC8: entries });
+    const { enqueued, launchQueue } = queue();
+
+    await backfillLaunches(conn, launchQueue);
+    expect(enqueued.filter(e => e.program === PROGRAM_IDS.RAYDIUM_CPMM).map(e => e.signature))
+      .toEqual(['sig5', 'sig6', 'sig7', 'sig8', 'sig9', 'sig10']);
+  });
+});
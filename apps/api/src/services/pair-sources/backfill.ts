@@ -0,0 +1,82 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { PROGRAM_IDS, PUMP_FUN_MINT_AUTHORITY } from '@trenchable/shared';
+import { getPairCursors, savePairCursors } from '../../db/pair-cursors.js';
+import type { LaunchQueue } from './queue.js';
+
+/**
+ * Gap backfill
+ *
+ * Sources record the last slot they saw each launch program at. After a
+ * reconnect or a restart, launches since then are found by paging the
+ * history of an account only launch transactions touch — paging the program
+ * itself would mean wading through every trade.
+ */
+
+// pump.fun's mint authority is an account of every create and of nothing else;
+// Raydium charges pool creation fees to fixed accounts
+const BACKFILL_MARKERS: { program: string; marker: string }[] = [
+  { program: PROGRAM_IDS.PUMP_FUN, marker: PUMP_FUN_MINT_AUTHORITY },
+  { program: PROGRAM_IDS.RAYDIUM_V4_AMM, marker: '7YttLkHDoNj9wyDur5pM1ejNaAvT9X4eqaYcHQqtj2G5' },
+  { program: PROGRAM_IDS.RAYDIUM_CPMM, marker: 'DNXgeM9EiiaAbaWvwjHj9fQQLAX5ZsfHyvmYUNRAdNC8' },
+];
+
+const PAGE_LIMIT = 1000;
+const MAX_BACKFILL_PER_PROGRAM = 500;
+// Launches older than this are past the window the launch monitor scans for
+const MAX_BACKFILL_AGE_MS = 60 * 60 * 1000;
+
+// Slots seen per program, written to SQLite on flush() rather than per notification
+export class SlotCursors {
+  private cursors = new Map<string, { slot: number; signature: string | null }>();
+
+  advance(program: string, slot: number, signature: string | null): void {
+    const current = this.cursors.get(program);
+    if (!current || slot > current.slot) this.cursors.set(program, { slot, signature });
+  }
+
+  flush(): void {
+    if (this.cursors.size === 0) return;
+    savePairCursors(this.cursors);
+    this.cursors.clear();
+  }
+}
+
+// Successful transactions touching `marker` after `sinceSlot`, oldest first
+async function missedSignatures(connection: Connection, marker: string, sinceSlot: number): Promise<string[]> {
+  const found: string[] = [];
+  const cutoff = (Date.now() - MAX_BACKFILL_AGE_MS) / 1000;
+  let before: string | undefined;
+
+  while (found.length < MAX_BACKFILL_PER_PROGRAM) {
+    const page = await connection.getSignaturesForAddress(new PublicKey(marker), { before, limit: PAGE_LIMIT }, 'confirmed');
+    for (const s of page) {
+      if (s.slot <= sinceSlot || (s.blockTime && s.blockTime < cutoff)) return found.reverse();
+      if (!s.err) found.push(s.signature);
+      if (found.length >= MAX_BACKFILL_PER_PROGRAM) break;
+    }
+    if (page.length < PAGE_LIMIT) break;
+    before = page[page.length - 1].signature;
+  }
+  return found.reverse();
+}
+
+/**
+ * Queue every launch since the stored cursors. Programs never seen before
+ * have nothing to catch up on. Returns how many candidates were queued.
+ */
+export async function backfillLaunches(connection: Connection, queue: LaunchQueue): Promise<number> {
+  const cursors = getPairCursors();
+  let queued = 0;
+  for (const { program, marker } of BACKFILL_MARKERS) {
+    const cursor = cursors.get(program);
+    if (!cursor) continue;
+    try {
+      const missed = await missedSignatures(connection, marker, cursor.slot);
+      for (const signature of missed) queue.enqueue(signature, program, true);
+      queued += missed.length;
+    } catch (error) {
+      console.error(`[PairMonitor] Backfill of ${program} failed:`, error);
+    }
+  }
+  return queued;
+}
@@ -0,0 +1,181 @@
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import { decodeLaunchTransaction } from '../launches/instructions.js';
+import { backfillLaunches } from './backfill.js';
+import { geyserSource, toParsedTransaction, type GeyserClient, type GeyserStream } from './geyser.js';
+
+vi.mock('./backfill.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./backfill.js')>()),
+  backfillLaunches: vi.fn(async () => 0),
+}));
+
+// Streams handed out by a fake Yellowstone client, newest last
+const streams: (EventEmitter & { write: ReturnType<typeof vi.fn>; end: ReturnType<typeof vi.fn> })[] = [];
+
+async function connect(): Promise<GeyserClient> {
+  return {
+    async subscribe() {
+      const stream = Object.assign(new EventEmitter(), {
+        write: vi.fn((_request: unknown, callback: (error?: Error | null) => void) => callback(null)),
+        end: vi.fn(),
+      });
+      streams.push(stream);
+      return stream as unknown as GeyserStream;
+    },
+  };
+}
+
+const key = () => Keypair.generate().publicKey;
+
+function borshString(value: string): Buffer {
+  const len = Buffer.alloc(4);
+  len.writeUInt32LE(value.length);
+  return Buffer.concat([len, Buffer.from(value)]);
+}
+
+describe('toParsedTransaction', () => {
+  // A v0 pump.fun create: payer, mint (signer), a readonly program; two accounts from a lookup table
+  const payer = key();
+  const mint = key();
+  const loadedWritable = key();
+  const loadedReadonly = key();
+  const program = new PublicKey(PROGRAM_IDS.PUMP_FUN);
+  const createData = Buffer.concat([
+    createHash('sha256').update('global:create').digest().subarray(0, 8),
+    borshString('Moon Cat'),
+    borshString('MCAT'),
+    borshString('https://ipfs.io/ipfs/cat'),
+  ]);
+  // Mint first, the rest filled from the keys
+  const accountIndexes = Uint8Array.from([1, 3, 4, 0, ...Array(10).fill(0)]);
+
+  const info = {
+    signature: bs58.decode(bs58.encode(Buffer.alloc(64, 7))),
+    transaction: {
+      message: {
+        header: { numRequiredSignatures: 2, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 1 },
+        accountKeys: [payer, mint, program].map(k => k.toBytes()),
+        recentBlockhash: key().toBytes(),
+        instructions: [{ programIdIndex: 2, accounts: accountIndexes, data: Uint8Array.from(createData) }],
+        versioned: true,
+      },
+    },
+    meta: {
+      err: undefined,
+      fee: '5000',
+      preBalances: ['2000000000', '0', '1', '0', '0'],
+      postBalances: ['1900000000', '1461600', '1', '0', '0'],
+      innerInstructions: [],
+      logMessages: [`Program ${program.toBase58()} invoke [1]`, 'Program log: Instruction: Create'],
+      preTokenBalances: [],
+      postTokenBalances: [{ accountIndex: 3, mint: mint.toBase58(), owner: '', programId: '', uiTokenAmount: undefined }],
+      loadedWritableAddresses: [loadedWritable.toBytes()],
+      loadedReadonlyAddresses: [loadedReadonly.toBytes()],
+    },
+  };
+
+  it('rebuilds the RPC shape, with lookup-table keys after the static ones', () => {
+    const tx = toParsedTransaction(info, 250_000_000)!;
+
+    expect(tx.slot).toBe(250_000_000);
+    expect(tx.version).toBe(0);
+    expect(tx.transaction.signatures).toEqual([bs58.encode(Buffer.alloc(64, 7))]);
+    expect(tx.transaction.message.accountKeys.map(k => [k.pubkey.toBase58(), k.signer, k.writable, k.source])).toEqual([
+      [payer.toBase58(), true, true, 'transaction'],
+      [mint.toBase58(), true, true, 'transaction'],
+      [program.toBase58(), false, false, 'transaction'],
+      [loadedWritable.toBase58(), false, true, 'lookupTable'],
+      [loadedReadonly.toBase58(), false, false, 'lookupTable'],
+    ]);
+    expect(tx.meta).toMatchObject({ err: null, fee: 5000, preBalances: [2_000_000_000, 0, 1, 0, 0] });
+    expect(tx.meta?.postTokenBalances?.[0]).toMatchObject({ accountIndex: 3, owner: undefined, uiTokenAmount: { amount: '0', uiAmount: null } });
+  });
+
+  it('leaves instructions undecoded, the way the launch decoder reads them', () => {
+    const tx = toParsedTransaction(info, 1)!;
+    expect(decodeLaunchTransaction(tx, PROGRAM_IDS.PUMP_FUN)).toMatchObject({
+      platform: 'pump.fun',
+      mint: mint.toBase58(),
+      creator: payer.toBase58(),
+      name: 'Moon Cat',
+    });
+  });
+
+  it('marks failed transactions and skips updates without a message or meta', () => {
+    expect(toParsedTransaction({ ...info, meta: { ...info.meta, err: { err: Uint8Array.from([1]) } } }, 1)?.meta?.err).toBe('failed');
+    expect(toParsedTransaction({ ...info, meta: undefined }, 1)).toBeNull();
+    expect(toParsedTransaction({ signature: info.signature, meta: info.meta }, 1)).toBeNull();
+  });
+});
+
+describe('geyserSource', () => {
+  beforeEach(() => {
+    streams.length = 0;
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const source = () => geyserSource({ url: 'http://geyser.test', token: null, getConnection: () => ({}) as never, connect });
+  const transaction = { transaction: { slot: '1', transaction: { signature: new Uint8Array(64) } } };
+
+  it('reopens a stream that stops delivering transactions, closing the stuck one', async () => {
+    const geyser = source();
+    geyser.start(() => {});
+    await vi.advanceTimersByTimeAsync(0);
+    expect(streams).toHaveLength(1);
+
+    // Pongs keep arriving but no transactions; the check after a minute of that reconnects
+    for (let i = 0; i < 5; i++) {
+      streams[0].emit('data', { pong: { id: 1 } });
+      await vi.advanceTimersByTimeAsync(15_000);
+    }
+    expect(streams[0].end).toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(streams).toHaveLength(2);
+
+    // A stream with transactions flowing is left alone
+    for (let i = 0; i < 8; i++) {
+      streams[1].emit('data', transaction);
+      await vi.advanceTimersByTimeAsync(15_000);
+    }
+    expect(streams).toHaveLength(2);
+    expect(streams[1].end).not.toHaveBeenCalled();
+    geyser.stop();
+  });
+
+  it('keeps the live stream when the backfill after opening fails', async () => {
+    vi.mocked(backfillLaunches).mockRejectedValueOnce(new Error('429 Too Many Requests'));
+    const geyser = source();
+    geyser.start(() => {});
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(streams).toHaveLength(1);
+    expect(streams[0].end).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith('[PairMonitor] Geyser backfill failed:', expect.any(Error));
+    geyser.stop();
+  });
+
+  it('closes a stream that errors before reopening', async () => {
+    const geyser = source();
+    geyser.start(() => {});
+    await vi.advanceTimersByTimeAsync(0);
+
+    streams[0].emit('error', new Error('14 UNAVAILABLE'));
+    expect(streams[0].end).toHaveBeenCalledTimes(1);
+    // The end that follows an error doesn't schedule a second reconnect
+    streams[0].emit('end');
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(streams).toHaveLength(2);
+    geyser.stop();
+  });
+});
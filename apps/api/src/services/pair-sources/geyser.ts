@@ -0,0 +1,345 @@
+import bs58 from 'bs58';
+import { PublicKey, type Connection, type ParsedTransactionWithMeta, type PartiallyDecodedInstruction, type TokenBalance } from '@solana/web3.js';
+import { LAUNCH_PROGRAMS, launchProgramsInLogs, pairFromTransaction } from '../launches/index.js';
+import { backfillLaunches, SlotCursors } from './backfill.js';
+import { createLaunchQueue, type LaunchQueue } from './queue.js';
+import type { PairEmitter, PairEventSource } from './types.js';
+
+// ─── Yellowstone gRPC client ───
+// The parts of @triton-one/yellowstone-grpc used here. The package pulls in
+// native gRPC, so it's an optional peer dependency: loaded only when this
+// source starts.
+
+const YELLOWSTONE_MODULE = '@triton-one/yellowstone-grpc';
+// CommitmentLevel.CONFIRMED
+const COMMITMENT_CONFIRMED = 1;
+// Geyser servers drop idle streams; Triton asks for a ping at least this often
+const PING_INTERVAL_MS = 30_000;
+// Cursors are saved, and the stream checked for a stall, this often
+const HEALTH_CHECK_MS = 15_000;
+// Launch programs trade several times a second, so a minute without a transaction means the stream is stuck
+const STALL_MS = 60_000;
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 5 * 60_000;
+
+interface GeyserInstruction {
+  programIdIndex: number;
+  accounts: Uint8Array;
+  data: Uint8Array;
+}
+
+interface GeyserTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner: string;
+  programId: string;
+  uiTokenAmount?: { uiAmount: number; decimals: number; amount: string; uiAmountString: string };
+}
+
+export interface GeyserTransactionInfo {
+  signature: Uint8Array;
+  transaction?: {
+    message?: {
+      header?: { numRequiredSignatures: number; numReadonlySignedAccounts: number; numReadonlyUnsignedAccounts: number };
+      accountKeys: Uint8Array[];
+      recentBlockhash: Uint8Array;
+      instructions: GeyserInstruction[];
+      versioned: boolean;
+    };
+  };
+  meta?: {
+    err?: unknown;
+    fee: string;
+    preBalances: string[];
+    postBalances: string[];
+    innerInstructions: { index: number; instructions: GeyserInstruction[] }[];
+    logMessages: string[];
+    preTokenBalances: GeyserTokenBalance[];
+    postTokenBalances: GeyserTokenBalance[];
+    loadedWritableAddresses: Uint8Array[];
+    loadedReadonlyAddresses: Uint8Array[];
+  };
+}
+
+export interface GeyserUpdate {
+  transaction?: { slot: string; transaction?: GeyserTransactionInfo };
+}
+
+export interface GeyserStream {
+  on(event: 'data', listener: (update: GeyserUpdate) => void): void;
+  on(event: 'error' | 'end', listener: (error?: unknown) => void): void;
+  write(request: unknown, callback: (error?: Error | null) => void): void;
+  end(): void;
+}
+
+export interface GeyserClient {
+  // Newer client versions connect explicitly
+  connect?(): Promise<void>;
+  subscribe(): Promise<GeyserStream>;
+}
+
+type GeyserClientClass = new (endpoint: string, xToken: string | undefined, options: undefined) => GeyserClient;
+
+async function createClient(url: string, token: string | null): Promise<GeyserClient> {
+  let mod: { default: GeyserClientClass | { default: GeyserClientClass } };
+  try {
+    mod = await import(YELLOWSTONE_MODULE);
+  } catch {
+    throw new Error(`The grpc pair source needs ${YELLOWSTONE_MODULE} installed`);
+  }
+  // CommonJS default export, seen through ESM interop or not
+  const Client = 'default' in mod.default ? mod.default.default : mod.default;
+  const client = new Client(url, token ?? undefined, undefined);
+  await client.connect?.();
+  return client;
+}
+
+// A subscription request with every filter empty; callers fill in what they need
+const EMPTY_REQUEST = {
+  accounts: {},
+  slots: {},
+  transactions: {},
+  transactionsStatus: {},
+  blocks: {},
+  blocksMeta: {},
+  entry: {},
+  accountsDataSlice: [],
+};
+
+// ─── Conversion ───
+// Geyser sends the raw message; the launch decoder reads the RPC's jsonParsed
+// shape, with every instruction left undecoded.
+
+function tokenBalances(balances: GeyserTokenBalance[]): TokenBalance[] {
+  return balances.map(b => ({
+    accountIndex: b.accountIndex,
+    mint: b.mint,
+    owner: b.owner || undefined,
+    programId: b.programId || undefined,
+    uiTokenAmount: {
+      amount: b.uiTokenAmount?.amount ?? '0',
+      decimals: b.uiTokenAmount?.decimals ?? 0,
+      uiAmount: b.uiTokenAmount?.uiAmount ?? null,
+      uiAmountString: b.uiTokenAmount?.uiAmountString,
+    },
+  }));
+}
+
+export function toParsedTransaction(info: GeyserTransactionInfo, slot: number): ParsedTransactionWithMeta | null {
+  const message = info.transaction?.message;
+  const meta = info.meta;
+  if (!message || !meta) return null;
+
+  const keys = [...message.accountKeys, ...meta.loadedWritableAddresses, ...meta.loadedReadonlyAddresses]
+    .map(k => new PublicKey(k));
+  const staticCount = message.accountKeys.length;
+  const header = message.header ?? { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 0 };
+  const writable = (i: number) =>
+    i < header.numRequiredSignatures
+      ? i < header.numRequiredSignatures - header.numReadonlySignedAccounts
+      : i < staticCount
+        ? i < staticCount - header.numReadonlyUnsignedAccounts
+        : i < staticCount + meta.loadedWritableAddresses.length;
+
+  const instruction = (ix: GeyserInstruction): PartiallyDecodedInstruction => ({
+    programId: keys[ix.programIdIndex],
+    accounts: [...ix.accounts].map(i => keys[i]),
+    data: bs58.encode(ix.data),
+  });
+
+  return {
+    slot,
+    blockTime: null,
+    version: message.versioned ? 0 : 'legacy',
+    transaction: {
+      signatures: [bs58.encode(info.signature)],
+      message: {
+        accountKeys: keys.map((pubkey, i) => ({
+          pubkey,
+          signer: i < header.numRequiredSignatures,
+          writable: writable(i),
+          source: i < staticCount ? 'transaction' : 'lookupTable',
+        })),
+        instructions: message.instructions.map(instruction),
+        recentBlockhash: bs58.encode(message.recentBlockhash),
+      },
+    },
+    meta: {
+      err: meta.err ? 'failed' : null,
+      fee: Number(meta.fee),
+      preBalances: meta.preBalances.map(Number),
+      postBalances: meta.postBalances.map(Number),
+      innerInstructions: meta.innerInstructions.map(inner => ({
+        index: inner.index,
+        instructions: inner.instructions.map(instruction),
+      })),
+      logMessages: meta.logMessages,
+      preTokenBalances: tokenBalances(meta.preTokenBalances),
+      postTokenBalances: tokenBalances(meta.postTokenBalances),
+    },
+  };
+}
+
+/**
+ * A Yellowstone (Geyser) gRPC transaction stream filtered to the launch
+ * programs. Transactions arrive whole, so nothing is fetched back from the
+ * RPC except the metadata account for pools' names. A stream that ends,
+ * errors or goes STALL_MS without a transaction is reopened with backoff, and
+ * launches missed meanwhile are backfilled over RPC from the last slot seen.
+ */
+export function geyserSource(options: {
+  url: string;
+  token: string | null;
+  getConnection: () => Connection;
+  // Opens the gRPC client; the Yellowstone package unless given
+  connect?: (url: string, token: string | null) => Promise<GeyserClient>;
+}): PairEventSource {
+  const connect = options.connect ?? createClient;
+  let stream: GeyserStream | null = null;
+  let queue: LaunchQueue | null = null;
+  const cursors = new SlotCursors();
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let healthTimer: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectAttempts = 0;
+  let lastTransactionAt = 0;
+  let running = false;
+
+  async function handleUpdate(update: GeyserUpdate, emit: PairEmitter) {
+    const info = update.transaction?.transaction;
+    if (!info?.meta) return;
+    const slot = Number(update.transaction!.slot);
+    // One stream carries every launch program, so it has seen all of them up to here
+    for (const program of LAUNCH_PROGRAMS) cursors.advance(program, slot, null);
+
+    const programs = launchProgramsInLogs(info.meta.logMessages);
+    if (programs.length === 0) return;
+
+    const tx = toParsedTransaction(info, slot);
+    if (!tx) return;
+    const signature = tx.transaction.signatures[0];
+    const seen = new Set<string>();
+    for (const program of programs) {
+      const event = await pairFromTransaction(options.getConnection(), tx, signature, program);
+      if (event && running && !seen.has(event.tokenMint)) {
+        seen.add(event.tokenMint);
+        emit(event);
+      }
+    }
+  }
+
+  // Closes the current stream, if any, so only the reopened one is ever live
+  function scheduleReconnect(emit: PairEmitter, reason: string) {
+    if (!running || reconnectTimer) return;
+    if (pingTimer) clearInterval(pingTimer);
+    pingTimer = null;
+    const current = stream;
+    stream = null;
+    current?.end();
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempts++);
+    console.warn(`[PairMonitor] Geyser stream ${reason}, reconnecting in ${Math.round(delay / 1000)}s`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      openStream(emit);
+    }, delay);
+  }
+
+  async function catchUp() {
+    cursors.flush();
+    if (!queue) return;
+    const queued = await backfillLaunches(options.getConnection(), queue);
+    if (queued > 0) console.log(`[PairMonitor] Backfilling ${queued} launch transaction(s) missed while disconnected`);
+  }
+
+  function openStream(emit: PairEmitter) {
+    (async () => {
+      const client = await connect(options.url, options.token);
+      const subscription = await client.subscribe();
+      if (!running) {
+        subscription.end();
+        return;
+      }
+      stream = subscription;
+      lastTransactionAt = Date.now();
+
+      subscription.on('data', update => {
+        // Pongs only prove the server answers; transactions prove the subscription works
+        if (!update.transaction) return;
+        lastTransactionAt = Date.now();
+        reconnectAttempts = 0;
+        handleUpdate(update, emit).catch(() => {
+          // Undecodable transaction
+        });
+      });
+      subscription.on('error', error => {
+        console.error('[PairMonitor] Geyser stream error:', error);
+        if (stream === subscription) scheduleReconnect(emit, 'failed');
+      });
+      subscription.on('end', () => {
+        if (stream === subscription) scheduleReconnect(emit, 'ended');
+      });
+
+      const request = {
+        ...EMPTY_REQUEST,
+        transactions: {
+          launches: { vote: false, failed: false, accountInclude: LAUNCH_PROGRAMS, accountExclude: [], accountRequired: [] },
+        },
+        commitment: COMMITMENT_CONFIRMED,
+      };
+      subscription.write(request, error => {
+        if (error) console.error('[PairMonitor] Geyser subscribe failed:', error);
+      });
+      pingTimer = setInterval(() => {
+        subscription.write({ ...EMPTY_REQUEST, ping: { id: 1 } }, () => {});
+      }, PING_INTERVAL_MS);
+
+      // The stream is live by now: a failed backfill is logged, not a reason to reconnect
+      catchUp().catch(error => {
+        console.error('[PairMonitor] Geyser backfill failed:', error);
+      });
+    })().catch(error => {
+      console.error('[PairMonitor] Geyser connection failed:', error);
+      scheduleReconnect(emit, 'could not open');
+    });
+  }
+
+  function checkHealth(emit: PairEmitter) {
+    try {
+      cursors.flush();
+    } catch (error) {
+      console.error('[PairMonitor] Saving cursors failed:', error);
+    }
+    if (stream && Date.now() - lastTransactionAt > STALL_MS) {
+      scheduleReconnect(emit, `stalled for ${Math.round((Date.now() - lastTransactionAt) / 1000)}s`);
+    }
+  }
+
+  return {
+    name: 'geyser-grpc',
+    start(emit) {
+      running = true;
+      queue = createLaunchQueue(options.getConnection, event => {
+        if (running) emit(event);
+      });
+      healthTimer = setInterval(() => checkHealth(emit), HEALTH_CHECK_MS);
+      openStream(emit);
+    },
+    stop() {
+      running = false;
+      for (const timer of [pingTimer, healthTimer]) if (timer) clearInterval(timer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      pingTimer = null;
+      healthTimer = null;
+      reconnectTimer = null;
+      stream?.end();
+      stream = null;
+      queue?.clear();
+      queue = null;
+      try {
+        cursors.flush();
+      } catch {
+        // Resumes from the previous flush
+      }
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { config } from '../../config/env.js';
+import { createConnection, getConnection } from '../../config/rpc.js';
+import { geyserSource } from './geyser.js';
+import { replaySource } from './replay.js';
+import { rpcLogsSource } from './rpc-logs.js';
+import type { PairEventSource } from './types.js';
+
+export { geyserSource, toParsedTransaction } from './geyser.js';
+export { replaySource } from './replay.js';
+export { rpcLogsSource } from './rpc-logs.js';
+export { backfillLaunches, SlotCursors } from './backfill.js';
+export { createLaunchQueue, type LaunchQueue } from './queue.js';
+export type { PairEmitter, PairEventSource } from './types.js';
+
+// The source PAIR_SOURCE selects; one whose settings are missing falls back to RPC logs
+export function createPairEventSource(): PairEventSource {
+  const { source, grpcUrl, grpcToken, replayFile, replaySpeed } = config.pairMonitor;
+  if (source === 'grpc' && grpcUrl) {
+    return geyserSource({ url: grpcUrl, token: grpcToken, getConnection });
+  }
+  if (source === 'replay' && replayFile) {
+    return replaySource({ file: replayFile, speed: replaySpeed });
+  }
+  if (source !== 'rpc') {
+    console.warn(`[PairMonitor] PAIR_SOURCE=${source} is missing its settings, using RPC log subscriptions`);
+  }
+  return rpcLogsSource(createConnection);
+}
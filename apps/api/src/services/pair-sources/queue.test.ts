@@ -0,0 +1,77 @@
+import type { Connection } from '@solana/web3.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NewPairEvent } from '@trenchable/shared';
+import { fetchNewPair } from '../launches/index.js';
+import { createLaunchQueue } from './queue.js';
+
+vi.mock('../launches/index.js', () => ({ fetchNewPair: vi.fn() }));
+
+const connection = {} as Connection;
+
+// fetchNewPair calls held open until released
+let inFlight: { signature: string; resolve: (event: NewPairEvent | null) => void; reject: (error: Error) => void }[] = [];
+
+function pair(signature: string): NewPairEvent {
+  return { signature } as unknown as NewPairEvent;
+}
+
+async function release(count = inFlight.length, outcome: (signature: string) => NewPairEvent | null | Error = pair) {
+  for (const call of inFlight.splice(0, count)) {
+    const result = outcome(call.signature);
+    if (result instanceof Error) call.reject(result);
+    else call.resolve(result);
+  }
+  // Let the .then/.finally chains run and refill
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+describe('createLaunchQueue', () => {
+  beforeEach(() => {
+    inFlight = [];
+    vi.mocked(fetchNewPair).mockReset();
+    vi.mocked(fetchNewPair).mockImplementation((_c, signature) =>
+      new Promise((resolve, reject) => inFlight.push({ signature, resolve, reject })));
+  });
+
+  it('decodes four at a time, in order, and emits only launches', async () => {
+    const emitted: string[] = [];
+    const queue = createLaunchQueue(() => connection, event => emitted.push(event.signature));
+    for (let i = 1; i <= 6; i++) queue.enqueue(`sig${i}`, 'Program');
+
+    expect(inFlight.map(c => c.signature)).toEqual(['sig1', 'sig2', 'sig3', 'sig4']);
+    await release(2, signature => (signature === 'sig1' ? null : new Error('Transaction unavailable')));
+    expect(inFlight.map(c => c.signature)).toEqual(['sig3', 'sig4', 'sig5', 'sig6']);
+    await release();
+    expect(emitted).toEqual(['sig3', 'sig4', 'sig5', 'sig6']);
+  });
+
+  it('skips signatures the live stream and a backfill both deliver', async () => {
+    const queue = createLaunchQueue(() => connection, () => {});
+    queue.enqueue('sig1', 'Program');
+    queue.enqueue('sig1', 'Program', true);
+    await release();
+    queue.enqueue('sig1', 'Program');
+    expect(fetchNewPair).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops live candidates past the cap but keeps backfilled ones', async () => {
+    const queue = createLaunchQueue(() => connection, () => {});
+    // Four decoding and 200 waiting: the 205th is dropped
+    for (let i = 0; i < 205; i++) queue.enqueue(`live${i}`, 'Program');
+    queue.enqueue('backfill', 'Program', true);
+    while (inFlight.length > 0) await release();
+
+    const decoded = vi.mocked(fetchNewPair).mock.calls.map(([, signature]) => signature);
+    expect(decoded).toHaveLength(205);
+    expect(decoded.at(-1)).toBe('backfill');
+    expect(decoded).not.toContain('live204');
+  });
+
+  it('drops waiting candidates on clear', async () => {
+    const queue = createLaunchQueue(() => connection, () => {});
+    for (let i = 0; i < 10; i++) queue.enqueue(`sig${i}`, 'Program');
+    queue.clear();
+    await release();
+    expect(fetchNewPair).toHaveBeenCalledTimes(4);
+  });
+});
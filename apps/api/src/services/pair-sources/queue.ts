@@ -0,0 +1,57 @@
+import type { Connection } from '@solana/web3.js';
+import { fetchNewPair } from '../launches/index.js';
+import type { PairEmitter } from './types.js';
+
+// Live candidates waiting to be fetched and decoded; past the cap, new ones are dropped
+const MAX_PENDING = 200;
+const DECODE_CONCURRENCY = 4;
+// Signatures remembered to skip ones a backfill and the live stream both deliver
+const SEEN_SIGNATURES = 5_000;
+
+export interface LaunchQueue {
+  // `backfill` candidates skip the cap: they were already bounded when found
+  enqueue(signature: string, program: string, backfill?: boolean): void;
+  clear(): void;
+}
+
+/**
+ * Fetches and decodes candidate launch transactions a few at a time, handing
+ * each launch found to `onPair`.
+ */
+export function createLaunchQueue(getConnection: () => Connection, onPair: PairEmitter): LaunchQueue {
+  const pending: { signature: string; program: string }[] = [];
+  const seen = new Set<string>();
+  let decoding = 0;
+
+  function drain() {
+    while (decoding < DECODE_CONCURRENCY && pending.length > 0) {
+      const { signature, program } = pending.shift()!;
+      decoding++;
+      fetchNewPair(getConnection(), signature, program)
+        .then(event => {
+          if (event) onPair(event);
+        })
+        .catch(() => {
+          // Transaction unavailable
+        })
+        .finally(() => {
+          decoding--;
+          drain();
+        });
+    }
+  }
+
+  return {
+    enqueue(signature, program, backfill = false) {
+      if (seen.has(signature) || (!backfill && pending.length >= MAX_PENDING)) return;
+      seen.add(signature);
+      // Sets iterate in insertion order, so the first entry is the oldest
+      if (seen.size > SEEN_SIGNATURES) seen.delete(seen.values().next().value!);
+      pending.push({ signature, program });
+      drain();
+    },
+    clear() {
+      pending.length = 0;
+    },
+  };
+}
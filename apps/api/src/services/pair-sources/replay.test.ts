@@ -0,0 +1,50 @@
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { NewPairEvent } from '@trenchable/shared';
+import { replaySource } from './replay.js';
+
+const LAUNCH_DAY = fileURLToPath(new URL('./__fixtures__/launch-day.jsonl', import.meta.url));
+
+describe('replaySource', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the recorded pairs in order, skipping lines that are not pairs', async () => {
+    const source = replaySource({ file: LAUNCH_DAY, speed: 0 });
+    const events: NewPairEvent[] = [];
+    source.start(event => events.push(event));
+
+    await vi.waitFor(() => expect(events).toHaveLength(4));
+    source.stop();
+    expect(events.map(e => e.platform)).toEqual(['pump.fun', 'raydium', 'pumpswap', 'meteora']);
+    expect(events[0].timestamp).toBe(1789394400000);
+  });
+
+  it('keeps the recorded gaps, shrunk by the speed', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const source = replaySource({ file: LAUNCH_DAY, speed: 10 });
+    const events: NewPairEvent[] = [];
+    source.start(event => events.push(event));
+
+    await vi.waitFor(() => expect(events).toHaveLength(1), { interval: 1 });
+    // The second pair was recorded 2.4s after the first
+    await vi.advanceTimersByTimeAsync(200);
+    expect(events).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(events).toHaveLength(2);
+    source.stop();
+  });
+
+  it('stops mid-wait without emitting again', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const source = replaySource({ file: LAUNCH_DAY, speed: 1 });
+    const events: NewPairEvent[] = [];
+    source.start(event => events.push(event));
+
+    await vi.waitFor(() => expect(events).toHaveLength(1), { interval: 1 });
+    source.stop();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(events).toHaveLength(1);
+  });
+});
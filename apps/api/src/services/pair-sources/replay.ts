@@ -0,0 +1,65 @@
+import { createReadStream } from 'fs';
+import { basename } from 'path';
+import { createInterface } from 'readline';
+import type { NewPairEvent } from '@trenchable/shared';
+import type { PairEventSource } from './types.js';
+
+/**
+ * Pairs read back from a JSONL file, one NewPairEvent per line — what the
+ * monitor writes with PAIR_RECORD_FILE. `speed` 1 keeps the recorded gaps
+ * between events, 10 shrinks them tenfold, 0 replays as fast as possible.
+ * Events keep their recorded timestamps.
+ */
+export function replaySource(options: { file: string; speed: number }): PairEventSource {
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let wake: (() => void) | null = null;
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    wake = resolve;
+    timer = setTimeout(resolve, ms);
+  });
+
+  return {
+    name: `replay:${basename(options.file)}`,
+    start(emit) {
+      running = true;
+      (async () => {
+        const lines = createInterface({ input: createReadStream(options.file), crlfDelay: Infinity });
+        let previous: number | null = null;
+        let replayed = 0;
+
+        for await (const line of lines) {
+          if (!running) break;
+          if (!line.trim()) continue;
+
+          let event: NewPairEvent;
+          try {
+            event = JSON.parse(line);
+          } catch {
+            continue;
+          }
+          if (event?.type !== 'new_pair' || typeof event.tokenMint !== 'string') continue;
+
+          // Yield between events even at full speed, so listeners' work interleaves
+          const gap = options.speed > 0 && previous !== null ? Math.max(0, event.timestamp - previous) / options.speed : 0;
+          await wait(gap);
+          previous = event.timestamp;
+          if (!running) break;
+          emit(event);
+          replayed++;
+        }
+        lines.close();
+        console.log(`[PairMonitor] Replay of ${basename(options.file)} finished: ${replayed} pairs`);
+      })().catch(error => console.error('[PairMonitor] Replay failed:', error));
+    },
+    stop() {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      // Let a pending wait return so the file is closed
+      wake?.();
+      wake = null;
+    },
+  };
+}
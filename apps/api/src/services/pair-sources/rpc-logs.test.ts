@@ -0,0 +1,85 @@
+import type { Connection, Context, Logs } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import { rpcLogsSource } from './rpc-logs.js';
+
+type LogsCallback = (logs: Logs, ctx: Context) => void;
+
+// Connections handed out by the source, each with its log subscriptions
+function connections() {
+  const opened: { at: number; subscriptions: Map<string, LogsCallback> }[] = [];
+  const connect = () => {
+    const subscriptions = new Map<string, LogsCallback>();
+    opened.push({ at: Date.now(), subscriptions });
+    return {
+      onLogs: (program: { toBase58(): string }, callback: LogsCallback) => {
+        subscriptions.set(program.toBase58(), callback);
+        return subscriptions.size;
+      },
+      removeOnLogsListener: async () => {},
+      getSignaturesForAddress: async () => [],
+    } as unknown as Connection;
+  };
+  return { opened, connect };
+}
+
+// A pump.fun trade: proves the socket is alive without being a launch
+function notify(subscriptions: Map<string, LogsCallback>, slot: number) {
+  subscriptions.get(PROGRAM_IDS.PUMP_FUN)!({ signature: `sig${slot}`, err: null, logs: ['Program log: Instruction: Buy'] }, { slot });
+}
+
+describe('rpcLogsSource', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off while reconnects bring no notifications, and resets once one arrives', async () => {
+    const { opened, connect } = connections();
+    const source = rpcLogsSource(connect);
+    source.start(() => {});
+    const start = Date.now();
+
+    // Stalls are seen on the 15s health check after a minute of silence, then the delay doubles
+    await vi.advanceTimersByTimeAsync(4 * 60_000);
+    expect(opened.map(c => c.at - start)).toEqual([0, 76_000, 152_000, 229_000]);
+
+    // A notification on the latest connection proves it works: the next stall starts over at 1s
+    const delays = () => vi.mocked(console.warn).mock.calls.map(([message]) => String(message).match(/in (\d+)s$/)?.[1]);
+    expect(delays()).toEqual(['1', '2', '4']);
+    notify(opened[3].subscriptions, 1_000);
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    expect(opened).toHaveLength(5);
+    expect(delays()).toEqual(['1', '2', '4', '1']);
+    source.stop();
+  });
+
+  it('does not reconnect while notifications keep arriving', async () => {
+    const { opened, connect } = connections();
+    const source = rpcLogsSource(connect);
+    source.start(() => {});
+
+    for (let slot = 1; slot <= 10; slot++) {
+      await vi.advanceTimersByTimeAsync(30_000);
+      notify(opened[0].subscriptions, slot);
+    }
+    expect(opened).toHaveLength(1);
+    source.stop();
+  });
+
+  it('stops a pending reconnect', async () => {
+    const { opened, connect } = connections();
+    const source = rpcLogsSource(connect);
+    source.start(() => {});
+
+    await vi.advanceTimersByTimeAsync(75_000);
+    source.stop();
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(opened).toHaveLength(1);
+  });
+});
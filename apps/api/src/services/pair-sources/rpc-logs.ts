@@ -0,0 +1,123 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { LAUNCH_LOG_PATTERNS } from '../launches/index.js';
+import { backfillLaunches, SlotCursors } from './backfill.js';
+import { createLaunchQueue, type LaunchQueue } from './queue.js';
+import type { PairEventSource } from './types.js';
+
+const HEALTH_CHECK_MS = 15_000;
+// pump.fun alone logs several transactions a second, so a minute of silence means the socket is gone
+const STALL_MS = 60_000;
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 5 * 60_000;
+
+/**
+ * `onLogs` subscriptions on every launch program. Notifications carry only a
+ * signature, so each candidate costs a getParsedTransaction.
+ *
+ * Public RPCs drop sockets and notifications without saying so. When nothing
+ * has arrived for STALL_MS the subscriptions are rebuilt on a fresh
+ * connection, backing off while that keeps failing, and the launches missed
+ * in between are backfilled from the last slot seen.
+ */
+export function rpcLogsSource(connect: () => Connection): PairEventSource {
+  let connection: Connection | null = null;
+  let queue: LaunchQueue | null = null;
+  let subscriptionIds: number[] = [];
+  const cursors = new SlotCursors();
+  let running = false;
+  let lastNotificationAt = 0;
+  let reconnectAttempts = 0;
+  let healthTimer: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function subscribe() {
+    const conn = connect();
+    connection = conn;
+    lastNotificationAt = Date.now();
+    for (const { program, pattern } of LAUNCH_LOG_PATTERNS) {
+      const subscriptionId = conn.onLogs(
+        new PublicKey(program),
+        (logs, ctx) => {
+          lastNotificationAt = Date.now();
+          // Only a notification proves the connection works; subscribing alone doesn't
+          reconnectAttempts = 0;
+          cursors.advance(program, ctx.slot, logs.signature);
+          if (logs.err || !logs.logs.some(log => pattern.test(log))) return;
+          queue?.enqueue(logs.signature, program);
+        },
+        'confirmed'
+      );
+      subscriptionIds.push(subscriptionId);
+    }
+  }
+
+  function unsubscribe() {
+    const conn = connection;
+    for (const id of subscriptionIds) {
+      conn?.removeOnLogsListener(id).catch(() => {});
+    }
+    subscriptionIds = [];
+  }
+
+  // Queue the launches since the last slot written; the live stream keeps running meanwhile
+  async function catchUp() {
+    cursors.flush();
+    if (!connection || !queue) return;
+    const queued = await backfillLaunches(connection, queue);
+    if (queued > 0) console.log(`[PairMonitor] Backfilling ${queued} launch transaction(s) missed while disconnected`);
+  }
+
+  function reconnect() {
+    unsubscribe();
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempts++);
+    console.warn(
+      `[PairMonitor] No log notifications for ${Math.round((Date.now() - lastNotificationAt) / 1000)}s, ` +
+      `reconnecting in ${Math.round(delay / 1000)}s`
+    );
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (!running) return;
+      subscribe();
+      catchUp().catch(() => {});
+    }, delay);
+  }
+
+  function checkHealth() {
+    try {
+      cursors.flush();
+    } catch (error) {
+      console.error('[PairMonitor] Saving cursors failed:', error);
+    }
+    if (reconnectTimer) return;
+    if (Date.now() - lastNotificationAt > STALL_MS) reconnect();
+  }
+
+  return {
+    name: 'rpc-logs',
+    start(emit) {
+      running = true;
+      queue = createLaunchQueue(() => connection ?? connect(), event => {
+        if (running) emit(event);
+      });
+      subscribe();
+      healthTimer = setInterval(checkHealth, HEALTH_CHECK_MS);
+      // Launches made while the process was down
+      catchUp().catch(() => {});
+    },
+    stop() {
+      running = false;
+      if (healthTimer) clearInterval(healthTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      healthTimer = null;
+      reconnectTimer = null;
+      unsubscribe();
+      queue?.clear();
+      queue = null;
+      try {
+        cursors.flush();
+      } catch {
+        // Resumes from the previous flush
+      }
+    },
+  };
+}
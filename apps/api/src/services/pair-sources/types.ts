@@ -0,0 +1,15 @@
+import type { NewPairEvent } from '@trenchable/shared';
+
+export type PairEmitter = (event: NewPairEvent) => void;
+
+/**
+ * Where the pair monitor's events come from. A source runs between start()
+ * and stop() and hands every decoded launch to `emit`; it owns its own
+ * connection, so a dropped subscription or a finished replay stays inside it.
+ */
+export interface PairEventSource {
+  // For logs, e.g. "rpc-logs" or "replay:launches.jsonl"
+  readonly name: string;
+  start(emit: PairEmitter): void;
+  stop(): void;
+}
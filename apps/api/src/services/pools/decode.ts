@@ -0,0 +1,37 @@
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+export function readKey(data: Buffer, offset: number): PublicKey {
+  return new PublicKey(data.subarray(offset, offset + 32));
+}
+
+export function readU128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+// Anchor discriminator: first 8 bytes of sha256("<namespace>:<name>"), where the
+// namespace is "account" for account types, "global" for instructions and
+// "event" for events
+function discriminatorBytes(name: string, namespace = 'account'): Buffer {
+  return createHash('sha256').update(`${namespace}:${name}`).digest().subarray(0, 8);
+}
+
+// Base58-encoded, for getProgramAccounts memcmp filters
+export function anchorAccountDiscriminator(name: string): string {
+  return bs58.encode(discriminatorBytes(name));
+}
+
+export function hasAnchorDiscriminator(data: Buffer, name: string): boolean {
+  return data.length >= 8 && data.subarray(0, 8).equals(discriminatorBytes(name));
+}
+
+// Instruction data for the snake_case instruction `name`
+export function isAnchorInstruction(data: Buffer, name: string): boolean {
+  return data.length >= 8 && data.subarray(0, 8).equals(discriminatorBytes(name, 'global'));
+}
+
+// Event data (after any self-CPI tag) for the event type `name`
+export function isAnchorEvent(data: Buffer, name: string): boolean {
+  return data.length >= 8 && data.subarray(0, 8).equals(discriminatorBytes(name, 'event'));
+}
@@ -0,0 +1,51 @@
+import type { Connection, PublicKey } from '@solana/web3.js';
+import type { Pool } from './types.js';
+import { findRaydiumV4Pools, findRaydiumCpmmPools } from './raydium.js';
+import { findPumpSwapPools } from './pump-swap.js';
+import { findMeteoraDammPools, findMeteoraDlmmPairs, analyzeDlmmPair } from './meteora.js';
+import { analyzeLpPool, type LpAnalysis } from './lp-analysis.js';
+
+export * from './types.js';
+export { analyzeLpPool, pctOf, type LpAnalysis, type LpHolder } from './lp-analysis.js';
+export { loadMeteoraPools } from './meteora.js';
+export { getTokenReserves } from './reserves.js';
+
+// Discovery order doubles as preference order: graduated pump.fun tokens land on
+// PumpSwap, newer Raydium launches on CPMM, older ones on V4, then Meteora.
+const FINDERS: ((connection: Connection, mint: PublicKey) => Promise<Pool[]>)[] = [
+  findPumpSwapPools,
+  findRaydiumCpmmPools,
+  findRaydiumV4Pools,
+  findMeteoraDammPools,
+  findMeteoraDlmmPairs,
+];
+
+/**
+ * Find every liquidity pool for a mint across the supported AMMs.
+ * An AMM whose lookup fails (e.g. getProgramAccounts disabled on the RPC) is skipped.
+ */
+export async function findLpPools(connection: Connection, mint: PublicKey): Promise<Pool[]> {
+  const results = await Promise.all(
+    FINDERS.map(find => find(connection, mint).catch(() => [] as Pool[]))
+  );
+  return results.flat();
+}
+
+// LP-mint pools and DLMM pairs track liquidity ownership differently
+export function analyzePool(connection: Connection, pool: Pool): Promise<LpAnalysis> {
+  return pool.amm === 'meteora-dlmm'
+    ? analyzeDlmmPair(connection, pool)
+    : analyzeLpPool(connection, pool);
+}
+
+// Pool discovery is shared by LP_STATUS and platform detection within one scan
+const scanPools = new WeakMap<object, Promise<Pool[]>>();
+
+export function findLpPoolsCached(ctx: { connection: Connection; tokenMint: PublicKey }): Promise<Pool[]> {
+  let pools = scanPools.get(ctx);
+  if (!pools) {
+    pools = findLpPools(ctx.connection, ctx.tokenMint);
+    scanPools.set(ctx, pools);
+  }
+  return pools;
+}
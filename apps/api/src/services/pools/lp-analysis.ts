@@ -0,0 +1,101 @@
+import type { Connection, PublicKey } from '@solana/web3.js';
+import { getMint, unpackAccount } from '@solana/spl-token';
+import { hasLabel } from '../address-labels.service.js';
+import type { LpPool } from './types.js';
+
+export type LpHolderKind = 'burn' | 'locker' | 'creator' | 'other';
+
+export interface LpHolder {
+  owner: string;
+  amount: string;
+  pct: number;
+  kind: LpHolderKind;
+}
+
+export interface LpAnalysis {
+  lpSupply: string;        // Current LP mint supply
+  mintedSupply: string;    // LP ever issued (pool's own counter, or mint supply)
+  burnedPct: number;       // Burned via SPL burn or sent to the incinerator
+  lockedPct: number;       // Held by a known LP locker
+  removablePct: number;    // Everything else — can be withdrawn by whoever holds it
+  creatorPct: number | null; // Removable share held by the pool creator (null if creator unknown)
+  holders: LpHolder[];     // Largest LP holders, classified
+}
+
+export function pctOf(part: bigint, whole: bigint): number {
+  if (whole === 0n) return 0;
+  return Number((part * 10_000n) / whole) / 100;
+}
+
+/**
+ * Work out where a pool's LP tokens are: burned, locked, or in a wallet that can
+ * pull liquidity. Only the largest holders are classified; the long tail is
+ * treated as removable.
+ */
+export async function analyzeLpPool(connection: Connection, pool: LpPool): Promise<LpAnalysis> {
+  const lpMintInfo = await getMint(connection, pool.lpMint);
+  const supply = lpMintInfo.supply;
+  const minted = pool.poolLpSupply != null && pool.poolLpSupply > supply ? pool.poolLpSupply : supply;
+
+  let burned = minted - supply;
+  let locked = 0n;
+  let creatorHeld = 0n;
+  const holders: LpHolder[] = [];
+
+  if (supply > 0n) {
+    const largest = await connection.getTokenLargestAccounts(pool.lpMint);
+    const accounts = largest.value.filter(a => BigInt(a.amount) > 0n);
+    const infos = await connection.getMultipleAccountsInfo(accounts.map(a => a.address));
+
+    const owners = accounts.map((a, i) => {
+      const info = infos[i];
+      if (!info) return null;
+      try {
+        return unpackAccount(a.address, info, info.owner).owner;
+      } catch {
+        return null;
+      }
+    });
+
+    // Lockers hold LP through PDAs or escrow accounts owned by the locker program
+    const ownerKeys = owners.filter((o): o is PublicKey => o !== null);
+    const ownerInfos = ownerKeys.length > 0 ? await connection.getMultipleAccountsInfo(ownerKeys) : [];
+    const ownerPrograms = new Map<string, string>();
+    ownerKeys.forEach((o, i) => {
+      const info = ownerInfos[i];
+      if (info) ownerPrograms.set(o.toBase58(), info.owner.toBase58());
+    });
+
+    accounts.forEach((a, i) => {
+      const owner = owners[i]?.toBase58() ?? a.address.toBase58();
+      const amount = BigInt(a.amount);
+
+      let kind: LpHolderKind = 'other';
+      if (hasLabel(owner, 'burn')) {
+        kind = 'burn';
+        burned += amount;
+      } else if (hasLabel(owner, 'locker') || hasLabel(ownerPrograms.get(owner) ?? '', 'locker')) {
+        kind = 'locker';
+        locked += amount;
+      } else if (pool.creator && owner === pool.creator.toBase58()) {
+        kind = 'creator';
+        creatorHeld += amount;
+      }
+
+      holders.push({ owner, amount: amount.toString(), pct: pctOf(amount, minted), kind });
+    });
+  }
+
+  const burnedPct = pctOf(burned, minted);
+  const lockedPct = pctOf(locked, minted);
+
+  return {
+    lpSupply: supply.toString(),
+    mintedSupply: minted.toString(),
+    burnedPct,
+    lockedPct,
+    removablePct: minted === 0n ? 0 : Math.max(0, Math.round((100 - burnedPct - lockedPct) * 100) / 100),
+    creatorPct: pool.creator ? pctOf(creatorHeld, minted) : null,
+    holders,
+  };
+}
@@ -0,0 +1,203 @@
+import { PublicKey, type AccountInfo, type Connection } from '@solana/web3.js';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import type { DlmmPair, LpPool, Pool } from './types.js';
+import { pctOf, type LpAnalysis, type LpHolder } from './lp-analysis.js';
+import { readKey, readU128, anchorAccountDiscriminator, hasAnchorDiscriminator } from './decode.js';
+
+// ─── Meteora DAMM v1 (Pool, Anchor) ───
+// lp_mint 8, token_a_mint 40, token_b_mint 72, a_vault 104, b_vault 136.
+// Reserves sit in Meteora vaults rather than pool token accounts, and the pool
+// keeps no LP counter, so burns are only visible as incinerator holdings.
+
+const DAMM_POOL_DISCRIMINATOR = anchorAccountDiscriminator('Pool');
+const DAMM_LP_MINT = 8;
+const DAMM_MINT_A = 40;
+const DAMM_MINT_B = 72;
+const DAMM_MIN_SIZE = 168;
+
+function decodeDammPool(address: PublicKey, data: Buffer): LpPool {
+  return {
+    amm: 'meteora-damm',
+    address,
+    baseMint: readKey(data, DAMM_MINT_A),
+    quoteMint: readKey(data, DAMM_MINT_B),
+    lpMint: readKey(data, DAMM_LP_MINT),
+    baseVault: null,
+    quoteVault: null,
+    poolLpSupply: null,
+    creator: null,
+  };
+}
+
+export async function findMeteoraDammPools(connection: Connection, mint: PublicKey): Promise<LpPool[]> {
+  const programId = new PublicKey(PROGRAM_IDS.METEORA_DAMM);
+  const bySide = await Promise.all([DAMM_MINT_A, DAMM_MINT_B].map(offset =>
+    connection.getProgramAccounts(programId, {
+      filters: [
+        { memcmp: { offset: 0, bytes: DAMM_POOL_DISCRIMINATOR } },
+        { memcmp: { offset, bytes: mint.toBase58() } },
+      ],
+    })
+  ));
+  return bySide.flat()
+    .filter(a => a.account.data.length >= DAMM_MIN_SIZE)
+    .map(a => decodeDammPool(a.pubkey, a.account.data));
+}
+
+// ─── Meteora DLMM (LbPair, 904 bytes, Anchor) ───
+// activation_type u8 86, token_x_mint 88, token_y_mint 120, reserve_x 152,
+// reserve_y 184, creator 848
+
+const LB_PAIR_SIZE = 904;
+const LB_ACTIVATION_TYPE = 86;
+const LB_MINT_X = 88;
+const LB_MINT_Y = 120;
+const LB_RESERVE_X = 152;
+const LB_RESERVE_Y = 184;
+const LB_CREATOR = 848;
+
+function decodeLbPair(address: PublicKey, data: Buffer): DlmmPair {
+  return {
+    amm: 'meteora-dlmm',
+    address,
+    baseMint: readKey(data, LB_MINT_X),
+    quoteMint: readKey(data, LB_MINT_Y),
+    baseVault: readKey(data, LB_RESERVE_X),
+    quoteVault: readKey(data, LB_RESERVE_Y),
+    creator: readKey(data, LB_CREATOR),
+    activationType: data[LB_ACTIVATION_TYPE],
+  };
+}
+
+export async function findMeteoraDlmmPairs(connection: Connection, mint: PublicKey): Promise<DlmmPair[]> {
+  const programId = new PublicKey(PROGRAM_IDS.METEORA_DLMM);
+  const bySide = await Promise.all([LB_MINT_X, LB_MINT_Y].map(offset =>
+    connection.getProgramAccounts(programId, {
+      filters: [
+        { dataSize: LB_PAIR_SIZE },
+        { memcmp: { offset, bytes: mint.toBase58() } },
+      ],
+    })
+  ));
+  return bySide.flat().map(a => decodeLbPair(a.pubkey, a.account.data));
+}
+
+/**
+ * Decode Meteora pool accounts already known by address (e.g. DexScreener pair
+ * addresses), skipping anything that isn't a DAMM pool or DLMM pair.
+ */
+export async function loadMeteoraPools(connection: Connection, addresses: PublicKey[]): Promise<Pool[]> {
+  if (addresses.length === 0) return [];
+  const infos = await connection.getMultipleAccountsInfo(addresses);
+  const pools: Pool[] = [];
+  infos.forEach((info, i) => {
+    const pool = info ? decodeMeteoraAccount(addresses[i], info) : null;
+    if (pool) pools.push(pool);
+  });
+  return pools;
+}
+
+function decodeMeteoraAccount(address: PublicKey, info: AccountInfo<Buffer>): Pool | null {
+  const program = info.owner.toBase58();
+  if (program === PROGRAM_IDS.METEORA_DLMM && info.data.length === LB_PAIR_SIZE) {
+    return decodeLbPair(address, info.data);
+  }
+  if (
+    program === PROGRAM_IDS.METEORA_DAMM &&
+    info.data.length >= DAMM_MIN_SIZE &&
+    hasAnchorDiscriminator(info.data, 'Pool')
+  ) {
+    return decodeDammPool(address, info.data);
+  }
+  return null;
+}
+
+// ─── Meteora DLMM positions (PositionV2, 8120 bytes, Anchor) ───
+// lb_pair 8, owner 40, liquidity_shares [u128; 70] 72, lock_release_point u64 7992.
+// Shares are minted in liquidity units (price * x + y) as a bin is filled, so
+// summing them across bins approximates each position's value in the quote token.
+
+const POSITION_SIZE = 8120;
+const POSITION_LB_PAIR = 8;
+const POSITION_OWNER = 40;
+const POSITION_SHARES = 72;
+const POSITION_BINS = 70;
+const POSITION_LOCK_RELEASE = 7992;
+
+// Activation type 1 measures lock release points in unix seconds, 0 in slots
+async function currentReleasePoint(connection: Connection, activationType: number): Promise<bigint> {
+  if (activationType === 1) return BigInt(Math.floor(Date.now() / 1000));
+  return BigInt(await connection.getSlot());
+}
+
+/**
+ * Work out who owns a DLMM pair's liquidity. There is no LP mint — each position
+ * belongs to one owner and is removable by them unless it carries an unexpired
+ * lock. Nothing can be burned, so burnedPct is always 0.
+ */
+export async function analyzeDlmmPair(connection: Connection, pair: DlmmPair): Promise<LpAnalysis> {
+  const [positions, now] = await Promise.all([
+    connection.getProgramAccounts(new PublicKey(PROGRAM_IDS.METEORA_DLMM), {
+      filters: [
+        { dataSize: POSITION_SIZE },
+        { memcmp: { offset: POSITION_LB_PAIR, bytes: pair.address.toBase58() } },
+      ],
+    }),
+    currentReleasePoint(connection, pair.activationType),
+  ]);
+
+  let total = 0n;
+  let locked = 0n;
+  let creatorHeld = 0n;
+  const byOwner = new Map<string, { unlocked: bigint; locked: bigint }>();
+
+  for (const { account } of positions) {
+    const data = account.data;
+    let shares = 0n;
+    for (let i = 0; i < POSITION_BINS; i++) {
+      shares += readU128(data, POSITION_SHARES + i * 16);
+    }
+    if (shares === 0n) continue;
+
+    const owner = readKey(data, POSITION_OWNER).toBase58();
+    const isLocked = data.readBigUInt64LE(POSITION_LOCK_RELEASE) > now;
+    const entry = byOwner.get(owner) ?? { unlocked: 0n, locked: 0n };
+    if (isLocked) {
+      entry.locked += shares;
+      locked += shares;
+    } else {
+      entry.unlocked += shares;
+    }
+    byOwner.set(owner, entry);
+    total += shares;
+  }
+
+  const creator = pair.creator?.toBase58();
+  const holders: LpHolder[] = [];
+  for (const [owner, { unlocked, locked: ownerLocked }] of byOwner) {
+    if (ownerLocked > 0n) {
+      holders.push({ owner, amount: ownerLocked.toString(), pct: pctOf(ownerLocked, total), kind: 'locker' });
+    }
+    if (unlocked > 0n) {
+      if (owner === creator) creatorHeld += unlocked;
+      holders.push({
+        owner,
+        amount: unlocked.toString(),
+        pct: pctOf(unlocked, total),
+        kind: owner === creator ? 'creator' : 'other',
+      });
+    }
+  }
+  holders.sort((a, b) => b.pct - a.pct);
+
+  const lockedPct = pctOf(locked, total);
+  return {
+    lpSupply: total.toString(),
+    mintedSupply: total.toString(),
+    burnedPct: 0,
+    lockedPct,
+    removablePct: total === 0n ? 0 : Math.round((100 - lockedPct) * 100) / 100,
+    creatorPct: creator ? pctOf(creatorHeld, total) : null,
+    holders: holders.slice(0, 20),
+  };
+}
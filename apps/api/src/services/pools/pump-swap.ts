@@ -0,0 +1,47 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import type { LpPool } from './types.js';
+import { readKey, anchorAccountDiscriminator } from './decode.js';
+
+// ─── PumpSwap AMM (Pool, Anchor) ───
+// pool_bump u8 8, index u16 9, creator 11, base_mint 43, quote_mint 75, lp_mint 107,
+// pool_base_token_account 139, pool_quote_token_account 171, lp_supply u64 203.
+// The account has grown over time (coin_creator etc.), so match on discriminator, not size.
+
+const POOL_DISCRIMINATOR = anchorAccountDiscriminator('Pool');
+const CREATOR = 11;
+const BASE_MINT = 43;
+const QUOTE_MINT = 75;
+const LP_MINT = 107;
+const BASE_VAULT = 139;
+const QUOTE_VAULT = 171;
+const LP_SUPPLY = 203;
+
+function decodePool(address: PublicKey, data: Buffer): LpPool {
+  return {
+    amm: 'pumpswap',
+    address,
+    baseMint: readKey(data, BASE_MINT),
+    quoteMint: readKey(data, QUOTE_MINT),
+    lpMint: readKey(data, LP_MINT),
+    baseVault: readKey(data, BASE_VAULT),
+    quoteVault: readKey(data, QUOTE_VAULT),
+    poolLpSupply: data.readBigUInt64LE(LP_SUPPLY),
+    creator: readKey(data, CREATOR),
+  };
+}
+
+export async function findPumpSwapPools(connection: Connection, mint: PublicKey): Promise<LpPool[]> {
+  const programId = new PublicKey(PROGRAM_IDS.PUMP_SWAP_AMM);
+  const bySide = await Promise.all([BASE_MINT, QUOTE_MINT].map(offset =>
+    connection.getProgramAccounts(programId, {
+      filters: [
+        { memcmp: { offset: 0, bytes: POOL_DISCRIMINATOR } },
+        { memcmp: { offset, bytes: mint.toBase58() } },
+      ],
+    })
+  ));
+  return bySide.flat()
+    .filter(a => a.account.data.length >= LP_SUPPLY + 8)
+    .map(a => decodePool(a.pubkey, a.account.data));
+}
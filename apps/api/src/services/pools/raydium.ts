@@ -0,0 +1,83 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { PROGRAM_IDS } from '@trenchable/shared';
+import type { LpPool } from './types.js';
+import { readKey } from './decode.js';
+
+// ─── Raydium V4 (AmmInfo, 752 bytes) ───
+// baseVault 336, quoteVault 368, baseMint 400, quoteMint 432, lpMint 464, lpReserve u64 720
+
+const V4_SIZE = 752;
+const V4_BASE_VAULT = 336;
+const V4_QUOTE_VAULT = 368;
+const V4_BASE_MINT = 400;
+const V4_QUOTE_MINT = 432;
+const V4_LP_MINT = 464;
+const V4_LP_RESERVE = 720;
+
+function decodeV4(address: PublicKey, data: Buffer): LpPool {
+  return {
+    amm: 'raydium-v4',
+    address,
+    baseMint: readKey(data, V4_BASE_MINT),
+    quoteMint: readKey(data, V4_QUOTE_MINT),
+    lpMint: readKey(data, V4_LP_MINT),
+    baseVault: readKey(data, V4_BASE_VAULT),
+    quoteVault: readKey(data, V4_QUOTE_VAULT),
+    poolLpSupply: data.readBigUInt64LE(V4_LP_RESERVE),
+    creator: null,
+  };
+}
+
+export async function findRaydiumV4Pools(connection: Connection, mint: PublicKey): Promise<LpPool[]> {
+  const programId = new PublicKey(PROGRAM_IDS.RAYDIUM_V4_AMM);
+  const bySide = await Promise.all([V4_BASE_MINT, V4_QUOTE_MINT].map(offset =>
+    connection.getProgramAccounts(programId, {
+      filters: [
+        { dataSize: V4_SIZE },
+        { memcmp: { offset, bytes: mint.toBase58() } },
+      ],
+    })
+  ));
+  return bySide.flat().map(a => decodeV4(a.pubkey, a.account.data));
+}
+
+// ─── Raydium CPMM (PoolState, 637 bytes, Anchor) ───
+// pool_creator 40, token_0_vault 72, token_1_vault 104, lp_mint 136,
+// token_0_mint 168, token_1_mint 200, lp_supply u64 333
+
+const CPMM_SIZE = 637;
+const CPMM_CREATOR = 40;
+const CPMM_VAULT_0 = 72;
+const CPMM_VAULT_1 = 104;
+const CPMM_LP_MINT = 136;
+const CPMM_MINT_0 = 168;
+const CPMM_MINT_1 = 200;
+const CPMM_LP_SUPPLY = 333;
+
+function decodeCpmm(address: PublicKey, data: Buffer): LpPool {
+  return {
+    amm: 'raydium-cpmm',
+    address,
+    baseMint: readKey(data, CPMM_MINT_0),
+    quoteMint: readKey(data, CPMM_MINT_1),
+    lpMint: readKey(data, CPMM_LP_MINT),
+    baseVault: readKey(data, CPMM_VAULT_0),
+    quoteVault: readKey(data, CPMM_VAULT_1),
+    poolLpSupply: data.readBigUInt64LE(CPMM_LP_SUPPLY),
+    creator: readKey(data, CPMM_CREATOR),
+  };
+}
+
+export async function findRaydiumCpmmPools(connection: Connection, mint: PublicKey): Promise<LpPool[]> {
+  const programId = new PublicKey(PROGRAM_IDS.RAYDIUM_CPMM);
+  // CPMM sorts the pair by mint address, so the token can be on either side
+  const bySide = await Promise.all([CPMM_MINT_0, CPMM_MINT_1].map(offset =>
+    connection.getProgramAccounts(programId, {
+      filters: [
+        { dataSize: CPMM_SIZE },
+        { memcmp: { offset, bytes: mint.toBase58() } },
+      ],
+    })
+  ));
+  return bySide.flat().map(a => decodeCpmm(a.pubkey, a.account.data));
+}
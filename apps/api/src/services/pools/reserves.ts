@@ -0,0 +1,33 @@
+import type { Connection, PublicKey } from '@solana/web3.js';
+import { unpackAccount } from '@solana/spl-token';
+import type { Pool } from './types.js';
+
+/**
+ * How much of `mint` each pool holds, in raw units. Measuring every pool in the
+ * scanned token keeps them comparable whatever they are paired against.
+ * Null where the pool keeps reserves elsewhere (Meteora DAMM vaults) or the
+ * vault couldn't be read.
+ */
+export async function getTokenReserves(
+  connection: Connection,
+  pools: Pool[],
+  mint: PublicKey
+): Promise<(bigint | null)[]> {
+  const vaults = pools.map(p => (p.baseMint.equals(mint) ? p.baseVault : p.quoteVault));
+  const known = vaults.filter((v): v is PublicKey => v !== null);
+  if (known.length === 0) return pools.map(() => null);
+
+  const infos = await connection.getMultipleAccountsInfo(known);
+  const amounts = new Map<string, bigint>();
+  known.forEach((vault, i) => {
+    const info = infos[i];
+    if (!info) return;
+    try {
+      amounts.set(vault.toBase58(), unpackAccount(vault, info, info.owner).amount);
+    } catch {
+      // Not a token account — leave unknown
+    }
+  });
+
+  return vaults.map(v => (v ? amounts.get(v.toBase58()) ?? null : null));
+}
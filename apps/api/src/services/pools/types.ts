@@ -0,0 +1,48 @@
+import type { PublicKey } from '@solana/web3.js';
+import type { Platform } from '@trenchable/shared';
+
+export type AmmKind = 'raydium-v4' | 'raydium-cpmm' | 'pumpswap' | 'meteora-damm' | 'meteora-dlmm';
+
+interface PoolBase {
+  address: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  // Token accounts holding the reserves, when the pool holds them directly
+  baseVault: PublicKey | null;
+  quoteVault: PublicKey | null;
+  creator: PublicKey | null;
+}
+
+// A pool whose liquidity is represented by a fungible LP mint
+export interface LpPool extends PoolBase {
+  amm: Exclude<AmmKind, 'meteora-dlmm'>;
+  lpMint: PublicKey;
+  // LP supply as tracked by the pool. LP burned with a plain SPL burn is gone
+  // from the mint supply but still counted here, which is how burns are measured.
+  poolLpSupply: bigint | null;
+}
+
+// A Meteora DLMM pair — liquidity lives in per-owner position accounts, not an LP mint
+export interface DlmmPair extends PoolBase {
+  amm: 'meteora-dlmm';
+  // 0 = lock release points are slots, 1 = unix timestamps
+  activationType: number;
+}
+
+export type Pool = LpPool | DlmmPair;
+
+export const AMM_PLATFORM: Record<AmmKind, Platform> = {
+  'raydium-v4': 'raydium',
+  'raydium-cpmm': 'raydium-cpmm',
+  pumpswap: 'pumpswap',
+  'meteora-damm': 'meteora',
+  'meteora-dlmm': 'meteora',
+};
+
+export const AMM_NAMES: Record<AmmKind, string> = {
+  'raydium-v4': 'Raydium',
+  'raydium-cpmm': 'Raydium CPMM',
+  pumpswap: 'PumpSwap',
+  'meteora-damm': 'Meteora DAMM',
+  'meteora-dlmm': 'Meteora DLMM',
+};
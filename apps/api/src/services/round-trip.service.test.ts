@@ -0,0 +1,104 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { SOL_MINT, type RiskCheckResult } from '@trenchable/shared';
+import type { DexScreenerData } from './external/dexscreener.js';
+import { getJupiterQuote, type JupiterQuote } from './external/jupiter.js';
+import { applyRoundTrip, quoteRoundTrip, roundTripTax, type RoundTripTax } from './round-trip.service.js';
+
+vi.mock('./external/jupiter.js', () => ({ getJupiterQuote: vi.fn() }));
+
+const MINT = 'TaxTokenMint1111111111111111111111111111111';
+// 0.0001 SOL per token with 6 decimals: 0.1 lamports per raw unit, so 0.05 SOL buys 500M raw units
+const DEX_DATA = {
+  pairs: [{ baseToken: { address: MINT }, quoteToken: { address: SOL_MINT }, priceNative: '0.0001', liquidity: { usd: 50_000 } }],
+} as unknown as DexScreenerData;
+
+function quote(inputMint: string, outputMint: string, inAmount: number, outAmount: number, feePct = 0): JupiterQuote {
+  const feeAmount = Math.round(inAmount * feePct);
+  return {
+    inputMint,
+    outputMint,
+    inAmount: String(inAmount),
+    outAmount: String(outAmount),
+    priceImpactPct: '0',
+    routePlan: feePct > 0
+      ? [{ percent: 100, swapInfo: { inputMint, outputMint, inAmount: String(inAmount), outAmount: String(outAmount), feeAmount: String(feeAmount), feeMint: inputMint } }]
+      : [],
+  };
+}
+
+function check(score: number): RiskCheckResult {
+  return { check: 'TOKEN_TAX', status: score >= 40 ? 'warning' : 'safe', score, weight: 0.06, message: 'No taxes reported', details: { buyTax: 0, sellTax: 0 } };
+}
+
+describe('roundTripTax', () => {
+  it('splits the loss into buy and sell legs against the spot price', () => {
+    const buy = quote(SOL_MINT, MINT, 50_000_000, 450_000_000);
+    // 450M raw units are worth 45M lamports at spot; 42.75M comes back
+    const sell = quote(MINT, SOL_MINT, 450_000_000, 42_750_000);
+
+    expect(roundTripTax({ buy, sell }, MINT, 6, DEX_DATA)).toMatchObject({
+      buyTax: 0.1,
+      sellTax: 0.05,
+      roundTripLoss: 0.145,
+      split: 'spot-price',
+    });
+  });
+
+  it('splits evenly without a SOL-quoted price', () => {
+    const buy = quote(SOL_MINT, MINT, 50_000_000, 450_000_000);
+    const sell = quote(MINT, SOL_MINT, 450_000_000, 40_500_000);
+
+    expect(roundTripTax({ buy, sell }, MINT, 6, null)).toMatchObject({ buyTax: 0.1, sellTax: 0.1, split: 'even' });
+  });
+
+  it('does not count pool fees as tax', () => {
+    // A 1% pool fee on each leg and nothing else
+    const buy = quote(SOL_MINT, MINT, 50_000_000, 495_000_000, 0.01);
+    const sell = quote(MINT, SOL_MINT, 495_000_000, 49_005_000, 0.01);
+
+    expect(roundTripTax({ buy, sell }, MINT, 6, DEX_DATA)).toMatchObject({ buyTax: 0, sellTax: 0, poolFeeLoss: 0.0199 });
+  });
+});
+
+describe('quoteRoundTrip', () => {
+  beforeEach(() => {
+    vi.mocked(getJupiterQuote).mockReset();
+  });
+
+  it('sells what the buy returns, under one deadline for both legs', async () => {
+    const buy = quote(SOL_MINT, MINT, 50_000_000, 450_000_000);
+    const sell = quote(MINT, SOL_MINT, 450_000_000, 42_750_000);
+    vi.mocked(getJupiterQuote)
+      .mockResolvedValueOnce({ ok: true, quote: buy })
+      .mockResolvedValueOnce({ ok: true, quote: sell });
+
+    expect(await quoteRoundTrip(MINT, 2_000)).toEqual({ buy, sell });
+    const [[, , , , buySignal], [input, output, amount, , sellSignal]] = vi.mocked(getJupiterQuote).mock.calls;
+    expect([input, output, amount]).toEqual([MINT, SOL_MINT, 450_000_000n]);
+    expect(sellSignal).toBe(buySignal);
+  });
+
+  it('gives up when there is no route or nothing to sell', async () => {
+    vi.mocked(getJupiterQuote).mockResolvedValueOnce({ ok: false, status: 400, error: 'No routes found' });
+    expect(await quoteRoundTrip(MINT)).toBeNull();
+
+    vi.mocked(getJupiterQuote).mockResolvedValueOnce({ ok: true, quote: quote(SOL_MINT, MINT, 50_000_000, 0) });
+    expect(await quoteRoundTrip(MINT)).toBeNull();
+    expect(getJupiterQuote).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('applyRoundTrip', () => {
+  const measured = (buyTax: number, sellTax: number) => ({ buyTax, sellTax } as RoundTripTax);
+
+  it('raises the score for measured taxes reports missed', () => {
+    expect(applyRoundTrip(check(0), measured(0.02, 0.3))).toMatchObject({ status: 'danger', score: 90 });
+    expect(applyRoundTrip(check(0), measured(0.08, 0.02))).toMatchObject({ status: 'warning', score: 40 });
+    expect(applyRoundTrip(check(0), measured(0.01, 0.01))).toMatchObject({ score: 0, details: { taxSource: 'measured', sellTax: 0.01 } });
+  });
+
+  it('never lowers a score and leaves results without a measurement alone', () => {
+    expect(applyRoundTrip(check(60), measured(0.08, 0))).toMatchObject({ score: 60 });
+    expect(applyRoundTrip(check(60), null)).toEqual(check(60));
+  });
+});
@@ -0,0 +1,161 @@
+import { SOL_MINT, type RiskCheckResult } from '@trenchable/shared';
+import { getJupiterQuote, type JupiterQuote } from './external/jupiter.js';
+import type { DexScreenerData } from './external/dexscreener.js';
+
+/**
+ * Round-trip tax measurement
+ *
+ * Quotes buying the token for a small SOL amount, then selling what that buys,
+ * along Jupiter's best route. Whatever the round trip loses beyond price impact
+ * and pool fees is tax. With a SOL-denominated spot price the loss is split
+ * into buy and sell legs; without one it is split evenly, which matches how
+ * Token-2022 transfer fees apply to both directions.
+ */
+
+const ROUND_TRIP_LAMPORTS = 50_000_000n; // 0.05 SOL
+// Both legs together; the instant scanner passes a tighter budget
+const ROUND_TRIP_TIMEOUT_MS = 20_000;
+
+export interface RoundTripQuotes {
+  buy: JupiterQuote;
+  sell: JupiterQuote;
+}
+
+// Taxes are fractions (0.05 = 5%), matching GoPlus buy_tax / sell_tax
+export interface RoundTripTax {
+  solIn: string;
+  tokensOut: string;
+  solOut: string;
+  roundTripLoss: number;
+  slippageLoss: number;
+  poolFeeLoss: number;
+  buyTax: number;
+  sellTax: number;
+  split: 'spot-price' | 'even';
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10_000) / 10_000;
+}
+
+// Share of a leg's input taken by pool fees, across every hop and split of the route
+function routeFeeFraction(quote: JupiterQuote): number {
+  const plan = (quote.routePlan ?? []) as {
+    percent: number;
+    swapInfo: { inputMint: string; outputMint: string; inAmount: string; outAmount: string; feeAmount: string; feeMint: string };
+  }[];
+  let fee = 0;
+  for (const { percent, swapInfo } of plan) {
+    const feeAmount = Number(swapInfo.feeAmount);
+    const base = swapInfo.feeMint === swapInfo.inputMint
+      ? Number(swapInfo.inAmount)
+      : Number(swapInfo.outAmount) + feeAmount;
+    if (base > 0) fee += (feeAmount / base) * (percent / 100);
+  }
+  return Math.min(fee, 1);
+}
+
+// Lamports per raw token unit, from the deepest SOL-quoted pair
+function spotPrice(mint: string, decimals: number, dexData: DexScreenerData | null): number | null {
+  const pair = dexData?.pairs
+    .filter(p => p.baseToken.address === mint && p.quoteToken.address === SOL_MINT)
+    .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
+  const price = pair ? parseFloat(pair.priceNative) : NaN;
+  return price > 0 ? (price * 1e9) / 10 ** decimals : null;
+}
+
+// The buy quote and the sell quote for what it buys, within `timeoutMs` overall
+export async function quoteRoundTrip(mint: string, timeoutMs = ROUND_TRIP_TIMEOUT_MS): Promise<RoundTripQuotes | null> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const buy = await getJupiterQuote(SOL_MINT, mint, ROUND_TRIP_LAMPORTS, undefined, signal);
+  if (!buy.ok || BigInt(buy.quote.outAmount) === 0n) return null;
+
+  const sell = await getJupiterQuote(mint, SOL_MINT, BigInt(buy.quote.outAmount), undefined, signal);
+  if (!sell.ok) return null;
+  return { buy: buy.quote, sell: sell.quote };
+}
+
+export async function measureRoundTrip(
+  mint: string,
+  decimals: number,
+  dexData: DexScreenerData | null
+): Promise<RoundTripTax | null> {
+  const quotes = await quoteRoundTrip(mint);
+  return quotes ? roundTripTax(quotes, mint, decimals, dexData) : null;
+}
+
+export function roundTripTax(
+  { buy, sell }: RoundTripQuotes,
+  mint: string,
+  decimals: number,
+  dexData: DexScreenerData | null
+): RoundTripTax {
+  const tokensOut = BigInt(buy.outAmount);
+  const solOut = BigInt(sell.outAmount);
+
+  const impactBuy = Math.abs(parseFloat(buy.priceImpactPct || '0'));
+  const impactSell = Math.abs(parseFloat(sell.priceImpactPct || '0'));
+  const feeBuy = routeFeeFraction(buy);
+  const feeSell = routeFeeFraction(sell);
+
+  // What each leg keeps once impact and pool fees are accounted for
+  const marketBuy = (1 - impactBuy) * (1 - feeBuy);
+  const marketSell = (1 - impactSell) * (1 - feeSell);
+  const kept = Number(solOut) / Number(ROUND_TRIP_LAMPORTS);
+
+  let buyTax: number;
+  let sellTax: number;
+  let split: RoundTripTax['split'];
+
+  const price = spotPrice(mint, decimals, dexData);
+  if (price !== null) {
+    const buyKept = (Number(tokensOut) * price) / Number(ROUND_TRIP_LAMPORTS);
+    const sellKept = Number(solOut) / (Number(tokensOut) * price);
+    buyTax = 1 - buyKept / marketBuy;
+    sellTax = 1 - sellKept / marketSell;
+    split = 'spot-price';
+  } else {
+    const taxKept = kept / (marketBuy * marketSell);
+    buyTax = sellTax = 1 - Math.sqrt(Math.max(0, taxKept));
+    split = 'even';
+  }
+
+  return {
+    solIn: ROUND_TRIP_LAMPORTS.toString(),
+    tokensOut: tokensOut.toString(),
+    solOut: solOut.toString(),
+    roundTripLoss: round4(1 - kept),
+    slippageLoss: round4(1 - (1 - impactBuy) * (1 - impactSell)),
+    poolFeeLoss: round4(1 - (1 - feeBuy) * (1 - feeSell)),
+    buyTax: round4(Math.min(1, Math.max(0, buyTax))),
+    sellTax: round4(Math.min(1, Math.max(0, sellTax))),
+    split,
+  };
+}
+
+/**
+ * Fold a measured round trip into a TOKEN_TAX result: measured buyTax/sellTax
+ * replace reported ones, and the score only ever goes up.
+ */
+export function applyRoundTrip(result: RiskCheckResult, roundTrip: RoundTripTax | null): RiskCheckResult {
+  if (!roundTrip) return result;
+
+  const { buyTax, sellTax } = roundTrip;
+  const details = {
+    ...result.details,
+    buyTax,
+    sellTax,
+    taxSource: 'measured',
+    roundTrip,
+  };
+  const maxTax = Math.max(buyTax, sellTax);
+  const taxText = `buy ${(buyTax * 100).toFixed(1)}% / sell ${(sellTax * 100).toFixed(1)}%`;
+
+  if (maxTax > 0.20 && result.score < 90) {
+    return { ...result, status: 'danger', score: 90, details, message: `Measured round-trip tax is extreme: ${taxText}` };
+  }
+  if (maxTax > 0.05 && result.score < 40) {
+    return { ...result, status: 'warning', score: 40, details, message: `Measured round-trip tax: ${taxText}` };
+  }
+  return { ...result, details };
+}
@@ -1,5 +1,8 @@
-import { RISK_WEIGHTS, RUG_PATTERN_INDICATORS, type RiskCheckResult } from '@trenchable/shared';
+import { PROGRAM_IDS, RUG_PATTERN_INDICATORS, type RiskCheckResult } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
 import type { ScanContext } from '../types/risk.types.js';
+import { getTokenFundingGraphCached, findCreator } from './funding-graph/index.js';
+import { getCreatorReport, summarizeLaunches } from './creator-reputation.service.js';
 
 export async function checkRugPattern(ctx: ScanContext): Promise<RiskCheckResult> {
   try {
@@ -8,7 +11,7 @@ export async function checkRugPattern(ctx: ScanContext): Promise<RiskCheckResult
 
     // 1. Check token metadata for suspicious patterns
     const { PublicKey } = await import('@solana/web3.js');
-    const METADATA_PROGRAM = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+    const METADATA_PROGRAM = new PublicKey(PROGRAM_IDS.TOKEN_METADATA);
     const [metadataPda] = PublicKey.findProgramAddressSync(
       [Buffer.from('metadata'), METADATA_PROGRAM.toBuffer(), ctx.tokenMint.toBuffer()],
       METADATA_PROGRAM
@@ -82,21 +85,33 @@ export async function checkRugPattern(ctx: ScanContext): Promise<RiskCheckResult
       }
     }
 
-    // 4. Check if the deployer has created many tokens recently (serial rugger)
+    // 4. The creator's (and its funding cluster's) earlier launches
+    let creatorReport: Record<string, unknown> | null = null;
     try {
-      const [bondingCurve] = PublicKey.findProgramAddressSync(
-        [Buffer.from('bonding-curve'), ctx.tokenMint.toBuffer()],
-        new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P')
-      );
-      const bcInfo = await ctx.connection.getAccountInfo(bondingCurve);
-      if (bcInfo && bcInfo.data.length >= 81) {
-        const creator = new PublicKey(bcInfo.data.subarray(49, 81));
-        // Check how many recent transactions the creator has (proxy for activity)
-        const creatorSigs = await ctx.connection.getSignaturesForAddress(creator, { limit: 50 });
-        if (creatorSigs.length >= 40) {
-          flags.push('Creator wallet has very high recent activity — possible serial launcher');
+      const funding = await getTokenFundingGraphCached(ctx).catch(() => null);
+      const creator = funding?.creator ?? await findCreator(ctx);
+      if (creator) {
+        const report = await getCreatorReport(ctx.connection, creator, funding?.graph);
+        const prior = summarizeLaunches(report.launches.filter(l => l.mint !== ctx.tokenMint.toBase58()));
+
+        if (prior.ruggedCount >= 2 && (prior.rugRate ?? 0) >= 0.5) {
+          flags.push(`Creator rugged ${prior.ruggedCount} of ${prior.resolvedCount} earlier launches — serial rugger`);
+          score += 50;
+        } else if (prior.ruggedCount >= 1) {
+          flags.push(`Creator has ${prior.ruggedCount} rugged earlier launch(es)`);
+          score += 25;
+        }
+        if (prior.launchCount >= 5) {
+          flags.push(`Creator launched ${prior.launchCount} other tokens — serial launcher`);
           score += 20;
         }
+
+        creatorReport = {
+          creator,
+          wallets: report.wallets.length,
+          ...prior,
+          truncated: report.truncated,
+        };
       }
     } catch { /* skip */ }
 
@@ -118,6 +133,7 @@ export async function checkRugPattern(ctx: ScanContext): Promise<RiskCheckResult
         tokenName,
         tokenSymbol,
         flagCount: flags.length,
+        creatorReport,
       },
       message: flags.length > 0
         ? `${flags.length} rug pattern(s) detected: ${flags[0]}`
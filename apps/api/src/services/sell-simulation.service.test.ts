@@ -0,0 +1,134 @@
+import { TOKEN_2022_PROGRAM_ID, unpackMint } from '@solana/spl-token';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFixturePool, type FixturePoolOptions } from './__fixtures__/sell-pool.js';
+import { checkHoneypot, setSellTxBuilder } from './honeypot.service.js';
+import { getJupiterQuote } from './external/jupiter.js';
+import { createSyntheticHolder, findSimulationHolder, simulateSell } from './sell-simulation.service.js';
+
+// The quote is the only thing fetched from outside; the fixture pool prices it
+vi.mock('./external/jupiter.js', () => ({
+  getJupiterQuote: vi.fn(),
+  getJupiterSwapTransaction: vi.fn(),
+}));
+
+describe('findSimulationHolder', () => {
+  it('sells as the largest holder whose balance is in their associated token account', async () => {
+    const pool = createFixturePool();
+    const holder = await findSimulationHolder(pool.connection, pool.mint);
+
+    // The pool vault is a PDA and the biggest wallet holds outside its ATA
+    expect(holder?.owner.toBase58()).toBe(pool.ataHolder.owner.toBase58());
+    expect(holder?.tokenAccount.toBase58()).toBe(pool.ataHolder.tokenAccount.toBase58());
+  });
+});
+
+describe('createSyntheticHolder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('writes a funded wallet and its token account into a forking validator', async () => {
+    const pool = createFixturePool({ token2022: true });
+    const calls: { method: string; params: unknown[] }[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const { method, params } = JSON.parse(String(init.body));
+      calls.push({ method, params });
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id: method, result: null }));
+    }));
+
+    const amount = 1_000_000_000n;
+    const holder = await createSyntheticHolder(pool.connection, pool.mint, amount);
+    expect(holder?.balance).toBe(amount);
+    expect(calls.map(c => c.method)).toEqual(['surfnet_setAccount', 'surfnet_setTokenAccount']);
+    expect(calls[1].params).toEqual([
+      holder!.owner.toBase58(),
+      pool.mint.toBase58(),
+      { amount: 1_000_000_000, state: 'initialized' },
+      TOKEN_2022_PROGRAM_ID.toBase58(),
+    ]);
+  });
+
+  it('gives up on an RPC without the cheat codes', async () => {
+    const pool = createFixturePool();
+    vi.stubGlobal('fetch', vi.fn(async () =>
+      new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found' } }))));
+
+    expect(await createSyntheticHolder(pool.connection, pool.mint, 1n)).toBeNull();
+  });
+});
+
+describe('simulateSell', () => {
+  const sell = async (options: FixturePoolOptions) => {
+    const pool = createFixturePool(options);
+    const amount = 1_000n * 10n ** BigInt(pool.decimals);
+    return simulateSell(pool.connection, { mint: pool.mint, owner: pool.ataHolder.owner, amount }, pool.builder(pool.quote(amount)));
+  };
+
+  it('measures what the sell realizes against the quote', async () => {
+    const clean = await sell({});
+    expect(clean).toMatchObject({ success: true, effectiveTaxPct: 0, inconclusive: false });
+
+    const taxed = await sell({ sellTaxBps: 2500 });
+    expect(taxed.success).toBe(true);
+    expect(taxed.effectiveTaxPct).toBeCloseTo(25, 0);
+  });
+
+  it('blames the token when its program refuses the transfer or its hook reverts', async () => {
+    const frozen = await sell({ failure: { program: 'token', code: 0x11 } });
+    expect(frozen).toMatchObject({ success: false, inconclusive: false });
+
+    const nonTransferable = await sell({ token2022: true, failure: { program: 'token', code: 0x25 } });
+    expect(nonTransferable.inconclusive).toBe(false);
+
+    const hook = await sell({ transferHook: true, failure: { program: 'hook', code: 0x1770 } });
+    expect(hook.inconclusive).toBe(false);
+  });
+
+  it('treats seller, route and slippage failures as inconclusive', async () => {
+    const insufficientFunds = await sell({ failure: { program: 'token', code: 0x1 } });
+    expect(insufficientFunds).toMatchObject({ success: false, inconclusive: true });
+
+    const slippage = await sell({ failure: { program: 'pool', code: 0x1771 } });
+    expect(slippage.inconclusive).toBe(true);
+
+    const badAccount = await sell({ failure: { program: 'token', code: null } });
+    expect(badAccount.inconclusive).toBe(true);
+  });
+});
+
+describe('checkHoneypot against the fixture pool', () => {
+  afterEach(() => {
+    setSellTxBuilder(null);
+  });
+
+  const scan = async (options: FixturePoolOptions) => {
+    const pool = createFixturePool(options);
+    setSellTxBuilder(pool.builder);
+    vi.mocked(getJupiterQuote).mockImplementation(async (_in, _out, amount) => ({ ok: true, quote: pool.quote(amount) }));
+    const mintAccount = (await pool.connection.getAccountInfo(pool.mint))!;
+    const mintInfo = unpackMint(pool.mint, mintAccount, mintAccount.owner);
+    return checkHoneypot({ tokenMint: pool.mint, mintInfo, connection: pool.connection });
+  };
+
+  it('passes a token that sells cleanly', async () => {
+    const result = await scan({});
+    expect(result).toMatchObject({ status: 'safe', score: 0 });
+    expect(result.message).toMatch(/simulated successfully/);
+  });
+
+  it('fails a token whose transfer hook blocks the sell', async () => {
+    const result = await scan({ transferHook: true, failure: { program: 'hook', code: 0x1770 } });
+    expect(result).toMatchObject({ status: 'danger', score: 100 });
+  });
+
+  it('does not call a slippage failure a honeypot', async () => {
+    const result = await scan({ failure: { program: 'pool', code: 0x1771 } });
+    expect(result.score).toBeLessThan(100);
+    expect(result.details.simulationNote).toMatch(/outside the token's transfer path/);
+  });
+
+  it('flags a sell that loses most of its proceeds at execution', async () => {
+    const result = await scan({ sellTaxBps: 6000 });
+    expect(result).toMatchObject({ status: 'danger', score: 90 });
+  });
+});
@@ -0,0 +1,275 @@
+import { Keypair, PublicKey, SystemProgram, type Connection, type VersionedTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync, getTransferHook, unpackAccount, unpackMint } from '@solana/spl-token';
+import { getJupiterSwapTransaction, type JupiterQuote } from './external/jupiter.js';
+
+/**
+ * Sell simulation
+ *
+ * Builds a real sell transaction and runs it through simulateTransaction, so
+ * anything that only shows up at execution time — Token-2022 transfer hooks,
+ * freeze-on-transfer, programs that revert — is caught. The seller is a
+ * synthetic holder where the simulation RPC can create one, else an existing
+ * holder. The transaction builder and connection are injectable, so the same
+ * path runs against a local validator with a fixture pool.
+ */
+
+export interface SellRequest {
+  mint: PublicKey;
+  owner: PublicKey;
+  amount: bigint;
+}
+
+export interface SellTransaction {
+  transaction: VersionedTransaction;
+  // Account receiving the proceeds; native means lamports on a wallet
+  output: { account: PublicKey; native: boolean };
+  // What the route promises, before anything execution-time takes its cut
+  expectedOut: bigint | null;
+}
+
+export type SellTxBuilder = (req: SellRequest) => Promise<SellTransaction>;
+
+export interface SellSimulation {
+  success: boolean;
+  seller: string;
+  amount: string;
+  expectedOut: string | null;
+  realizedOut: string | null;
+  effectiveTaxPct: number | null;
+  unitsConsumed: number | null;
+  error: string | null;
+  failureLogs: string[];
+  // Innermost program that failed, from the logs
+  failedProgram: string | null;
+  // The failure isn't the token refusing the transfer: the seller's balance or
+  // fees, a stale blockhash, the route's slippage or liquidity
+  inconclusive: boolean;
+}
+
+export interface SimulationHolder {
+  owner: PublicKey;
+  tokenAccount: PublicKey;
+  balance: bigint;
+}
+
+// Seller needs enough SOL for fees and the temporary WSOL account rent
+const MIN_SELLER_LAMPORTS = 10_000_000;
+
+// Token program errors that mean the token itself refuses the transfer:
+// AccountFrozen 0x11, and Token-2022's NonTransferable 0x25. The rest
+// (InsufficientFunds, OwnerMismatch, ...) are about the seller or the route.
+const TOKEN_REFUSAL_ERRORS = new Set([0x11, 0x25]);
+
+interface JsonRpcResponse {
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+async function rpcCall(endpoint: string, method: string, params: unknown[]): Promise<JsonRpcResponse> {
+  const res = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: method, method, params }),
+    signal: AbortSignal.timeout(5000),
+  });
+  return (await res.json()) as JsonRpcResponse;
+}
+
+/**
+ * A fresh wallet holding exactly `amount`, written into the simulation RPC's
+ * state. Only a forking local validator (Surfpool's surfnet_* methods) can do
+ * this; anywhere else null, and the sell runs as an existing holder instead.
+ */
+export async function createSyntheticHolder(
+  connection: Connection,
+  mint: PublicKey,
+  amount: bigint
+): Promise<SimulationHolder | null> {
+  const mintInfo = await connection.getAccountInfo(mint);
+  if (!mintInfo) return null;
+  const tokenProgram = mintInfo.owner;
+  const owner = Keypair.generate().publicKey;
+
+  const wallet = await rpcCall(connection.rpcEndpoint, 'surfnet_setAccount', [
+    owner.toBase58(),
+    { lamports: 1_000_000_000, owner: SystemProgram.programId.toBase58(), data: '', executable: false },
+  ]);
+  if (wallet.error) return null;
+  const tokens = await rpcCall(connection.rpcEndpoint, 'surfnet_setTokenAccount', [
+    owner.toBase58(),
+    mint.toBase58(),
+    { amount: Number(amount), state: 'initialized' },
+    tokenProgram.toBase58(),
+  ]);
+  if (tokens.error) return null;
+
+  return { owner, tokenAccount: getAssociatedTokenAddressSync(mint, owner, false, tokenProgram), balance: amount };
+}
+
+/**
+ * Pick a large holder to sell as: a regular wallet (not a pool PDA) with an
+ * unfrozen token account and enough SOL to pay fees. Only associated token
+ * accounts qualify, since that's the account swap routes sell from.
+ */
+export async function findSimulationHolder(
+  connection: Connection,
+  mint: PublicKey
+): Promise<SimulationHolder | null> {
+  const largest = await connection.getTokenLargestAccounts(mint);
+  const accounts = largest.value.filter(a => BigInt(a.amount) > 0n);
+  if (accounts.length === 0) return null;
+
+  const infos = await connection.getMultipleAccountsInfo(accounts.map(a => a.address));
+  const candidates: SimulationHolder[] = [];
+  accounts.forEach((a, i) => {
+    const info = infos[i];
+    if (!info) return;
+    try {
+      const token = unpackAccount(a.address, info, info.owner);
+      if (token.isFrozen || !PublicKey.isOnCurve(token.owner.toBytes())) return;
+      if (!getAssociatedTokenAddressSync(mint, token.owner, false, info.owner).equals(a.address)) return;
+      candidates.push({ owner: token.owner, tokenAccount: a.address, balance: token.amount });
+    } catch {
+      // Not a token account
+    }
+  });
+  if (candidates.length === 0) return null;
+
+  const wallets = await connection.getMultipleAccountsInfo(candidates.map(c => c.owner));
+  return candidates.find((_, i) => {
+    const wallet = wallets[i];
+    return wallet && wallet.owner.equals(SystemProgram.programId) && wallet.lamports >= MIN_SELLER_LAMPORTS;
+  }) ?? null;
+}
+
+// Sell through whatever route Jupiter quoted, proceeds unwrapped to SOL
+export function jupiterSellBuilder(quote: JupiterQuote): SellTxBuilder {
+  return async (req) => ({
+    transaction: await getJupiterSwapTransaction(quote, req.owner),
+    output: { account: req.owner, native: true },
+    expectedOut: BigInt(quote.outAmount),
+  });
+}
+
+async function readBalance(connection: Connection, output: SellTransaction['output']): Promise<bigint> {
+  const info = await connection.getAccountInfo(output.account);
+  if (!info) return 0n;
+  if (output.native) return BigInt(info.lamports);
+  return unpackAccount(output.account, info, info.owner).amount;
+}
+
+function failureLines(logs: string[]): string[] {
+  return logs.filter(l => /fail|error|insufficient|frozen|invalid/i.test(l)).slice(-10);
+}
+
+interface TransferPath {
+  tokenProgram: string | null;
+  hookProgram: string | null;
+}
+
+// The programs a transfer of the mint runs: its token program and any transfer hook
+async function readTransferPath(connection: Connection, mint: PublicKey): Promise<TransferPath> {
+  const info = await connection.getAccountInfo(mint);
+  if (!info) return { tokenProgram: null, hookProgram: null };
+  let hookProgram: string | null = null;
+  try {
+    const hook = getTransferHook(unpackMint(mint, info, info.owner));
+    if (hook && !hook.programId.equals(PublicKey.default)) hookProgram = hook.programId.toBase58();
+  } catch {
+    // Not a mint we can read extensions from
+  }
+  return { tokenProgram: info.owner.toBase58(), hookProgram };
+}
+
+// A failure propagates outwards, so the first "failed" line is the innermost program
+function innermostFailure(logs: string[]): { program: string; code: number | null } | null {
+  for (const line of logs) {
+    const failed = line.match(/^Program (\w+) failed: (.*)$/);
+    if (!failed) continue;
+    const custom = failed[2].match(/custom program error: 0x([0-9a-f]+)/i);
+    return { program: failed[1], code: custom ? parseInt(custom[1], 16) : null };
+  }
+  return null;
+}
+
+/**
+ * Only a revert in the token's own transfer path makes it a honeypot: the
+ * token program refusing (frozen, non-transferable) or its transfer hook
+ * failing. Anything else, from fees to a route's slippage check, says nothing
+ * about whether the token can be sold.
+ */
+function isTokenRefusal(failure: { program: string; code: number | null } | null, path: TransferPath): boolean {
+  if (!failure) return false;
+  if (failure.program === path.hookProgram) return true;
+  return failure.program === path.tokenProgram && failure.code !== null && TOKEN_REFUSAL_ERRORS.has(failure.code);
+}
+
+export async function simulateSell(
+  connection: Connection,
+  req: SellRequest,
+  build: SellTxBuilder
+): Promise<SellSimulation> {
+  const sell = await build(req);
+  const before = await readBalance(connection, sell.output);
+
+  const sim = await connection.simulateTransaction(sell.transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: { encoding: 'base64', addresses: [sell.output.account.toBase58()] },
+  });
+  const { err, logs, accounts, unitsConsumed } = sim.value;
+
+  const base = {
+    seller: req.owner.toBase58(),
+    amount: req.amount.toString(),
+    expectedOut: sell.expectedOut?.toString() ?? null,
+    unitsConsumed: unitsConsumed ?? null,
+  };
+
+  if (err) {
+    const error = typeof err === 'string' ? err : JSON.stringify(err);
+    const failure = innermostFailure(logs ?? []);
+    const path = await readTransferPath(connection, req.mint).catch(() => ({ tokenProgram: null, hookProgram: null }));
+    return {
+      ...base,
+      success: false,
+      realizedOut: null,
+      effectiveTaxPct: null,
+      error,
+      failureLogs: failureLines(logs ?? []),
+      failedProgram: failure?.program ?? null,
+      inconclusive: !isTokenRefusal(failure, path),
+    };
+  }
+
+  let realized: bigint | null = null;
+  const post = accounts?.[0];
+  if (post) {
+    const data = Buffer.from(post.data[0], 'base64');
+    let after = BigInt(post.lamports);
+    if (!sell.output.native) {
+      after = unpackAccount(sell.output.account, { ...post, owner: new PublicKey(post.owner), data }, new PublicKey(post.owner)).amount;
+    }
+    realized = after - before;
+    // A native output that also paid the fee gets it added back
+    if (sell.output.native && sell.output.account.equals(req.owner)) {
+      const fee = await connection.getFeeForMessage(sell.transaction.message).catch(() => null);
+      realized += BigInt(fee?.value ?? 5000);
+    }
+  }
+
+  const effectiveTaxPct = realized !== null && sell.expectedOut
+    ? Math.max(0, Math.round(Number(((sell.expectedOut - realized) * 10_000n) / sell.expectedOut)) / 100)
+    : null;
+
+  return {
+    ...base,
+    success: true,
+    realizedOut: realized?.toString() ?? null,
+    effectiveTaxPct,
+    error: null,
+    failureLogs: [],
+    failedProgram: null,
+    inconclusive: false,
+  };
+}
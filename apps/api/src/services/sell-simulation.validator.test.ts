@@ -0,0 +1,51 @@
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  createValidatorPool,
+  hasTestValidator,
+  startValidator,
+  type RunningValidator,
+  type ValidatorPool,
+} from './__fixtures__/validator-pool.js';
+import { findSimulationHolder, simulateSell } from './sell-simulation.service.js';
+
+// Runs where the Solana CLI is installed; the in-memory pool covers the rest
+describe.skipIf(!hasTestValidator())('simulateSell on solana-test-validator', () => {
+  const pools = {
+    clean: createValidatorPool(),
+    token2022: createValidatorPool({ token2022: true }),
+    frozen: createValidatorPool({ frozenHolder: true }),
+  };
+  let validator: RunningValidator;
+
+  beforeAll(async () => {
+    // One validator holding every pool's accounts
+    const accounts = new Map(Object.values(pools).flatMap(pool => [...pool.accounts]));
+    validator = await startValidator(accounts);
+  }, 90_000);
+
+  afterAll(() => {
+    validator?.stop();
+  });
+
+  const sell = (pool: ValidatorPool) => {
+    const amount = 1_000n * 10n ** BigInt(pool.decimals);
+    return simulateSell(validator.connection, { mint: pool.mint, owner: pool.holder.owner, amount }, pool.builder(pool.quote(amount)));
+  };
+
+  it('finds the synthetic holder and not the pool vault', async () => {
+    const holder = await findSimulationHolder(validator.connection, pools.clean.mint);
+    expect(holder?.owner.toBase58()).toBe(pools.clean.holder.owner.toBase58());
+  });
+
+  it('realizes the quoted proceeds through the token programs', async () => {
+    expect(await sell(pools.clean)).toMatchObject({ success: true, effectiveTaxPct: 0, inconclusive: false });
+    expect(await sell(pools.token2022)).toMatchObject({ success: true, effectiveTaxPct: 0 });
+  });
+
+  it('blames the token when the token program refuses a frozen account', async () => {
+    const frozen = await sell(pools.frozen);
+    expect(frozen).toMatchObject({ success: false, inconclusive: false, failedProgram: TOKEN_PROGRAM_ID.toBase58() });
+    expect(frozen.failureLogs.some(line => /frozen/i.test(line))).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import { PublicKey, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { SOL_MINT, type SniperFeature, type SniperFeatureVector } from '@trenchable/shared';
+import { jitoTipOf, readComputeBudget } from '../bundles/index.js';
+
+const SIGNATURE_LIMIT = 100;
+const SAMPLED_TXS = 25;
+const FRESH_WALLET_HOURS = 24;
+// Rates at or above these count as fully bot-like
+const BOT_TX_PER_HOUR = 60;
+const LONG_HOLD_MINUTES = 60;
+
+// What the features are computed from, kept to explain a verdict
+export interface WalletActivity {
+  txPerHour: number;
+  sampledTxs: number;
+  distinctMints: number;
+  roundTrips: number;
+  profitableRoundTrips: number;
+  medianHoldMinutes: number | null;
+  jitoTxs: number;
+  priorityFeeTxs: number;
+  // null when the history is longer than what's fetched
+  walletAgeHours: number | null;
+  // Slots between the token's creation and this wallet's buy
+  slotOffset: number;
+}
+
+// Balance changes of every token `wallet` owns in the transaction, SOL mint excluded
+function tokenDeltas(tx: ParsedTransactionWithMeta, wallet: string): Map<string, bigint> {
+  const deltas = new Map<string, bigint>();
+  for (const [sign, balances] of [[-1n, tx.meta?.preTokenBalances], [1n, tx.meta?.postTokenBalances]] as const) {
+    for (const b of balances ?? []) {
+      if (b.owner !== wallet) continue;
+      deltas.set(b.mint, (deltas.get(b.mint) ?? 0n) + sign * BigInt(b.uiTokenAmount.amount));
+    }
+  }
+  return deltas;
+}
+
+// Lamports `wallet` gained, native and wrapped, not counting the fee it paid
+function solDelta(tx: ParsedTransactionWithMeta, wallet: string, deltas: Map<string, bigint>): number {
+  const index = tx.transaction.message.accountKeys.findIndex(k => k.pubkey.toBase58() === wallet);
+  let delta = Number(deltas.get(SOL_MINT) ?? 0n);
+  if (index >= 0 && tx.meta) {
+    delta += tx.meta.postBalances[index] - tx.meta.preBalances[index];
+    if (index === 0) delta += tx.meta.fee;
+  }
+  return delta;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Trading behaviour from the wallet's recent history: its transaction rate
+ * and age from the last SIGNATURE_LIMIT signatures, and what it traded, how
+ * long it held and whether it profited from the last SAMPLED_TXS transactions.
+ */
+export async function collectWalletActivity(connection: Connection, wallet: string, slotOffset: number): Promise<WalletActivity> {
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(wallet), { limit: SIGNATURE_LIMIT });
+  const times = signatures.map(s => s.blockTime).filter((t): t is number => !!t);
+  const spanHours = times.length >= 2 ? (Math.max(...times) - Math.min(...times)) / 3600 : 0;
+  const oldest = times.length > 0 ? Math.min(...times) : null;
+
+  const sampled = signatures.filter(s => !s.err).slice(0, SAMPLED_TXS);
+  const txs = sampled.length > 0
+    ? (await connection.getParsedTransactions(sampled.map(s => s.signature), { maxSupportedTransactionVersion: 0 }))
+      .filter((tx): tx is ParsedTransactionWithMeta => !!tx?.meta)
+      .sort((a, b) => (a.blockTime ?? 0) - (b.blockTime ?? 0))
+    : [];
+
+  // Per token: first buy, first sell after it, SOL spent and received
+  const trades = new Map<string, { boughtAt: number | null; soldAt: number | null; spent: number; received: number }>();
+  let jitoTxs = 0;
+  let priorityFeeTxs = 0;
+  for (const tx of txs) {
+    if (jitoTipOf(tx) > 0) jitoTxs++;
+    if ((readComputeBudget(tx.transaction.message.instructions).price ?? 0n) > 0n) priorityFeeTxs++;
+
+    const deltas = tokenDeltas(tx, wallet);
+    const sol = solDelta(tx, wallet, deltas);
+    const time = tx.blockTime ?? 0;
+    for (const [mint, delta] of deltas) {
+      if (mint === SOL_MINT || delta === 0n) continue;
+      const trade = trades.get(mint) ?? { boughtAt: null, soldAt: null, spent: 0, received: 0 };
+      if (delta > 0n) {
+        trade.boughtAt ??= time;
+        trade.spent += Math.max(0, -sol);
+      } else if (trade.boughtAt !== null) {
+        trade.soldAt ??= time;
+        trade.received += Math.max(0, sol);
+      }
+      trades.set(mint, trade);
+    }
+  }
+
+  const flips = [...trades.values()].filter(t => t.boughtAt !== null && t.soldAt !== null);
+  return {
+    txPerHour: signatures.length / Math.max(spanHours, 0.1),
+    sampledTxs: txs.length,
+    distinctMints: trades.size,
+    roundTrips: flips.length,
+    profitableRoundTrips: flips.filter(t => t.received > t.spent).length,
+    medianHoldMinutes: median(flips.map(t => (t.soldAt! - t.boughtAt!) / 60)),
+    jitoTxs,
+    priorityFeeTxs,
+    walletAgeHours: signatures.length < SIGNATURE_LIMIT && oldest !== null ? (Date.now() / 1000 - oldest) / 3600 : null,
+    slotOffset,
+  };
+}
+
+export function toFeatureVector(a: WalletActivity): SniperFeatureVector {
+  const share = (count: number) => (a.sampledTxs > 0 ? count / a.sampledTxs : 0);
+  return {
+    txRate: Math.min(1, a.txPerHour / BOT_TX_PER_HOUR),
+    tokenDiversity: Math.min(1, share(a.distinctMints)),
+    shortHold: a.medianHoldMinutes === null ? 0 : 1 - Math.min(1, a.medianHoldMinutes / LONG_HOLD_MINUTES),
+    flipRate: a.distinctMints > 0 ? a.roundTrips / a.distinctMints : 0,
+    profitRate: a.roundTrips > 0 ? a.profitableRoundTrips / a.roundTrips : 0,
+    jitoUsage: share(a.jitoTxs),
+    priorityFeeUsage: share(a.priorityFeeTxs),
+    freshWallet: a.walletAgeHours !== null && a.walletAgeHours < FRESH_WALLET_HOURS ? 1 : 0,
+    sameSlot: a.slotOffset === 0 ? 1 : 0,
+  };
+}
+
+// The behaviour behind a feature, in words
+export function describeFeature(feature: SniperFeature, a: WalletActivity): string {
+  const pct = (count: number) => `${Math.round((count / Math.max(1, a.sampledTxs)) * 100)}%`;
+  switch (feature) {
+    case 'txRate': return `${Math.round(a.txPerHour)} transactions/hour`;
+    case 'tokenDiversity': return `traded ${a.distinctMints} tokens in its last ${a.sampledTxs} transactions`;
+    case 'shortHold': return `median hold of ${Math.round(a.medianHoldMinutes ?? 0)} min`;
+    case 'flipRate': return `sold ${a.roundTrips} of ${a.distinctMints} tokens it bought`;
+    case 'profitRate': return `${a.profitableRoundTrips} of ${a.roundTrips} flips profitable`;
+    case 'jitoUsage': return `Jito tips in ${pct(a.jitoTxs)} of transactions`;
+    case 'priorityFeeUsage': return `priority fees in ${pct(a.priorityFeeTxs)} of transactions`;
+    case 'freshWallet': return `wallet ${Math.round(a.walletAgeHours ?? 0)}h old`;
+    case 'sameSlot': return 'bought in the creation slot';
+  }
+}
@@ -0,0 +1,81 @@
+import { Keypair, type Connection } from '@solana/web3.js';
+import { describe, expect, it, vi } from 'vitest';
+import type { SniperFeatureVector } from '@trenchable/shared';
+import { setSniperLabel } from '../../db/sniper-model.js';
+import { setLabel } from '../address-labels.service.js';
+import { collectWalletActivity, type WalletActivity } from './features.js';
+import { classifyLaunchBuyers, getSniperModel, refitSniperModel } from './index.js';
+import { DEFAULT_SNIPER_MODEL, fitSniperModel, predictSniper } from './model.js';
+
+// Wallet histories come from the RPC; everything else runs as is
+vi.mock('./features.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./features.js')>()),
+  collectWalletActivity: vi.fn(),
+}));
+
+const connection = {} as Connection;
+
+function features(overrides: Partial<SniperFeatureVector>): SniperFeatureVector {
+  return {
+    txRate: 0, tokenDiversity: 0, shortHold: 0, flipRate: 0, profitRate: 0,
+    jitoUsage: 0, priorityFeeUsage: 0, freshWallet: 0, sameSlot: 0,
+    ...overrides,
+  };
+}
+
+// A bundler that tips Jito on every trade but trades too little for the built-in weights to call it
+const quietBot: Omit<WalletActivity, 'slotOffset'> = {
+  txPerHour: 2, sampledTxs: 50, distinctMints: 5, roundTrips: 0, profitableRoundTrips: 0,
+  medianHoldMinutes: null, jitoTxs: 50, priorityFeeTxs: 0, walletAgeHours: 2000,
+};
+const human: Omit<WalletActivity, 'slotOffset'> = {
+  txPerHour: 0.2, sampledTxs: 50, distinctMints: 5, roundTrips: 1, profitableRoundTrips: 0,
+  medianHoldMinutes: 5000, jitoTxs: 0, priorityFeeTxs: 2, walletAgeHours: 5000,
+};
+
+describe('fitSniperModel', () => {
+  it('learns the behaviour that separates the labels', () => {
+    const samples = [
+      ...Array.from({ length: 10 }, (_, i) => ({ x: features({ jitoUsage: 1, freshWallet: i % 2 }), isBot: true })),
+      ...Array.from({ length: 10 }, (_, i) => ({ x: features({ freshWallet: i % 2 }), isBot: false })),
+    ];
+    const fitted = fitSniperModel(samples);
+
+    expect(fitted).toMatchObject({ samples: 20, positives: 10, accuracy: 1 });
+    expect(fitted.weights.jitoUsage).toBeGreaterThan(DEFAULT_SNIPER_MODEL.weights.jitoUsage);
+    // Present equally in both classes, so L2 pulls it towards zero
+    expect(Math.abs(fitted.weights.freshWallet)).toBeLessThan(DEFAULT_SNIPER_MODEL.weights.freshWallet);
+
+    const model = { ...DEFAULT_SNIPER_MODEL, ...fitted };
+    expect(predictSniper(model, features({ jitoUsage: 1 }))).toBeGreaterThan(0.5);
+    expect(predictSniper(model, features({}))).toBeLessThan(0.5);
+  });
+
+  it('has no accuracy to report without samples', () => {
+    expect(fitSniperModel([]).accuracy).toBeNull();
+  });
+});
+
+describe('classifyLaunchBuyers', () => {
+  it('keeps labeled MEV bots as training samples for the next fit', async () => {
+    const bots = Array.from({ length: 10 }, () => Keypair.generate().publicKey.toBase58());
+    const humans = Array.from({ length: 10 }, () => Keypair.generate().publicKey.toBase58());
+    bots.forEach((address, i) => setLabel({ address, category: 'mev-bot', name: `Bot ${i}`, notes: null }));
+    humans.forEach(wallet => setSniperLabel(wallet, false));
+    vi.mocked(collectWalletActivity).mockImplementation(async (_c, wallet, slotOffset) =>
+      ({ ...(bots.includes(wallet) ? quietBot : human), slotOffset }));
+
+    const buyers = [...bots, ...humans].map(wallet => ({ wallet, slotOffset: 1 }));
+    const verdicts = await classifyLaunchBuyers(connection, 'MintS', buyers);
+
+    const bot = verdicts.find(v => v.wallet === bots[0])!;
+    expect(bot).toMatchObject({ probability: 1, isBot: true, reason: 'Known MEV bot (Bot 0)' });
+    expect(bot.features?.jitoUsage).toBe(1);
+    expect(predictSniper(DEFAULT_SNIPER_MODEL, bot.features!)).toBeLessThan(0.5);
+
+    const model = refitSniperModel();
+    expect(model).toMatchObject({ samples: 20, positives: 10, accuracy: 1 });
+    expect(getSniperModel().version).toBe(model.version);
+    expect(predictSniper(model, bot.features!)).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,109 @@
+import type { Connection } from '@solana/web3.js';
+import type { SniperFeatureVector, SniperModel } from '@trenchable/shared';
+import { getLatestSniperModel, getSniperObservations, saveSniperModel, saveSniperObservation } from '../../db/sniper-model.js';
+import { getLabel, getLabeledAddresses } from '../address-labels.service.js';
+import { collectWalletActivity, describeFeature, toFeatureVector, type WalletActivity } from './features.js';
+import { DEFAULT_SNIPER_MODEL, featureContributions, fitSniperModel, predictSniper } from './model.js';
+
+export { DEFAULT_SNIPER_MODEL } from './model.js';
+export type { WalletActivity } from './features.js';
+
+/**
+ * Sniper classifier
+ *
+ * Scores launch buyers on behaviour (features.ts) with a logistic model
+ * (model.ts). The built-in weights are replaced by ones fitted from our own
+ * data: every scored buyer's features are stored, and wallets labeled by hand
+ * or as MEV bots in the address book become training samples.
+ */
+
+const BOT_THRESHOLD = 0.5;
+const CONCURRENCY = 4;
+const MIN_TRAINING_SAMPLES = 20;
+const MIN_PER_CLASS = 5;
+
+export interface SniperVerdict {
+  wallet: string;
+  probability: number;
+  isBot: boolean;
+  // Strongest behaviours behind the score
+  reason: string;
+  features: SniperFeatureVector | null;
+  activity: WalletActivity | null;
+}
+
+export function getSniperModel(): SniperModel {
+  return getLatestSniperModel() ?? DEFAULT_SNIPER_MODEL;
+}
+
+function explain(model: SniperModel, x: SniperFeatureVector, activity: WalletActivity): string {
+  const drivers = featureContributions(model, x).filter(c => c.value > 0).slice(0, 3);
+  return drivers.length > 0 ? drivers.map(c => describeFeature(c.feature, activity)).join('; ') : 'no bot-like behaviour';
+}
+
+/**
+ * Score each buyer. Wallets labeled MEV bots are bots whatever the model says,
+ * but their features are still stored as training samples; other wallets whose
+ * history can't be read are left out.
+ */
+export async function classifyLaunchBuyers(
+  connection: Connection,
+  tokenMint: string,
+  buyers: { wallet: string; slotOffset: number }[]
+): Promise<SniperVerdict[]> {
+  const model = getSniperModel();
+  const verdicts: SniperVerdict[] = [];
+
+  for (let i = 0; i < buyers.length; i += CONCURRENCY) {
+    await Promise.all(buyers.slice(i, i + CONCURRENCY).map(async ({ wallet, slotOffset }) => {
+      const label = getLabel(wallet);
+      const knownBot = label?.category === 'mev-bot';
+
+      try {
+        const activity = await collectWalletActivity(connection, wallet, slotOffset);
+        const features = toFeatureVector(activity);
+        const probability = predictSniper(model, features);
+        saveSniperObservation(wallet, tokenMint, features, probability);
+        if (knownBot) {
+          verdicts.push({ wallet, probability: 1, isBot: true, reason: `Known MEV bot (${label.name})`, features, activity });
+          return;
+        }
+        verdicts.push({
+          wallet,
+          probability,
+          isBot: probability >= BOT_THRESHOLD,
+          reason: explain(model, features, activity),
+          features,
+          activity,
+        });
+      } catch {
+        // History unavailable; a labeled bot needs none to be called
+        if (knownBot) {
+          verdicts.push({ wallet, probability: 1, isBot: true, reason: `Known MEV bot (${label.name})`, features: null, activity: null });
+        }
+      }
+    }));
+  }
+
+  return verdicts.sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * Fit a new model version from the stored observations. A wallet's hand label
+ * wins over the address book; unlabeled observations are not used.
+ */
+export function refitSniperModel(): SniperModel {
+  const mevBots = getLabeledAddresses('mev-bot');
+  const samples = getSniperObservations()
+    .map(o => ({ x: o.features, isBot: o.isBot ?? (mevBots.has(o.wallet) ? true : null) }))
+    .filter((s): s is { x: SniperFeatureVector; isBot: boolean } => s.isBot !== null);
+
+  const positives = samples.filter(s => s.isBot).length;
+  if (samples.length < MIN_TRAINING_SAMPLES || positives < MIN_PER_CLASS || samples.length - positives < MIN_PER_CLASS) {
+    throw new Error(
+      `Need at least ${MIN_TRAINING_SAMPLES} labeled observations with ${MIN_PER_CLASS} of each class ` +
+      `(have ${samples.length}: ${positives} bots, ${samples.length - positives} not)`
+    );
+  }
+  return saveSniperModel(fitSniperModel(samples));
+}
@@ -0,0 +1,81 @@
+import { SNIPER_FEATURES, type SniperFeature, type SniperFeatureVector, type SniperModel } from '@trenchable/shared';
+
+/**
+ * Logistic model over launch buyer features. Every feature is scaled to 0..1,
+ * so a weight reads as how much that behaviour moves the log-odds of "bot".
+ */
+
+// Hand-set until there's labeled data to fit from
+export const DEFAULT_SNIPER_MODEL: SniperModel = {
+  version: null,
+  weights: {
+    txRate: 2.5,
+    tokenDiversity: 1.5,
+    shortHold: 1.5,
+    flipRate: 1.0,
+    profitRate: 0.5,
+    jitoUsage: 2.0,
+    priorityFeeUsage: 1.0,
+    freshWallet: 1.0,
+    sameSlot: 1.5,
+  },
+  bias: -4,
+  samples: 0,
+  positives: 0,
+  accuracy: null,
+  fittedAt: null,
+};
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export function predictSniper(model: SniperModel, x: SniperFeatureVector): number {
+  return sigmoid(SNIPER_FEATURES.reduce((z, f) => z + model.weights[f] * x[f], model.bias));
+}
+
+// Each feature's push towards "bot", largest first
+export function featureContributions(model: SniperModel, x: SniperFeatureVector): { feature: SniperFeature; value: number }[] {
+  return SNIPER_FEATURES
+    .map(feature => ({ feature, value: model.weights[feature] * x[feature] }))
+    .sort((a, b) => b.value - a.value);
+}
+
+const EPOCHS = 2000;
+const LEARNING_RATE = 0.5;
+const L2 = 0.01;
+
+/**
+ * Fit weights by batch gradient descent on the log loss, starting from
+ * `start`. L2 keeps weights of features the labels barely exercise near zero
+ * rather than letting them run off.
+ */
+export function fitSniperModel(
+  samples: { x: SniperFeatureVector; isBot: boolean }[],
+  start: SniperModel = DEFAULT_SNIPER_MODEL
+): Omit<SniperModel, 'version' | 'fittedAt'> {
+  const weights = { ...start.weights };
+  let bias = start.bias;
+  const n = samples.length;
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const grad = Object.fromEntries(SNIPER_FEATURES.map(f => [f, 0])) as SniperFeatureVector;
+    let gradBias = 0;
+    for (const { x, isBot } of samples) {
+      const error = predictSniper({ ...start, weights, bias }, x) - (isBot ? 1 : 0);
+      for (const f of SNIPER_FEATURES) grad[f] += error * x[f];
+      gradBias += error;
+    }
+    for (const f of SNIPER_FEATURES) weights[f] -= LEARNING_RATE * (grad[f] / n + L2 * weights[f]);
+    bias -= LEARNING_RATE * (gradBias / n);
+  }
+
+  const fitted = { ...start, weights, bias };
+  const correct = samples.filter(s => (predictSniper(fitted, s.x) >= 0.5) === s.isBot).length;
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  return {
+    weights: Object.fromEntries(SNIPER_FEATURES.map(f => [f, round(weights[f])])) as SniperFeatureVector,
+    bias: round(bias),
+    samples: n,
+    positives: samples.filter(s => s.isBot).length,
+    accuracy: n > 0 ? round(correct / n) : null,
+  };
+}
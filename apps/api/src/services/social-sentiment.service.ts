@@ -1,5 +1,12 @@
-import { RISK_WEIGHTS, type RiskCheckResult } from '@trenchable/shared';
+import { type RiskCheckResult, type SharedSocial } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
 import type { ScanContext } from '../types/risk.types.js';
+import type { DexScreenerData } from './external/dexscreener.js';
+import { collectSocialLinks, describeHandle, verifySocials, type SocialVerification } from './socials/index.js';
+
+// Findings at or above this score make the check a danger
+const DANGER_SCORE = 70;
+const FRESH_DOMAIN_DAYS = 7;
 
 // Fetch token metadata URI and analyze social links
 async function getTokenMetadataUri(ctx: ScanContext): Promise<string | null> {
@@ -46,31 +53,44 @@ async function fetchMetadataJson(uri: string): Promise<Record<string, unknown> |
   }
 }
 
-export async function checkSocialSentiment(ctx: ScanContext): Promise<RiskCheckResult> {
-  try {
-    const metadataUri = await getTokenMetadataUri(ctx);
+interface Finding {
+  score: number;
+  message: string;
+}
 
-    let hasWebsite = false;
-    let hasTelegram = false;
-    let hasTwitter = false;
-    let description = '';
+// What verification turned up, worst first
+function verificationFindings(v: SocialVerification): Finding[] {
+  const findings: Finding[] = [];
+  const list = (shared: SharedSocial[]) => shared.map(describeHandle).join(', ');
+  const mintCount = (shared: SharedSocial[]) => new Set(shared.flatMap(s => s.mints)).size;
 
-    if (metadataUri) {
-      const json = await fetchMetadataJson(metadataUri);
-      if (json) {
-        // Check for social links in metadata JSON
-        const external_url = json.external_url as string || '';
-        description = (json.description as string) || '';
+  if (v.rugged.length > 0) {
+    findings.push({ score: 90, message: `Socials shared with ${mintCount(v.rugged)} rugged token(s): ${list(v.rugged)}` });
+  }
+  if (v.shared.length > 0) {
+    findings.push({ score: 65, message: `Socials reused from ${mintCount(v.shared)} other token(s): ${list(v.shared)}` });
+  }
+  if (v.website?.domainAgeDays != null && v.website.domainAgeDays < FRESH_DOMAIN_DAYS) {
+    findings.push({ score: 50, message: `Website domain ${v.website.site} registered ${v.website.domainAgeDays} day(s) ago` });
+  }
+  if (v.website && !v.website.reachable) {
+    findings.push({ score: 45, message: `Website ${v.website.site} does not load` });
+  } else if (v.website?.referencesMint === false) {
+    findings.push({ score: 30, message: `Website ${v.website.site} does not mention this token's mint address` });
+  }
+  return findings.sort((a, b) => b.score - a.score);
+}
 
-        // Check extensions/links fields common in pump.fun and metaplex metadata
-        const extensions = json.extensions as Record<string, string> | undefined;
-        const links = (json as any).links as Record<string, string> | undefined;
+export async function checkSocialSentiment(ctx: ScanContext, dexData: DexScreenerData | null = null): Promise<RiskCheckResult> {
+  try {
+    const mint = ctx.tokenMint.toBase58();
+    const metadataUri = await getTokenMetadataUri(ctx);
+    const json = metadataUri ? await fetchMetadataJson(metadataUri) : null;
 
-        hasWebsite = !!(external_url || extensions?.website || links?.website);
-        hasTwitter = !!(extensions?.twitter || links?.twitter || (description && /twitter\.com|x\.com/i.test(description)));
-        hasTelegram = !!(extensions?.telegram || links?.telegram || (description && /t\.me\//i.test(description)));
-      }
-    }
+    const links = collectSocialLinks(json, dexData);
+    const hasWebsite = links.some(l => l.kind === 'website');
+    const hasTwitter = links.some(l => l.kind === 'twitter');
+    const hasTelegram = links.some(l => l.kind === 'telegram');
 
     // Score based on social presence
     const socialPoints = [hasWebsite, hasTwitter, hasTelegram].filter(Boolean).length;
@@ -97,6 +117,16 @@ export async function checkSocialSentiment(ctx: ScanContext): Promise<RiskCheckR
       message = 'No social links found — anonymous token with no web presence';
     }
 
+    // Links that don't hold up outweigh how many there are
+    const verification = await verifySocials(mint, links);
+    const findings = verificationFindings(verification);
+    const verificationScore = findings[0]?.score ?? 0;
+    if (verificationScore > score) {
+      score = verificationScore;
+      status = score >= DANGER_SCORE ? 'danger' : 'warning';
+      message = findings[0].message;
+    }
+
     return {
       check: 'SOCIAL_SENTIMENT',
       status,
@@ -108,6 +138,12 @@ export async function checkSocialSentiment(ctx: ScanContext): Promise<RiskCheckR
         hasTelegram,
         metadataUri: metadataUri || null,
         socialLinks: socialPoints,
+        handles: links.map(({ kind, handle }) => ({ kind, handle })),
+        website: verification.website,
+        sharedSocials: verification.shared,
+        ruggedSocials: verification.rugged,
+        socialFlags: findings.map(f => f.message),
+        verificationScore,
       },
       message,
     };
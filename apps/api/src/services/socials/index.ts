@@ -0,0 +1,91 @@
+import type { SharedSocial } from '@trenchable/shared';
+import { findTokensSharingSocials, recordTokenSocials } from '../../db/token-socials.js';
+import { getLaunchOutcomes } from '../token-tracker.service.js';
+import { isSharedHost, type SocialLink } from './links.js';
+import { getSocialProviders, type SocialProviders } from './providers.js';
+
+export { collectSocialLinks, describeHandle, parseSocialLink, type SocialLink } from './links.js';
+export {
+  getSocialProviders,
+  httpWebsiteFetcher,
+  rdapDomainAgeProvider,
+  resetSocialProviders,
+  setSocialProviders,
+  type DomainAgeProvider,
+  type DomainRegistration,
+  type SocialProviders,
+  type WebPage,
+  type WebsiteFetcher,
+} from './providers.js';
+
+/**
+ * Social link verification
+ *
+ * Links in metadata prove nothing by themselves: they're free to add and
+ * easy to copy. This checks the website (does it load, is the domain new,
+ * does it mention the mint) and compares every handle against the tokens
+ * we've scanned before, which catches socials lifted from another launch and
+ * ones recycled from a rug.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WebsiteCheck {
+  url: string;
+  site: string;
+  reachable: boolean;
+  status: number | null;
+  // null when the page couldn't be read
+  referencesMint: boolean | null;
+  // null on shared hosting or when the registry has no date
+  domainAgeDays: number | null;
+  registrar: string | null;
+}
+
+export interface SocialVerification {
+  website: WebsiteCheck | null;
+  // Handles other scanned mints also link to
+  shared: SharedSocial[];
+  // The same, narrowed to the mints that rugged
+  rugged: SharedSocial[];
+}
+
+async function checkWebsite(link: SocialLink, tokenMint: string, providers: SocialProviders): Promise<WebsiteCheck> {
+  const [page, registration] = await Promise.all([
+    providers.website.fetch(link.url).catch(() => null),
+    isSharedHost(link.handle) ? null : providers.domainAge.lookup(link.handle).catch(() => null),
+  ]);
+  const reachable = !!page && page.status >= 200 && page.status < 400;
+  return {
+    url: page?.url ?? link.url,
+    site: link.handle,
+    reachable,
+    status: page?.status ?? null,
+    referencesMint: reachable ? page!.body.includes(tokenMint) : null,
+    domainAgeDays: registration?.registeredAt ? Math.floor((Date.now() - registration.registeredAt) / DAY_MS) : null,
+    registrar: registration?.registrar ?? null,
+  };
+}
+
+/**
+ * Verify the token's links and record its handles for later comparisons.
+ * Provider failures leave the affected fields null rather than failing.
+ */
+export async function verifySocials(
+  tokenMint: string,
+  links: SocialLink[],
+  providers: SocialProviders = getSocialProviders()
+): Promise<SocialVerification> {
+  const websiteLink = links.find(l => l.kind === 'website');
+  const website = websiteLink ? await checkWebsite(websiteLink, tokenMint, providers) : null;
+
+  const handles = links.map(({ kind, handle }) => ({ kind, handle }));
+  const shared = findTokensSharingSocials(tokenMint, handles);
+  const outcomes = getLaunchOutcomes([...new Set(shared.flatMap(s => s.mints))]);
+  const rugged = shared
+    .map(s => ({ ...s, mints: s.mints.filter(m => outcomes.get(m)?.rugDetected) }))
+    .filter(s => s.mints.length > 0);
+
+  recordTokenSocials(tokenMint, handles);
+  return { website, shared, rugged };
+}
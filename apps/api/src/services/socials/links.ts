@@ -0,0 +1,130 @@
+import type { SocialHandle, SocialKind } from '@trenchable/shared';
+import type { DexScreenerData } from '../external/dexscreener.js';
+
+export interface SocialLink extends SocialHandle {
+  url: string;
+}
+
+const TWITTER_HOSTS = ['twitter.com', 'x.com'];
+const TELEGRAM_HOSTS = ['t.me', 'telegram.me'];
+// X paths that aren't accounts
+const TWITTER_RESERVED = new Set(['home', 'search', 'intent', 'share', 'hashtag', 'i']);
+// Launchpads, explorers and charts: links to them aren't the project's own site
+const THIRD_PARTY_HOSTS = [
+  'pump.fun', 'dexscreener.com', 'birdeye.so', 'solscan.io', 'solana.fm', 'jup.ag',
+  'raydium.io', 'gmgn.ai', 'photon-sol.tinyastro.io', 'ipfs.io',
+];
+// Free hosting where every site is a subdomain: the subdomain is the site and the domain's age says nothing
+const SHARED_HOST_SUFFIXES = [
+  'vercel.app', 'netlify.app', 'github.io', 'pages.dev', 'web.app', 'firebaseapp.com',
+  'carrd.co', 'webflow.io', 'gitbook.io', 'wixsite.com', 'framer.website', 'replit.app',
+];
+// Second-level labels under country TLDs, as in example.co.uk
+const COUNTRY_SECOND_LEVELS = new Set(['co', 'com', 'net', 'org', 'gov', 'edu', 'ac']);
+
+const matchesHost = (host: string, domains: string[]) => domains.some(d => host === d || host.endsWith(`.${d}`));
+
+export function isSharedHost(site: string): boolean {
+  return matchesHost(site, SHARED_HOST_SUFFIXES);
+}
+
+// The site a hostname belongs to: its registrable domain, or the whole host on shared hosting
+function siteOf(host: string): string {
+  if (isSharedHost(host) || /^[\d.]+$/.test(host)) return host;
+  const labels = host.split('.');
+  const keep = labels.length > 2 && labels[labels.length - 1].length === 2 && COUNTRY_SECOND_LEVELS.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+/**
+ * Reduce a link to the handle it identifies. `hint` is the field it came
+ * from, so a bare "@name" in a twitter field reads as an X handle. Returns
+ * null for links that identify nothing of the project's own.
+ */
+export function parseSocialLink(raw: string, hint?: SocialKind): SocialLink | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  if (hint && hint !== 'website' && /^@?\w{1,32}$/.test(value)) {
+    const handle = value.replace(/^@/, '').toLowerCase();
+    return { kind: hint, handle, url: hint === 'twitter' ? `https://x.com/${handle}` : `https://t.me/${handle}` };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  const host = url.hostname.toLowerCase().replace(/^(www|mobile)\./, '');
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (TWITTER_HOSTS.includes(host)) {
+    if (segments[0] === 'i' && segments[1] === 'communities' && segments[2]) {
+      return { kind: 'twitter', handle: `i/communities/${segments[2]}`, url: url.href };
+    }
+    const name = segments[0]?.toLowerCase();
+    if (!name || TWITTER_RESERVED.has(name) || !/^\w{1,15}$/.test(name)) return null;
+    return { kind: 'twitter', handle: name, url: url.href };
+  }
+
+  if (TELEGRAM_HOSTS.includes(host)) {
+    const name = segments[0] === 's' ? segments[1] : segments[0];
+    if (!name) return null;
+    // Public usernames are case-insensitive, invite codes aren't
+    if (name === 'joinchat') return segments[1] ? { kind: 'telegram', handle: `+${segments[1]}`, url: url.href } : null;
+    if (name.startsWith('+')) return { kind: 'telegram', handle: name, url: url.href };
+    return { kind: 'telegram', handle: name.toLowerCase(), url: url.href };
+  }
+
+  if (!host.includes('.') || matchesHost(host, THIRD_PARTY_HOSTS)) return null;
+  return { kind: 'website', handle: siteOf(host), url: url.href };
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'<>)\]]+|\b(?:t\.me|x\.com|twitter\.com)\/[^\s"'<>)\]]+/gi;
+
+/**
+ * Every social link in the token's metadata JSON (the fields pump.fun and
+ * Metaplex use, plus URLs in the description) and on DexScreener, one per
+ * handle, metadata first.
+ */
+export function collectSocialLinks(metadata: Record<string, unknown> | null, dexData: DexScreenerData | null): SocialLink[] {
+  const candidates: [string, SocialKind | undefined][] = [];
+  const add = (value: unknown, hint?: SocialKind) => {
+    if (typeof value === 'string') candidates.push([value, hint]);
+  };
+
+  if (metadata) {
+    for (const source of [metadata, metadata.extensions, metadata.links]) {
+      if (!source || typeof source !== 'object') continue;
+      const fields = source as Record<string, unknown>;
+      add(fields.external_url, 'website');
+      add(fields.website, 'website');
+      add(fields.twitter, 'twitter');
+      add(fields.telegram, 'telegram');
+    }
+    if (typeof metadata.description === 'string') {
+      for (const match of metadata.description.match(URL_PATTERN) ?? []) add(match);
+    }
+  }
+
+  for (const website of dexData?.websites ?? []) add(website, 'website');
+  for (const social of dexData?.socials ?? []) {
+    if (social.type === 'twitter' || social.type === 'telegram') add(social.url, social.type);
+  }
+
+  const links = new Map<string, SocialLink>();
+  for (const [value, hint] of candidates) {
+    const link = parseSocialLink(value, hint);
+    if (link && !links.has(`${link.kind}:${link.handle}`)) links.set(`${link.kind}:${link.handle}`, link);
+  }
+  return [...links.values()];
+}
+
+// How a handle reads to a person
+export function describeHandle({ kind, handle }: SocialHandle): string {
+  if (kind === 'twitter') return handle.startsWith('i/') ? `x.com/${handle}` : `@${handle}`;
+  if (kind === 'telegram') return `t.me/${handle}`;
+  return handle;
+}
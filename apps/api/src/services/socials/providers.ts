@@ -0,0 +1,210 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { config } from '../../config/env.js';
+import { MemoryCache } from '../../cache/memory-cache.js';
+
+/**
+ * Lookups behind social verification. Both go out to the internet, so they're
+ * swappable: a deployment can plug in a WHOIS API instead of RDAP, and tests
+ * can stand in local fakes with setSocialProviders().
+ */
+
+export interface DomainRegistration {
+  registeredAt: number | null;
+  registrar: string | null;
+}
+
+export interface DomainAgeProvider {
+  // null when the registry has no record of the domain
+  lookup(domain: string): Promise<DomainRegistration | null>;
+}
+
+export interface WebPage {
+  // After redirects
+  url: string;
+  status: number;
+  body: string;
+}
+
+export interface WebsiteFetcher {
+  // null when the site can't be reached at all
+  fetch(url: string): Promise<WebPage | null>;
+}
+
+export interface SocialProviders {
+  domainAge: DomainAgeProvider;
+  website: WebsiteFetcher;
+}
+
+const RDAP_TIMEOUT_MS = 5000;
+const REGISTRATION_TTL_MS = 24 * 60 * 60 * 1000;
+const PAGE_TIMEOUT_MS = 5000;
+// Enough for the mint to show up in the markup without downloading a whole bundle
+const MAX_PAGE_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 5;
+
+interface RdapDomain {
+  events?: { eventAction: string; eventDate: string }[];
+  entities?: { roles?: string[]; vcardArray?: [string, [string, unknown, string, unknown][]] }[];
+}
+
+// Registration date and registrar from an RDAP service (rdap.org redirects to the TLD's own)
+export function rdapDomainAgeProvider(baseUrl = config.socials.rdapUrl): DomainAgeProvider {
+  const cache = new MemoryCache<DomainRegistration>();
+  return {
+    async lookup(domain) {
+      const cached = cache.get(domain);
+      if (cached !== null) return cached;
+
+      const res = await fetch(`${baseUrl}/domain/${encodeURIComponent(domain)}`, {
+        headers: { accept: 'application/rdap+json' },
+        signal: AbortSignal.timeout(RDAP_TIMEOUT_MS),
+      });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`RDAP lookup for ${domain} failed: HTTP ${res.status}`);
+
+      const body = (await res.json()) as RdapDomain;
+      const registration = body.events?.find(e => e.eventAction === 'registration');
+      const registrar = body.entities?.find(e => e.roles?.includes('registrar'));
+      const name = registrar?.vcardArray?.[1]?.find(field => field[0] === 'fn')?.[3];
+      const result: DomainRegistration = {
+        registeredAt: registration ? Date.parse(registration.eventDate) || null : null,
+        registrar: typeof name === 'string' ? name : null,
+      };
+      cache.set(domain, result, REGISTRATION_TTL_MS);
+      return result;
+    },
+  };
+}
+
+// ─── Website fetching ───
+// Token creators choose the URL, and the status and final URL end up in scan
+// results, so the API server only fetches public web servers: http(s) on the
+// default ports, never an address in a private, loopback or link-local range.
+
+const NON_PUBLIC = new BlockList();
+for (const [net, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, 'ipv4');
+}
+for (const [net, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  // IPv4-mapped (::ffff:a.b.c.d) can't be a subnet rule: BlockList checks plain
+  // IPv4 against it too, blocking everything. No public site needs one.
+  if (family === 6 && /^::ffff:/i.test(address)) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves like dns.lookup, but fails when any address isn't public. Runs at
+// connect time, so a host can't pass a check and then rebind to 127.0.0.1.
+const publicLookup = ((hostname: string, options: LookupOptions, callback: (...args: unknown[]) => void) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || !addresses.every(a => isPublicAddress(a.address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`));
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+// The URL when it's one the fetcher may request
+function fetchableUrl(raw: string, base?: string): URL | null {
+  let url: URL;
+  try {
+    url = new URL(raw, base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  // Default ports only; URL leaves port empty for 80 on http and 443 on https
+  if (url.port !== '' || url.username || url.password) return null;
+  // An IP literal never goes through lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) return null;
+  return url;
+}
+
+// One GET without following redirects; the body is cut at MAX_PAGE_BYTES
+function getOnce(url: URL, deadline: number): Promise<{ status: number; location: string | null; body: string }> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).get(url, {
+      headers: { 'user-agent': 'Mozilla/5.0 (compatible; Trenchable/1.0)', 'accept-encoding': 'identity' },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(Math.max(1, deadline - Date.now())),
+    }, (res) => {
+      const status = res.statusCode ?? 0;
+      const location = typeof res.headers.location === 'string' ? res.headers.location : null;
+      if (status >= 300 && status < 400) {
+        res.resume();
+        resolve({ status, location, body: '' });
+        return;
+      }
+
+      const decoder = new TextDecoder();
+      let body = '';
+      let bytes = 0;
+      const finish = () => resolve({ status, location: null, body });
+      res.on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        body += decoder.decode(chunk, { stream: true });
+        if (bytes >= MAX_PAGE_BYTES) {
+          res.destroy();
+          finish();
+        }
+      });
+      res.on('end', finish);
+      // Keep what arrived before the timeout
+      res.on('error', finish);
+    });
+    request.on('error', reject);
+  });
+}
+
+// Plain HTTP GET of public sites, following redirects (each one checked again)
+export function httpWebsiteFetcher(): WebsiteFetcher {
+  return {
+    async fetch(raw) {
+      const deadline = Date.now() + PAGE_TIMEOUT_MS;
+      let url = fetchableUrl(raw);
+      for (let hop = 0; url && hop <= MAX_REDIRECTS; hop++) {
+        let page: Awaited<ReturnType<typeof getOnce>>;
+        try {
+          page = await getOnce(url, deadline);
+        } catch {
+          return null;
+        }
+        if (page.location === null) return { url: url.toString(), status: page.status, body: page.body };
+        url = fetchableUrl(page.location, url.toString());
+      }
+      // A redirect loop, or a redirect somewhere the fetcher won't go
+      return null;
+    },
+  };
+}
+
+let providers: SocialProviders | null = null;
+
+export function getSocialProviders(): SocialProviders {
+  return (providers ??= { domainAge: rdapDomainAgeProvider(), website: httpWebsiteFetcher() });
+}
+
+// Replace some providers; the others keep their current implementation
+export function setSocialProviders(overrides: Partial<SocialProviders>): void {
+  providers = { ...getSocialProviders(), ...overrides };
+}
+
+export function resetSocialProviders(): void {
+  providers = null;
+}
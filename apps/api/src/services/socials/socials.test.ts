@@ -0,0 +1,115 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getDb } from '../../db/database.js';
+import { parseSocialLink, verifySocials, type SocialLink, type SocialProviders } from './index.js';
+import { httpWebsiteFetcher, isPublicAddress } from './providers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local stand-ins for RDAP and the website fetch
+function fakeProviders(pages: Record<string, { status: number; body: string }>, registeredDaysAgo: Record<string, number>): SocialProviders {
+  return {
+    domainAge: {
+      async lookup(domain) {
+        const days = registeredDaysAgo[domain];
+        return days === undefined ? null : { registeredAt: Date.now() - days * DAY_MS, registrar: 'Test Registrar' };
+      },
+    },
+    website: {
+      async fetch(url) {
+        const page = pages[url];
+        return page ? { url, ...page } : null;
+      },
+    },
+  };
+}
+
+const links = (...raw: string[]): SocialLink[] => raw.map(r => parseSocialLink(r)).filter((l): l is SocialLink => l !== null);
+
+describe('verifySocials', () => {
+  it('reports a new domain whose site does not mention the mint', async () => {
+    const providers = fakeProviders({ 'https://moon.example/': { status: 200, body: '<h1>To the moon</h1>' } }, { 'moon.example': 2 });
+    const result = await verifySocials('MintA', links('https://moon.example/'), providers);
+
+    expect(result.website).toMatchObject({
+      site: 'moon.example',
+      reachable: true,
+      status: 200,
+      referencesMint: false,
+      domainAgeDays: 2,
+      registrar: 'Test Registrar',
+    });
+  });
+
+  it('marks a site that fails to load unreachable, and a page naming the mint as referencing it', async () => {
+    const down = await verifySocials('MintB', links('https://down.example/'), fakeProviders({}, {}));
+    expect(down.website).toMatchObject({ reachable: false, status: null, referencesMint: null, domainAgeDays: null });
+
+    const providers = fakeProviders({ 'https://good.example/': { status: 200, body: 'CA: MintC' } }, { 'good.example': 400 });
+    const good = await verifySocials('MintC', links('https://good.example/'), providers);
+    expect(good.website).toMatchObject({ reachable: true, referencesMint: true, domainAgeDays: 400 });
+  });
+
+  it('finds handles reused from earlier mints, and the ones that rugged', async () => {
+    const providers = fakeProviders({}, {});
+    await verifySocials('OldRug', links('https://x.com/recycled', 'https://t.me/recycled_tg'), providers);
+    await verifySocials('OldFine', links('https://x.com/recycled'), providers);
+    getDb().prepare(
+      "INSERT INTO token_launch_signals (token_mint, platform, scanned_at, rug_detected) VALUES ('OldRug', 'pump.fun', ?, 1)"
+    ).run(Date.now());
+
+    const result = await verifySocials('NewMint', links('https://x.com/Recycled', 'https://t.me/recycled_tg', 'https://x.com/unique'), providers);
+
+    const byHandle = Object.fromEntries(result.shared.map(s => [`${s.kind}:${s.handle}`, [...s.mints].sort()]));
+    expect(byHandle).toEqual({ 'twitter:recycled': ['OldFine', 'OldRug'], 'telegram:recycled_tg': ['OldRug'] });
+    expect(result.rugged.map(s => [s.handle, s.mints])).toEqual(
+      expect.arrayContaining([['recycled', ['OldRug']], ['recycled_tg', ['OldRug']]])
+    );
+    expect(result.rugged).toHaveLength(2);
+  });
+});
+
+describe('httpWebsiteFetcher', () => {
+  let server: Server;
+  let port: number;
+  let requests = 0;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      requests++;
+      res.end('internal admin page');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('classifies private, loopback and link-local addresses as non-public', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+    expect(isPublicAddress('1.1.1.1')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+  });
+
+  it('refuses to fetch internal hosts, other ports and other schemes', async () => {
+    const fetcher = httpWebsiteFetcher();
+    for (const url of [
+      `http://127.0.0.1:${port}/`,
+      `http://localhost:${port}/`,
+      'http://127.0.0.1/',
+      'http://[::1]/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://localhost/',
+      'file:///etc/passwd',
+      'ftp://example.com/',
+    ]) {
+      expect(await fetcher.fetch(url), url).toBeNull();
+    }
+    expect(requests).toBe(0);
+  });
+});
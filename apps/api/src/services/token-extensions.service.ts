@@ -0,0 +1,291 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import {
+  AccountState,
+  ExtensionType,
+  getDefaultAccountState,
+  getExtensionData,
+  getExtensionTypes,
+  getInterestBearingMintConfigState,
+  getMetadataPointerState,
+  getMintCloseAuthority,
+  getPausableConfig,
+  getPermanentDelegate,
+  getScaledUiAmountConfig,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackMint,
+  type Mint,
+} from '@solana/spl-token';
+import type { RiskCheckResult, RiskStatus } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
+import type { ScanContext } from '../types/risk.types.js';
+
+/**
+ * Token-2022 extension analysis
+ *
+ * Decodes every extension on the mint and scores each one that hands someone
+ * control over holders' tokens: blocking transfers, moving or freezing balances,
+ * or rewriting what the token looks like.
+ */
+
+const BPF_UPGRADEABLE_LOADER = 'BPFLoaderUpgradeab1e11111111111111111111111';
+
+export interface ExtensionRisk {
+  extension: string;
+  score: number;
+  message: string;
+}
+
+export interface TransferHookProgram {
+  programId: string;
+  executable: boolean;
+  upgradeAuthority: string | null;
+}
+
+export interface MintExtensionAnalysis {
+  extensions: string[];
+  risks: ExtensionRisk[];
+  authorities: Record<string, string | null>;
+  transferHookProgram: string | null;
+}
+
+/**
+ * Fetch a mint under whichever token program owns it. getMint assumes SPL Token
+ * and fails on Token-2022 mints; this keeps their extension data (tlvData).
+ */
+export async function getMintWithExtensions(connection: Connection, mint: PublicKey): Promise<Mint> {
+  const info = await connection.getAccountInfo(mint);
+  if (!info) throw new Error(`Mint ${mint.toBase58()} not found`);
+  return unpackMint(mint, info, info.owner);
+}
+
+// Extension authorities are OptionalNonZeroPubkey: all zeros means none
+function optionalKey(key: PublicKey | null | undefined): string | null {
+  if (!key || key.equals(PublicKey.default)) return null;
+  return key.toBase58();
+}
+
+function short(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+export function analyzeMintExtensions(mint: Mint): MintExtensionAnalysis {
+  const types = mint.tlvData.length > 0 ? getExtensionTypes(mint.tlvData) : [];
+  const risks: ExtensionRisk[] = [];
+  const authorities: Record<string, string | null> = {};
+  let transferHookProgram: string | null = null;
+
+  for (const type of types) {
+    switch (type) {
+      case ExtensionType.NonTransferable:
+        risks.push({ extension: 'NonTransferable', score: 100, message: 'Token is non-transferable — it cannot be sold' });
+        break;
+
+      case ExtensionType.PausableConfig: {
+        const config = getPausableConfig(mint);
+        const authority = optionalKey(config?.authority);
+        authorities.pause = authority;
+        if (config?.paused) {
+          risks.push({ extension: 'PausableConfig', score: 100, message: 'Transfers are currently paused — nobody can sell' });
+        } else if (authority) {
+          risks.push({ extension: 'PausableConfig', score: 80, message: `Authority ${short(authority)} can pause all transfers at any time` });
+        }
+        break;
+      }
+
+      case ExtensionType.PermanentDelegate: {
+        const delegate = optionalKey(getPermanentDelegate(mint)?.delegate);
+        authorities.permanentDelegate = delegate;
+        if (delegate) {
+          risks.push({ extension: 'PermanentDelegate', score: 90, message: `Permanent delegate ${short(delegate)} can transfer or burn tokens from any wallet` });
+        }
+        break;
+      }
+
+      case ExtensionType.DefaultAccountState:
+        if (getDefaultAccountState(mint)?.state === AccountState.Frozen) {
+          risks.push({ extension: 'DefaultAccountState', score: 85, message: 'New token accounts start frozen — buyers cannot sell until the freeze authority thaws them' });
+        }
+        break;
+
+      case ExtensionType.TransferHook: {
+        const hook = getTransferHook(mint);
+        const authority = optionalKey(hook?.authority);
+        transferHookProgram = optionalKey(hook?.programId);
+        authorities.transferHook = authority;
+        if (transferHookProgram) {
+          risks.push({
+            extension: 'TransferHook',
+            score: authority ? 85 : 80,
+            message: `Every transfer calls program ${short(transferHookProgram)}, which can block sells` +
+              (authority ? ' — and the hook can be swapped by its authority' : ''),
+          });
+        } else if (authority) {
+          risks.push({ extension: 'TransferHook', score: 50, message: `Authority ${short(authority)} can attach a transfer hook later` });
+        }
+        break;
+      }
+
+      case ExtensionType.ConfidentialTransferMint: {
+        const data = getExtensionData(ExtensionType.ConfidentialTransferMint, mint.tlvData);
+        authorities.confidentialTransfer = data ? optionalKey(new PublicKey(data.subarray(0, 32))) : null;
+        risks.push({ extension: 'ConfidentialTransferMint', score: 45, message: 'Confidential transfers enabled — balances and transfer amounts can be hidden' });
+        break;
+      }
+
+      case ExtensionType.TransferFeeConfig: {
+        // The current fee itself is scored by TOKEN_TAX
+        const authority = optionalKey(getTransferFeeConfig(mint)?.transferFeeConfigAuthority);
+        authorities.transferFee = authority;
+        if (authority) {
+          risks.push({ extension: 'TransferFeeConfig', score: 40, message: `Fee authority ${short(authority)} can raise the transfer fee` });
+        }
+        break;
+      }
+
+      case ExtensionType.InterestBearingConfig: {
+        const authority = optionalKey(getInterestBearingMintConfigState(mint)?.rateAuthority);
+        authorities.interestRate = authority;
+        if (authority) {
+          risks.push({ extension: 'InterestBearingConfig', score: 35, message: 'Rate authority can change how balances are displayed' });
+        }
+        break;
+      }
+
+      case ExtensionType.ScaledUiAmountConfig: {
+        const authority = optionalKey(getScaledUiAmountConfig(mint)?.authority);
+        authorities.uiMultiplier = authority;
+        if (authority) {
+          risks.push({ extension: 'ScaledUiAmountConfig', score: 35, message: 'Authority can rescale displayed balances' });
+        }
+        break;
+      }
+
+      case ExtensionType.MintCloseAuthority: {
+        const authority = optionalKey(getMintCloseAuthority(mint)?.closeAuthority);
+        authorities.mintClose = authority;
+        if (authority) {
+          risks.push({ extension: 'MintCloseAuthority', score: 30, message: `Close authority ${short(authority)} can close the mint once supply is zero` });
+        }
+        break;
+      }
+
+      case ExtensionType.MetadataPointer: {
+        const authority = optionalKey(getMetadataPointerState(mint)?.authority);
+        authorities.metadataPointer = authority;
+        if (authority) {
+          risks.push({ extension: 'MetadataPointer', score: 25, message: 'Metadata pointer can be redirected to different metadata' });
+        }
+        break;
+      }
+
+      case ExtensionType.TokenMetadata: {
+        // update_authority is the first field of the TokenMetadata TLV value
+        const data = getExtensionData(ExtensionType.TokenMetadata, mint.tlvData);
+        const authority = data && data.length >= 32 ? optionalKey(new PublicKey(data.subarray(0, 32))) : null;
+        authorities.metadataUpdate = authority;
+        if (authority) {
+          risks.push({ extension: 'TokenMetadata', score: 20, message: 'Token name, symbol and image can still be changed' });
+        }
+        break;
+      }
+    }
+  }
+
+  risks.sort((a, b) => b.score - a.score);
+  return {
+    extensions: types.map(t => ExtensionType[t] ?? `Unknown(${t})`),
+    risks,
+    authorities,
+    transferHookProgram,
+  };
+}
+
+// Whether the hook program exists and who can upgrade it
+export async function resolveTransferHookProgram(
+  connection: Connection,
+  programId: string
+): Promise<TransferHookProgram> {
+  const info = await connection.getAccountInfo(new PublicKey(programId));
+  if (!info) return { programId, executable: false, upgradeAuthority: null };
+
+  let upgradeAuthority: string | null = null;
+  if (info.owner.toBase58() === BPF_UPGRADEABLE_LOADER && info.data.length >= 36) {
+    // Program account: enum tag u32, programdata address
+    const programData = await connection.getAccountInfo(new PublicKey(info.data.subarray(4, 36)));
+    // ProgramData: enum tag u32, slot u64, Option<Pubkey> upgrade authority
+    if (programData && programData.data.length >= 45 && programData.data[12] === 1) {
+      upgradeAuthority = new PublicKey(programData.data.subarray(13, 45)).toBase58();
+    }
+  }
+  return { programId, executable: info.executable, upgradeAuthority };
+}
+
+export function buildExtensionsResult(
+  analysis: MintExtensionAnalysis,
+  weight: number,
+  hookProgram: TransferHookProgram | null = null
+): RiskCheckResult {
+  const risks = [...analysis.risks];
+
+  // An upgradeable hook program can change what it blocks without touching the mint
+  if (hookProgram?.upgradeAuthority) {
+    const hook = risks.find(r => r.extension === 'TransferHook');
+    if (hook) {
+      hook.score = Math.min(95, hook.score + 5);
+      hook.message += ` (hook program upgradeable by ${short(hookProgram.upgradeAuthority)})`;
+    }
+  }
+
+  const details = {
+    tokenProgram: analysis.extensions.length > 0 ? 'Token-2022' : 'SPL Token or Token-2022 without extensions',
+    extensions: analysis.extensions,
+    risks,
+    authorities: analysis.authorities,
+    transferHookProgram: hookProgram ?? analysis.transferHookProgram,
+  };
+
+  if (risks.length === 0) {
+    return {
+      check: 'TOKEN_EXTENSIONS',
+      status: 'safe',
+      score: 0,
+      weight,
+      details,
+      message: analysis.extensions.length > 0
+        ? `${analysis.extensions.length} Token-2022 extension(s), none give control over holders' tokens`
+        : 'No Token-2022 extensions',
+    };
+  }
+
+  const top = risks[0];
+  const status: RiskStatus = top.score >= 70 ? 'danger' : top.score >= 30 ? 'warning' : 'safe';
+  return {
+    check: 'TOKEN_EXTENSIONS',
+    status,
+    score: top.score,
+    weight,
+    details,
+    message: risks.length > 1 ? `${top.message} (+${risks.length - 1} more extension risk(s))` : top.message,
+  };
+}
+
+export async function checkTokenExtensions(ctx: ScanContext): Promise<RiskCheckResult> {
+  try {
+    const mint = ctx.mintInfo ?? await getMintWithExtensions(ctx.connection, ctx.tokenMint);
+    const analysis = analyzeMintExtensions(mint);
+    const hookProgram = analysis.transferHookProgram
+      ? await resolveTransferHookProgram(ctx.connection, analysis.transferHookProgram).catch(() => null)
+      : null;
+    return buildExtensionsResult(analysis, RISK_WEIGHTS.TOKEN_EXTENSIONS, hookProgram);
+  } catch (error) {
+    return {
+      check: 'TOKEN_EXTENSIONS',
+      status: 'unknown',
+      score: 50,
+      weight: RISK_WEIGHTS.TOKEN_EXTENSIONS,
+      details: { error: String(error) },
+      message: 'Could not decode Token-2022 extensions',
+    };
+  }
+}
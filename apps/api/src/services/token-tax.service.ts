@@ -1,9 +1,9 @@
 import { PublicKey } from '@solana/web3.js';
-import { RISK_WEIGHTS, PROGRAM_IDS, RUG_PATTERN_INDICATORS, type RiskCheckResult } from '@trenchable/shared';
+import { getTransferFeeConfig, unpackMint } from '@solana/spl-token';
+import { PROGRAM_IDS, RUG_PATTERN_INDICATORS, type RiskCheckResult } from '@trenchable/shared';
+import { RISK_WEIGHTS } from '../checks/registry.js';
 import type { ScanContext } from '../types/risk.types.js';
-
-// Token-2022 extension types
-const EXTENSION_TYPE_TRANSFER_FEE = 1;
+import { analyzeMintExtensions } from './token-extensions.service.js';
 
 export async function checkTokenTax(ctx: ScanContext): Promise<RiskCheckResult> {
   try {
@@ -31,12 +31,11 @@ export async function checkTokenTax(ctx: ScanContext): Promise<RiskCheckResult>
       };
     }
 
-    // Token-2022: parse the mint account data for extensions
-    // Token-2022 mint layout: first 82 bytes are standard mint data
-    // After that comes extensions
-    const data = accountInfo.data;
+    // Token-2022: decode the mint's extensions
+    const mint = unpackMint(ctx.tokenMint, accountInfo, accountInfo.owner);
+    const { extensions } = analyzeMintExtensions(mint);
 
-    if (data.length <= 82) {
+    if (extensions.length === 0) {
       return {
         check: 'TOKEN_TAX',
         status: 'safe',
@@ -51,51 +50,13 @@ export async function checkTokenTax(ctx: ScanContext): Promise<RiskCheckResult>
       };
     }
 
-    // Parse extensions
-    // Extension TLV format after base mint data + padding:
-    // - account_type (1 byte) at offset 82 = 1 (Mint)
-    // - Then TLV entries: type (2 bytes LE) + length (2 bytes LE) + value
-    const extensions: { type: number; name: string }[] = [];
-    let hasTransferFee = false;
-    let transferFeeBps = 0;
-    let maxTransferFeeBps = 0;
-    let feeAuthority: string | null = null;
-
-    let offset = 83; // skip account_type byte after 82-byte mint
-    while (offset + 4 <= data.length) {
-      const extType = data.readUInt16LE(offset);
-      const extLen = data.readUInt16LE(offset + 2);
-
-      if (extLen === 0 && extType === 0) break; // End of extensions
-
-      const extName = getExtensionName(extType);
-      extensions.push({ type: extType, name: extName });
-
-      if (extType === EXTENSION_TYPE_TRANSFER_FEE) {
-        hasTransferFee = true;
-        // TransferFeeConfig layout:
-        // - transfer_fee_config_authority (32 bytes)
-        // - withdraw_withheld_authority (32 bytes)
-        // - withheld_amount (8 bytes)
-        // - older_transfer_fee: epoch (8) + max_fee (8) + transfer_fee_basis_points (2)
-        // - newer_transfer_fee: epoch (8) + max_fee (8) + transfer_fee_basis_points (2)
-        if (extLen >= 98) {
-          const extStart = offset + 4;
-          feeAuthority = new PublicKey(data.subarray(extStart, extStart + 32)).toBase58();
-
-          // Newer transfer fee (current)
-          const newerOffset = extStart + 32 + 32 + 8 + 18; // skip to newer
-          if (newerOffset + 18 <= offset + 4 + extLen) {
-            transferFeeBps = data.readUInt16LE(newerOffset + 16);
-            // max fee
-            const maxFee = data.readBigUInt64LE(newerOffset + 8);
-            maxTransferFeeBps = transferFeeBps;
-          }
-        }
-      }
-
-      offset += 4 + extLen;
-    }
+    // The newer transfer fee is the one in force (or about to be)
+    const feeConfig = getTransferFeeConfig(mint);
+    const hasTransferFee = feeConfig !== null;
+    const transferFeeBps = feeConfig?.newerTransferFee.transferFeeBasisPoints ?? 0;
+    const feeAuthority = feeConfig && !feeConfig.transferFeeConfigAuthority.equals(PublicKey.default)
+      ? feeConfig.transferFeeConfigAuthority.toBase58()
+      : null;
 
     // Scoring
     let score: number;
@@ -139,7 +100,7 @@ export async function checkTokenTax(ctx: ScanContext): Promise<RiskCheckResult>
         transferFeeBps,
         transferFeePct: transferFeeBps / 100,
         feeAuthority,
-        extensions: extensions.map(e => e.name),
+        extensions,
       },
       message,
     };
@@ -148,32 +109,6 @@ export async function checkTokenTax(ctx: ScanContext): Promise<RiskCheckResult>
   }
 }
 
-function getExtensionName(type: number): string {
-  const names: Record<number, string> = {
-    0: 'Uninitialized',
-    1: 'TransferFeeConfig',
-    2: 'TransferFeeAmount',
-    3: 'MintCloseAuthority',
-    4: 'ConfidentialTransferMint',
-    5: 'ConfidentialTransferAccount',
-    6: 'DefaultAccountState',
-    7: 'ImmutableOwner',
-    8: 'MemoTransfer',
-    9: 'NonTransferable',
-    10: 'InterestBearingConfig',
-    11: 'CpiGuard',
-    12: 'PermanentDelegate',
-    13: 'NonTransferableAccount',
-    14: 'TransferHook',
-    15: 'TransferHookAccount',
-    16: 'MetadataPointer',
-    17: 'TokenMetadata',
-    18: 'GroupPointer',
-    19: 'GroupMemberPointer',
-  };
-  return names[type] || `Unknown(${type})`;
-}
-
 function unknownResult(msg: string): RiskCheckResult {
   return {
     check: 'TOKEN_TAX',
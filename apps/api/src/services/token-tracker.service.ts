@@ -86,8 +86,9 @@ export function saveLaunchSignals(scan: ExtendedScanResponse): void {
       devCheck?.details?.devHoldingPct || null,
       null, // bundle_pct — not in instant scan yet
 
-      taxCheck?.details?.buyTax || null,
-      taxCheck?.details?.sellTax || null,
+      // Measured round-trip taxes when available — a measured 0 is kept, not nulled
+      taxCheck?.details?.buyTax ?? null,
+      taxCheck?.details?.sellTax ?? null,
 
       mintCheck?.status === 'safe' ? 1 : 0,
       freezeCheck?.status === 'safe' ? 1 : 0,
@@ -220,6 +221,43 @@ export function stopTokenTracker(): void {
   }
 }
 
+// ─── Outcomes for the creator reputation check ───
+
+export interface LaunchOutcome {
+  tokenMint: string;
+  scannedAt: number;
+  rugDetected: boolean;
+  rugTimeMinutes: number | null;
+  outcomeCheckedAt: number | null;
+  launchLiquidity: number | null;
+  launchPrice: number | null;
+}
+
+export function getLaunchOutcomes(tokenMints: string[]): Map<string, LaunchOutcome> {
+  const outcomes = new Map<string, LaunchOutcome>();
+  if (tokenMints.length === 0) return outcomes;
+
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT token_mint, scanned_at, rug_detected, rug_time_minutes, outcome_checked_at, launch_liquidity, launch_price
+    FROM token_launch_signals
+    WHERE token_mint IN (SELECT value FROM json_each(?))
+  `).all(JSON.stringify(tokenMints)) as any[];
+
+  for (const row of rows) {
+    outcomes.set(row.token_mint, {
+      tokenMint: row.token_mint,
+      scannedAt: row.scanned_at,
+      rugDetected: row.rug_detected === 1,
+      rugTimeMinutes: row.rug_time_minutes,
+      outcomeCheckedAt: row.outcome_checked_at,
+      launchLiquidity: row.launch_liquidity,
+      launchPrice: row.launch_price,
+    });
+  }
+  return outcomes;
+}
+
 // ─── Stats for the predictor ───
 
 export interface LaunchSignalStats {
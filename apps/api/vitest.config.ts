@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Every test file gets its own empty database and never touches the network
+    env: {
+      DATABASE_PATH: ':memory:',
+      SOLANA_RPC_PRIMARY: '',
+      SOLANA_RPC_FALLBACK: 'http://127.0.0.1:1',
+    },
+  },
+});
@@ -110,6 +110,14 @@ export function injectOverlay(scanResult: any): void {
     });
   }
 
+  // Keep the panel open while the score breakdown is being read
+  const why = shadowRoot.querySelector('.trench-why');
+  if (why) {
+    why.addEventListener('toggle', () => {
+      if (autoMinTimer) { clearTimeout(autoMinTimer); autoMinTimer = null; }
+    });
+  }
+
   // Entrance animation
   requestAnimationFrame(() => {
     const panel = shadowRoot?.querySelector('.trench-panel');
@@ -205,8 +213,11 @@ function buildLoadingHTML(mint: string): string {
 
 function buildOverlayHTML(result: any): string {
   const { overallScore, riskLevel, tokenName, tokenSymbol, tokenImage, scanMode } = result;
-  const riskColor = getRiskColor(riskLevel);
-  const riskLabel = getRiskLabel(riskLevel);
+  const confidence = result.confidence;
+  const lowConfidence = confidence?.level === 'low';
+  // A low-confidence verdict is greyed out and marked as provisional
+  const riskColor = lowConfidence ? '#64748b' : getRiskColor(riskLevel);
+  const riskLabel = lowConfidence ? `${getRiskLabel(riskLevel)}?` : getRiskLabel(riskLevel);
 
   // SVG ring
   const radius = 17;
@@ -276,6 +287,15 @@ function buildOverlayHTML(result: any): string {
           <div class="trench-risk-label" style="color: ${riskColor}">${riskLabel}</div>
         </div>
 
+        <!-- Confidence warning -->
+        ${confidence && confidence.level !== 'high' ? `
+          <div class="trench-confidence trench-confidence--${confidence.level}">
+            ${confidence.level === 'low' ? 'Low confidence' : 'Partial data'}
+            · ${confidence.evaluatedChecks}/${confidence.totalChecks} checks, ${confidence.sourcesResponded}/${confidence.sourcesQueried} sources
+            ${confidence.reasons?.[0] ? `<div class="trench-confidence-reason">${escapeHtml(confidence.reasons[0])}</div>` : ''}
+          </div>
+        ` : ''}
+
         <!-- Summary line -->
         <div class="trench-summary">
           ${failedChecks.length > 0
@@ -295,6 +315,9 @@ function buildOverlayHTML(result: any): string {
           </div>
         ` : ''}
 
+        <!-- Why this score -->
+        ${result.scoreExplanation ? renderWhyScore(result.scoreExplanation) : ''}
+
         <!-- Market stats -->
         ${market?.marketCap || market?.liquidity ? `
           <div class="trench-market-grid">
@@ -367,6 +390,47 @@ function buildOverlayHTML(result: any): string {
   `;
 }
 
+// ─── Render the "why this score" panel ───
+
+function renderWhyScore(explanation: any): string {
+  const counted = (explanation.contributions || [])
+    .filter((c: any) => !c.excluded && c.contribution > 0)
+    .sort((a: any, b: any) => b.contribution - a.contribution)
+    .slice(0, 5);
+  const excluded: string[] = explanation.excludedChecks || [];
+  const overrides = (explanation.overrides || []).filter((o: any) => o.raisedScore);
+
+  return `
+    <details class="trench-why">
+      <summary class="trench-why-summary">Why this score?</summary>
+      <div class="trench-why-body">
+        ${counted.map((c: any) => `
+          <div class="trench-why-row">
+            <span>${escapeHtml(formatCheckName(c.check))}</span>
+            <span class="trench-why-val">+${c.contribution.toFixed(1)}</span>
+          </div>
+        `).join('')}
+        ${explanation.weightedScore != null ? `
+          <div class="trench-why-row trench-why-total">
+            <span>Weighted score</span>
+            <span class="trench-why-val">${explanation.weightedScore.toFixed(1)}</span>
+          </div>
+        ` : `<div class="trench-why-note">No checks completed — defaulted to 50</div>`}
+        ${overrides.map((o: any) => `
+          <div class="trench-why-note trench-why-note--override">
+            ${escapeHtml(formatCheckName(o.check))} scored ${o.checkScore} → floored at ${o.floor}
+          </div>
+        `).join('')}
+        ${excluded.length > 0 ? `
+          <div class="trench-why-note">
+            Excluded (no data): ${excluded.map(id => escapeHtml(formatCheckName(id))).join(', ')}
+          </div>
+        ` : ''}
+      </div>
+    </details>
+  `;
+}
+
 // ─── Render a failed check flag ───
 
 function renderFlag(check: any): string {
@@ -400,13 +464,18 @@ function buildDetailChips(checkType: string, details: any): string[] {
     case 'TOP_HOLDERS':
       if (details.topHolderPct != null) chips.push(`Top holder: ${details.topHolderPct.toFixed(1)}%`);
       if (details.holderCount != null) chips.push(`${details.holderCount} holders`);
+      if (details.nakamoto != null) chips.push(`Nakamoto: ${details.nakamoto}`);
+      if (details.freshWalletPct > 0) chips.push(`Fresh wallets: ${details.freshWalletPct.toFixed(1)}%`);
       break;
     case 'DEV_WALLET':
       if (details.devHoldingPct != null) chips.push(`Dev holds: ${details.devHoldingPct.toFixed(1)}%`);
+      if (details.soldPct > 0) chips.push(`Dev side sold: ${details.soldPct.toFixed(1)}%`);
+      if (details.solExtracted > 0) chips.push(`${details.solExtracted.toFixed(1)} SOL extracted`);
       break;
     case 'TOKEN_TAX':
-      if (details.buyTax != null) chips.push(`Buy tax: ${details.buyTax}%`);
-      if (details.sellTax != null) chips.push(`Sell tax: ${details.sellTax}%`);
+      // Taxes are fractions (0.05 = 5%)
+      if (details.buyTax != null) chips.push(`Buy tax: ${(details.buyTax * 100).toFixed(1)}%`);
+      if (details.sellTax != null) chips.push(`Sell tax: ${(details.sellTax * 100).toFixed(1)}%`);
       break;
     case 'LP_STATUS':
       if (details.lpLockedPct != null) chips.push(`LP locked: ${details.lpLockedPct.toFixed(0)}%`);
@@ -417,9 +486,37 @@ function buildDetailChips(checkType: string, details: any): string[] {
       break;
     case 'BUNDLE_DETECTION':
       if (details.bundleCount != null) chips.push(`${details.bundleCount} bundles`);
+      if (details.creatorBundlePct > 0) chips.push(`Dev bundle: ${details.creatorBundlePct.toFixed(1)}%`);
+      if (details.thirdPartyBundlePct > 0) chips.push(`Sniper bundles: ${details.thirdPartyBundlePct.toFixed(1)}%`);
       break;
     case 'SNIPER_BOTS':
-      if (details.sniperCount != null) chips.push(`${details.sniperCount} snipers`);
+      if (details.botCount != null) chips.push(`${details.botCount} snipers`);
+      break;
+    case 'TOKEN_EXTENSIONS':
+      if (Array.isArray(details.risks)) {
+        for (const r of details.risks.slice(0, 3)) chips.push(r.extension);
+      }
+      break;
+    case 'RUG_PATTERN':
+      if (details.creatorReport?.ruggedCount > 0) {
+        chips.push(`Creator rugs: ${details.creatorReport.ruggedCount}/${details.creatorReport.resolvedCount}`);
+      }
+      if (details.creatorReport?.medianLifespanHours != null) {
+        chips.push(`Median lifespan: ${details.creatorReport.medianLifespanHours}h`);
+      }
+      break;
+    case 'SOCIAL_SENTIMENT':
+      if (details.ruggedSocials?.length > 0) chips.push(`Rugged socials: ${details.ruggedSocials.length}`);
+      else if (details.sharedSocials?.length > 0) chips.push(`Reused socials: ${details.sharedSocials.length}`);
+      if (details.website?.domainAgeDays != null) chips.push(`Domain age: ${details.website.domainAgeDays}d`);
+      if (details.website && !details.website.reachable) chips.push('Website down');
+      break;
+    case 'METADATA_INTEGRITY':
+      if (details.isMutable != null) chips.push(details.isMutable ? 'Mutable' : 'Immutable');
+      if (details.isMutable && details.updateAuthorityKind) chips.push(`Authority: ${details.updateAuthorityKind}`);
+      if (Array.isArray(details.edits)) {
+        for (const e of details.edits) chips.push(`${e.field === 'uri' ? 'URI' : e.field} changed`);
+      }
       break;
   }
   return chips;
@@ -438,6 +535,8 @@ function formatCheckName(check: string): string {
     'SOCIAL_SENTIMENT': 'Social Sentiment',
     'RUG_PATTERN': 'Rug Pattern',
     'TOKEN_TAX': 'Token Tax',
+    'TOKEN_EXTENSIONS': 'Token-2022 Extensions',
+    'METADATA_INTEGRITY': 'Metadata Integrity',
     'SNIPER_BOTS': 'Sniper Bots',
   };
   return names[check] || check.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
@@ -924,6 +1023,65 @@ function getOverlayStyles(): string {
       font-weight: 800;
     }
 
+    /* ─── Confidence ─── */
+    .trench-confidence {
+      font-size: 10px;
+      font-weight: 600;
+      border-radius: 6px;
+      padding: 4px 8px;
+      margin-bottom: 8px;
+    }
+    .trench-confidence--medium { background: rgba(251,191,36,0.08); color: #fbbf24; border: 1px solid rgba(251,191,36,0.2); }
+    .trench-confidence--low { background: rgba(239,68,68,0.08); color: #f87171; border: 1px solid rgba(239,68,68,0.2); }
+    .trench-confidence-reason {
+      font-weight: 400;
+      color: #94a3b8;
+      margin-top: 2px;
+    }
+
+    /* ─── Why this score ─── */
+    .trench-why {
+      background: rgba(255,255,255,0.02);
+      border: 1px solid rgba(255,255,255,0.06);
+      border-radius: 8px;
+      margin-bottom: 8px;
+    }
+    .trench-why-summary {
+      font-size: 10px;
+      font-weight: 600;
+      color: #94a3b8;
+      padding: 6px 8px;
+      cursor: pointer;
+      user-select: none;
+    }
+    .trench-why-summary:hover { color: #c4b5fd; }
+    .trench-why-body {
+      padding: 0 8px 6px;
+    }
+    .trench-why-row {
+      display: flex;
+      justify-content: space-between;
+      font-size: 10px;
+      color: #94a3b8;
+      padding: 1px 0;
+    }
+    .trench-why-val {
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      color: #e2e8f0;
+    }
+    .trench-why-total {
+      border-top: 1px solid rgba(255,255,255,0.06);
+      margin-top: 3px;
+      padding-top: 4px;
+      font-weight: 600;
+    }
+    .trench-why-note {
+      font-size: 9px;
+      color: #64748b;
+      margin-top: 4px;
+    }
+    .trench-why-note--override { color: #f87171; }
+
     /* ─── Deep scan button ─── */
     .trench-deep-btn {
       width: 100%;
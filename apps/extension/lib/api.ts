@@ -17,6 +17,38 @@ export interface ScanResult {
   }[];
   scanMode: 'instant' | 'deep';
   scanDurationMs: number;
+  scoringProfile: string;
+  scoreExplanation: {
+    contributions: {
+      check: string;
+      score: number;
+      weight: number;
+      share: number;
+      contribution: number;
+      excluded: boolean;
+    }[];
+    excludedChecks: string[];
+    totalWeight: number;
+    evaluatedWeight: number;
+    weightedScore: number | null;
+    overrides: {
+      check: string;
+      minCheckScore: number;
+      floor: number;
+      checkScore: number;
+      raisedScore: boolean;
+    }[];
+    finalScore: number;
+  } | null;
+  confidence: {
+    level: 'high' | 'medium' | 'low';
+    completeness: number;
+    evaluatedChecks: number;
+    totalChecks: number;
+    sourcesResponded: number;
+    sourcesQueried: number;
+    reasons: string[];
+  } | null;
   platform: string;
   market: {
     priceUsd: number | null;
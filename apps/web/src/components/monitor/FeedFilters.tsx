@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { MonitorFilters, Platform } from '@trenchable/shared';
+import { Filter } from 'lucide-react';
+
+interface FeedFiltersProps {
+  onApply: (filters: MonitorFilters) => void;
+}
+
+const PLATFORMS: Platform[] = ['pump.fun', 'pumpswap', 'raydium', 'raydium-cpmm', 'meteora'];
+
+const inputClass =
+  'bg-bg border border-border rounded-xl px-3 py-2 outline-none text-text text-sm placeholder:text-text-muted focus:border-accent/50';
+
+export function FeedFilters({ onApply }: FeedFiltersProps) {
+  const [platforms, setPlatforms] = useState<Platform[]>([]);
+  const [minLiquidity, setMinLiquidity] = useState('');
+  const [maxRiskScore, setMaxRiskScore] = useState('');
+  const [namePattern, setNamePattern] = useState('');
+  const [blacklist, setBlacklist] = useState('');
+
+  const togglePlatform = (platform: Platform) => {
+    setPlatforms(prev => prev.includes(platform) ? prev.filter(p => p !== platform) : [...prev, platform]);
+  };
+
+  const handleApply = () => {
+    const filters: MonitorFilters = {};
+    if (platforms.length > 0) filters.platforms = platforms;
+    if (minLiquidity.trim()) filters.minLiquidity = Number(minLiquidity);
+    if (maxRiskScore.trim()) filters.maxRiskScore = Number(maxRiskScore);
+    if (namePattern.trim()) filters.namePattern = namePattern.trim();
+    const creators = blacklist.split(/[\s,]+/).filter(Boolean);
+    if (creators.length > 0) filters.creatorBlacklist = creators;
+    onApply(filters);
+  };
+
+  return (
+    <div className="bg-bg-card border border-border rounded-xl p-4 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <Filter size={14} className="text-text-dim" />
+        {PLATFORMS.map((platform) => (
+          <button
+            key={platform}
+            onClick={() => togglePlatform(platform)}
+            className={`px-2.5 py-1 rounded-md text-xs font-semibold border transition-colors cursor-pointer ${
+              platforms.includes(platform)
+                ? 'bg-accent/15 text-accent border-accent/30'
+                : 'text-text-dim border-border hover:border-border-hover'
+            }`}
+          >
+            {platform}
+          </button>
+        ))}
+        <span className="text-xs text-text-muted">{platforms.length === 0 ? 'All platforms' : ''}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="number"
+          min={0}
+          step="0.1"
+          value={minLiquidity}
+          onChange={(e) => setMinLiquidity(e.target.value)}
+          placeholder="Min liquidity (SOL)"
+          className={`w-40 ${inputClass}`}
+        />
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={maxRiskScore}
+          onChange={(e) => setMaxRiskScore(e.target.value)}
+          placeholder="Max risk score"
+          className={`w-36 ${inputClass}`}
+        />
+        <input
+          value={namePattern}
+          onChange={(e) => setNamePattern(e.target.value)}
+          placeholder="Name / symbol regex"
+          maxLength={64}
+          className={`w-56 font-mono ${inputClass}`}
+        />
+        <input
+          value={blacklist}
+          onChange={(e) => setBlacklist(e.target.value)}
+          placeholder="Blacklisted creators, comma separated"
+          className={`flex-1 min-w-48 font-mono ${inputClass}`}
+        />
+        <button
+          onClick={handleApply}
+          className="px-4 py-2 bg-accent/15 hover:bg-accent/25 text-accent font-semibold text-sm rounded-xl transition-colors cursor-pointer"
+        >
+          Apply
+        </button>
+      </div>
+
+      {maxRiskScore.trim() !== '' && (
+        <p className="text-xs text-text-muted mt-3">
+          With a risk limit, pairs appear once the instant scan has scored them, or as unscored if it could not.
+        </p>
+      )}
+    </div>
+  );
+}
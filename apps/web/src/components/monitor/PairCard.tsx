@@ -1,16 +1,18 @@
-import type { NewPairEvent } from '@trenchable/shared';
-import { shortenAddress, formatTimestamp } from '../../lib/format';
+import type { LivePair } from '../../hooks/useWebSocket';
+import { shortenAddress, formatTimestamp, getRiskBg, getRiskColor } from '../../lib/format';
 import { CopyButton } from '../common/CopyButton';
 import { ExternalLink } from 'lucide-react';
 
 interface PairCardProps {
-  pair: NewPairEvent;
+  pair: LivePair;
   onScan: (mint: string) => void;
 }
 
 const platformColors: Record<string, string> = {
   'pump.fun': '#00d18c',
+  pumpswap: '#00d18c',
   raydium: '#5ac4be',
+  'raydium-cpmm': '#5ac4be',
   meteora: '#f5c542',
   unknown: '#71717a',
 };
@@ -35,6 +37,29 @@ export function PairCard({ pair, onScan }: PairCardProps) {
             {formatTimestamp(pair.timestamp)}
           </span>
         </div>
+        <div className="flex items-center gap-2">
+          {pair.initialLiquidity !== null && pair.initialLiquidity > 0 && (
+            <span className="text-xs text-text-dim font-mono">
+              {pair.initialLiquidity.toFixed(2)} SOL
+            </span>
+          )}
+          {pair.type === 'new_pair' || pair.overallScore === null ? (
+            <span
+              className="text-xs text-text-muted"
+              title={pair.type === 'new_pair' ? undefined : 'The instant scan failed; run a scan to score it'}
+            >
+              Unscored
+            </span>
+          ) : (
+            <span
+              className={`px-2 py-0.5 rounded-md text-xs font-bold border ${getRiskBg(pair.overallScore)}`}
+              style={{ color: getRiskColor(pair.overallScore) }}
+              title={pair.type === 'rescored' ? 'Deep scan score' : 'Instant scan score; deep scan pending'}
+            >
+              {pair.overallScore}{pair.type === 'scored' && '*'}
+            </span>
+          )}
+        </div>
       </div>
 
       <div className="flex items-center gap-2 mb-3">
@@ -53,6 +78,12 @@ export function PairCard({ pair, onScan }: PairCardProps) {
         <CopyButton text={pair.tokenMint} />
       </div>
 
+      {pair.creator && (
+        <div className="text-xs text-text-muted mb-3">
+          Creator <code className="font-mono">{shortenAddress(pair.creator, 4)}</code>
+        </div>
+      )}
+
       <div className="flex items-center gap-2">
         <button
           onClick={() => onScan(pair.tokenMint)}
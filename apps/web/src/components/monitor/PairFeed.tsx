@@ -1,8 +1,8 @@
-import type { NewPairEvent } from '@trenchable/shared';
+import type { LivePair } from '../../hooks/useWebSocket';
 import { PairCard } from './PairCard';
 
 interface PairFeedProps {
-  pairs: NewPairEvent[];
+  pairs: LivePair[];
   onScan: (mint: string) => void;
 }
 
@@ -13,7 +13,7 @@ export function PairFeed({ pairs, onScan }: PairFeedProps) {
         <div className="text-4xl mb-4">&#x1F4E1;</div>
         <h3 className="text-lg font-semibold text-text mb-2">Listening for new pairs...</h3>
         <p className="text-text-dim text-sm max-w-sm mx-auto">
-          New token pairs from pump.fun and Raydium will appear here in real-time.
+          New launches on pump.fun, PumpSwap, Raydium and Meteora will appear here in real-time.
           Make sure your RPC supports WebSocket connections.
         </p>
       </div>
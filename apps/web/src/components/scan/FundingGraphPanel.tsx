@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { FundingEdge, WalletGraphResponse } from '@trenchable/shared';
+import { getWalletGraph } from '../../lib/api';
+import { shortenAddress } from '../../lib/format';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { ChevronDown, ChevronRight, GitFork } from 'lucide-react';
+
+function formatAmount(edge: FundingEdge): string {
+  return edge.asset === 'SOL'
+    ? `${(Number(edge.amount) / 1e9).toFixed(2)} SOL`
+    : `${edge.amount} ${shortenAddress(edge.asset)}`;
+}
+
+function label(address: string, graph: WalletGraphResponse): string {
+  if (address.startsWith('exchange:')) return address.slice('exchange:'.length);
+  if (address === graph.creator) return `${shortenAddress(address)} (creator)`;
+  const name = graph.nodes.find(n => n.address === address)?.label;
+  return name ? `${shortenAddress(address)} (${name})` : shortenAddress(address);
+}
+
+export function FundingGraphPanel({ tokenMint }: { tokenMint: string }) {
+  const [open, setOpen] = useState(false);
+  // The trace is expensive — only run it once the panel is opened
+  const { data: graph, isLoading, error } = useQuery({
+    queryKey: ['wallet-graph', tokenMint],
+    queryFn: () => getWalletGraph(tokenMint),
+    enabled: open,
+    staleTime: 5 * 60_000,
+  });
+
+  return (
+    <div className="mt-4 bg-bg-card border border-border rounded-xl">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-5 py-3 text-left cursor-pointer"
+      >
+        <div className="flex items-center gap-2">
+          <GitFork size={15} className="text-accent" />
+          <span className="text-sm font-semibold text-text">Funding graph</span>
+          <span className="text-xs text-text-muted">
+            {graph
+              ? `${graph.clusters.length} cluster(s) among ${graph.seeds.length} wallets, ${graph.depth} hop(s) back`
+              : 'Trace who funded the creator and early buyers'}
+          </span>
+        </div>
+        {open ? <ChevronDown size={16} className="text-text-muted" /> : <ChevronRight size={16} className="text-text-muted" />}
+      </button>
+
+      {open && (
+        <div className="px-5 pb-4 space-y-3">
+          {isLoading && <LoadingSpinner />}
+          {error && <p className="text-xs text-critical">{(error as Error).message}</p>}
+
+          {graph && graph.clusters.length === 0 && (
+            <p className="text-xs text-text-muted">No shared funding sources found.</p>
+          )}
+
+          {graph?.clusters.map(cluster => (
+            <div key={cluster.fundingSource} className="border border-border rounded-lg p-3 space-y-1.5">
+              <div className="flex justify-between text-xs">
+                <span className="text-text font-semibold font-mono">{label(cluster.fundingSource, graph)}</span>
+                <span className="text-text-muted">
+                  {cluster.wallets.length} wallets{cluster.totalPct > 0 ? ` · ${cluster.totalPct}% of supply` : ''}
+                </span>
+              </div>
+              {cluster.paths.map(path => (
+                <div key={path.wallet} className="text-xs text-text-dim font-mono truncate">
+                  {path.hops.length === 0
+                    ? shortenAddress(path.wallet)
+                    : path.hops.map(hop => `${label(hop.from, graph)} —${formatAmount(hop)}→ `).join('') + label(path.wallet, graph)}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {graph && graph.exchangeFunded.length > 0 && (
+            <p className="text-xs text-text-muted">
+              Exchange-funded (not counted as clusters):{' '}
+              {graph.exchangeFunded.map(e => `${e.exchange} → ${e.wallets.length} wallets`).join(', ')}
+            </p>
+          )}
+          {graph?.truncated && (
+            <p className="text-xs text-text-muted">Trace limits were reached; some funders were not followed.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
-import type { RiskCheckResult } from '@trenchable/shared';
+import type { LaunchBundle, RiskCheckResult } from '@trenchable/shared';
 import { StatusBadge } from '../common/StatusBadge';
 import { getRiskColor } from '../../lib/format';
 import {
   Shield, Snowflake, Droplets, Users, Package, Wallet, Bug,
-  Network, MessageSquare, AlertOctagon, Receipt, Crosshair,
+  Network, MessageSquare, AlertOctagon, Receipt, Crosshair, Puzzle, FileText,
 } from 'lucide-react';
 
 const checkIcons: Record<string, typeof Shield> = {
@@ -11,21 +11,31 @@ const checkIcons: Record<string, typeof Shield> = {
   TOP_HOLDERS: Users, BUNDLE_DETECTION: Package, DEV_WALLET: Wallet,
   HONEYPOT: Bug, WALLET_CLUSTER: Network, SOCIAL_SENTIMENT: MessageSquare,
   RUG_PATTERN: AlertOctagon, TOKEN_TAX: Receipt, SNIPER_BOTS: Crosshair,
+  TOKEN_EXTENSIONS: Puzzle, METADATA_INTEGRITY: FileText,
 };
 
-const checkLabels: Record<string, string> = {
+export const checkLabels: Record<string, string> = {
   MINT_AUTHORITY: 'Mint Authority', FREEZE_AUTHORITY: 'Freeze Authority',
   LP_STATUS: 'LP Status', TOP_HOLDERS: 'Top Holders',
   BUNDLE_DETECTION: 'Bundle Detection', DEV_WALLET: 'Dev Wallet',
   HONEYPOT: 'Honeypot Check', WALLET_CLUSTER: 'Wallet Clustering',
   SOCIAL_SENTIMENT: 'Social Sentiment', RUG_PATTERN: 'Rug Patterns',
   TOKEN_TAX: 'Token Tax/Fees', SNIPER_BOTS: 'Sniper Bots',
+  TOKEN_EXTENSIONS: 'Token-2022 Extensions', METADATA_INTEGRITY: 'Metadata Integrity',
 };
 
+interface WebsiteCheck {
+  site: string;
+  reachable: boolean;
+  referencesMint: boolean | null;
+  domainAgeDays: number | null;
+}
+
 export function RiskCard({ result }: { result: RiskCheckResult }) {
   const Icon = checkIcons[result.check] || Shield;
   const label = checkLabels[result.check] || result.check;
   const color = getRiskColor(result.score);
+  const website = result.check === 'SOCIAL_SENTIMENT' ? (result.details.website as WebsiteCheck | null | undefined) : null;
 
   return (
     <div className="bg-bg-card border border-border rounded-xl p-4 hover:border-border-hover transition-colors">
@@ -59,6 +69,14 @@ export function RiskCard({ result }: { result: RiskCheckResult }) {
       <p className="text-sm text-text-dim leading-relaxed">{String(result.message)}</p>
 
       {/* Details (expandable in future) */}
+      {result.check === 'TOP_HOLDERS' && typeof result.details.holderCount === 'number' && (
+        <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-xs text-text-muted">
+          <span>{result.details.holderCount.toLocaleString()} holders</span>
+          {typeof result.details.gini === 'number' && <span>Gini {result.details.gini.toFixed(2)}</span>}
+          {typeof result.details.nakamoto === 'number' && <span>Nakamoto {result.details.nakamoto}</span>}
+          {typeof result.details.freshWalletPct === 'number' && <span>Fresh wallets {result.details.freshWalletPct}%</span>}
+        </div>
+      )}
       {result.check === 'TOP_HOLDERS' && Array.isArray(result.details.holders) && (
         <div className="mt-3 space-y-1">
           {(result.details.holders as { address: string; percentage: number }[])
@@ -73,6 +91,78 @@ export function RiskCard({ result }: { result: RiskCheckResult }) {
             ))}
         </div>
       )}
+      {result.check === 'BUNDLE_DETECTION' && Array.isArray(result.details.bundles) && result.details.bundles.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {(result.details.bundles as LaunchBundle[]).slice(0, 5).map((b) => (
+            <div key={b.signatures[0]} className="flex justify-between gap-2 text-xs">
+              <span className="text-text-muted">
+                <span className={b.origin === 'creator' ? 'text-critical' : undefined}>
+                  {b.origin === 'creator' ? 'Dev' : 'Sniper'}
+                </span>
+                {' '}· {b.wallets.length} wallets · {b.signals.join(', ')}
+              </span>
+              <span className="text-text-dim font-mono">{b.supplyPct}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {result.check === 'SNIPER_BOTS' && Array.isArray(result.details.detectedBots) && result.details.detectedBots.length > 0 && (
+        <div className="mt-3 space-y-1.5">
+          {(result.details.detectedBots as { wallet: string; probability: number; reason: string }[])
+            .slice(0, 5)
+            .map((b) => (
+              <div key={b.wallet} className="text-xs">
+                <div className="flex justify-between font-mono">
+                  <span className="text-text-muted">{b.wallet.slice(0, 4)}...{b.wallet.slice(-4)}</span>
+                  <span className="text-text-dim">{Math.round(b.probability * 100)}% bot</span>
+                </div>
+                <div className="text-text-muted">{b.reason}</div>
+              </div>
+            ))}
+        </div>
+      )}
+      {result.check === 'DEV_WALLET' && typeof result.details.devSideHoldingPct === 'number' && (
+        <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-xs text-text-muted">
+          <span>Dev side holds {result.details.devSideHoldingPct}%</span>
+          {Array.isArray(result.details.devSideWallets) && result.details.devSideWallets.length > 1 && (
+            <span>{result.details.devSideWallets.length} wallets</span>
+          )}
+          {typeof result.details.soldPct === 'number' && result.details.soldPct > 0 && (
+            <span>Sold {result.details.soldPct}% for {Number(result.details.solExtracted).toFixed(2)} SOL</span>
+          )}
+        </div>
+      )}
+      {result.check === 'DEV_WALLET' && Array.isArray(result.details.sells) && result.details.sells.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {(result.details.sells as { wallet: string; signature: string; time: number | null; pct: number; sol: number; venue: string; exchange: string | null }[])
+            .slice(-5)
+            .reverse()
+            .map((s) => (
+              <div key={s.signature} className="flex justify-between text-xs font-mono">
+                <span className="text-text-muted">
+                  {s.time ? new Date(s.time).toLocaleString() : '—'} {s.wallet.slice(0, 4)}...{s.wallet.slice(-4)}
+                </span>
+                <span className="text-text-dim">
+                  -{s.pct}% {s.venue === 'cex' ? `→ ${s.exchange ?? 'CEX'}` : `+${s.sol.toFixed(2)} SOL`}
+                </span>
+              </div>
+            ))}
+        </div>
+      )}
+      {website && (
+        <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-xs text-text-muted">
+          <span className="font-mono">{website.site}</span>
+          {website.domainAgeDays !== null && <span>Registered {website.domainAgeDays}d ago</span>}
+          <span>{!website.reachable ? 'Does not load' : website.referencesMint ? 'Mentions mint' : 'No mint on page'}</span>
+        </div>
+      )}
+      {result.check === 'SOCIAL_SENTIMENT' && Array.isArray(result.details.socialFlags) && result.details.socialFlags.length > 1 && (
+        <ul className="mt-3 space-y-1 text-xs text-text-muted">
+          {(result.details.socialFlags as string[]).slice(1).map((flag) => (
+            <li key={flag}>{flag}</li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -1,15 +1,20 @@
 import { getRiskColor, getRiskLabel } from '../../lib/format';
-import type { RiskLevel } from '@trenchable/shared';
+import type { ConfidenceLevel, RiskLevel } from '@trenchable/shared';
 
 interface RiskGaugeProps {
   score: number;
   level: RiskLevel;
   size?: number;
+  confidence?: ConfidenceLevel;
 }
 
-export function RiskGauge({ score, level, size = 200 }: RiskGaugeProps) {
-  const color = getRiskColor(score);
-  const label = getRiskLabel(level);
+// Colour used instead of the risk colour when the verdict is not backed by enough data
+const LOW_CONFIDENCE_COLOR = '#64748b';
+
+export function RiskGauge({ score, level, size = 200, confidence = 'high' }: RiskGaugeProps) {
+  const lowConfidence = confidence === 'low';
+  const color = lowConfidence ? LOW_CONFIDENCE_COLOR : getRiskColor(score);
+  const label = lowConfidence ? `${getRiskLabel(level)}?` : getRiskLabel(level);
 
   // SVG arc calculations
   const strokeWidth = 12;
@@ -44,6 +49,7 @@ export function RiskGauge({ score, level, size = 200 }: RiskGaugeProps) {
             strokeLinecap="round"
             strokeDasharray={circumference}
             strokeDashoffset={offset}
+            strokeOpacity={confidence === 'high' ? 1 : 0.6}
             className="transition-all duration-1000 ease-out"
             style={{
               filter: `drop-shadow(0 0 8px ${color}40)`,
@@ -71,6 +77,11 @@ export function RiskGauge({ score, level, size = 200 }: RiskGaugeProps) {
       >
         {label}
       </div>
+      {confidence !== 'high' && (
+        <span className={`text-xs font-semibold uppercase tracking-wider ${lowConfidence ? 'text-critical' : 'text-warning'}`}>
+          {confidence} confidence
+        </span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import type { AppliedOverride, ScoreExplanation } from '@trenchable/shared';
+import { checkLabels } from './RiskCard';
+import { getRiskColor } from '../../lib/format';
+import { ChevronDown, ChevronRight, HelpCircle, ArrowUpToLine } from 'lucide-react';
+
+export function ScoreBreakdown({ explanation }: { explanation: ScoreExplanation }) {
+  const [open, setOpen] = useState(false);
+
+  const counted = explanation.contributions
+    .filter(c => !c.excluded)
+    .sort((a, b) => b.contribution - a.contribution);
+  const excludedPct = explanation.totalWeight > 0
+    ? Math.round((1 - explanation.evaluatedWeight / explanation.totalWeight) * 100)
+    : 0;
+  // Several overrides can raise the score; the highest floor is the one that set it
+  const firedOverride = explanation.overrides
+    .filter(o => o.raisedScore)
+    .reduce<AppliedOverride | null>((top, o) => (top && top.floor >= o.floor ? top : o), null);
+
+  return (
+    <div className="mt-4 bg-bg-card border border-border rounded-xl">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-5 py-3 text-left cursor-pointer"
+      >
+        <div className="flex items-center gap-2">
+          <HelpCircle size={15} className="text-accent" />
+          <span className="text-sm font-semibold text-text">Why this score?</span>
+          <span className="text-xs text-text-muted">
+            {firedOverride
+              ? `Floored at ${firedOverride.floor} by ${checkLabels[firedOverride.check] || firedOverride.check}`
+              : `Weighted average of ${counted.length} checks`}
+          </span>
+        </div>
+        {open ? <ChevronDown size={16} className="text-text-muted" /> : <ChevronRight size={16} className="text-text-muted" />}
+      </button>
+
+      {open && (
+        <div className="px-5 pb-4 space-y-3">
+          {/* Contributions */}
+          <div className="space-y-1.5">
+            {counted.map(c => (
+              <div key={c.check} className="flex items-center gap-3 text-xs">
+                <span className="w-32 flex-shrink-0 text-text-dim">{checkLabels[c.check] || c.check}</span>
+                <div className="flex-1 h-1.5 bg-border rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${Math.min(c.contribution, 100)}%`, backgroundColor: getRiskColor(c.score) }}
+                  />
+                </div>
+                <span className="w-28 flex-shrink-0 text-right text-text-muted font-mono">
+                  {c.score} × {(c.share * 100).toFixed(1)}% = <span className="text-text">{c.contribution.toFixed(1)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between text-xs pt-2 border-t border-border">
+            <span className="text-text-muted">Weighted score</span>
+            <span className="text-text font-semibold">
+              {explanation.weightedScore != null ? explanation.weightedScore.toFixed(1) : '— (no checks completed, defaulted to 50)'}
+            </span>
+          </div>
+
+          {/* Excluded checks and renormalization */}
+          {explanation.excludedChecks.length > 0 && (
+            <p className="text-xs text-text-muted">
+              {explanation.excludedChecks.map(id => checkLabels[id] || id).join(', ')}{' '}
+              {explanation.excludedChecks.length === 1 ? 'was' : 'were'} excluded (no data). Their {excludedPct}% of the
+              weight was redistributed across the remaining checks.
+            </p>
+          )}
+
+          {/* Overrides */}
+          {explanation.overrides.map(o => (
+            <div key={`${o.check}-${o.floor}`} className="flex items-start gap-2 text-xs">
+              <ArrowUpToLine size={13} className={o.raisedScore ? 'text-critical mt-0.5' : 'text-text-muted mt-0.5'} />
+              <span className={o.raisedScore ? 'text-text' : 'text-text-muted'}>
+                {checkLabels[o.check] || o.check} scored {o.checkScore} (≥ {o.minCheckScore}), so the score is at least {o.floor}
+                {o.raisedScore ? '' : ' — already above that floor'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
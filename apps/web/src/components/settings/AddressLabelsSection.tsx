@@ -0,0 +1,239 @@
+import { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ADDRESS_LABEL_CATEGORIES, type AddressLabelCategory, type AddressLabelExport } from '@trenchable/shared';
+import { getAddressLabels, saveAddressLabel, deleteAddressLabel, exportAddressLabels, importAddressLabels } from '../../lib/api';
+import { shortenAddress } from '../../lib/format';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { BookUser, Download, Upload, Trash2, CheckCircle, XCircle } from 'lucide-react';
+
+const CATEGORY_NAMES: Record<AddressLabelCategory, string> = {
+  cex: 'Exchange',
+  'mev-bot': 'MEV bot',
+  lp: 'AMM / pool',
+  locker: 'LP locker',
+  burn: 'Burn',
+  rugger: 'Known rugger',
+  other: 'Other',
+};
+
+export function AddressLabelsSection() {
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState<AddressLabelCategory | ''>('');
+  const [address, setAddress] = useState('');
+  const [category, setCategory] = useState<AddressLabelCategory>('rugger');
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const labels = useQuery({
+    queryKey: ['address-labels', filter],
+    queryFn: () => getAddressLabels(filter || undefined),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['address-labels'] });
+
+  const saveMutation = useMutation({
+    mutationFn: saveAddressLabel,
+    onSuccess: () => {
+      setAddress('');
+      setName('');
+      setNotes('');
+      refresh();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAddressLabel,
+    onSuccess: refresh,
+  });
+
+  const importMutation = useMutation({
+    // A file that isn't JSON surfaces as the mutation error
+    mutationFn: async (file: File) => importAddressLabels(JSON.parse(await file.text()) as AddressLabelExport),
+    onSuccess: refresh,
+  });
+
+  const handleSave = () => {
+    if (!address.trim() || !name.trim()) return;
+    saveMutation.mutate({ address: address.trim(), category, name: name.trim(), notes: notes.trim() || null });
+  };
+
+  const handleExport = async () => {
+    const data = await exportAddressLabels();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'address-labels.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    importMutation.mutate(file);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="bg-bg-card border border-border rounded-xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-semibold text-text-muted uppercase tracking-wider">
+          Address Labels
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-text-dim hover:text-text border border-border rounded-lg transition-colors cursor-pointer"
+          >
+            <Download size={12} />
+            Export
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={importMutation.isPending}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-text-dim hover:text-text border border-border rounded-lg transition-colors cursor-pointer disabled:opacity-40"
+          >
+            <Upload size={12} />
+            Import
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <p className="text-text-dim text-sm mb-4">
+        Known wallets used by the checks: exchanges and pools are left out of holder concentration,
+        MEV bots are flagged as snipers, and known ruggers mark the dev and any wallets funded by them.
+        Imports keep whichever copy of a label has the higher version.
+      </p>
+
+      {importMutation.isSuccess && (
+        <div className="flex items-center gap-2 text-safe text-sm mb-4">
+          <CheckCircle size={14} />
+          Imported {importMutation.data.created} new, {importMutation.data.updated} updated, {importMutation.data.skipped} unchanged
+          {importMutation.data.errors.length > 0 && ` · ${importMutation.data.errors.length} invalid`}
+        </div>
+      )}
+
+      {importMutation.isError && (
+        <div className="flex items-center gap-2 text-critical text-sm mb-4">
+          <XCircle size={14} />
+          {(importMutation.error as Error).message}
+        </div>
+      )}
+
+      {/* Add / edit */}
+      <div className="space-y-3 mb-5">
+        <div className="flex gap-3">
+          <input
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="Wallet or program address"
+            className="flex-1 bg-bg border border-border rounded-xl px-4 py-2.5 outline-none text-text text-sm font-mono placeholder:text-text-muted focus:border-accent/50"
+          />
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as AddressLabelCategory)}
+            className="bg-bg border border-border rounded-xl px-3 py-2.5 outline-none text-text text-sm cursor-pointer"
+          >
+            {ADDRESS_LABEL_CATEGORIES.map((c) => (
+              <option key={c} value={c}>{CATEGORY_NAMES[c]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            maxLength={64}
+            className="w-48 bg-bg border border-border rounded-xl px-4 py-2.5 outline-none text-text text-sm placeholder:text-text-muted focus:border-accent/50"
+          />
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            maxLength={500}
+            className="flex-1 bg-bg border border-border rounded-xl px-4 py-2.5 outline-none text-text text-sm placeholder:text-text-muted focus:border-accent/50"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saveMutation.isPending || !address.trim() || !name.trim()}
+            className="px-5 py-2.5 bg-accent hover:bg-accent-dim disabled:opacity-40 text-white font-semibold rounded-xl transition-colors cursor-pointer disabled:cursor-not-allowed text-sm"
+          >
+            {saveMutation.isPending ? <LoadingSpinner size={16} /> : 'Save'}
+          </button>
+        </div>
+
+        {saveMutation.isError && (
+          <div className="flex items-center gap-2 text-critical text-sm">
+            <XCircle size={14} />
+            {(saveMutation.error as Error).message}
+          </div>
+        )}
+      </div>
+
+      {/* List */}
+      <div className="flex items-center gap-2 bg-bg border border-border rounded-xl px-4 py-2.5 mb-3">
+        <BookUser size={16} className="text-text-muted flex-shrink-0" />
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as AddressLabelCategory | '')}
+          className="flex-1 bg-transparent outline-none text-text text-sm cursor-pointer"
+        >
+          <option value="">All categories</option>
+          {ADDRESS_LABEL_CATEGORIES.map((c) => (
+            <option key={c} value={c}>{CATEGORY_NAMES[c]}</option>
+          ))}
+        </select>
+        <span className="text-xs text-text-muted">{labels.data?.length ?? 0} labels</span>
+      </div>
+
+      {labels.isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size={20} />
+        </div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto divide-y divide-border">
+          {labels.data?.map((label) => (
+            <div key={label.address} className="flex items-center gap-3 py-2 text-sm">
+              <button
+                onClick={() => {
+                  setAddress(label.address);
+                  setCategory(label.category);
+                  setName(label.name);
+                  setNotes(label.notes ?? '');
+                }}
+                title={label.address}
+                className="font-mono text-text-dim hover:text-accent cursor-pointer"
+              >
+                {shortenAddress(label.address)}
+              </button>
+              <span className="text-text flex-1 truncate" title={label.notes ?? undefined}>{label.name}</span>
+              <span className="text-xs text-text-muted">{CATEGORY_NAMES[label.category]}</span>
+              <span className="text-xs text-text-muted w-16 text-right">
+                {label.source === 'builtin' ? 'built-in' : `v${label.version}`}
+              </span>
+              {label.source !== 'builtin' ? (
+                <button
+                  onClick={() => deleteMutation.mutate(label.address)}
+                  className="text-text-muted hover:text-critical transition-colors cursor-pointer"
+                  title="Delete label"
+                >
+                  <Trash2 size={14} />
+                </button>
+              ) : (
+                <span className="w-3.5" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
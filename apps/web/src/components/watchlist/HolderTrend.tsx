@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { getHolderSeries } from '../../lib/api';
+import { Users } from 'lucide-react';
+
+// Holder count and top-10 share against the snapshot a day earlier
+const TREND_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function signed(n: number, suffix = ''): string {
+  return `${n > 0 ? '+' : ''}${n}${suffix}`;
+}
+
+export function HolderTrend({ tokenMint }: { tokenMint: string }) {
+  const { data } = useQuery({
+    queryKey: ['holder-series', tokenMint],
+    queryFn: () => getHolderSeries(tokenMint, Date.now() - TREND_WINDOW_MS),
+    refetchInterval: 5 * 60_000,
+  });
+
+  const points = data?.points ?? [];
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const holderChange = last.holderCount - first.holderCount;
+  const top10Change = Math.round((last.top10Pct - first.top10Pct) * 10) / 10;
+  const whaleEntries = points.reduce((s, p) => s + p.whaleEntries.length, 0);
+  const whaleExits = points.reduce((s, p) => s + p.whaleExits.length, 0);
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-text-muted mb-3">
+      <Users size={12} />
+      <span>
+        {last.holderCount.toLocaleString()} holders
+        {points.length > 1 && holderChange !== 0 && ` (${signed(holderChange)})`}
+      </span>
+      <span>|</span>
+      <span className={top10Change >= 10 ? 'text-critical' : undefined}>
+        Top 10: {last.top10Pct}%
+        {points.length > 1 && top10Change !== 0 && ` (${signed(top10Change, 'pt')})`}
+      </span>
+      {(whaleEntries > 0 || whaleExits > 0) && (
+        <>
+          <span>|</span>
+          <span>Whales +{whaleEntries} / -{whaleExits}</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { WatchlistAlert, WatchlistEntry } from '@trenchable/shared';
+import { getWatchlistAlerts, acknowledgeWatchlistAlert } from '../../lib/api';
+import { shortenAddress } from '../../lib/format';
+import { AlertTriangle, X } from 'lucide-react';
+
+const SEVERITY_STYLES: Record<WatchlistAlert['severity'], { box: string; icon: string }> = {
+  warning: { box: 'bg-warning/10 border-warning/30', icon: 'text-warning' },
+  danger: { box: 'bg-critical/10 border-critical/30', icon: 'text-critical' },
+};
+
+interface WatchlistAlertsProps {
+  watchlist: WatchlistEntry[];
+}
+
+export function WatchlistAlerts({ watchlist }: WatchlistAlertsProps) {
+  const queryClient = useQueryClient();
+
+  const { data: alerts } = useQuery({
+    queryKey: ['watchlist-alerts'],
+    queryFn: () => getWatchlistAlerts(),
+    refetchInterval: 60_000,
+  });
+
+  const ackMutation = useMutation({
+    mutationFn: acknowledgeWatchlistAlert,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['watchlist-alerts'] }),
+  });
+
+  if (!alerts || alerts.length === 0) return null;
+
+  const tokenName = (tokenMint: string) => {
+    const entry = watchlist.find(e => e.tokenMint === tokenMint);
+    return entry?.tokenSymbol ? `$${entry.tokenSymbol}` : entry?.tokenName || shortenAddress(tokenMint, 4);
+  };
+
+  return (
+    <div className="space-y-2 mb-6">
+      {alerts.map((alert) => {
+        const styles = SEVERITY_STYLES[alert.severity];
+        return (
+          <div
+            key={alert.id}
+            className={`flex items-start gap-3 p-3 rounded-xl border ${styles.box}`}
+          >
+            <AlertTriangle size={16} className={`${styles.icon} mt-0.5 shrink-0`} />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-semibold text-text">
+                {tokenName(alert.tokenMint)}
+                <span className="ml-2 text-xs font-medium text-text-muted capitalize">{alert.kind}</span>
+              </div>
+              <p className="text-sm text-text-dim">{alert.message}</p>
+              <span className="text-xs text-text-muted">{new Date(alert.createdAt).toLocaleString()}</span>
+            </div>
+            <button
+              onClick={() => ackMutation.mutate(alert.id)}
+              disabled={ackMutation.isPending}
+              title="Dismiss"
+              className="p-1 text-text-muted hover:text-text transition-colors cursor-pointer"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,16 +1,27 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { NewPairEvent } from '@trenchable/shared';
+import type { MonitorFeedMessage, MonitorFilters, NewPairEvent, ScoredPairEvent } from '@trenchable/shared';
+
+// A pair as last heard of: unscored, or with its latest score
+export type LivePair = NewPairEvent | ScoredPairEvent;
 
 export function useWebSocket() {
-  const [pairs, setPairs] = useState<NewPairEvent[]>([]);
+  const [pairs, setPairs] = useState<LivePair[]>([]);
   const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
+  // Re-sent on every reconnect
+  const filtersRef = useRef<MonitorFilters | null>(null);
 
   const connect = useCallback(() => {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const ws = new WebSocket(`${protocol}//${window.location.host}/api/ws/monitor`);
 
-    ws.onopen = () => setConnected(true);
+    ws.onopen = () => {
+      setConnected(true);
+      if (filtersRef.current) {
+        ws.send(JSON.stringify({ type: 'subscribe', filters: filtersRef.current }));
+      }
+    };
     ws.onclose = () => {
       setConnected(false);
       // Auto-reconnect after 5 seconds
@@ -20,8 +31,25 @@ export function useWebSocket() {
 
     ws.onmessage = (event) => {
       try {
-        const data: NewPairEvent = JSON.parse(event.data);
-        setPairs(prev => [data, ...prev].slice(0, 100)); // Keep last 100
+        const data: MonitorFeedMessage = JSON.parse(event.data);
+        switch (data.type) {
+          case 'new_pair':
+            setPairs(prev => [data, ...prev].slice(0, 100)); // Keep last 100
+            break;
+          case 'scored':
+          case 'rescored':
+            // Scores replace the pair in place; pairs held back for a risk filter arrive here first
+            setPairs(prev => prev.some(p => p.tokenMint === data.tokenMint)
+              ? prev.map(p => (p.tokenMint === data.tokenMint ? data : p))
+              : [data, ...prev].slice(0, 100));
+            break;
+          case 'subscribed':
+            setError(null);
+            break;
+          case 'error':
+            setError(data.message ?? data.error);
+            break;
+        }
       } catch {
         // Ignore parse errors
       }
@@ -39,5 +67,13 @@ export function useWebSocket() {
 
   const clearPairs = useCallback(() => setPairs([]), []);
 
-  return { pairs, connected, clearPairs };
+  const subscribe = useCallback((filters: MonitorFilters) => {
+    filtersRef.current = filters;
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'subscribe', filters }));
+    }
+  }, []);
+
+  return { pairs, connected, error, clearPairs, subscribe };
 }
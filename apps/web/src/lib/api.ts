@@ -1,4 +1,4 @@
-import type { ScanResponse, ExtendedScanResponse, HealthResponse, ScanHistoryEntry, WatchlistEntry, ComparisonData } from '@trenchable/shared';
+import type { ScanResponse, ExtendedScanResponse, HealthResponse, ScanHistoryEntry, WatchlistEntry, ComparisonData, ScoringProfile, WalletGraphResponse, AddressLabel, AddressLabelCategory, AddressLabelExport, AddressLabelImportResult, WatchlistAlert, HolderSeriesResponse } from '@trenchable/shared';
 
 const API_BASE = (import.meta.env.VITE_API_URL ?? '') + '/api';
 
@@ -14,6 +14,11 @@ async function fetchJSON<T>(url: string, options?: RequestInit): Promise<T> {
   return res.json();
 }
 
+// Optional ?profile= suffix; empty means the server picks (API key mapping or default)
+function profileQuery(profile?: string): string {
+  return profile ? `?profile=${encodeURIComponent(profile)}` : '';
+}
+
 // Scan
 export function scanToken(tokenMint: string): Promise<ScanResponse> {
   return fetchJSON<ScanResponse>('/scan', {
@@ -26,12 +31,17 @@ export function getScan(tokenMint: string): Promise<ScanResponse> {
   return fetchJSON<ScanResponse>(`/scan/${tokenMint}`);
 }
 
-export function getInstantScan(tokenMint: string): Promise<ExtendedScanResponse> {
-  return fetchJSON<ExtendedScanResponse>(`/scan/instant/${tokenMint}`);
+export function getInstantScan(tokenMint: string, profile?: string): Promise<ExtendedScanResponse> {
+  return fetchJSON<ExtendedScanResponse>(`/scan/instant/${tokenMint}${profileQuery(profile)}`);
+}
+
+export function getDeepScan(tokenMint: string, profile?: string): Promise<ExtendedScanResponse> {
+  return fetchJSON<ExtendedScanResponse>(`/scan/deep/${tokenMint}${profileQuery(profile)}`);
 }
 
-export function getDeepScan(tokenMint: string): Promise<ExtendedScanResponse> {
-  return fetchJSON<ExtendedScanResponse>(`/scan/deep/${tokenMint}`);
+// Funding graph (creator + early buyers, traced `depth` hops back)
+export function getWalletGraph(tokenMint: string, depth?: number): Promise<WalletGraphResponse> {
+  return fetchJSON<WalletGraphResponse>(`/wallet-graph/${tokenMint}${depth ? `?depth=${depth}` : ''}`);
 }
 
 // Health
@@ -51,6 +61,38 @@ export function getRpcSettings(): Promise<{ primaryRpc: string | null; fallbackR
   return fetchJSON('/settings/rpc');
 }
 
+// Scoring profiles
+export function getScoringProfiles(): Promise<{ profiles: ScoringProfile[]; defaultProfile: string }> {
+  return fetchJSON('/scoring/profiles');
+}
+
+// Address labels
+export function getAddressLabels(category?: AddressLabelCategory): Promise<AddressLabel[]> {
+  return fetchJSON<AddressLabel[]>(`/labels${category ? `?category=${category}` : ''}`);
+}
+
+export function saveAddressLabel(label: Pick<AddressLabel, 'address' | 'category' | 'name' | 'notes'>): Promise<AddressLabel> {
+  return fetchJSON<AddressLabel>(`/labels/${label.address}`, {
+    method: 'PUT',
+    body: JSON.stringify(label),
+  });
+}
+
+export function deleteAddressLabel(address: string): Promise<{ success: boolean }> {
+  return fetchJSON(`/labels/${address}`, { method: 'DELETE' });
+}
+
+export function exportAddressLabels(): Promise<AddressLabelExport> {
+  return fetchJSON<AddressLabelExport>('/labels/export');
+}
+
+export function importAddressLabels(data: AddressLabelExport, overwrite = false): Promise<AddressLabelImportResult> {
+  return fetchJSON<AddressLabelImportResult>(`/labels/import${overwrite ? '?overwrite=true' : ''}`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
 // History
 export function getScanHistory(limit = 50, offset = 0): Promise<ScanHistoryEntry[]> {
   return fetchJSON<ScanHistoryEntry[]>(`/history?limit=${limit}&offset=${offset}`);
@@ -91,6 +133,18 @@ export function rescanAllWatchlist(): Promise<{ rescanned: number; results: { to
   return fetchJSON('/watchlist/rescan-all', { method: 'POST' });
 }
 
+export function getWatchlistAlerts(unacknowledgedOnly = true): Promise<WatchlistAlert[]> {
+  return fetchJSON<WatchlistAlert[]>(`/watchlist/alerts${unacknowledgedOnly ? '?unacknowledged=true' : ''}`);
+}
+
+export function acknowledgeWatchlistAlert(id: number): Promise<{ success: boolean }> {
+  return fetchJSON(`/watchlist/alerts/${id}/ack`, { method: 'POST', body: JSON.stringify({}) });
+}
+
+export function getHolderSeries(tokenMint: string, since?: number): Promise<HolderSeriesResponse> {
+  return fetchJSON<HolderSeriesResponse>(`/watchlist/${tokenMint}/holders${since ? `?since=${since}` : ''}`);
+}
+
 // Compare
 export function compareTokens(tokenMints: string[]): Promise<ComparisonData> {
   return fetchJSON<ComparisonData>('/compare', {
@@ -126,7 +126,7 @@ export function ComparePage() {
                   </code>
                   <CopyButton text={scan.tokenMint} />
                 </div>
-                <RiskGauge score={scan.overallScore} level={scan.riskLevel} size={140} />
+                <RiskGauge score={scan.overallScore} level={scan.riskLevel} size={140} confidence={scan.confidence?.level} />
                 <span className="text-xs text-text-muted capitalize mt-3">{scan.platform}</span>
               </div>
             ))}
@@ -1,11 +1,12 @@
 import { useNavigate } from 'react-router-dom';
 import { useWebSocket } from '../hooks/useWebSocket';
 import { PairFeed } from '../components/monitor/PairFeed';
-import { Radio, Wifi, WifiOff, Trash2 } from 'lucide-react';
+import { FeedFilters } from '../components/monitor/FeedFilters';
+import { Radio, Wifi, WifiOff, Trash2, XCircle } from 'lucide-react';
 
 export function MonitorPage() {
   const navigate = useNavigate();
-  const { pairs, connected, clearPairs } = useWebSocket();
+  const { pairs, connected, error, clearPairs, subscribe } = useWebSocket();
 
   const handleScan = (mint: string) => {
     navigate(`/scan/${mint}`);
@@ -21,7 +22,7 @@ export function MonitorPage() {
             <h1 className="text-2xl font-bold">Live Pair Monitor</h1>
           </div>
           <p className="text-text-dim text-sm">
-            Real-time feed of new token pairs on pump.fun and Raydium
+            Real-time feed of new token launches, scored as the launch monitor scans them
           </p>
         </div>
 
@@ -51,6 +52,15 @@ export function MonitorPage() {
         </div>
       </div>
 
+      <FeedFilters onApply={subscribe} />
+
+      {error && (
+        <div className="flex items-center gap-2 text-critical text-sm mb-4">
+          <XCircle size={14} />
+          {error}
+        </div>
+      )}
+
       {/* Feed */}
       <PairFeed pairs={pairs} onScan={handleScan} />
     </div>
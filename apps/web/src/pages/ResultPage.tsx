@@ -2,13 +2,16 @@ import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { getInstantScan, getDeepScan } from '../lib/api';
+import { useSettings } from '../stores/settings.store';
 import { AddressInput } from '../components/scan/AddressInput';
 import { RiskGauge } from '../components/scan/RiskGauge';
 import { RiskCard } from '../components/scan/RiskCard';
 import { ScanSummary } from '../components/scan/ScanSummary';
+import { ScoreBreakdown } from '../components/scan/ScoreBreakdown';
+import { FundingGraphPanel } from '../components/scan/FundingGraphPanel';
 import { LoadingSpinner } from '../components/common/LoadingSpinner';
 import { AlertTriangle, TrendingUp, TrendingDown, Minus, Zap, ChevronRight } from 'lucide-react';
-import type { ExtendedScanResponse } from '@trenchable/shared';
+import type { ExtendedScanResponse, ScanConfidence } from '@trenchable/shared';
 
 function formatUsd(value: number | null | undefined): string {
   if (value == null) return '—';
@@ -94,18 +97,38 @@ function MCPredictionPanel({ scan }: { scan: ExtendedScanResponse }) {
   );
 }
 
+function ConfidenceNotice({ confidence, isDeepMode }: { confidence: ScanConfidence; isDeepMode: boolean }) {
+  const isLow = confidence.level === 'low';
+  return (
+    <div className={`mt-4 rounded-xl px-5 py-3 border ${isLow ? 'bg-critical/5 border-critical/30' : 'bg-warning/5 border-warning/30'}`}>
+      <div className={`flex items-center gap-2 text-sm font-semibold ${isLow ? 'text-critical' : 'text-warning'}`}>
+        <AlertTriangle size={15} />
+        {isLow ? 'Low confidence — treat this score as provisional' : 'Partial data — score may shift'}
+        <span className="ml-auto text-xs font-normal text-text-muted">
+          {confidence.evaluatedChecks}/{confidence.totalChecks} checks · {confidence.sourcesResponded}/{confidence.sourcesQueried} sources
+        </span>
+      </div>
+      <ul className="mt-1.5 text-xs text-text-dim space-y-0.5">
+        {confidence.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+        {isLow && !isDeepMode && <li>A deep scan runs on-chain checks that do not depend on external APIs.</li>}
+      </ul>
+    </div>
+  );
+}
+
 export function ResultPage() {
   const { address } = useParams<{ address: string }>();
   const navigate = useNavigate();
   const [deepRequested, setDeepRequested] = useState(false);
+  const scoringProfile = useSettings(s => s.scoringProfile);
 
   const {
     data: scan,
     isLoading,
     error,
   } = useQuery({
-    queryKey: ['instant-scan', address],
-    queryFn: () => getInstantScan(address!),
+    queryKey: ['instant-scan', address, scoringProfile],
+    queryFn: () => getInstantScan(address!, scoringProfile),
     enabled: !!address,
     retry: 1,
     staleTime: 30_000,
@@ -116,8 +139,8 @@ export function ResultPage() {
     isLoading: deepLoading,
     refetch: runDeepScan,
   } = useQuery({
-    queryKey: ['deep-scan', address],
-    queryFn: () => getDeepScan(address!),
+    queryKey: ['deep-scan', address, scoringProfile],
+    queryFn: () => getDeepScan(address!, scoringProfile),
     enabled: false,
     retry: 0,
     staleTime: 120_000,
@@ -192,6 +215,17 @@ export function ResultPage() {
       {/* Summary */}
       <ScanSummary scan={activeScan} />
 
+      {/* Confidence warning */}
+      {activeScan.confidence && activeScan.confidence.level !== 'high' && (
+        <ConfidenceNotice confidence={activeScan.confidence} isDeepMode={isDeepMode} />
+      )}
+
+      {/* Score explanation */}
+      {activeScan.scoreExplanation && <ScoreBreakdown explanation={activeScan.scoreExplanation} />}
+
+      {/* Funding graph */}
+      <FundingGraphPanel tokenMint={activeScan.tokenMint} />
+
       {/* Deep scan banner */}
       {!isDeepMode && !deepRequested && (
         <div className="mt-4 flex items-center justify-between bg-accent/5 border border-accent/20 rounded-xl px-5 py-3">
@@ -228,7 +262,7 @@ export function ResultPage() {
             <h3 className="text-sm font-semibold text-text-muted uppercase tracking-wider mb-6">
               Overall Risk Score
             </h3>
-            <RiskGauge score={activeScan.overallScore} level={activeScan.riskLevel} />
+            <RiskGauge score={activeScan.overallScore} level={activeScan.riskLevel} confidence={activeScan.confidence?.level} />
 
             <div className="mt-6 w-full space-y-2">
               <div className="flex justify-between text-sm">
@@ -258,6 +292,10 @@ export function ResultPage() {
                   {activeScan.scanMode ?? 'instant'}
                 </span>
               </div>
+              <div className="flex justify-between text-xs text-text-muted mt-1">
+                <span>Scoring profile</span>
+                <span className="font-semibold text-text-dim">{activeScan.scoringProfile}</span>
+              </div>
               <div className="flex justify-between text-xs text-text-muted mt-1">
                 <span>Duration</span>
                 <span>{activeScan.scanDurationMs}ms</span>
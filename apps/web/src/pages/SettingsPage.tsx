@@ -1,12 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { getRpcSettings, updateRpc, getHealth } from '../lib/api';
+import { getRpcSettings, updateRpc, getHealth, getScoringProfiles } from '../lib/api';
 import { useSettings } from '../stores/settings.store';
-import { Settings, Server, Zap, CheckCircle, XCircle } from 'lucide-react';
+import { Settings, Server, Zap, CheckCircle, XCircle, Scale } from 'lucide-react';
 import { LoadingSpinner } from '../components/common/LoadingSpinner';
+import { AddressLabelsSection } from '../components/settings/AddressLabelsSection';
 
 export function SettingsPage() {
-  const { rpcUrl, setRpcUrl } = useSettings();
+  const { rpcUrl, setRpcUrl, scoringProfile, setScoringProfile } = useSettings();
   const [inputUrl, setInputUrl] = useState(rpcUrl);
 
   const health = useQuery({
@@ -20,6 +21,11 @@ export function SettingsPage() {
     queryFn: getRpcSettings,
   });
 
+  const scoringProfiles = useQuery({
+    queryKey: ['scoring-profiles'],
+    queryFn: getScoringProfiles,
+  });
+
   const updateMutation = useMutation({
     mutationFn: updateRpc,
     onSuccess: (data) => {
@@ -119,6 +125,44 @@ export function SettingsPage() {
         </div>
       </div>
 
+      {/* Scoring profile */}
+      <div className="bg-bg-card border border-border rounded-xl p-6 mb-6">
+        <h2 className="text-sm font-semibold text-text-muted uppercase tracking-wider mb-4">
+          Scoring Profile
+        </h2>
+
+        <p className="text-text-dim text-sm mb-4">
+          Profiles change how check results are weighted into the overall score and where the risk level
+          thresholds sit. The checks themselves are the same for every profile.
+        </p>
+
+        <div className="flex items-center gap-2 bg-bg border border-border rounded-xl px-4 py-3 focus-within:border-accent/50">
+          <Scale size={16} className="text-text-muted flex-shrink-0" />
+          <select
+            value={scoringProfile}
+            onChange={(e) => setScoringProfile(e.target.value)}
+            className="flex-1 bg-transparent outline-none text-text text-sm cursor-pointer"
+          >
+            <option value="">
+              Server default{scoringProfiles.data ? ` (${scoringProfiles.data.defaultProfile})` : ''}
+            </option>
+            {scoringProfiles.data?.profiles.map((p) => (
+              <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {scoringProfiles.data?.profiles
+          .filter((p) => p.name === scoringProfile)
+          .map((p) => (
+            <p key={p.name} className="text-text-dim text-xs mt-3">
+              {p.description ?? 'Custom profile'} · low ≤ {p.thresholds.low}, moderate ≤ {p.thresholds.moderate}, high ≤ {p.thresholds.high}
+            </p>
+          ))}
+      </div>
+
+      <AddressLabelsSection />
+
       {/* Info card */}
       <div className="bg-accent/5 border border-accent/20 rounded-xl p-5">
         <h3 className="font-semibold text-accent text-sm mb-2">Recommended RPC Providers</h3>
@@ -7,6 +7,8 @@ import {
 } from '../lib/api';
 import { shortenAddress, getRiskColor, getRiskLabel } from '../lib/format';
 import { LoadingSpinner } from '../components/common/LoadingSpinner';
+import { WatchlistAlerts } from '../components/watchlist/WatchlistAlerts';
+import { HolderTrend } from '../components/watchlist/HolderTrend';
 import { Eye, Trash2, RefreshCw, TrendingUp, TrendingDown, Minus, ArrowRight } from 'lucide-react';
 
 export function WatchlistPage() {
@@ -46,7 +48,7 @@ export function WatchlistPage() {
             <h1 className="text-2xl font-bold">Watchlist</h1>
           </div>
           <p className="text-text-dim text-sm">
-            Track tokens and auto-rescan every 5 minutes
+            Track tokens, auto-rescan every 5 minutes and get alerted when holders shift
           </p>
         </div>
 
@@ -84,6 +86,8 @@ export function WatchlistPage() {
         </div>
       )}
 
+      {watchlist && watchlist.length > 0 && <WatchlistAlerts watchlist={watchlist} />}
+
       {watchlist && watchlist.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {watchlist.map((entry) => {
@@ -129,6 +133,8 @@ export function WatchlistPage() {
                   )}
                 </div>
 
+                <HolderTrend tokenMint={entry.tokenMint} />
+
                 {/* Meta */}
                 <div className="flex items-center gap-2 text-xs text-text-muted mb-4">
                   <span className="capitalize">{entry.platform}</span>
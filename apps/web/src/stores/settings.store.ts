@@ -4,6 +4,8 @@ import { persist } from 'zustand/middleware';
 interface SettingsState {
   rpcUrl: string;
   setRpcUrl: (url: string) => void;
+  scoringProfile: string;  // '' = server default
+  setScoringProfile: (name: string) => void;
 }
 
 export const useSettings = create<SettingsState>()(
@@ -11,6 +13,8 @@ export const useSettings = create<SettingsState>()(
     (set) => ({
       rpcUrl: '',
       setRpcUrl: (url: string) => set({ rpcUrl: url }),
+      scoringProfile: '',
+      setScoringProfile: (name: string) => set({ scoringProfile: name }),
     }),
     { name: 'trenchable-settings' }
   )
@@ -8,9 +8,37 @@ export const PROGRAM_IDS = {
   PUMP_SWAP_AMM: 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA',
   PUMP_FUN_MIGRATION: '39azUYFWPz3VHgKCf3VChUwbpURdCHRxjWVowf5jUJjg',
   METEORA_DLMM: 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo',
+  METEORA_DAMM: 'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB',
+  TOKEN_METADATA: 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s',
+  COMPUTE_BUDGET: 'ComputeBudget111111111111111111111111111111',
+} as const;
+
+// Jito block engine tip accounts; a transfer to one marks a transaction sent as part of a bundle
+export const JITO_TIP_ACCOUNTS = new Set([
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+]);
+
+// pump.fun's mint authority PDA — also the update authority of every pump.fun token's metadata
+export const PUMP_FUN_MINT_AUTHORITY = 'TSLvdd1pWpHVjahSpsvCXUbgwsL3JAcvokwaKt1eokM';
+
+// Programs that hold LP tokens in time-locked escrow
+export const LP_LOCKER_PROGRAMS = {
+  RAYDIUM_LP_LOCK: 'LockrWmn6K5twhz3y9w1dQERbmgSaRkfnTeTKbpofwE',
+  STREAMFLOW: 'strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m',
+  // Meteora DAMM lock escrows are accounts of the AMM program itself
+  METEORA_DAMM: PROGRAM_IDS.METEORA_DAMM,
 } as const;
 
 export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+export const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
 export const BURN_ADDRESS = '1nc1nerator11111111111111111111111111111111';
 
 // Risk scoring thresholds
@@ -21,47 +49,49 @@ export const RISK_THRESHOLDS = {
   CRITICAL: 100,
 } as const;
 
-// Deep scan weights (all 12 checks)
-export const RISK_WEIGHTS = {
-  MINT_AUTHORITY: 0.14,
-  FREEZE_AUTHORITY: 0.10,
-  LP_STATUS: 0.15,
-  TOP_HOLDERS: 0.12,
-  BUNDLE_DETECTION: 0.10,
-  DEV_WALLET: 0.08,
-  HONEYPOT: 0.08,
-  WALLET_CLUSTER: 0.07,
-  SOCIAL_SENTIMENT: 0.04,
-  RUG_PATTERN: 0.05,
-  TOKEN_TAX: 0.04,
-  SNIPER_BOTS: 0.03,
-} as const;
-
-// Instant scan weights (9 checks — cluster/sniper/bundle merged into rug_pattern)
-// Rebalanced for external-API-only fidelity
-export const INSTANT_RISK_WEIGHTS = {
-  LP_STATUS: 0.18,
-  MINT_AUTHORITY: 0.15,
-  TOP_HOLDERS: 0.14,
-  RUG_PATTERN: 0.13,  // absorbs cluster + sniper + bundle signals
-  HONEYPOT: 0.12,
-  FREEZE_AUTHORITY: 0.10,
-  DEV_WALLET: 0.07,
-  TOKEN_TAX: 0.06,
-  SOCIAL_SENTIMENT: 0.05,
-} as const;
+// Check weights are derived from the API check registry (apps/api/src/checks)
 
 // Pump.fun bonding curve graduation threshold in lamports (85 SOL)
 export const PUMP_FUN_GRADUATION_SOL = 85;
 export const LAMPORTS_PER_SOL = 1_000_000_000;
 
 // Known sniper bot wallets (well-known MEV/snipe bots on Solana)
+// Seeds the 'mev-bot' address labels; add more through /api/labels
 export const KNOWN_SNIPER_BOTS = new Set([
-  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',   // Jupiter aggregator (not a bot but often in early txs)
   'MEVx29EAWB63LFHorah4nCUqMXRdEQLv5nMhAi2cfN1',   // Known MEV bot
-  'Bot1111111111111111111111111111111111111111',      // Placeholder for known bots
 ]);
 
+// Features the sniper classifier scores launch buyers on, in weight order
+export const SNIPER_FEATURES = [
+  'txRate',           // Transactions per hour over recent history
+  'tokenDiversity',   // Distinct tokens traded per transaction
+  'shortHold',        // How quickly tokens are sold after buying
+  'flipRate',         // Share of traded tokens both bought and sold
+  'profitRate',       // Share of flips that made SOL
+  'jitoUsage',        // Share of transactions paying a Jito tip
+  'priorityFeeUsage', // Share of transactions setting a compute unit price
+  'freshWallet',      // First transaction under a day old
+  'sameSlot',         // Bought in the creation slot
+] as const;
+
+export const ADDRESS_LABEL_CATEGORIES = ['cex', 'mev-bot', 'lp', 'locker', 'burn', 'rugger', 'other'] as const;
+
+// Known exchange hot wallets — seed the 'cex' address labels the funding graph stops at
+export const KNOWN_EXCHANGE_WALLETS: Record<string, string> = {
+  '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9': 'Binance',
+  '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM': 'Binance',
+  'H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS': 'Coinbase',
+  'GJRs4FwHtemZ5ZE9x3FNvJ8TMwitKTh21yxdRPqn7npE': 'Coinbase',
+  '2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm': 'Coinbase',
+  '5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD': 'OKX',
+  'is6MTRHEgyFLNTfYcuV4QBWLjrZBfmhVNYR6ccgr8KV': 'OKX',
+  'AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2': 'Bybit',
+  'FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5': 'Kraken',
+  'BmFdpraQhkiDQE6SnfG5omcA1VwzqfXrwtNYBwWTymy6': 'KuCoin',
+  'u6PJ8DtQuPFnfmwHbGFULQ4u4EgjDiyYKjVEsynXq2w': 'Gate.io',
+  'ASTyfSima4LLAdDgoFGkgqoKowG1LZFDr9fAQrg7iaJZ': 'MEXC',
+};
+
 // Known rug patterns — token metadata indicators
 export const RUG_PATTERN_INDICATORS = {
   // Suspicious name patterns
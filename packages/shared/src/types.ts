@@ -1,4 +1,4 @@
-export type RiskCheckType =
+export type BuiltinRiskCheckType =
   | 'MINT_AUTHORITY'
   | 'FREEZE_AUTHORITY'
   | 'LP_STATUS'
@@ -10,11 +10,16 @@ export type RiskCheckType =
   | 'SOCIAL_SENTIMENT'
   | 'RUG_PATTERN'
   | 'TOKEN_TAX'
+  | 'TOKEN_EXTENSIONS'
+  | 'METADATA_INTEGRITY'
   | 'SNIPER_BOTS';
 
+// Checks registered at runtime (in-house checks) use their own ids
+export type RiskCheckType = BuiltinRiskCheckType | (string & {});
+
 export type RiskStatus = 'safe' | 'warning' | 'danger' | 'unknown';
 export type RiskLevel = 'low' | 'moderate' | 'high' | 'critical';
-export type Platform = 'pump.fun' | 'raydium' | 'meteora' | 'unknown';
+export type Platform = 'pump.fun' | 'pumpswap' | 'raydium' | 'raydium-cpmm' | 'meteora' | 'unknown';
 
 export interface RiskCheckResult {
   check: RiskCheckType;
@@ -63,6 +68,25 @@ export interface ScanResponse {
   externalRisk: ExternalRiskData | null;
   socials: { type: string; url: string }[];
   websites: string[];
+  scoringProfile: string;   // Name of the scoring profile that produced overallScore
+  scoreExplanation: ScoreExplanation;
+  dataSources: Record<DataSource, SourceStatus>;
+  confidence: ScanConfidence;
+}
+
+// Data completeness
+export type DataSource = 'helius' | 'goplus' | 'dexscreener' | 'rugcheck' | 'jupiter';
+export type SourceStatus = 'ok' | 'no_data' | 'not_queried';
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface ScanConfidence {
+  level: ConfidenceLevel;
+  completeness: number;       // 0-1, share of total check weight actually evaluated
+  evaluatedChecks: number;
+  totalChecks: number;
+  sourcesResponded: number;
+  sourcesQueried: number;
+  reasons: string[];          // Why confidence is below 'high'
 }
 
 export interface ScanRequest {
@@ -76,10 +100,52 @@ export interface NewPairEvent {
   tokenName: string | null;
   tokenSymbol: string | null;
   creator: string;
+  // Quote deposited at creation, in SOL; null when the quote isn't SOL or the pool starts empty
   initialLiquidity: number | null;
+  // The create/initialize transaction
+  signature: string;
   timestamp: number;
 }
 
+// A launch with the launch monitor's score: 'scored' when the instant scan
+// finishes, 'rescored' when the deep scan that follows it does. A launch the
+// instant scan failed on is still sent as 'scored', flagged unscored and
+// without a score, so risk-filtered clients see it too
+export interface ScoredPairEvent extends Omit<NewPairEvent, 'type'> {
+  type: 'scored' | 'rescored';
+  unscored: boolean;
+  overallScore: number | null;
+  riskLevel: RiskLevel | null;
+  scoredAt: number;
+}
+
+// What a live feed client wants to see; every filter is optional
+export interface MonitorFilters {
+  platforms?: Platform[];
+  // SOL; unknown liquidity counts as none
+  minLiquidity?: number;
+  // Held back until the instant scan scores the pair; launches it could not
+  // score still arrive, flagged unscored
+  maxRiskScore?: number;
+  // Case-insensitive regex tested against the name and symbol. Matched in
+  // linear time, so backreferences, lookaround, \b and {n,m} are rejected
+  namePattern?: string;
+  creatorBlacklist?: string[];
+}
+
+// Client → server on /api/ws/monitor; replaces any earlier subscription
+export interface MonitorSubscribeMessage {
+  type: 'subscribe';
+  filters: MonitorFilters;
+}
+
+// Server → client on /api/ws/monitor
+export type MonitorFeedMessage =
+  | NewPairEvent
+  | ScoredPairEvent
+  | { type: 'subscribed'; filters: MonitorFilters }
+  | { type: 'error'; error: string; message?: string };
+
 export interface HealthResponse {
   status: 'ok' | 'error';
   rpcConnected: boolean;
@@ -94,6 +160,58 @@ export interface HolderInfo {
   isBurn: boolean;
 }
 
+// Full holder index of a mint. Percentages are of circulating supply:
+// pools, lockers, burn and exchange wallets are left out
+export interface HolderSnapshot {
+  tokenMint: string;
+  takenAt: number;
+  holderCount: number;
+  tokenAccounts: number;       // Non-zero token accounts, including excluded ones
+  excludedPct: number;         // Share of total supply in excluded wallets
+  gini: number;                // 0 = equal balances, 1 = one wallet holds everything
+  nakamoto: number;            // Fewest wallets that together hold over half
+  top10Pct: number;
+  freshWalletPct: number;      // Held by fresh wallets among the largest holders
+  freshWalletsChecked: number;
+  topHolders: { address: string; pct: number; fresh: boolean | null }[];
+  // Dev and insider wallets followed for a watchlisted token
+  tracked: { address: string; role: 'dev' | 'insider'; pct: number }[];
+}
+
+// One point of a token's holder time series; whales are holders of at least 1%
+export interface HolderSeriesPoint {
+  takenAt: number;
+  holderCount: number;
+  top10Pct: number;
+  gini: number;
+  nakamoto: number;
+  freshWalletPct: number;
+  trackedPct: number | null;
+  // Against the previous point
+  whaleEntries: { address: string; pct: number }[];
+  whaleExits: { address: string; pct: number }[];
+}
+
+export interface HolderSeriesResponse {
+  tokenMint: string;
+  points: HolderSeriesPoint[];
+}
+
+// Watchlist alerts
+// concentration: top-10 share jumped; distribution: dev/insider wallets are selling down
+export type WatchlistAlertKind = 'concentration' | 'distribution';
+
+export interface WatchlistAlert {
+  id: number;
+  tokenMint: string;
+  kind: WatchlistAlertKind;
+  severity: 'warning' | 'danger';
+  message: string;
+  details: Record<string, unknown>;
+  createdAt: number;
+  acknowledged: boolean;
+}
+
 // Scan history
 export interface ScanHistoryEntry {
   id: number;
@@ -129,6 +247,155 @@ export interface WalletCluster {
   totalPct: number;
 }
 
+// Launch bundles
+export type BundleSignal = 'jito-tip' | 'shared-payer' | 'multi-wallet-tx' | 'fingerprint' | 'shared-funding';
+
+// Launch-window buyers tied together by one or more signals
+export interface LaunchBundle {
+  wallets: string[];
+  signatures: string[];
+  slots: number[];
+  signals: BundleSignal[];
+  supplyPct: number;       // Of total supply, bought in the launch window
+  jitoTipLamports: number;
+  feePayers: string[];
+  // 'creator' when the dev is in it: bought, paid the fees, or funded the wallets
+  origin: 'creator' | 'third-party';
+}
+
+// Sniper classifier
+export type SniperFeature =
+  | 'txRate' | 'tokenDiversity' | 'shortHold' | 'flipRate' | 'profitRate'
+  | 'jitoUsage' | 'priorityFeeUsage' | 'freshWallet' | 'sameSlot';
+
+// Each feature scaled to 0..1
+export type SniperFeatureVector = Record<SniperFeature, number>;
+
+export interface SniperModel {
+  version: number | null;  // null for the built-in weights
+  weights: SniperFeatureVector;
+  bias: number;
+  samples: number;
+  positives: number;
+  accuracy: number | null; // On the training set
+  fittedAt: number | null;
+}
+
+// Wallet funding graph
+// A SOL or token transfer signed by the sender; asset is 'SOL' or a mint address
+export interface FundingEdge {
+  from: string;
+  to: string;
+  asset: string;
+  amount: string;     // Raw units (lamports / token base units)
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+}
+
+export type FundingNodeKind = 'seed' | 'funder' | 'exchange';
+
+export interface FundingNode {
+  // Exchange hot wallets are collapsed into one node per exchange, e.g. "exchange:Binance"
+  address: string;
+  kind: FundingNodeKind;
+  label: string | null;
+  depth: number;      // Hops back from the nearest seed
+}
+
+// How funds reached a seed wallet from a cluster root; hops run root → wallet
+export interface FundingPath {
+  wallet: string;
+  hops: FundingEdge[];
+}
+
+// fundingSource is the shared ancestor that reaches the most wallets in the cluster
+export interface FundingCluster extends WalletCluster {
+  depth: number;      // Longest path from the root, in hops
+  paths: FundingPath[];
+}
+
+export interface FundingGraph {
+  seeds: string[];
+  depth: number;
+  nodes: FundingNode[];
+  edges: FundingEdge[];
+  clusters: FundingCluster[];
+  // Seeds whose only common source is an exchange — not evidence of coordination
+  exchangeFunded: { exchange: string; wallets: string[] }[];
+  tracedWallets: number;
+  // True when wallet or funder limits cut the trace short
+  truncated: boolean;
+}
+
+export interface WalletGraphResponse extends FundingGraph {
+  tokenMint: string;
+  creator: string | null;
+  earlyBuyers: { wallet: string; slot: number; pct: number }[];
+}
+
+// Creator reputation
+// rugged: flagged by the outcome tracker, or dead within a day of launch with its liquidity pulled or price collapsed
+export type CreatorLaunchOutcome = 'rugged' | 'dead' | 'alive' | 'unknown';
+
+export interface CreatorLaunch {
+  mint: string;
+  deployer: string;     // Wallet in the creator's cluster that launched it
+  platform: 'pump.fun' | 'raydium' | 'spl';
+  signature: string;
+  launchedAt: number | null;
+  outcome: CreatorLaunchOutcome;
+  outcomeSource: 'tracker' | 'dexscreener' | null;
+  // Launch to rug or last trade; null while alive or when unknown
+  lifespanHours: number | null;
+  liquidityUsd: number | null;
+}
+
+export interface CreatorReport {
+  creator: string;
+  // The creator plus the funding-linked wallets that were searched
+  wallets: string[];
+  launches: CreatorLaunch[];
+  launchCount: number;
+  resolvedCount: number;
+  ruggedCount: number;
+  rugRate: number | null;   // rugged / resolved, 0-1
+  medianLifespanHours: number | null;
+  // True when a wallet had more history than was searched
+  truncated: boolean;
+  generatedAt: number;
+}
+
+// Address labels
+export type AddressLabelCategory = 'cex' | 'mev-bot' | 'lp' | 'locker' | 'burn' | 'rugger' | 'other';
+// builtin: shipped with the server; team: added through the API or UI; import: loaded from a JSON export
+export type AddressLabelSource = 'builtin' | 'team' | 'import';
+
+export interface AddressLabel {
+  address: string;
+  category: AddressLabelCategory;
+  name: string;
+  notes: string | null;
+  source: AddressLabelSource;
+  version: number;      // Starts at 1, bumped on every edit
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AddressLabelExport {
+  formatVersion: 1;
+  exportedAt: number;
+  labels: Pick<AddressLabel, 'address' | 'category' | 'name' | 'notes' | 'version'>[];
+}
+
+export interface AddressLabelImportResult {
+  created: number;
+  updated: number;
+  // Existing labels left alone: same or newer version, or overwrite not requested
+  skipped: number;
+  errors: string[];
+}
+
 // Social sentiment
 export interface SocialSentimentData {
   twitterMentions: number;
@@ -139,6 +406,19 @@ export interface SocialSentimentData {
   accountAgeDays: number | null;
 }
 
+export type SocialKind = 'website' | 'twitter' | 'telegram';
+
+// A token's social link reduced to what identifies it: a domain, X handle or Telegram handle
+export interface SocialHandle {
+  kind: SocialKind;
+  handle: string;
+}
+
+// A handle this token shares with other mints we've scanned
+export interface SharedSocial extends SocialHandle {
+  mints: string[];
+}
+
 // Comparison
 export interface ComparisonData {
   scans: ScanResponse[];
@@ -147,6 +427,54 @@ export interface ComparisonData {
 // Scan mode
 export type ScanMode = 'instant' | 'deep';
 
+// Scoring profiles
+export interface ScoreOverrideRule {
+  check: RiskCheckType;
+  minCheckScore: number;  // Rule fires when the check scores at or above this
+  floor: number;          // ...and floors the overall score at this value
+  modes?: ScanMode[];     // Limit the rule to some scan modes (default: all)
+}
+
+export interface RiskLevelThresholds {
+  low: number;        // score <= low → 'low'
+  moderate: number;   // score <= moderate → 'moderate'
+  high: number;       // score <= high → 'high', above → 'critical'
+}
+
+// Score explanation — how overallScore was derived from the checks
+export interface CheckContribution {
+  check: RiskCheckType;
+  score: number;
+  weight: number;          // Profile weight before renormalization
+  share: number;           // Fraction of evaluated weight (0 when excluded)
+  contribution: number;    // Points this check adds to the weighted average (score × share)
+  excluded: boolean;       // Status was 'unknown', so the check did not count
+}
+
+export interface AppliedOverride extends ScoreOverrideRule {
+  checkScore: number;
+  raisedScore: boolean;    // False when the weighted score was already above the floor
+}
+
+export interface ScoreExplanation {
+  contributions: CheckContribution[];
+  excludedChecks: RiskCheckType[];
+  totalWeight: number;            // Sum of weights across all checks
+  evaluatedWeight: number;        // Sum of weights across checks that completed
+  weightedScore: number | null;   // Renormalized average before overrides; null when nothing completed (50 is used)
+  overrides: AppliedOverride[];   // Override rules whose condition was met
+  finalScore: number;
+}
+
+export interface ScoringProfile {
+  name: string;
+  description: string | null;
+  weights: Record<string, number>;  // Per-check weight overrides; unlisted checks keep registry defaults
+  overrides: ScoreOverrideRule[];
+  thresholds: RiskLevelThresholds;
+  builtin: boolean;
+}
+
 // MC Prediction
 export interface BondingCurveData {
   progressPct: number;